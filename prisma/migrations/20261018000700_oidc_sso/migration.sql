@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "User" ALTER COLUMN "passwordHash" DROP NOT NULL,
+ADD COLUMN     "oidcSubject" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_oidcSubject_key" ON "User"("oidcSubject");
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "pendingEmail" TEXT;
+
+-- AlterTable
+ALTER TABLE "EmailVerificationToken" ADD COLUMN     "email" TEXT;
+
+-- Links issued before email changes existed confirm the account's current address
+UPDATE "EmailVerificationToken" t SET "email" = u."email" FROM "User" u WHERE u."id" = t."userId";
+
+ALTER TABLE "EmailVerificationToken" ALTER COLUMN "email" SET NOT NULL;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "PermissionPreset" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "permissions" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PermissionPreset_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PermissionPreset_name_key" ON "PermissionPreset"("name");
+
+-- Default presets (editable by admins)
+INSERT INTO "PermissionPreset" ("id", "name", "description", "permissions", "updatedAt") VALUES
+('preset_viewer', 'Viewer', 'Read-only access to everything',
+ '[{"module":"meetings","myLevel":"VIEW","allLevel":"VIEW"},{"module":"deadlines","myLevel":"VIEW","allLevel":"VIEW"},{"module":"schedule","myLevel":"VIEW","allLevel":"VIEW"}]',
+ CURRENT_TIMESTAMP),
+('preset_team_lead', 'Team lead', 'Manages meetings and deadlines of the whole team',
+ '[{"module":"meetings","myLevel":"EDIT","allLevel":"EDIT"},{"module":"deadlines","myLevel":"EDIT","allLevel":"EDIT"},{"module":"schedule","myLevel":"EDIT","allLevel":"VIEW"}]',
+ CURRENT_TIMESTAMP),
+('preset_scheduler', 'Scheduler', 'Plans everyone''s shifts',
+ '[{"module":"meetings","myLevel":"VIEW","allLevel":"VIEW"},{"module":"deadlines","myLevel":"VIEW","allLevel":"VIEW"},{"module":"schedule","myLevel":"EDIT","allLevel":"EDIT"}]',
+ CURRENT_TIMESTAMP);
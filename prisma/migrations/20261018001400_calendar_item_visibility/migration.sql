@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CalendarItem" ADD COLUMN "visibility" TEXT NOT NULL DEFAULT 'PUBLIC';
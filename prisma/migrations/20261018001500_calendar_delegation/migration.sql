@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "AuditEvent" ADD COLUMN "onBehalfOfId" TEXT;
+
+-- CreateTable
+CREATE TABLE "CalendarDelegation" (
+    "id" TEXT NOT NULL,
+    "scopes" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "principalId" TEXT NOT NULL,
+    "delegateId" TEXT NOT NULL,
+
+    CONSTRAINT "CalendarDelegation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CalendarDelegation_principalId_delegateId_key" ON "CalendarDelegation"("principalId", "delegateId");
+
+-- CreateIndex
+CREATE INDEX "CalendarDelegation_delegateId_idx" ON "CalendarDelegation"("delegateId");
+
+-- AddForeignKey
+ALTER TABLE "AuditEvent" ADD CONSTRAINT "AuditEvent_onBehalfOfId_fkey" FOREIGN KEY ("onBehalfOfId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CalendarDelegation" ADD CONSTRAINT "CalendarDelegation_principalId_fkey" FOREIGN KEY ("principalId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CalendarDelegation" ADD CONSTRAINT "CalendarDelegation_delegateId_fkey" FOREIGN KEY ("delegateId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "UserPermission" ADD COLUMN "validFrom" TIMESTAMP(3),
+ADD COLUMN "validUntil" TIMESTAMP(3),
+ADD COLUMN "expiryNotifiedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "UserPermission_validUntil_idx" ON "UserPermission"("validUntil");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "CalendarItem" ADD COLUMN "recurrence" TEXT,
+ADD COLUMN "exceptionDates" TIMESTAMP(3)[] DEFAULT ARRAY[]::TIMESTAMP(3)[],
+ADD COLUMN "seriesId" TEXT,
+ADD COLUMN "originalStartAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CalendarItem_seriesId_originalStartAt_key" ON "CalendarItem"("seriesId", "originalStartAt");
+
+-- AddForeignKey
+ALTER TABLE "CalendarItem" ADD CONSTRAINT "CalendarItem_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "CalendarItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "WorkspaceSettings" ADD COLUMN "timeZone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "timeZone" TEXT;
+
+-- AlterTable
+ALTER TABLE "CalendarItem" ADD COLUMN "timeZone" TEXT;
+
+-- Dates were stored as local midnight of the server or browser; round to the nearest UTC midnight
+UPDATE "CalendarItem" SET "startAt" = date_trunc('day', "startAt" + INTERVAL '12 hours') WHERE "allDay" = true;
+
+-- AlterTable
+ALTER TABLE "ScheduleEntry" ALTER COLUMN "date" SET DATA TYPE DATE USING date_trunc('day', "date" + INTERVAL '12 hours')::DATE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CalendarItemParticipant" ADD COLUMN "rsvpComment" TEXT;
@@ -28,6 +28,7 @@ async function main() {
       email: "admin@example.com",
       passwordHash: adminPasswordHash,
       role: "ADMIN",
+      emailVerifiedAt: new Date(),
     },
   });
 
@@ -38,6 +39,7 @@ async function main() {
         email: "alice@example.com",
         passwordHash: userPasswordHash,
         role: "USER",
+        emailVerifiedAt: new Date(),
       },
     }),
     prisma.user.create({
@@ -46,6 +48,7 @@ async function main() {
         email: "bob@example.com",
         passwordHash: userPasswordHash,
         role: "USER",
+        emailVerifiedAt: new Date(),
       },
     }),
     prisma.user.create({
@@ -54,6 +57,7 @@ async function main() {
         email: "carol@example.com",
         passwordHash: userPasswordHash,
         role: "USER",
+        emailVerifiedAt: new Date(),
       },
     }),
     prisma.user.create({
@@ -62,6 +66,7 @@ async function main() {
         email: "david@example.com",
         passwordHash: userPasswordHash,
         role: "USER",
+        emailVerifiedAt: new Date(),
       },
     }),
     prisma.user.create({
@@ -70,6 +75,7 @@ async function main() {
         email: "emma@example.com",
         passwordHash: userPasswordHash,
         role: "USER",
+        emailVerifiedAt: new Date(),
       },
     }),
   ]);
@@ -143,9 +149,9 @@ async function main() {
 
   console.log("[SEED] Created user permissions");
 
-  // Get today's date at midnight
+  // Get today's date at midnight UTC (schedule dates and all-day items are calendar dates; seeded items are in UTC)
   const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  today.setUTCHours(0, 0, 0, 0);
 
   // Create schedule entries for today
   console.log("[SEED] Creating schedule entries for today...");
@@ -170,7 +176,7 @@ async function main() {
 
   // Create schedule entries for tomorrow
   const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
+  tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
 
   const tomorrowScheduleData = [
     { user: users[0], startTime: 8 * 60, endTime: 17 * 60 }, // 08:00-17:00
@@ -221,8 +227,8 @@ async function main() {
 
   // Deadline this week
   const deadlineDate = new Date(today);
-  deadlineDate.setDate(deadlineDate.getDate() + 3);
-  deadlineDate.setHours(18, 0, 0, 0);
+  deadlineDate.setUTCDate(deadlineDate.getUTCDate() + 3);
+  deadlineDate.setUTCHours(18, 0, 0, 0);
 
   const deadline = await prisma.calendarItem.create({
     data: {
@@ -246,8 +252,8 @@ async function main() {
 
   // Meeting next week
   const nextWeekMeeting = new Date(today);
-  nextWeekMeeting.setDate(nextWeekMeeting.getDate() + 7);
-  nextWeekMeeting.setHours(14, 0, 0, 0);
+  nextWeekMeeting.setUTCDate(nextWeekMeeting.getUTCDate() + 7);
+  nextWeekMeeting.setUTCHours(14, 0, 0, 0);
 
   const meetingNextWeek = await prisma.calendarItem.create({
     data: {
@@ -272,7 +278,7 @@ async function main() {
 
   // All-day event
   const allDayEvent = new Date(today);
-  allDayEvent.setDate(allDayEvent.getDate() + 5);
+  allDayEvent.setUTCDate(allDayEvent.getUTCDate() + 5);
 
   await prisma.calendarItem.create({
     data: {
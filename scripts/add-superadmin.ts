@@ -32,6 +32,7 @@ async function main() {
       email: SUPERADMIN.email,
       passwordHash,
       role: SUPERADMIN.role,
+      emailVerifiedAt: new Date(),
     },
   });
 
@@ -0,0 +1,226 @@
+/**
+ * Локальный OIDC-провайдер для проверки входа через SSO (только для разработки).
+ * Запуск: npm run oidc:mock
+ * В .env: OIDC_ISSUER="http://localhost:4010", OIDC_CLIENT_ID="calendar-local",
+ *         OIDC_CLIENT_SECRET="mock-client-secret", OIDC_SCOPES="openid email profile groups"
+ *
+ * Implements discovery, JWKS, /authorize (a form to pick the identity and groups)
+ * and /token (authorization code + PKCE S256). ID tokens are signed with RS256.
+ */
+import { createHash, generateKeyPairSync, randomBytes, sign } from "crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+
+const PORT = Number(process.env.MOCK_OIDC_PORT || 4010);
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.OIDC_CLIENT_ID || "calendar-local";
+const CLIENT_SECRET = process.env.OIDC_CLIENT_SECRET || "mock-client-secret";
+const KEY_ID = "mock-key-1";
+const CODE_TTL_MS = 60 * 1000;
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const publicJwk = { ...publicKey.export({ format: "jwk" }), kid: KEY_ID, use: "sig", alg: "RS256" };
+
+interface PendingCode {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | null;
+  claims: Record<string, unknown>;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+function signIdToken(claims: Record<string, unknown>): string {
+  const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT", kid: KEY_ID }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = sign("sha256", Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store" });
+  res.end(JSON.stringify(body));
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return new URLSearchParams(Buffer.concat(chunks).toString("utf8"));
+}
+
+function redirectWith(res: ServerResponse, redirectUri: string, params: Record<string, string>): void {
+  const url = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  res.writeHead(302, { Location: url.toString() });
+  res.end();
+}
+
+/**
+ * Login form: the tester chooses who they are and which groups they have
+ */
+function renderAuthorizeForm(res: ServerResponse, params: URLSearchParams): void {
+  const hidden = ["redirect_uri", "state", "nonce", "code_challenge"]
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) || "")}">`)
+    .join("\n");
+
+  res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+  res.end(`<!doctype html>
+<html><head><title>Mock OIDC issuer</title></head>
+<body style="font-family: sans-serif; max-width: 420px; margin: 40px auto">
+  <h2>Mock identity provider</h2>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><label>Email<br><input name="email" value="sso.user@example.com" size="40"></label></p>
+    <p><label>Name<br><input name="name" value="SSO User" size="40"></label></p>
+    <p><label>Groups (comma-separated)<br><input name="groups" value="calendar-users" size="40"></label></p>
+    <p><label><input type="checkbox" name="email_verified" checked> Email verified</label></p>
+    <button type="submit" name="action" value="approve">Sign in</button>
+    <button type="submit" name="action" value="deny">Cancel</button>
+  </form>
+</body></html>`);
+}
+
+async function handleAuthorize(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+  if (req.method === "GET") {
+    const params = url.searchParams;
+    if (params.get("client_id") !== CLIENT_ID) {
+      return sendJson(res, 400, { error: "unauthorized_client" });
+    }
+    if (params.get("response_type") !== "code" || !params.get("redirect_uri")) {
+      return sendJson(res, 400, { error: "invalid_request" });
+    }
+    if (params.get("code_challenge_method") !== "S256" || !params.get("code_challenge")) {
+      return sendJson(res, 400, { error: "invalid_request", error_description: "PKCE S256 is required" });
+    }
+    return renderAuthorizeForm(res, params);
+  }
+
+  const form = await readForm(req);
+  const redirectUri = form.get("redirect_uri") || "";
+  const state = form.get("state") || "";
+
+  if (form.get("action") !== "approve") {
+    return redirectWith(res, redirectUri, { error: "access_denied", state });
+  }
+
+  const email = form.get("email") || "sso.user@example.com";
+  const code = randomBytes(24).toString("base64url");
+  codes.set(code, {
+    redirectUri,
+    codeChallenge: form.get("code_challenge") || "",
+    nonce: form.get("nonce"),
+    claims: {
+      sub: `mock|${email}`,
+      email,
+      email_verified: form.get("email_verified") === "on",
+      name: form.get("name") || email,
+      groups: (form.get("groups") || "")
+        .split(",")
+        .map((group) => group.trim())
+        .filter(Boolean),
+    },
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  redirectWith(res, redirectUri, { code, state });
+}
+
+async function handleToken(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const form = await readForm(req);
+
+  // Client authentication: client_secret_basic, or client_id in the body for public clients
+  const basic = req.headers.authorization?.match(/^Basic (.+)$/)?.[1];
+  if (basic) {
+    const [id, secret] = Buffer.from(basic, "base64").toString("utf8").split(":").map(decodeURIComponent);
+    if (id !== CLIENT_ID || secret !== CLIENT_SECRET) {
+      return sendJson(res, 401, { error: "invalid_client" });
+    }
+  } else if (form.get("client_id") !== CLIENT_ID) {
+    return sendJson(res, 401, { error: "invalid_client" });
+  }
+
+  const code = form.get("code") || "";
+  const pending = codes.get(code);
+  codes.delete(code); // Single use
+
+  if (form.get("grant_type") !== "authorization_code" || !pending || pending.expiresAt < Date.now()) {
+    return sendJson(res, 400, { error: "invalid_grant" });
+  }
+  if (form.get("redirect_uri") !== pending.redirectUri) {
+    return sendJson(res, 400, { error: "invalid_grant", error_description: "redirect_uri mismatch" });
+  }
+
+  const verifier = form.get("code_verifier") || "";
+  if (createHash("sha256").update(verifier).digest("base64url") !== pending.codeChallenge) {
+    return sendJson(res, 400, { error: "invalid_grant", error_description: "PKCE verification failed" });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const idToken = signIdToken({
+    iss: ISSUER,
+    aud: CLIENT_ID,
+    iat: now,
+    exp: now + 300,
+    ...(pending.nonce ? { nonce: pending.nonce } : {}),
+    ...pending.claims,
+  });
+
+  sendJson(res, 200, {
+    access_token: randomBytes(24).toString("base64url"),
+    token_type: "Bearer",
+    expires_in: 300,
+    id_token: idToken,
+  });
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url || "/", ISSUER);
+  console.log(`[mock-oidc] ${req.method} ${url.pathname}`);
+
+  const handle = async () => {
+    switch (url.pathname) {
+      case "/.well-known/openid-configuration":
+        return sendJson(res, 200, {
+          issuer: ISSUER,
+          authorization_endpoint: `${ISSUER}/authorize`,
+          token_endpoint: `${ISSUER}/token`,
+          jwks_uri: `${ISSUER}/jwks`,
+          response_types_supported: ["code"],
+          subject_types_supported: ["public"],
+          id_token_signing_alg_values_supported: ["RS256"],
+          code_challenge_methods_supported: ["S256"],
+          token_endpoint_auth_methods_supported: ["client_secret_basic", "none"],
+          scopes_supported: ["openid", "email", "profile", "groups"],
+        });
+      case "/jwks":
+        return sendJson(res, 200, { keys: [publicJwk] });
+      case "/authorize":
+        return handleAuthorize(req, res, url);
+      case "/token":
+        return req.method === "POST" ? handleToken(req, res) : sendJson(res, 405, { error: "method_not_allowed" });
+      default:
+        return sendJson(res, 404, { error: "not_found" });
+    }
+  };
+
+  handle().catch((error) => {
+    console.error("[mock-oidc] Error:", error);
+    sendJson(res, 500, { error: "server_error" });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-oidc] Issuer running at ${ISSUER} (client_id: ${CLIENT_ID})`);
+});
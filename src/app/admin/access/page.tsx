@@ -0,0 +1,26 @@
+import { AccessExplainerPage } from "@/features/admin";
+import { requireAdmin } from "@/lib/auth";
+import { EmailNotVerifiedError, TwoFactorRequiredError } from "@/lib/errors";
+import { redirect } from "next/navigation";
+
+// Force dynamic rendering - this page uses cookies for authentication
+export const dynamic = "force-dynamic";
+
+export default async function AdminAccessPage() {
+  try {
+    // Check if user is admin
+    await requireAdmin();
+    return <AccessExplainerPage />;
+  } catch (error) {
+    // Email address not confirmed yet - only the "check your inbox" screen is available
+    if (error instanceof EmailNotVerifiedError) {
+      redirect("/verify-email");
+    }
+    // Admin without 2FA while the policy requires it - send to enrollment
+    if (error instanceof TwoFactorRequiredError) {
+      redirect("/profile/security");
+    }
+    // If not admin or error, redirect to meetings
+    redirect("/meetings");
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireAdmin } from "@/lib/auth";
+import { z } from "zod";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { explainCalendarItemAccess, explainScheduleEntryAccess, type AccessDecision } from "@/lib/authorize";
+import { createErrorResponse, NotFoundError, ValidationError } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+const explainQuerySchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  targetType: z.enum(["calendar_item", "schedule_entry"]),
+  targetId: z.string().min(1, "Target ID is required").max(100),
+  level: z.enum(["VIEW", "EDIT"]).default("VIEW"),
+});
+
+/**
+ * GET /api/admin/access/explain - Explain whether a user may view or edit a calendar item or schedule entry
+ * Returns the decision and the chain of rules that produced it (the same checks the API enforces)
+ * Security: Rate limited, admin only
+ */
+export async function GET(request: NextRequest) {
+  try {
+    logger.info("GET /api/admin/access/explain");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // Verify admin access
+    await requireAdmin({ scopes: ["admin"] });
+
+    const { searchParams } = new URL(request.url);
+    const validated = explainQuerySchema.safeParse({
+      userId: searchParams.get("userId") || undefined,
+      targetType: searchParams.get("targetType") || undefined,
+      targetId: searchParams.get("targetId")?.trim() || undefined,
+      level: searchParams.get("level") || undefined,
+    });
+    if (!validated.success) {
+      throw new ValidationError("Invalid query parameters", validated.error.issues);
+    }
+
+    const { userId, targetType, targetId, level } = validated.data;
+
+    const user = await db.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    let target: { type: typeof targetType; id: string; label: string };
+    let decision: AccessDecision;
+
+    if (targetType === "calendar_item") {
+      const item = await db.calendarItem.findUnique({
+        where: { id: targetId },
+        select: {
+          id: true,
+          title: true,
+          type: true,
+          startAt: true,
+          createdById: true,
+          visibility: true,
+          participants: { select: { userId: true } },
+        },
+      });
+      if (!item) {
+        throw new NotFoundError("Calendar item not found");
+      }
+
+      target = { type: targetType, id: item.id, label: `${item.title} (${item.type.toLowerCase()})` };
+      decision = await explainCalendarItemAccess(user, item, level);
+    } else {
+      const entry = await db.scheduleEntry.findUnique({
+        where: { id: targetId },
+        select: { id: true, date: true, userId: true, user: { select: { name: true } } },
+      });
+      if (!entry) {
+        throw new NotFoundError("Schedule entry not found");
+      }
+
+      target = {
+        type: targetType,
+        id: entry.id,
+        label: `${entry.user.name}, ${entry.date.toISOString().slice(0, 10)}`,
+      };
+      decision = await explainScheduleEntryAccess(user, entry, level);
+    }
+
+    const response = NextResponse.json({
+      user: { id: user.id, name: user.name, email: user.email, role: user.role },
+      target,
+      level,
+      decision,
+    });
+    response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+
+    return response;
+  } catch (error) {
+    logger.error("Error explaining access", { error });
+    return createErrorResponse(error);
+  }
+}
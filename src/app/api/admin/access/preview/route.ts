@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireAdmin } from "@/lib/auth";
+import { z } from "zod";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { getCalendarItemsFilter, getScheduleEntriesFilter } from "@/lib/authorize";
+import { serializeCalendarItem } from "@/lib/calendarVisibility";
+import { calendarItemsRangeFilter, expandCalendarItems } from "@/lib/calendarSeries";
+import { createErrorResponse, NotFoundError, ValidationError } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+const dateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+// Longest previewed period
+const MAX_RANGE_DAYS = 62;
+
+const previewQuerySchema = z
+  .object({
+    userId: z.string().min(1, "User ID is required"),
+    from: dateParam,
+    to: dateParam,
+  })
+  .refine((query) => query.to >= query.from, { message: "to must not be before from", path: ["to"] })
+  .refine(
+    (query) => Date.parse(query.to) - Date.parse(query.from) <= MAX_RANGE_DAYS * 24 * 60 * 60 * 1000,
+    { message: `The period can be at most ${MAX_RANGE_DAYS} days`, path: ["to"] }
+  );
+
+/**
+ * GET /api/admin/access/preview - "View as user": what a user's Meetings, Deadlines and Schedule pages list
+ * Uses the same filters and redaction as the user's own requests
+ * Security: Rate limited, admin only, pagination limited
+ */
+export async function GET(request: NextRequest) {
+  try {
+    logger.info("GET /api/admin/access/preview");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // Verify admin access
+    const adminUser = await requireAdmin({ scopes: ["admin"] });
+
+    const { searchParams } = new URL(request.url);
+    const validated = previewQuerySchema.safeParse({
+      userId: searchParams.get("userId") || undefined,
+      from: searchParams.get("from") || undefined,
+      to: searchParams.get("to") || undefined,
+    });
+    if (!validated.success) {
+      throw new ValidationError("Invalid query parameters", validated.error.issues);
+    }
+
+    const { userId, from, to } = validated.data;
+
+    const user = await db.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const start = new Date(`${from}T00:00:00.000Z`);
+    const end = new Date(`${to}T23:59:59.999Z`);
+
+    const [items, entries] = await Promise.all([
+      db.calendarItem.findMany({
+        where: { ...(await getCalendarItemsFilter(user)), AND: [calendarItemsRangeFilter(start, end)] },
+        take: 1000, // Max limit to prevent DoS
+        include: {
+          createdBy: { select: { id: true, name: true, email: true } },
+          participants: { include: { user: { select: { id: true, name: true, email: true } } } },
+        },
+        orderBy: { startAt: "asc" },
+      }),
+      db.scheduleEntry.findMany({
+        where: { ...(await getScheduleEntriesFilter(user)), date: { gte: start, lte: end } },
+        take: 1000, // Max limit to prevent DoS
+        include: { user: { select: { id: true, name: true, email: true } } },
+        orderBy: [{ date: "asc" }, { startTime: "asc" }],
+      }),
+    ]);
+
+    logger.info("Access preview", { adminUserId: adminUser.id, userId, items: items.length, entries: entries.length });
+
+    const response = NextResponse.json({
+      user: { id: user.id, name: user.name, email: user.email, role: user.role },
+      items: (await expandCalendarItems(items, { from: start, to: end }, 1000)).map((item) =>
+        serializeCalendarItem(item, user.id)
+      ),
+      entries,
+    });
+    response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+
+    return response;
+  } catch (error) {
+    logger.error("Error building access preview", { error });
+    return createErrorResponse(error);
+  }
+}
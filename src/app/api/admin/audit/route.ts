@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth";
+import { z } from "zod";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { createErrorResponse, ValidationError } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { AUDIT_ENTITY_TYPES, auditEventsToCsv, listAuditEvents } from "@/lib/audit";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+// Dates are inclusive days (YYYY-MM-DD) or full ISO timestamps
+const dateParam = z.string().refine((value) => !Number.isNaN(Date.parse(value)), "Invalid date");
+
+const auditQuerySchema = z.object({
+  actorId: z.string().min(1).optional(),
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().min(1).max(100).optional(),
+  from: dateParam.optional(),
+  to: dateParam.optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+// CSV exports are not paginated, but still capped
+const CSV_EXPORT_LIMIT = 10000;
+
+/**
+ * End of the given day when only a date was passed
+ */
+function toEndDate(value: string): Date {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T23:59:59.999Z`) : new Date(value);
+}
+
+/**
+ * GET /api/admin/audit - List audit events (newest first), or export them as CSV with format=csv
+ * Security: Rate limited, admin only, pagination limited
+ */
+export async function GET(request: NextRequest) {
+  try {
+    logger.info("GET /api/admin/audit");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // Verify admin access
+    await requireAdmin({ scopes: ["admin"] });
+
+    const { searchParams } = new URL(request.url);
+    const validated = auditQuerySchema.safeParse({
+      actorId: searchParams.get("actorId") || undefined,
+      entityType: searchParams.get("entityType") || undefined,
+      entityId: searchParams.get("entityId") || undefined,
+      from: searchParams.get("from") || undefined,
+      to: searchParams.get("to") || undefined,
+      cursor: searchParams.get("cursor") || undefined,
+      limit: searchParams.get("limit") || undefined,
+      format: searchParams.get("format") || undefined,
+    });
+    if (!validated.success) {
+      throw new ValidationError("Invalid query parameters", validated.error.issues);
+    }
+
+    const { from, to, cursor, limit, format, ...filter } = validated.data;
+    const auditFilter = {
+      ...filter,
+      from: from ? new Date(from) : undefined,
+      to: to ? toEndDate(to) : undefined,
+    };
+
+    if (format === "csv") {
+      const { events } = await listAuditEvents(auditFilter, { limit: CSV_EXPORT_LIMIT });
+      const filename = `audit-${new Date().toISOString().slice(0, 10)}.csv`;
+
+      return new NextResponse(auditEventsToCsv(events), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+          "Cache-Control": "no-store",
+          "X-RateLimit-Remaining": String(rateLimitResult.remaining),
+        },
+      });
+    }
+
+    const page = await listAuditEvents(auditFilter, { limit, cursor });
+
+    const response = NextResponse.json(page);
+    response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+
+    return response;
+  } catch (error) {
+    logger.error("Error fetching audit events", { error });
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth";
+import { z } from "zod";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, NotFoundError, ValidationError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+import { deleteGroup, getGroup, updateGroup } from "@/lib/groups";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Validation schema for updating a group (members and permissions are replaced as a whole)
+const updateGroupSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long").optional(),
+  description: z.string().trim().max(500, "Description is too long").nullable().optional(),
+  memberIds: z.array(z.string().min(1)).max(1000).optional(),
+  permissions: z
+    .array(
+      z.object({
+        module: z.enum(["meetings", "deadlines", "schedule"]),
+        myLevel: z.enum(["NONE", "VIEW", "EDIT"]),
+        allLevel: z.enum(["NONE", "VIEW", "EDIT"]),
+      })
+    )
+    .optional(),
+});
+
+/**
+ * PATCH /api/admin/groups/:id - Rename a group, replace its members or permissions
+ * Security: Rate limited, admin only, input validated, audit logged
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    logger.info(`PATCH /api/admin/groups/${id}`);
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Verify admin access
+    const adminUser = await requireAdmin({ scopes: ["admin"] });
+
+    const body = await request.json();
+    const validated = updateGroupSchema.safeParse(body);
+    if (!validated.success) {
+      throw new ValidationError("Invalid request body", validated.error.issues);
+    }
+
+    const previousGroup = await getGroup(id);
+    const group = await updateGroup(id, validated.data);
+
+    securityLogger.groupChanged(adminUser.id, id, "updated", validated.data);
+    await recordAuditEvent(request, {
+      actorId: adminUser.id,
+      action: "update",
+      entityType: "group",
+      entityId: id,
+      before: previousGroup,
+      after: group,
+    });
+
+    const response = NextResponse.json({ group });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error updating group", { error });
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/admin/groups/:id - Delete a group
+ * Members lose the group's grants but keep their own
+ * Security: Rate limited, admin only, audit logged
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    logger.info(`DELETE /api/admin/groups/${id}`);
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Verify admin access
+    const adminUser = await requireAdmin({ scopes: ["admin"] });
+
+    const previousGroup = await getGroup(id);
+    const deleted = await deleteGroup(id);
+    if (!deleted) {
+      throw new NotFoundError("Group not found");
+    }
+
+    securityLogger.groupChanged(adminUser.id, id, "deleted");
+    await recordAuditEvent(request, {
+      actorId: adminUser.id,
+      action: "delete",
+      entityType: "group",
+      entityId: id,
+      before: previousGroup,
+    });
+
+    const response = NextResponse.json({ success: true });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error deleting group", { error });
+    return createErrorResponse(error);
+  }
+}
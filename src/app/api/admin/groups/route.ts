@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth";
+import { z } from "zod";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, ValidationError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+import { createGroup, listGroups } from "@/lib/groups";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+// Validation schema for creating a group
+const createGroupSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  description: z.string().trim().max(500, "Description is too long").nullable().optional(),
+  memberIds: z.array(z.string().min(1)).max(1000).default([]),
+  permissions: z
+    .array(
+      z.object({
+        module: z.enum(["meetings", "deadlines", "schedule"]),
+        myLevel: z.enum(["NONE", "VIEW", "EDIT"]),
+        allLevel: z.enum(["NONE", "VIEW", "EDIT"]),
+      })
+    )
+    .default([]),
+});
+
+/**
+ * GET /api/admin/groups - List groups with members and permissions
+ * Security: Rate limited, admin only
+ */
+export async function GET(request: NextRequest) {
+  try {
+    logger.info("GET /api/admin/groups");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // Verify admin access
+    await requireAdmin({ scopes: ["admin"] });
+
+    const groups = await listGroups();
+
+    const response = NextResponse.json({ groups });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error fetching groups", { error });
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/admin/groups - Create a group
+ * Security: Rate limited, admin only, input validated, audit logged
+ */
+export async function POST(request: NextRequest) {
+  try {
+    logger.info("POST /api/admin/groups");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Verify admin access
+    const adminUser = await requireAdmin({ scopes: ["admin"] });
+
+    const body = await request.json();
+    const validated = createGroupSchema.safeParse(body);
+    if (!validated.success) {
+      throw new ValidationError("Invalid request body", validated.error.issues);
+    }
+
+    const group = await createGroup(validated.data);
+
+    securityLogger.groupChanged(adminUser.id, group.id, "created", validated.data);
+    await recordAuditEvent(request, {
+      actorId: adminUser.id,
+      action: "create",
+      entityType: "group",
+      entityId: group.id,
+      after: group,
+    });
+
+    const response = NextResponse.json({ group }, { status: 201 });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error creating group", { error });
+    return createErrorResponse(error);
+  }
+}
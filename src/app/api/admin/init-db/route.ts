@@ -37,6 +37,7 @@ export async function POST(request: NextRequest) {
         email: "admin@example.com",
         passwordHash: adminPasswordHash,
         role: "ADMIN",
+        emailVerifiedAt: new Date(),
       },
     });
 
@@ -48,6 +49,7 @@ export async function POST(request: NextRequest) {
           email: "alice@example.com",
           passwordHash: userPasswordHash,
           role: "USER",
+          emailVerifiedAt: new Date(),
         },
       }),
       db.user.create({
@@ -56,6 +58,7 @@ export async function POST(request: NextRequest) {
           email: "bob@example.com",
           passwordHash: userPasswordHash,
           role: "USER",
+          emailVerifiedAt: new Date(),
         },
       }),
       db.user.create({
@@ -64,6 +67,7 @@ export async function POST(request: NextRequest) {
           email: "carol@example.com",
           passwordHash: userPasswordHash,
           role: "USER",
+          emailVerifiedAt: new Date(),
         },
       }),
       db.user.create({
@@ -72,6 +76,7 @@ export async function POST(request: NextRequest) {
           email: "david@example.com",
           passwordHash: userPasswordHash,
           role: "USER",
+          emailVerifiedAt: new Date(),
         },
       }),
       db.user.create({
@@ -80,6 +85,7 @@ export async function POST(request: NextRequest) {
           email: "emma@example.com",
           passwordHash: userPasswordHash,
           role: "USER",
+          emailVerifiedAt: new Date(),
         },
       }),
     ]);
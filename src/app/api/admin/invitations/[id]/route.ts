@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, NotFoundError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { revokeInvitation } from "@/lib/invitations";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * DELETE /api/admin/invitations/:id - Revoke a pending invitation
+ * Security: Rate limited, admin only, audit logged
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    logger.info(`DELETE /api/admin/invitations/${id}`);
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Verify admin access
+    const adminUser = await requireAdmin({ scopes: ["admin"] });
+
+    const revoked = await revokeInvitation(id);
+    if (!revoked) {
+      throw new NotFoundError("Invitation not found");
+    }
+
+    securityLogger.invitationChanged(adminUser.id, id, "revoked");
+
+    const response = NextResponse.json({ success: true });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error revoking invitation", { error });
+    return createErrorResponse(error);
+  }
+}
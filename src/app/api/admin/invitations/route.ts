@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireAdmin } from "@/lib/auth";
+import { z } from "zod";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, ValidationError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { sendMail } from "@/lib/mail";
+import { invitationEmail } from "@/lib/emails";
+import { createInvitation, INVITATION_TTL_DAYS, listPendingInvitations } from "@/lib/invitations";
+import { getAppUrl } from "@/lib/request";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+// Validation schema for creating an invitation
+const createInvitationSchema = z.object({
+  email: z.string().email("Invalid email format"),
+  role: z.enum(["ADMIN", "USER"]).default("USER"),
+  permissions: z
+    .array(
+      z.object({
+        module: z.enum(["meetings", "deadlines", "schedule"]),
+        myLevel: z.enum(["NONE", "VIEW", "EDIT"]),
+        allLevel: z.enum(["NONE", "VIEW", "EDIT"]),
+      })
+    )
+    .default([]),
+});
+
+/**
+ * GET /api/admin/invitations - List pending invitations
+ * Security: Rate limited, admin only
+ */
+export async function GET(request: NextRequest) {
+  try {
+    logger.info("GET /api/admin/invitations");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // Verify admin access
+    await requireAdmin({ scopes: ["admin"] });
+
+    const invitations = await listPendingInvitations();
+
+    const response = NextResponse.json({ invitations });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error fetching invitations", { error });
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/admin/invitations - Invite a user by email
+ * The link is emailed and also returned once, so the admin can share it directly
+ * Security: Rate limited, admin only, input validated, audit logged
+ */
+export async function POST(request: NextRequest) {
+  try {
+    logger.info("POST /api/admin/invitations");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Verify admin access
+    const adminUser = await requireAdmin({ scopes: ["admin"] });
+
+    const body = await request.json();
+    const validated = createInvitationSchema.safeParse(body);
+    if (!validated.success) {
+      throw new ValidationError("Invalid request body", validated.error.issues);
+    }
+
+    const existingUser = await db.user.findUnique({
+      where: { email: validated.data.email },
+      select: { id: true },
+    });
+    if (existingUser) {
+      throw new ValidationError("A user with this email already exists");
+    }
+
+    const appUrl = getAppUrl(request);
+    const { token, invitation } = await createInvitation(adminUser.id, validated.data);
+    const inviteUrl = `${appUrl}/login?invite=${encodeURIComponent(token)}`;
+    await sendMail(invitationEmail(invitation.email, adminUser.name, inviteUrl, INVITATION_TTL_DAYS));
+
+    securityLogger.invitationChanged(adminUser.id, invitation.id, "created");
+
+    const response = NextResponse.json(
+      { invitation, inviteUrl },
+      { status: 201, headers: { "Cache-Control": "no-store" } }
+    );
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error creating invitation", { error });
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth";
+import { z } from "zod";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, NotFoundError, ValidationError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+import { deletePreset, getPreset, updatePreset } from "@/lib/permissionPresets";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Validation schema for updating a permission preset (permissions are replaced as a whole)
+const updatePresetSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long").optional(),
+  description: z.string().trim().max(500, "Description is too long").nullable().optional(),
+  permissions: z
+    .array(
+      z.object({
+        module: z.enum(["meetings", "deadlines", "schedule"]),
+        myLevel: z.enum(["NONE", "VIEW", "EDIT"]),
+        allLevel: z.enum(["NONE", "VIEW", "EDIT"]),
+      })
+    )
+    .min(1, "At least one module is required")
+    .optional(),
+});
+
+/**
+ * PATCH /api/admin/permission-presets/:id - Rename a preset or replace its permissions
+ * Users the preset was applied to keep their current levels
+ * Security: Rate limited, admin only, input validated, audit logged
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    logger.info(`PATCH /api/admin/permission-presets/${id}`);
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Verify admin access
+    const adminUser = await requireAdmin({ scopes: ["admin"] });
+
+    const body = await request.json();
+    const validated = updatePresetSchema.safeParse(body);
+    if (!validated.success) {
+      throw new ValidationError("Invalid request body", validated.error.issues);
+    }
+
+    const previousPreset = await getPreset(id);
+    const preset = await updatePreset(id, validated.data);
+
+    securityLogger.presetChanged(adminUser.id, id, "updated", validated.data);
+    await recordAuditEvent(request, {
+      actorId: adminUser.id,
+      action: "update",
+      entityType: "permission_preset",
+      entityId: id,
+      before: previousPreset,
+      after: preset,
+    });
+
+    const response = NextResponse.json({ preset });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error updating permission preset", { error });
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/admin/permission-presets/:id - Delete a permission preset
+ * Security: Rate limited, admin only, audit logged
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    logger.info(`DELETE /api/admin/permission-presets/${id}`);
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Verify admin access
+    const adminUser = await requireAdmin({ scopes: ["admin"] });
+
+    const previousPreset = await getPreset(id);
+    const deleted = await deletePreset(id);
+    if (!deleted) {
+      throw new NotFoundError("Preset not found");
+    }
+
+    securityLogger.presetChanged(adminUser.id, id, "deleted");
+    await recordAuditEvent(request, {
+      actorId: adminUser.id,
+      action: "delete",
+      entityType: "permission_preset",
+      entityId: id,
+      before: previousPreset,
+    });
+
+    const response = NextResponse.json({ success: true });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error deleting permission preset", { error });
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth";
+import { z } from "zod";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, ValidationError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+import { createPreset, listPresets } from "@/lib/permissionPresets";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+// Validation schema for creating a permission preset
+const createPresetSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  description: z.string().trim().max(500, "Description is too long").nullable().optional(),
+  permissions: z
+    .array(
+      z.object({
+        module: z.enum(["meetings", "deadlines", "schedule"]),
+        myLevel: z.enum(["NONE", "VIEW", "EDIT"]),
+        allLevel: z.enum(["NONE", "VIEW", "EDIT"]),
+      })
+    )
+    .min(1, "At least one module is required"),
+});
+
+/**
+ * GET /api/admin/permission-presets - List permission presets
+ * Security: Rate limited, admin only
+ */
+export async function GET(request: NextRequest) {
+  try {
+    logger.info("GET /api/admin/permission-presets");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // Verify admin access
+    await requireAdmin({ scopes: ["admin"] });
+
+    const presets = await listPresets();
+
+    const response = NextResponse.json({ presets });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error fetching permission presets", { error });
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/admin/permission-presets - Create a permission preset
+ * Security: Rate limited, admin only, input validated, audit logged
+ */
+export async function POST(request: NextRequest) {
+  try {
+    logger.info("POST /api/admin/permission-presets");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Verify admin access
+    const adminUser = await requireAdmin({ scopes: ["admin"] });
+
+    const body = await request.json();
+    const validated = createPresetSchema.safeParse(body);
+    if (!validated.success) {
+      throw new ValidationError("Invalid request body", validated.error.issues);
+    }
+
+    const preset = await createPreset(validated.data);
+
+    securityLogger.presetChanged(adminUser.id, preset.id, "created", validated.data);
+    await recordAuditEvent(request, {
+      actorId: adminUser.id,
+      action: "create",
+      entityType: "permission_preset",
+      entityId: preset.id,
+      after: preset,
+    });
+
+    const response = NextResponse.json({ preset }, { status: 201 });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error creating permission preset", { error });
+    return createErrorResponse(error);
+  }
+}
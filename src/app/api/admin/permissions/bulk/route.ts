@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireAdmin } from "@/lib/auth";
+import { z } from "zod";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, ValidationError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+// Validation schema for bulk updates - a level or window bound that is left out keeps its current value
+const bulkUpdatePermissionsSchema = z.object({
+  userIds: z.array(z.string().min(1)).min(1, "Select at least one user").max(1000),
+  permissions: z
+    .array(
+      z
+        .object({
+          module: z.enum(["meetings", "deadlines", "schedule"]),
+          myLevel: z.enum(["NONE", "VIEW", "EDIT"]).optional(),
+          allLevel: z.enum(["NONE", "VIEW", "EDIT"]).optional(),
+          // Optional active window (null = unbounded, omitted = unchanged)
+          validFrom: z.string().datetime().nullable().optional(),
+          validUntil: z.string().datetime().nullable().optional(),
+        })
+        .refine(
+          (perm) =>
+            perm.myLevel !== undefined ||
+            perm.allLevel !== undefined ||
+            perm.validFrom !== undefined ||
+            perm.validUntil !== undefined,
+          { message: "Set a level or the active window" }
+        )
+        .refine(
+          (perm) => !perm.validFrom || !perm.validUntil || new Date(perm.validUntil) > new Date(perm.validFrom),
+          { message: "validUntil must be after validFrom", path: ["validUntil"] }
+        )
+    )
+    .min(1, "Nothing to update"),
+});
+
+const toDate = (value: string | null | undefined) => (value == null ? value : new Date(value));
+
+/**
+ * POST /api/admin/permissions/bulk - Apply a preset or a single cell change to many users
+ * All updates are written in one transaction
+ * Security: Rate limited, admin only, input validated, audit logged
+ */
+export async function POST(request: NextRequest) {
+  try {
+    logger.info("POST /api/admin/permissions/bulk");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Verify admin access
+    const adminUser = await requireAdmin({ scopes: ["admin"] });
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = bulkUpdatePermissionsSchema.safeParse(body);
+
+    if (!validatedData.success) {
+      throw new ValidationError("Invalid request body", validatedData.error.issues);
+    }
+
+    const userIds = [...new Set(validatedData.data.userIds)];
+    const { permissions } = validatedData.data;
+
+    // Verify users exist
+    const userCount = await db.user.count({ where: { id: { in: userIds } } });
+    if (userCount !== userIds.length) {
+      throw new ValidationError("One or more users do not exist");
+    }
+
+    const permissionSelect = {
+      userId: true,
+      module: true,
+      myLevel: true,
+      allLevel: true,
+      validFrom: true,
+      validUntil: true,
+    } as const;
+    const previousPermissions = await db.userPermission.findMany({
+      where: { userId: { in: userIds } },
+      select: permissionSelect,
+    });
+
+    const updatedPermissions = await db.$transaction(
+      userIds.flatMap((userId) =>
+        permissions.map((perm) => {
+          const validFrom = toDate(perm.validFrom);
+          const validUntil = toDate(perm.validUntil);
+          // A new end date gets a new expiry warning
+          const previous = previousPermissions.find((p) => p.userId === userId && p.module === perm.module);
+          const endChanged =
+            validUntil !== undefined && (previous?.validUntil?.getTime() ?? null) !== (validUntil?.getTime() ?? null);
+
+          return db.userPermission.upsert({
+            where: { userId_module: { userId, module: perm.module } },
+            update: {
+              ...(perm.myLevel && { myLevel: perm.myLevel }),
+              ...(perm.allLevel && { allLevel: perm.allLevel }),
+              validFrom,
+              validUntil,
+              ...(endChanged && { expiryNotifiedAt: null }),
+            },
+            create: {
+              userId,
+              module: perm.module,
+              myLevel: perm.myLevel ?? "NONE",
+              allLevel: perm.allLevel ?? "NONE",
+              validFrom,
+              validUntil,
+            },
+          });
+        })
+      )
+    );
+
+    // Audit log: permissions changed (one entry per user)
+    const currentPermissions = await db.userPermission.findMany({
+      where: { userId: { in: userIds } },
+      select: permissionSelect,
+    });
+    const rowsOf = (rows: typeof currentPermissions, userId: string) =>
+      rows.filter((row) => row.userId === userId).map(({ userId: _userId, ...row }) => row);
+
+    for (const userId of userIds) {
+      securityLogger.permissionChanged(adminUser.id, userId, { permissions, bulk: true });
+      await recordAuditEvent(request, {
+        actorId: adminUser.id,
+        action: "update",
+        entityType: "permission",
+        entityId: userId,
+        before: rowsOf(previousPermissions, userId),
+        after: rowsOf(currentPermissions, userId),
+      });
+    }
+
+    logger.info(`Bulk updated permissions of ${userIds.length} users`, {
+      adminUserId: adminUser.id,
+      rows: updatedPermissions.length,
+    });
+
+    const response = NextResponse.json({
+      message: "Permissions updated successfully",
+      updatedUsers: userIds.length,
+    });
+
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error bulk updating permissions", { error });
+    return createErrorResponse(error);
+  }
+}
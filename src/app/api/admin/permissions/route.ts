@@ -3,8 +3,10 @@ import { db } from "@/lib/db";
 import { requireAdmin } from "@/lib/auth";
 import { z } from "zod";
 import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
 import { createErrorResponse, ValidationError } from "@/lib/errors";
 import { logger, securityLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
 
 // Explicitly set runtime to nodejs (required for Prisma on Vercel)
 export const runtime = "nodejs";
@@ -13,14 +15,24 @@ export const runtime = "nodejs";
 const updatePermissionsSchema = z.object({
   userId: z.string().min(1, "User ID is required"),
   permissions: z.array(
-    z.object({
-      module: z.enum(["meetings", "deadlines", "schedule"]),
-      myLevel: z.enum(["NONE", "VIEW", "EDIT"]),
-      allLevel: z.enum(["NONE", "VIEW", "EDIT"]),
-    })
+    z
+      .object({
+        module: z.enum(["meetings", "deadlines", "schedule"]),
+        myLevel: z.enum(["NONE", "VIEW", "EDIT"]),
+        allLevel: z.enum(["NONE", "VIEW", "EDIT"]),
+        // Optional active window (null = unbounded, omitted = unchanged)
+        validFrom: z.string().datetime().nullable().optional(),
+        validUntil: z.string().datetime().nullable().optional(),
+      })
+      .refine(
+        (perm) => !perm.validFrom || !perm.validUntil || new Date(perm.validUntil) > new Date(perm.validFrom),
+        { message: "validUntil must be after validFrom", path: ["validUntil"] }
+      )
   ),
 });
 
+const toDate = (value: string | null | undefined) => (value == null ? value : new Date(value));
+
 /**
  * GET /api/admin/permissions - Get all users with their permissions
  * Only accessible by ADMIN users
@@ -40,7 +52,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Verify admin access
-    const user = await requireAdmin();
+    const user = await requireAdmin({ scopes: ["admin"] });
 
     // Get all users with their permissions
     const users = await db.user.findMany({
@@ -49,7 +61,11 @@ export async function GET(request: NextRequest) {
         name: true,
         email: true,
         role: true,
+        lockedUntil: true,
         permissions: true,
+        groupMemberships: {
+          select: { group: { select: { id: true, name: true } } },
+        },
       },
       take: 1000, // Max limit to prevent DoS
       orderBy: {
@@ -59,7 +75,12 @@ export async function GET(request: NextRequest) {
 
     logger.info(`Found ${users.length} users with permissions`, { adminUserId: user.id });
 
-    const response = NextResponse.json({ users });
+    const response = NextResponse.json({
+      users: users.map(({ groupMemberships, ...rest }) => ({
+        ...rest,
+        groups: groupMemberships.map((m) => m.group),
+      })),
+    });
     if (rateLimitResult) {
       response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
     }
@@ -89,8 +110,11 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
     // Verify admin access
-    const adminUser = await requireAdmin();
+    const adminUser = await requireAdmin({ scopes: ["admin"] });
 
     // Parse and validate request body
     const body = await request.json();
@@ -110,9 +134,28 @@ export async function PUT(request: NextRequest) {
       throw new Error("User not found");
     }
 
+    const permissionSelect = {
+      module: true,
+      myLevel: true,
+      allLevel: true,
+      validFrom: true,
+      validUntil: true,
+    } as const;
+    const previousPermissions = await db.userPermission.findMany({
+      where: { userId: targetUser.id },
+      select: permissionSelect,
+    });
+
     // Update permissions using upsert for each module
     const updatedPermissions = await Promise.all(
       validatedData.data.permissions.map(async (perm) => {
+        const validFrom = toDate(perm.validFrom);
+        const validUntil = toDate(perm.validUntil);
+        // A new end date gets a new expiry warning
+        const previous = previousPermissions.find((p) => p.module === perm.module);
+        const endChanged =
+          validUntil !== undefined && (previous?.validUntil?.getTime() ?? null) !== (validUntil?.getTime() ?? null);
+
         return db.userPermission.upsert({
           where: {
             userId_module: {
@@ -123,12 +166,17 @@ export async function PUT(request: NextRequest) {
           update: {
             myLevel: perm.myLevel,
             allLevel: perm.allLevel,
+            validFrom,
+            validUntil,
+            ...(endChanged && { expiryNotifiedAt: null }),
           },
           create: {
             userId: validatedData.data.userId,
             module: perm.module,
             myLevel: perm.myLevel,
             allLevel: perm.allLevel,
+            validFrom,
+            validUntil,
           },
         });
       })
@@ -139,6 +187,15 @@ export async function PUT(request: NextRequest) {
       permissions: validatedData.data.permissions,
     });
 
+    await recordAuditEvent(request, {
+      actorId: adminUser.id,
+      action: "update",
+      entityType: "permission",
+      entityId: targetUser.id,
+      before: previousPermissions,
+      after: await db.userPermission.findMany({ where: { userId: targetUser.id }, select: permissionSelect }),
+    });
+
     logger.info(`Updated ${updatedPermissions.length} permissions`, {
       adminUserId: adminUser.id,
       targetUserId: validatedData.data.userId,
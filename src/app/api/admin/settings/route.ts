@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth";
+import { z } from "zod";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, ValidationError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { getWorkspaceSettings, updateWorkspaceSettings } from "@/lib/settings";
+import { normalizeDomain, SIGNUP_MODES } from "@/lib/signupPolicy";
+import { isValidTimeZone } from "@/lib/timeZones";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+// Validation schema for updating settings (all fields optional)
+const updateSettingsSchema = z
+  .object({
+    adminTwoFactorRequired: z.boolean().optional(),
+    signupMode: z.enum(SIGNUP_MODES).optional(),
+    allowedSignupDomains: z
+      .array(
+        z
+          .string()
+          .transform(normalizeDomain)
+          .pipe(z.string().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, "Invalid domain"))
+      )
+      .max(50)
+      .transform((domains) => Array.from(new Set(domains)))
+      .optional(),
+    timeZone: z.string().refine(isValidTimeZone, "Unknown time zone").optional(),
+  })
+  .refine((data) => data.signupMode !== "DOMAINS" || data.allowedSignupDomains?.length, {
+    message: "Add at least one allowed domain",
+    path: ["allowedSignupDomains"],
+  });
+
+/**
+ * GET /api/admin/settings - Get workspace settings
+ * Security: Rate limited, admin only
+ */
+export async function GET(request: NextRequest) {
+  try {
+    logger.info("GET /api/admin/settings");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // Verify admin access
+    await requireAdmin();
+
+    const settings = await getWorkspaceSettings();
+
+    const response = NextResponse.json({ settings });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error fetching workspace settings", { error });
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * PATCH /api/admin/settings - Update workspace settings
+ * Security: Rate limited, admin only, input validation
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    logger.info("PATCH /api/admin/settings");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Verify admin access
+    const admin = await requireAdmin();
+
+    const body = await request.json();
+
+    // Validate input
+    const validated = updateSettingsSchema.safeParse(body);
+    if (!validated.success) {
+      throw new ValidationError("Invalid settings", validated.error.issues);
+    }
+
+    const settings = await updateWorkspaceSettings(validated.data);
+
+    securityLogger.settingsChanged(admin.id, validated.data);
+
+    const response = NextResponse.json({ settings });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error updating workspace settings", { error });
+    return createErrorResponse(error);
+  }
+}
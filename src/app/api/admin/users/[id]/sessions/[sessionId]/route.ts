@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth";
+import { revokeSession } from "@/lib/session";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, NotFoundError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string; sessionId: string }> };
+
+/**
+ * DELETE /api/admin/users/:id/sessions/:sessionId - Sign out one session of a user
+ * Only accessible by ADMIN users
+ * Security: Rate limited, admin only, audit logged
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, sessionId } = await params;
+    logger.info(`DELETE /api/admin/users/${id}/sessions/${sessionId}`);
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Verify admin access
+    const adminUser = await requireAdmin({ scopes: ["admin"] });
+
+    const revoked = await revokeSession(id, sessionId);
+    if (!revoked) {
+      throw new NotFoundError("Session not found");
+    }
+
+    securityLogger.sessionsRevoked(adminUser.id, id, 1);
+
+    const response = NextResponse.json({ success: true });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error revoking user session", { error });
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireAdmin } from "@/lib/auth";
+import { listActiveSessions, revokeAllSessions } from "@/lib/session";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, NotFoundError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/admin/users/:id/sessions - List active sessions of any user
+ * Only accessible by ADMIN users
+ * Security: Rate limited, admin only
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    logger.info(`GET /api/admin/users/${id}/sessions`);
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // Verify admin access
+    await requireAdmin({ scopes: ["admin"] });
+
+    const targetUser = await db.user.findUnique({ where: { id }, select: { id: true } });
+    if (!targetUser) {
+      throw new NotFoundError("User not found");
+    }
+
+    const sessions = await listActiveSessions(id);
+
+    const response = NextResponse.json({ sessions });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error fetching user sessions", { error });
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/admin/users/:id/sessions - Sign out a user everywhere
+ * Only accessible by ADMIN users
+ * Security: Rate limited, admin only, audit logged
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    logger.info(`DELETE /api/admin/users/${id}/sessions`);
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Verify admin access
+    const adminUser = await requireAdmin({ scopes: ["admin"] });
+
+    const revokedCount = await revokeAllSessions(id);
+
+    securityLogger.sessionsRevoked(adminUser.id, id, revokedCount);
+
+    const response = NextResponse.json({ success: true, revokedCount });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error revoking user sessions", { error });
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireAdmin } from "@/lib/auth";
+import { resetFailedLogins } from "@/lib/loginAttempts";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, NotFoundError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/admin/users/:id/unlock - Lift a brute-force lockout and reset the failure counter
+ * Only accessible by ADMIN users
+ * Security: Rate limited, admin only, audit logged
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    logger.info(`POST /api/admin/users/${id}/unlock`);
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Verify admin access
+    const adminUser = await requireAdmin({ scopes: ["admin"] });
+
+    const targetUser = await db.user.findUnique({ where: { id }, select: { id: true } });
+    if (!targetUser) {
+      throw new NotFoundError("User not found");
+    }
+
+    await resetFailedLogins(id);
+
+    // Audit log: account unlocked
+    securityLogger.accountUnlocked(adminUser.id, id);
+    await recordAuditEvent(request, {
+      actorId: adminUser.id,
+      action: "update",
+      entityType: "user",
+      entityId: id,
+      after: { unlocked: true },
+    });
+
+    const response = NextResponse.json({ success: true });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error unlocking user", { error });
+    return createErrorResponse(error);
+  }
+}
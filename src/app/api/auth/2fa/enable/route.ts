@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, ValidationError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { enableTwoFactor } from "@/lib/twoFactor";
+import { z } from "zod";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+const enableSchema = z.object({
+  code: z.string().min(1, "Code is required").max(32),
+});
+
+/**
+ * POST /api/auth/2fa/enable - Confirm enrollment with a code from the authenticator app
+ * Returns recovery codes - they are shown once and only their hashes are stored
+ * Security: Rate limited, requires authentication
+ */
+export async function POST(request: NextRequest) {
+  try {
+    logger.info("POST /api/auth/2fa/enable");
+
+    // Rate limiting (strict: code verification)
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.strict);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    const user = await requireAuth();
+    const body = await request.json();
+
+    // Validate input
+    const validated = enableSchema.safeParse(body);
+    if (!validated.success) {
+      throw new ValidationError("Invalid input", validated.error.issues);
+    }
+
+    const recoveryCodes = await enableTwoFactor(user.id, validated.data.code);
+    securityLogger.twoFactorChanged(user.id, "enabled");
+
+    const response = NextResponse.json(
+      { success: true, recoveryCodes },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error enabling two-factor authentication", { error });
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, ValidationError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { regenerateRecoveryCodes } from "@/lib/twoFactor";
+import { z } from "zod";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+const regenerateSchema = z.object({
+  code: z.string().min(1, "Code is required").max(32),
+});
+
+/**
+ * POST /api/auth/2fa/recovery-codes - Replace all recovery codes
+ * Security: Rate limited, requires a current code
+ */
+export async function POST(request: NextRequest) {
+  try {
+    logger.info("POST /api/auth/2fa/recovery-codes");
+
+    // Rate limiting (strict: code verification)
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.strict);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    const user = await requireAuth();
+    const body = await request.json();
+
+    // Validate input
+    const validated = regenerateSchema.safeParse(body);
+    if (!validated.success) {
+      throw new ValidationError("Invalid input", validated.error.issues);
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id, validated.data.code);
+    securityLogger.twoFactorChanged(user.id, "recovery_codes_regenerated");
+
+    const response = NextResponse.json(
+      { success: true, recoveryCodes },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error regenerating recovery codes", { error });
+    return createErrorResponse(error);
+  }
+}
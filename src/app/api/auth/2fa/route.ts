@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, ValidationError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { disableTwoFactor, getTwoFactorStatus } from "@/lib/twoFactor";
+import { z } from "zod";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+const disableSchema = z.object({
+  code: z.string().min(1, "Code is required").max(32),
+});
+
+/**
+ * GET /api/auth/2fa - Two-factor status of the current user
+ * Security: Rate limited, requires authentication
+ */
+export async function GET(request: NextRequest) {
+  try {
+    logger.info("GET /api/auth/2fa");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    const user = await requireAuth();
+    const status = await getTwoFactorStatus(user);
+
+    const response = NextResponse.json(status);
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error fetching two-factor status", { error });
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/auth/2fa - Disable two-factor authentication
+ * Security: Rate limited, requires a current code, blocked when the policy requires 2FA
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    logger.info("DELETE /api/auth/2fa");
+
+    // Rate limiting (strict: code verification)
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.strict);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    const user = await requireAuth();
+    const body = await request.json();
+
+    // Validate input
+    const validated = disableSchema.safeParse(body);
+    if (!validated.success) {
+      throw new ValidationError("Invalid input", validated.error.issues);
+    }
+
+    await disableTwoFactor(user, validated.data.code);
+    securityLogger.twoFactorChanged(user.id, "disabled");
+
+    const response = NextResponse.json({ success: true });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error disabling two-factor authentication", { error });
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { beginTwoFactorSetup } from "@/lib/twoFactor";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+/**
+ * POST /api/auth/2fa/setup - Generate a new TOTP secret for enrollment
+ * The secret is inactive until confirmed via /api/auth/2fa/enable
+ * Security: Rate limited, requires authentication
+ */
+export async function POST(request: NextRequest) {
+  try {
+    logger.info("POST /api/auth/2fa/setup");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    const user = await requireAuth();
+    const setup = await beginTwoFactorSetup(user);
+
+    const response = NextResponse.json(setup, {
+      headers: { "Cache-Control": "no-store" },
+    });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error starting two-factor setup", { error });
+    return createErrorResponse(error);
+  }
+}
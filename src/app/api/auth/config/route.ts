@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { env } from "@/lib/env";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { createErrorResponse } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { isOidcEnabled } from "@/lib/oidc";
+import { getWorkspaceSettings } from "@/lib/settings";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/auth/config - Public sign-in options for the login page
+ * Security: Rate limited, public, exposes no secrets (SSO availability and the signup policy)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    const settings = await getWorkspaceSettings();
+
+    return NextResponse.json({
+      sso: isOidcEnabled() ? { enabled: true, name: env.OIDC_PROVIDER_NAME } : { enabled: false },
+      signup: {
+        mode: settings.signupMode,
+        allowedDomains: settings.signupMode === "DOMAINS" ? settings.allowedSignupDomains : [],
+      },
+    });
+  } catch (error) {
+    logger.error("Error fetching auth config", { error });
+    return createErrorResponse(error);
+  }
+}
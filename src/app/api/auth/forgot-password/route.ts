@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, ValidationError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { sendMail } from "@/lib/mail";
+import { passwordResetEmail } from "@/lib/emails";
+import { createPasswordResetToken, PASSWORD_RESET_TTL_MINUTES } from "@/lib/passwordReset";
+import { getAppUrl, getClientIp } from "@/lib/request";
+import { z } from "zod";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email format"),
+});
+
+/**
+ * POST /api/auth/forgot-password - Request a password reset link
+ * Security: Rate limited, email enumeration protection (same response whether or not the account exists)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    logger.info("POST /api/auth/forgot-password");
+
+    // Rate limiting (strict: 5 requests per minute)
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.strict);
+    if (!rateLimitResult) {
+      securityLogger.rateLimitExceeded(getClientIp(request), "/api/auth/forgot-password");
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Too many requests. Please try again later." },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": "60",
+          },
+        }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    const body = await request.json();
+
+    // Validate input
+    const validated = forgotPasswordSchema.safeParse(body);
+    if (!validated.success) {
+      throw new ValidationError("Invalid email format", validated.error.issues);
+    }
+
+    const { email } = validated.data;
+    // Resolved before the lookup, so a missing APP_URL fails the same way for every email
+    const appUrl = getAppUrl(request);
+
+    // Ensure minimum response time regardless of user existence (prevent timing enumeration)
+    const startTime = Date.now();
+    const minResponseTime = 300;
+
+    const user = await db.user.findUnique({
+      where: { email },
+      select: { id: true, name: true, email: true },
+    });
+
+    if (user) {
+      const token = await createPasswordResetToken(user.id);
+      const resetUrl = `${appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+      await sendMail(passwordResetEmail(user.email, user.name, resetUrl, PASSWORD_RESET_TTL_MINUTES));
+
+      securityLogger.passwordResetRequested(user.id, getClientIp(request));
+    }
+
+    const elapsed = Date.now() - startTime;
+    if (elapsed < minResponseTime) {
+      await new Promise((resolve) => setTimeout(resolve, minResponseTime - elapsed));
+    }
+
+    // Always return the same response (prevent enumeration)
+    return NextResponse.json({
+      success: true,
+      message: "If an account exists for this email, a reset link has been sent.",
+    });
+  } catch (error) {
+    logger.error("Error in forgot-password endpoint", { error });
+    const errorResponse = createErrorResponse(error);
+    errorResponse.headers.set("Content-Type", "application/json");
+    return errorResponse;
+  }
+}
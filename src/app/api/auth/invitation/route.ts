@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { createErrorResponse, NotFoundError } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { findValidInvitation } from "@/lib/invitations";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/auth/invitation?token=... - Look up an invitation to prefill the signup form
+ * Security: Rate limited, public (the token is the credential), token never logged
+ */
+export async function GET(request: NextRequest) {
+  try {
+    logger.info("GET /api/auth/invitation");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    const token = request.nextUrl.searchParams.get("token");
+    const invitation = token ? await findValidInvitation(token) : null;
+    if (!invitation) {
+      throw new NotFoundError("This invitation is invalid or has expired");
+    }
+
+    return NextResponse.json(
+      { invitation: { email: invitation.email, expiresAt: invitation.expiresAt } },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    logger.error("Error fetching invitation", { error });
+    return createErrorResponse(error);
+  }
+}
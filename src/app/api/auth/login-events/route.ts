@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { listLoginEvents } from "@/lib/loginAttempts";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { createErrorResponse } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+/**
+ * GET /api/auth/login-events - Recent login attempts on the current user's account
+ * Security: Rate limited, own history only
+ */
+export async function GET(request: NextRequest) {
+  try {
+    logger.info("GET /api/auth/login-events");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    const user = await requireAuth();
+    const events = await listLoginEvents(user.id);
+
+    const response = NextResponse.json({ events });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error fetching login events", { error });
+    return createErrorResponse(error);
+  }
+}
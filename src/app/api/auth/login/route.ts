@@ -1,9 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db, checkDatabaseConnection, isDatabaseInitialized } from "@/lib/db";
 import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
 import { createErrorResponse, ValidationError } from "@/lib/errors";
 import { logger, securityLogger } from "@/lib/logger";
 import { verifyPassword } from "@/lib/password";
+import { getClientIp, getUserAgent } from "@/lib/request";
+import {
+  createSession,
+  revokeSessionByCookie,
+  setSessionCookie,
+  SESSION_COOKIE_NAME,
+} from "@/lib/session";
+import { createLoginChallenge, needsTwoFactorEnrollment } from "@/lib/twoFactor";
+import {
+  getActiveLock,
+  recordFailedLogin,
+  recordLoginEvent,
+  resetFailedLogins,
+} from "@/lib/loginAttempts";
+import { recordAuditEvent } from "@/lib/audit";
 import { z } from "zod";
 
 // Explicitly set runtime to nodejs (required for Prisma on Vercel)
@@ -16,29 +32,6 @@ const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
-/**
- * Handle OPTIONS request for CORS preflight
- */
-export async function OPTIONS(request: NextRequest) {
-  logger.info("OPTIONS /api/auth/login (CORS preflight)", {
-    url: request.url,
-    origin: request.headers.get("origin"),
-    method: request.headers.get("access-control-request-method"),
-    headers: request.headers.get("access-control-request-headers"),
-    environment: process.env.VERCEL ? "vercel" : "local",
-  });
-  
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type",
-      "Access-Control-Max-Age": "86400", // 24 hours
-    },
-  });
-}
-
 /**
  * GET /api/auth/login - Not allowed; return JSON 405 so client never gets HTML
  */
@@ -126,6 +119,9 @@ export async function POST(request: NextRequest) {
         }
       );
     }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
     
     logger.debug("Rate limit check passed", { requestId, remaining: rateLimitResult.remaining });
 
@@ -228,6 +224,9 @@ export async function POST(request: NextRequest) {
           email: true,
           role: true,
           passwordHash: true,
+          totpEnabledAt: true,
+          lockedUntil: true,
+          emailVerifiedAt: true,
         },
       });
     } catch (dbError) {
@@ -256,9 +255,16 @@ export async function POST(request: NextRequest) {
     // Verify password (always perform verification to prevent timing attacks)
     // If user doesn't exist, use a real bcrypt hash to maintain constant time
     // This is a hash of a random string that will never match
+    const clientInfo = { ip: getClientIp(request), userAgent: getUserAgent(request) };
+
+    // Per-account lockout: a locked account never signs in, but its password is still hashed and
+    // it gets the same delay and generic response as a wrong password, so locks do not reveal which
+    // emails have accounts
+    const lockedUntil = user ? getActiveLock(user) : null;
+
     const dummyHash = "$2a$12$LQv3c1yqBWVHxkd0LHAkCOYz6TtxMQJqhN8/LewY5GyYqJqZ5q5Xe";
-    const passwordHash = user?.passwordHash || dummyHash;
-    const passwordValid = user ? await verifyPassword(password, passwordHash) : false;
+    const passwordHash = user && !lockedUntil ? user.passwordHash || dummyHash : dummyHash;
+    const passwordValid = (await verifyPassword(password, passwordHash)) && !!user && !lockedUntil;
 
     // Add artificial delay to prevent timing attacks
     // Ensure minimum response time regardless of user existence or password validity
@@ -270,10 +276,22 @@ export async function POST(request: NextRequest) {
     }
 
     // Always return same response format (prevent enumeration)
-    // Never reveal if user exists or not, or if password is wrong
+    // Never reveal if user exists or not, if password is wrong or if the account is locked
     if (!user || !passwordValid) {
-      const ip = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || request.headers.get("x-real-ip") || "unknown";
-      securityLogger.failedLogin(email, ip, !user ? "User not found" : "Invalid password");
+      const reason = !user ? "User not found" : lockedUntil ? "Account locked" : "Invalid password";
+      securityLogger.failedLogin(email, clientInfo.ip, reason);
+      await recordLoginEvent({ userId: user?.id ?? null, email, success: false, reason, ...clientInfo });
+      await recordAuditEvent(request, {
+        actorId: user?.id ?? null,
+        action: "login_failed",
+        entityType: "user",
+        entityId: user?.id ?? null,
+        after: { email, reason },
+      });
+      // Attempts while locked do not extend the lock
+      if (user && !lockedUntil) {
+        await recordFailedLogin(user.id);
+      }
       // Return generic error (same format as success, but without user data)
       return NextResponse.json(
         { error: "Invalid credentials", message: "Email or password is incorrect" },
@@ -286,6 +304,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Second step: users with 2FA get a short-lived challenge instead of a session
+    if (user.totpEnabledAt) {
+      logger.info("Password verified, two-factor code required", {
+        requestId,
+        userId: user.id.substring(0, 8) + "***",
+      });
+      return NextResponse.json({
+        twoFactorRequired: true,
+        challenge: createLoginChallenge(user.id),
+      }, {
+        headers: {
+          "Content-Type": "application/json",
+        }
+      });
+    }
+
+    await resetFailedLogins(user.id);
+    await recordLoginEvent({ userId: user.id, email, success: true, ...clientInfo });
+    await recordAuditEvent(request, { actorId: user.id, action: "login", entityType: "user", entityId: user.id });
+
     logger.info("User logged in successfully", {
       requestId,
       userId: user.id.substring(0, 8) + "***",
@@ -293,7 +331,11 @@ export async function POST(request: NextRequest) {
       role: user.role,
     });
 
-    // Set secure cookie with user ID using NextResponse
+    // Rotate session: revoke any session presented with this request, then issue a fresh one
+    // (prevents session fixation - a pre-login token never becomes authenticated)
+    await revokeSessionByCookie(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+    const { session, cookieValue } = await createSession(user.id, clientInfo);
+
     const response = NextResponse.json({
       user: {
         id: user.id,
@@ -301,20 +343,16 @@ export async function POST(request: NextRequest) {
         email: user.email,
         role: user.role,
       },
+      // Admins must enroll in 2FA before using admin features (workspace policy)
+      twoFactorSetupRequired: await needsTwoFactorEnrollment(user),
+      emailVerificationRequired: !user.emailVerifiedAt,
     }, {
       headers: {
         "Content-Type": "application/json",
       }
     });
 
-    // Устанавливаем cookie через response.cookies для правильной работы в Next.js 15
-    response.cookies.set("calendar_auth_user_id", user.id, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax", // Используем "lax" для лучшей совместимости при редиректах
-      path: "/",
-      maxAge: 60 * 60 * 24 * 7, // 7 days
-    });
+    setSessionCookie(response, cookieValue, session.expiresAt);
 
     return response;
   } catch (error) {
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import {
+  createErrorResponse,
+  RateLimitError,
+  UnauthorizedError,
+  ValidationError,
+} from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { getClientIp, getUserAgent } from "@/lib/request";
+import {
+  createSession,
+  revokeSessionByCookie,
+  setSessionCookie,
+  SESSION_COOKIE_NAME,
+} from "@/lib/session";
+import { verifyLoginChallenge, verifySecondFactor } from "@/lib/twoFactor";
+import {
+  formatLockoutWait,
+  getActiveLock,
+  recordFailedLogin,
+  recordLoginEvent,
+  resetFailedLogins,
+} from "@/lib/loginAttempts";
+import { recordAuditEvent } from "@/lib/audit";
+import { z } from "zod";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const verifySchema = z.object({
+  challenge: z.string().min(1, "Challenge is required"),
+  code: z.string().min(1, "Code is required").max(32),
+});
+
+/**
+ * POST /api/auth/login/verify - Second login step: exchange challenge + TOTP/recovery code for a session
+ * Security: Rate limited, signed expiring challenge, codes cannot be replayed
+ */
+export async function POST(request: NextRequest) {
+  try {
+    logger.info("POST /api/auth/login/verify");
+
+    // Rate limiting (strict: 5 requests per minute)
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.strict);
+    if (!rateLimitResult) {
+      securityLogger.rateLimitExceeded(getClientIp(request), "/api/auth/login/verify");
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Too many login attempts. Please try again later." },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": "60",
+          },
+        }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    const body = await request.json();
+
+    // Validate input
+    const validated = verifySchema.safeParse(body);
+    if (!validated.success) {
+      throw new ValidationError("Invalid input", validated.error.issues);
+    }
+
+    const { challenge, code } = validated.data;
+
+    const userId = verifyLoginChallenge(challenge);
+    if (!userId) {
+      throw new UnauthorizedError("Your sign-in attempt has expired. Please sign in again.");
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, email: true, role: true, lockedUntil: true, emailVerifiedAt: true },
+    });
+    if (!user) {
+      throw new UnauthorizedError("Your sign-in attempt has expired. Please sign in again.");
+    }
+
+    const clientInfo = { ip: getClientIp(request), userAgent: getUserAgent(request) };
+
+    // Code failures count towards the same per-account lockout as password failures
+    const lockedUntil = getActiveLock(user);
+    if (lockedUntil) {
+      securityLogger.failedLogin(user.email, clientInfo.ip, "Account locked");
+      await recordLoginEvent({
+        userId: user.id,
+        email: user.email,
+        success: false,
+        reason: "Account locked",
+        ...clientInfo,
+      });
+      await recordAuditEvent(request, {
+        actorId: user.id,
+        action: "login_failed",
+        entityType: "user",
+        entityId: user.id,
+        after: { email: user.email, reason: "Account locked" },
+      });
+      throw new RateLimitError(
+        `Too many failed login attempts. Try again in ${formatLockoutWait(lockedUntil)}.`
+      );
+    }
+
+    if (!(await verifySecondFactor(user.id, code))) {
+      const reason = "Invalid two-factor code";
+      securityLogger.failedLogin(user.email, clientInfo.ip, reason);
+      await recordLoginEvent({ userId: user.id, email: user.email, success: false, reason, ...clientInfo });
+      await recordAuditEvent(request, {
+        actorId: user.id,
+        action: "login_failed",
+        entityType: "user",
+        entityId: user.id,
+        after: { email: user.email, reason },
+      });
+      await recordFailedLogin(user.id);
+      throw new UnauthorizedError("Invalid authentication code");
+    }
+
+    await resetFailedLogins(user.id);
+    await recordLoginEvent({ userId: user.id, email: user.email, success: true, ...clientInfo });
+    await recordAuditEvent(request, {
+      actorId: user.id,
+      action: "login",
+      entityType: "user",
+      entityId: user.id,
+      after: { twoFactor: true },
+    });
+
+    logger.info("User logged in successfully with two-factor authentication", {
+      userId: user.id.substring(0, 8) + "***",
+      role: user.role,
+    });
+
+    // Rotate session (see /api/auth/login)
+    await revokeSessionByCookie(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+    const { session, cookieValue } = await createSession(user.id, clientInfo);
+
+    const response = NextResponse.json({
+      user: {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+      },
+      emailVerificationRequired: !user.emailVerifiedAt,
+    });
+
+    setSessionCookie(response, cookieValue, session.expiresAt);
+
+    return response;
+  } catch (error) {
+    logger.error("Error in login verify endpoint", { error });
+    const errorResponse = createErrorResponse(error);
+    errorResponse.headers.set("Content-Type", "application/json");
+    return errorResponse;
+  }
+}
@@ -1,11 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
 import { createErrorResponse } from "@/lib/errors";
 import { logger } from "@/lib/logger";
+import { getCurrentUser } from "@/lib/auth";
+import { recordAuditEvent } from "@/lib/audit";
+import { clearSessionCookie, revokeSessionByCookie, SESSION_COOKIE_NAME } from "@/lib/session";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
 
 /**
  * POST /api/auth/logout - Logout user
- * Security: Rate limited
+ * Security: Rate limited, session revoked server-side
  */
 export async function POST(request: NextRequest) {
   try {
@@ -20,19 +27,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Удаляем cookie через response.cookies для правильной работы в Next.js 15
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    const user = await getCurrentUser();
+    if (user) {
+      await recordAuditEvent(request, { actorId: user.id, action: "logout", entityType: "user", entityId: user.id });
+    }
+
+    // Revoke the session so the token is useless even if the cookie was copied
+    await revokeSessionByCookie(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+
     const response = NextResponse.json({ success: true });
-    
-    // В Next.js 15 delete() принимает только имя cookie
-    // Для правильного удаления с указанием path используем set() с maxAge: 0
-    response.cookies.set("calendar_auth_user_id", "", {
-      path: "/",
-      maxAge: 0,
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-    });
-    
+    clearSessionCookie(response);
+
     if (rateLimitResult) {
       response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
     }
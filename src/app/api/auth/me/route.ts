@@ -1,14 +1,62 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getCurrentUser } from "@/lib/auth";
+import type { User } from "@prisma/client";
+import { getCurrentUser, requireSession } from "@/lib/auth";
+import { getEffectivePermissions } from "@/lib/authorize";
 import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
-import { logger } from "@/lib/logger";
-import { checkDatabaseConnection, isDatabaseInitialized } from "@/lib/db";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, ValidationError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+import { checkDatabaseConnection, db, isDatabaseInitialized } from "@/lib/db";
+import { requestEmailChange } from "@/lib/emailVerification";
+import { hashPassword, validatePasswordStrength, verifyPassword } from "@/lib/password";
+import { getAppUrl, getClientIp } from "@/lib/request";
+import { revokeAllSessions } from "@/lib/session";
+import { getUserTimeZone, getWorkspaceSettings } from "@/lib/settings";
+import { assertEmailDomainAllowed } from "@/lib/signupPolicy";
+import { isValidTimeZone } from "@/lib/timeZones";
+import { z } from "zod";
 
 // Explicitly set runtime to nodejs (required for Prisma on Vercel)
 export const runtime = "nodejs";
 // Ensure Vercel always runs this as serverless (avoids static/edge and 500 HTML)
 export const dynamic = "force-dynamic";
 
+const updateProfileSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(255, "Name is too long").optional(),
+    email: z.string().email("Invalid email format").optional(),
+    currentPassword: z.string().min(1).optional(),
+    newPassword: z.string().min(8, "Password must be at least 8 characters").optional(),
+    // null - follow the workspace default
+    timeZone: z.string().refine(isValidTimeZone, "Unknown time zone").nullable().optional(),
+  })
+  .refine(
+    (data) =>
+      data.name !== undefined ||
+      data.email !== undefined ||
+      data.newPassword !== undefined ||
+      data.timeZone !== undefined,
+    { message: "Nothing to update" }
+  );
+
+/**
+ * Public view of the current user
+ */
+async function serializeUser(user: User) {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    emailVerified: Boolean(user.emailVerifiedAt),
+    pendingEmail: user.pendingEmail,
+    hasPassword: Boolean(user.passwordHash),
+    timeZone: user.timeZone,
+    effectiveTimeZone: await getUserTimeZone(user),
+  };
+}
+
 /**
  * GET /api/auth/me - Get current user
  * Security: Rate limited
@@ -135,12 +183,8 @@ export async function GET(request: NextRequest) {
     });
 
     const response = NextResponse.json({
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-      },
+      // Effective permissions let the UI show only the actions the API will accept
+      user: { ...(await serializeUser(user)), permissions: await getEffectivePermissions(user) },
     }, {
       headers: {
         "Content-Type": "application/json",
@@ -234,3 +278,118 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+/**
+ * PATCH /api/auth/me - Update own profile: name, email, password and time zone
+ * - Email changes are applied only after the new address is confirmed through the emailed link
+ * - Email and password changes require the current password (SSO-only accounts have none to change)
+ * - A new password revokes every other session of the user
+ * Security: Rate limited (strict), CSRF protected, session required
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    logger.info("PATCH /api/auth/me");
+
+    // Rate limiting (strict: the current password is checked)
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.strict);
+    if (!rateLimitResult) {
+      securityLogger.rateLimitExceeded(getClientIp(request), "/api/auth/me");
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Too many requests. Please try again later." },
+        { status: 429, headers: { "Retry-After": "60" } }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    const session = await requireSession();
+    let user = session.user;
+    const previousName = user.name;
+    const previousTimeZone = user.timeZone;
+    const body = await request.json();
+
+    // Validate input
+    const validated = updateProfileSchema.safeParse(body);
+    if (!validated.success) {
+      throw new ValidationError(validated.error.issues[0]?.message || "Invalid input", validated.error.issues);
+    }
+
+    const { name, currentPassword, newPassword, timeZone } = validated.data;
+    const email = validated.data.email?.toLowerCase() === user.email.toLowerCase() ? undefined : validated.data.email;
+
+    // Sensitive changes need the current password
+    if (email !== undefined || newPassword !== undefined) {
+      if (!user.passwordHash) {
+        throw new ValidationError("Your account signs in through single sign-on and has no password to confirm changes");
+      }
+      if (!currentPassword || !(await verifyPassword(currentPassword, user.passwordHash))) {
+        securityLogger.failedLogin(user.email, getClientIp(request), "Invalid current password on profile update");
+        throw new ValidationError("Current password is incorrect");
+      }
+    }
+
+    let newPasswordHash: string | undefined;
+    if (newPassword !== undefined) {
+      const passwordValidation = validatePasswordStrength(newPassword);
+      if (!passwordValidation.valid) {
+        throw new ValidationError("Password does not meet requirements", passwordValidation.errors);
+      }
+      newPasswordHash = await hashPassword(newPassword);
+    }
+
+    // Checked before anything is saved, so a missing APP_URL leaves the profile unchanged
+    const appUrl = email !== undefined ? getAppUrl(request) : null;
+    if (email !== undefined) {
+      assertEmailDomainAllowed(email, await getWorkspaceSettings());
+    }
+
+    if (name !== undefined || newPasswordHash !== undefined || timeZone !== undefined) {
+      user = await db.user.update({
+        where: { id: user.id },
+        data: { name, passwordHash: newPasswordHash, timeZone },
+      });
+    }
+
+    let revokedSessions = 0;
+    if (newPasswordHash !== undefined) {
+      // Anyone holding another session of this account is signed out
+      revokedSessions = await revokeAllSessions(user.id, session.id);
+      securityLogger.passwordChanged(user.id, getClientIp(request), revokedSessions);
+    }
+
+    if (email !== undefined) {
+      await requestEmailChange(user, email, appUrl!);
+      user = { ...user, pendingEmail: email };
+      logger.info("Email change requested", { userId: user.id });
+    }
+
+    // Passwords are never stored - only the fact that one changed
+    await recordAuditEvent(request, {
+      actorId: user.id,
+      action: "update",
+      entityType: "user",
+      entityId: user.id,
+      before: { name: previousName, email: session.user.email, timeZone: previousTimeZone },
+      after: {
+        name: user.name,
+        timeZone: user.timeZone,
+        ...(email !== undefined && { pendingEmail: email }),
+        passwordChanged: newPasswordHash !== undefined,
+      },
+    });
+
+    const response = NextResponse.json({
+      user: await serializeUser(user),
+      passwordChanged: newPasswordHash !== undefined,
+      revokedSessions,
+      emailChangePending: email !== undefined,
+    });
+    response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+
+    return response;
+  } catch (error) {
+    logger.error("Error updating profile", { error });
+    return createErrorResponse(error);
+  }
+}
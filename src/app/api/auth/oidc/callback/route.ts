@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { ForbiddenError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import {
+  exchangeAuthorizationCode,
+  OIDC_STATE_COOKIE_NAME,
+  openLoginState,
+  verifyIdToken,
+} from "@/lib/oidc";
+import { provisionOidcUser } from "@/lib/oidcProvisioning";
+import { getAppUrl, getClientIp, getUserAgent } from "@/lib/request";
+import {
+  createSession,
+  revokeSessionByCookie,
+  setSessionCookie,
+  SESSION_COOKIE_NAME,
+} from "@/lib/session";
+import { createLoginChallenge, needsTwoFactorEnrollment } from "@/lib/twoFactor";
+import { recordLoginEvent, resetFailedLogins } from "@/lib/loginAttempts";
+import { recordAuditEvent } from "@/lib/audit";
+import { safeEqual } from "@/lib/tokens";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type SsoError = "cancelled" | "denied" | "failed";
+
+/**
+ * Redirect to a local path, always dropping the one-time state cookie
+ */
+function redirectTo(request: NextRequest, path: string): NextResponse {
+  const response = NextResponse.redirect(new URL(path, getAppUrl(request)));
+  response.cookies.set(OIDC_STATE_COOKIE_NAME, "", { path: "/api/auth/oidc", maxAge: 0 });
+  return response;
+}
+
+function redirectToLogin(request: NextRequest, error: SsoError): NextResponse {
+  return redirectTo(request, `/login?ssoError=${error}`);
+}
+
+/**
+ * GET /api/auth/oidc/callback - Complete SSO login
+ * Browser navigation endpoint: errors redirect back to /login instead of returning JSON
+ * Security: Rate limited, state + nonce + PKCE checked, ID token verified against the IdP's JWKS
+ */
+export async function GET(request: NextRequest) {
+  logger.info("GET /api/auth/oidc/callback");
+
+  // Rate limiting
+  const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+  if (!rateLimitResult) {
+    securityLogger.rateLimitExceeded(getClientIp(request), "/api/auth/oidc/callback");
+    return redirectToLogin(request, "failed");
+  }
+
+  const { searchParams } = request.nextUrl;
+  const loginState = openLoginState(request.cookies.get(OIDC_STATE_COOKIE_NAME)?.value);
+  const state = searchParams.get("state");
+  const code = searchParams.get("code");
+
+  // IdP reported an error (e.g. the user cancelled the consent screen)
+  if (searchParams.get("error")) {
+    logger.warn("SSO login returned an error", {
+      error: searchParams.get("error"),
+      description: searchParams.get("error_description")?.substring(0, 200),
+    });
+    return redirectToLogin(request, "cancelled");
+  }
+
+  // Login CSRF: the callback must belong to a login started in this browser
+  if (!loginState || !state || !code || !safeEqual(state, loginState.state)) {
+    logger.warn("SSO callback with missing or mismatched state");
+    return redirectToLogin(request, "failed");
+  }
+
+  const clientInfo = { ip: getClientIp(request), userAgent: getUserAgent(request) };
+
+  try {
+    const redirectUri = `${getAppUrl(request)}/api/auth/oidc/callback`;
+    const idToken = await exchangeAuthorizationCode(code, loginState.codeVerifier, redirectUri);
+    const claims = await verifyIdToken(idToken, loginState.nonce);
+    const user = await provisionOidcUser(claims);
+
+    // Local 2FA still applies: continue on the login page with a challenge
+    if (user.totpEnabledAt) {
+      const params = new URLSearchParams({
+        challenge: createLoginChallenge(user.id),
+        redirect: loginState.redirect,
+      });
+      return redirectTo(request, `/login?${params.toString()}`);
+    }
+
+    // The IdP proved the identity, so a password lockout no longer applies
+    await resetFailedLogins(user.id);
+    await recordLoginEvent({ userId: user.id, email: user.email, success: true, ...clientInfo });
+    await recordAuditEvent(request, {
+      actorId: user.id,
+      action: "login",
+      entityType: "user",
+      entityId: user.id,
+      after: { sso: true },
+    });
+
+    logger.info("User logged in via SSO", {
+      userId: user.id.substring(0, 8) + "***",
+      role: user.role,
+    });
+
+    // Rotate session (prevents session fixation)
+    await revokeSessionByCookie(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+    const { session, cookieValue } = await createSession(user.id, clientInfo);
+
+    // Unconfirmed addresses (IdP did not report email_verified=true) go to the "check your inbox" screen
+    // Admins must enroll in 2FA before using admin features (workspace policy)
+    const response = redirectTo(
+      request,
+      !user.emailVerifiedAt
+        ? "/verify-email"
+        : (await needsTwoFactorEnrollment(user))
+          ? "/profile/security"
+          : loginState.redirect
+    );
+    setSessionCookie(response, cookieValue, session.expiresAt);
+
+    return response;
+  } catch (error) {
+    logger.error("Error completing SSO login", { error });
+    if (error instanceof ForbiddenError) {
+      securityLogger.failedLogin("sso", clientInfo.ip, `SSO: ${error.message}`);
+      return redirectToLogin(request, "denied");
+    }
+    return redirectToLogin(request, "failed");
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { createErrorResponse, NotFoundError } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import {
+  createAuthorizationRequest,
+  isOidcEnabled,
+  OIDC_STATE_COOKIE_NAME,
+  OIDC_STATE_TTL_SECONDS,
+  safeRedirectPath,
+  sealLoginState,
+} from "@/lib/oidc";
+import { getAppUrl } from "@/lib/request";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/auth/oidc/start - Redirect to the identity provider (authorization code + PKCE)
+ * state, nonce and the PKCE verifier are kept in an encrypted, short-lived cookie
+ * Security: Rate limited, redirect target restricted to local paths
+ */
+export async function GET(request: NextRequest) {
+  try {
+    logger.info("GET /api/auth/oidc/start");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    if (!isOidcEnabled()) {
+      throw new NotFoundError("Single sign-on is not configured");
+    }
+
+    const redirectUri = `${getAppUrl(request)}/api/auth/oidc/callback`;
+    const { url, state, nonce, codeVerifier } = await createAuthorizationRequest(redirectUri);
+
+    const response = NextResponse.redirect(url);
+    response.cookies.set(
+      OIDC_STATE_COOKIE_NAME,
+      sealLoginState({
+        state,
+        nonce,
+        codeVerifier,
+        redirect: safeRedirectPath(request.nextUrl.searchParams.get("redirect")),
+      }),
+      {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "lax", // Sent on the top-level redirect back from the IdP
+        path: "/api/auth/oidc",
+        maxAge: OIDC_STATE_TTL_SECONDS,
+      }
+    );
+
+    return response;
+  } catch (error) {
+    logger.error("Error starting SSO login", { error });
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, ValidationError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+import { validatePasswordStrength } from "@/lib/password";
+import { resetPasswordWithToken } from "@/lib/passwordReset";
+import { getClientIp } from "@/lib/request";
+import { z } from "zod";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+/**
+ * POST /api/auth/reset-password - Set a new password with a reset token
+ * Security: Rate limited, single-use expiring token, password strength validated,
+ * all sessions revoked
+ */
+export async function POST(request: NextRequest) {
+  try {
+    logger.info("POST /api/auth/reset-password");
+
+    // Rate limiting (strict: 5 requests per minute)
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.strict);
+    if (!rateLimitResult) {
+      securityLogger.rateLimitExceeded(getClientIp(request), "/api/auth/reset-password");
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Too many requests. Please try again later." },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": "60",
+          },
+        }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    const body = await request.json();
+
+    // Validate input
+    const validated = resetPasswordSchema.safeParse(body);
+    if (!validated.success) {
+      throw new ValidationError("Invalid input", validated.error.issues);
+    }
+
+    const { token, password } = validated.data;
+
+    // Validate password strength
+    const passwordValidation = validatePasswordStrength(password);
+    if (!passwordValidation.valid) {
+      throw new ValidationError("Password does not meet requirements", passwordValidation.errors);
+    }
+
+    const userId = await resetPasswordWithToken(token, password);
+
+    securityLogger.passwordReset(userId, getClientIp(request));
+    await recordAuditEvent(request, {
+      actorId: userId,
+      action: "update",
+      entityType: "user",
+      entityId: userId,
+      after: { passwordReset: true },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("Error in reset-password endpoint", { error });
+    const errorResponse = createErrorResponse(error);
+    errorResponse.headers.set("Content-Type", "application/json");
+    return errorResponse;
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth";
+import { clearSessionCookie, revokeSession } from "@/lib/session";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, NotFoundError } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * DELETE /api/auth/sessions/:id - Sign out one of the current user's sessions
+ * Security: Rate limited, own sessions only (scoped by userId)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    logger.info(`DELETE /api/auth/sessions/${id}`);
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    const session = await requireSession();
+
+    const revoked = await revokeSession(session.userId, id);
+    if (!revoked) {
+      throw new NotFoundError("Session not found");
+    }
+
+    logger.info("Revoked session", { userId: session.userId, sessionId: id });
+
+    const isCurrent = id === session.id;
+    const response = NextResponse.json({ success: true, current: isCurrent });
+    if (isCurrent) {
+      clearSessionCookie(response);
+    }
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error revoking session", { error });
+    return createErrorResponse(error);
+  }
+}
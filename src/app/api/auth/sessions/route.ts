@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth";
+import { listActiveSessions, revokeAllSessions } from "@/lib/session";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+/**
+ * GET /api/auth/sessions - List active sessions of the current user
+ * Security: Rate limited, own sessions only, token hashes never exposed
+ */
+export async function GET(request: NextRequest) {
+  try {
+    logger.info("GET /api/auth/sessions");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    const session = await requireSession();
+    const sessions = await listActiveSessions(session.userId, session.id);
+
+    const response = NextResponse.json({ sessions });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error fetching sessions", { error });
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/auth/sessions - Sign out all other sessions (keeps the current one)
+ * Security: Rate limited, own sessions only
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    logger.info("DELETE /api/auth/sessions");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    const session = await requireSession();
+    const revokedCount = await revokeAllSessions(session.userId, session.id);
+
+    logger.info("Revoked other sessions", { userId: session.userId, revokedCount });
+
+    const response = NextResponse.json({ success: true, revokedCount });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error revoking sessions", { error });
+    return createErrorResponse(error);
+  }
+}
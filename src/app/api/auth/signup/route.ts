@@ -1,9 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
 import { createErrorResponse, ValidationError } from "@/lib/errors";
+import { sendVerificationEmail } from "@/lib/emailVerification";
+import { acceptInvitation, findValidInvitation } from "@/lib/invitations";
+import { getWorkspaceSettings } from "@/lib/settings";
+import { assertSignupAllowed } from "@/lib/signupPolicy";
 import { logger, securityLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
 import { hashPassword, validatePasswordStrength } from "@/lib/password";
+import { getAppUrl, getClientIp, getUserAgent } from "@/lib/request";
+import { createSession, setSessionCookie } from "@/lib/session";
 import { z } from "zod";
 
 // Explicitly set runtime to nodejs (required for Prisma on Vercel)
@@ -13,10 +21,13 @@ const signupSchema = z.object({
   name: z.string().min(1, "Name is required").max(255, "Name is too long"),
   email: z.string().email("Invalid email format"),
   password: z.string().min(8, "Password must be at least 8 characters"),
+  invitationToken: z.string().min(1).optional(),
 });
 
 /**
  * POST /api/auth/signup - Register a new user
+ * Without an invitation the workspace signup policy applies (open / allowed domains / invite only)
+ * and the email address must be confirmed through the emailed link before the account can be used
  * Security: Rate limited, password validation, secure cookies
  */
 export async function POST(request: NextRequest) {
@@ -39,6 +50,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
     const body = await request.json();
 
     // Validate input
@@ -47,7 +61,19 @@ export async function POST(request: NextRequest) {
       throw new ValidationError("Invalid input", validated.error.issues);
     }
 
-    const { name, email, password } = validated.data;
+    const { name, email, password, invitationToken } = validated.data;
+
+    // An invitation replaces the signup policy, but only for the invited email
+    const invitation = invitationToken ? await findValidInvitation(invitationToken) : null;
+    if (invitationToken && !invitation) {
+      throw new ValidationError("This invitation is invalid or has expired");
+    }
+    if (invitation && invitation.email.toLowerCase() !== email.toLowerCase()) {
+      throw new ValidationError("Use the email address the invitation was sent to");
+    }
+    if (!invitation) {
+      assertSignupAllowed(email, await getWorkspaceSettings());
+    }
 
     // Validate password strength
     const passwordValidation = validatePasswordStrength(password);
@@ -55,6 +81,9 @@ export async function POST(request: NextRequest) {
       throw new ValidationError("Password does not meet requirements", passwordValidation.errors);
     }
 
+    // Resolved before the lookup, so a missing APP_URL fails the same way for every email
+    const appUrl = getAppUrl(request);
+
     // Check if user already exists
     const existingUser = await db.user.findUnique({
       where: { email },
@@ -72,28 +101,48 @@ export async function POST(request: NextRequest) {
     // Hash password
     const passwordHash = await hashPassword(password);
 
-    // Create user
-    const user = await db.user.create({
-      data: {
-        name,
-        email,
-        passwordHash,
-        role: "USER", // New users are always USER, not ADMIN
-      },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        role: true,
-      },
+    // Create user (invited users get the role and permissions chosen by the admin)
+    const user = invitation
+      ? await acceptInvitation(invitation, { name, passwordHash })
+      : await db.user.create({
+          data: {
+            name,
+            email,
+            passwordHash,
+            role: "USER", // Self-registered users are always USER, not ADMIN
+          },
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            role: true,
+          },
+        });
+
+    await recordAuditEvent(request, {
+      actorId: user.id,
+      action: "create",
+      entityType: "user",
+      entityId: user.id,
+      after: { name: user.name, email: user.email, role: user.role, invitationId: invitation?.id ?? null },
     });
 
+    if (invitation) {
+      logger.info("Invitation accepted", { invitationId: invitation.id, userId: user.id });
+    } else {
+      await sendVerificationEmail(user, appUrl);
+    }
+
     logger.info("User registered successfully", {
       userId: user.id,
       email: user.email.substring(0, 3) + "***", // Partial email for logs
     });
 
-    // Set secure cookie with user ID using NextResponse
+    const { session, cookieValue } = await createSession(user.id, {
+      userAgent: getUserAgent(request),
+      ip: getClientIp(request),
+    });
+
     const response = NextResponse.json(
       {
         user: {
@@ -102,18 +151,13 @@ export async function POST(request: NextRequest) {
           email: user.email,
           role: user.role,
         },
+        // Invited users proved the address already - everyone else gets the "check your inbox" screen
+        emailVerificationRequired: !invitation,
       },
       { status: 201 }
     );
 
-    // Устанавливаем cookie через response.cookies для правильной работы в Next.js 15
-    response.cookies.set("calendar_auth_user_id", user.id, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax", // Используем "lax" для лучшей совместимости при редиректах
-      path: "/",
-      maxAge: 60 * 60 * 24 * 7, // 7 days
-    });
+    setSessionCookie(response, cookieValue, session.expiresAt);
 
     return response;
   } catch (error) {
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { API_SCOPES, type ApiScope } from "@/lib/apiScopes";
+import { createApiToken, listApiTokens, MAX_API_TOKEN_LIFETIME_DAYS } from "@/lib/apiTokens";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, ForbiddenError, ValidationError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { z } from "zod";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+const createTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z
+    .array(z.enum(API_SCOPES as [ApiScope, ...ApiScope[]]))
+    .min(1, "Select at least one scope"),
+  expiresInDays: z.number().int().min(1).max(MAX_API_TOKEN_LIFETIME_DAYS),
+});
+
+/**
+ * GET /api/auth/tokens - List the current user's active API tokens and the scopes they may grant
+ * Security: Rate limited, browser session only, token hashes never exposed
+ */
+export async function GET(request: NextRequest) {
+  try {
+    logger.info("GET /api/auth/tokens");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    const user = await requireAuth();
+    const tokens = await listApiTokens(user.id);
+    const availableScopes = API_SCOPES.filter((scope) => scope !== "admin" || user.role === "ADMIN");
+
+    const response = NextResponse.json({ tokens, availableScopes });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error fetching API tokens", { error });
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/auth/tokens - Create an API token
+ * Returns the raw token - it is shown once and only its hash is stored
+ * Security: Rate limited, browser session only (a token cannot mint tokens), admin scope for admins only
+ */
+export async function POST(request: NextRequest) {
+  try {
+    logger.info("POST /api/auth/tokens");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    const user = await requireAuth();
+    const body = await request.json();
+
+    // Validate input
+    const validated = createTokenSchema.safeParse(body);
+    if (!validated.success) {
+      throw new ValidationError("Invalid input", validated.error.issues);
+    }
+
+    const { name, scopes, expiresInDays } = validated.data;
+
+    if (scopes.includes("admin") && user.role !== "ADMIN") {
+      throw new ForbiddenError("Forbidden: Only admins can create tokens with the admin scope");
+    }
+
+    const { token, apiToken } = await createApiToken(user.id, {
+      name,
+      scopes,
+      expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+    });
+    securityLogger.apiTokenChanged(user.id, apiToken.id, "created");
+
+    const response = NextResponse.json(
+      { token, apiToken },
+      { status: 201, headers: { "Cache-Control": "no-store" } }
+    );
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error creating API token", { error });
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth";
+import { checkRateLimit, checkRateLimitByKey, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, ValidationError } from "@/lib/errors";
+import { sendVerificationEmail } from "@/lib/emailVerification";
+import { logger, securityLogger } from "@/lib/logger";
+import { getAppUrl, getClientIp } from "@/lib/request";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+/**
+ * POST /api/auth/verify-email/resend - Send a new confirmation link to the current user
+ * Security: Rate limited per IP and per user (emailVerification config), session required
+ */
+export async function POST(request: NextRequest) {
+  try {
+    logger.info("POST /api/auth/verify-email/resend");
+
+    // Rate limiting (strict: 5 requests per minute)
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.strict);
+    if (!rateLimitResult) {
+      securityLogger.rateLimitExceeded(getClientIp(request), "/api/auth/verify-email/resend");
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Too many requests. Please try again later." },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": "60",
+          },
+        }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Unverified users are the whole point of this endpoint
+    const { user } = await requireSession({ allowUnverified: true });
+
+    if (user.emailVerifiedAt) {
+      throw new ValidationError("Your email address is already verified");
+    }
+
+    // Each user has a small budget of emails, independent of the client IP
+    const userLimit = checkRateLimitByKey(`email-verification:${user.id}`, rateLimitConfigs.emailVerification);
+    if (!userLimit) {
+      securityLogger.rateLimitExceeded(getClientIp(request), "/api/auth/verify-email/resend");
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Too many verification emails. Please try again later." },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(Math.ceil(rateLimitConfigs.emailVerification.window / 1000)),
+          },
+        }
+      );
+    }
+
+    await sendVerificationEmail(user, getAppUrl(request));
+
+    const response = NextResponse.json({ success: true });
+    response.headers.set("X-RateLimit-Remaining", String(userLimit.remaining));
+    return response;
+  } catch (error) {
+    logger.error("Error resending verification email", { error });
+    const errorResponse = createErrorResponse(error);
+    errorResponse.headers.set("Content-Type", "application/json");
+    return errorResponse;
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, ValidationError } from "@/lib/errors";
+import { verifyEmailWithToken } from "@/lib/emailVerification";
+import { logger, securityLogger } from "@/lib/logger";
+import { getClientIp } from "@/lib/request";
+import { z } from "zod";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+});
+
+/**
+ * POST /api/auth/verify-email - Confirm an email address with the emailed token
+ * Works without a session, so the link can be opened in any browser
+ * Security: Rate limited, single-use expiring token
+ */
+export async function POST(request: NextRequest) {
+  try {
+    logger.info("POST /api/auth/verify-email");
+
+    // Rate limiting (strict: 5 requests per minute)
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.strict);
+    if (!rateLimitResult) {
+      securityLogger.rateLimitExceeded(getClientIp(request), "/api/auth/verify-email");
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Too many requests. Please try again later." },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": "60",
+          },
+        }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    const body = await request.json();
+
+    // Validate input
+    const validated = verifyEmailSchema.safeParse(body);
+    if (!validated.success) {
+      throw new ValidationError("Invalid input", validated.error.issues);
+    }
+
+    const { userId, emailChanged } = await verifyEmailWithToken(validated.data.token);
+    if (emailChanged) {
+      securityLogger.emailChanged(userId, getClientIp(request));
+    } else {
+      securityLogger.emailVerified(userId, getClientIp(request));
+    }
+
+    return NextResponse.json({ success: true, emailChanged });
+  } catch (error) {
+    logger.error("Error in verify-email endpoint", { error });
+    const errorResponse = createErrorResponse(error);
+    errorResponse.headers.set("Content-Type", "application/json");
+    return errorResponse;
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, NotFoundError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+import { deleteDelegation, getDelegation } from "@/lib/delegations";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * DELETE /api/calendar/delegations/:id - Revoke a delegation
+ * The principal can revoke it, the delegate can give it up, admins can remove any
+ * Security: Rate limited, CSRF protected, browser session only
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    logger.info(`DELETE /api/calendar/delegations/${id}`);
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    const user = await requireAuth();
+
+    // Other users' delegations look like missing ones (no enumeration)
+    const delegation = await getDelegation(id);
+    if (
+      !delegation ||
+      (delegation.principal.id !== user.id && delegation.delegate.id !== user.id && user.role !== "ADMIN")
+    ) {
+      throw new NotFoundError("Delegation not found");
+    }
+
+    await deleteDelegation(id);
+
+    // Audit log: delegation revoked
+    securityLogger.delegationChanged(user.id, id, "revoked");
+    await recordAuditEvent(request, {
+      actorId: user.id,
+      action: "delete",
+      entityType: "delegation",
+      entityId: id,
+      before: { principalId: delegation.principal.id, delegateId: delegation.delegate.id, scopes: delegation.scopes },
+    });
+
+    const response = NextResponse.json({ success: true });
+    response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+
+    return response;
+  } catch (error) {
+    logger.error("Error revoking delegation", { error });
+    return createErrorResponse(error);
+  }
+}
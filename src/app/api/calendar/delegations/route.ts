@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { z } from "zod";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, ValidationError } from "@/lib/errors";
+import { logger, securityLogger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+import { getDelegationScopes, listDelegations, saveDelegation } from "@/lib/delegations";
+import { DELEGATION_SCOPES } from "@/lib/delegationScopes";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+const saveDelegationSchema = z.object({
+  delegateId: z.string().min(1),
+  scopes: z.array(z.enum(DELEGATION_SCOPES)).min(1, "Select at least one scope"),
+});
+
+/**
+ * GET /api/calendar/delegations - Delegations the current user has granted and received
+ * Security: Rate limited, browser session only, own delegations only
+ */
+export async function GET(request: NextRequest) {
+  try {
+    logger.info("GET /api/calendar/delegations");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    const user = await requireAuth();
+    const delegations = await listDelegations(user.id);
+
+    const response = NextResponse.json(delegations);
+    response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+
+    return response;
+  } catch (error) {
+    logger.error("Error fetching delegations", { error });
+    return createErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/calendar/delegations - Let another user manage the current user's calendar (or change their scopes)
+ * Security: Rate limited, CSRF protected, browser session only, the principal is always the current user
+ */
+export async function POST(request: NextRequest) {
+  try {
+    logger.info("POST /api/calendar/delegations");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    const user = await requireAuth();
+    const body = await request.json();
+
+    // Validate input
+    const validated = saveDelegationSchema.safeParse(body);
+    if (!validated.success) {
+      throw new ValidationError("Invalid request body", validated.error.issues);
+    }
+
+    const { delegateId, scopes } = validated.data;
+    const previousScopes = await getDelegationScopes(delegateId, user.id);
+    const delegation = await saveDelegation(user.id, delegateId, scopes);
+
+    // Audit log: delegation granted or changed
+    securityLogger.delegationChanged(user.id, delegation.id, "granted", { delegateId, scopes });
+    await recordAuditEvent(request, {
+      actorId: user.id,
+      action: previousScopes.length > 0 ? "update" : "create",
+      entityType: "delegation",
+      entityId: delegation.id,
+      before: previousScopes.length > 0 ? { delegateId, scopes: previousScopes } : undefined,
+      after: { delegateId, scopes: delegation.scopes },
+    });
+
+    const response = NextResponse.json({ delegation }, { status: previousScopes.length > 0 ? 200 : 201 });
+    response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+
+    return response;
+  } catch (error) {
+    logger.error("Error saving delegation", { error });
+    return createErrorResponse(error);
+  }
+}
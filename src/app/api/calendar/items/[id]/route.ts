@@ -1,19 +1,108 @@
 import { NextRequest, NextResponse } from "next/server";
+import type { CalendarItem, CalendarItemParticipant, User } from "@prisma/client";
 import { db } from "@/lib/db";
-import { requireAdmin } from "@/lib/auth";
-import { UpdateCalendarItemSchema } from "@/lib/validations/calendar";
+import { requireAuthContext, requireScope, type AuthContext } from "@/lib/auth";
+import { calendarItemModule, scopeFor } from "@/lib/apiScopes";
+import { DeleteCalendarItemSchema, UpdateCalendarItemSchema, type RecurrenceScope } from "@/lib/validations/calendar";
 import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
-import { createErrorResponse, ValidationError } from "@/lib/errors";
+import { verifyCsrf } from "@/lib/csrf";
+import { requireCalendarItemEdit } from "@/lib/authorize";
+import { serializeCalendarItem } from "@/lib/calendarVisibility";
+import {
+  cancelOccurrence,
+  createOccurrenceOverride,
+  requireOccurrenceStart,
+  splitSeries,
+  truncateSeries,
+  updateSeries,
+} from "@/lib/calendarSeries";
+import { createErrorResponse, NotFoundError, ValidationError } from "@/lib/errors";
 import { logger } from "@/lib/logger";
+import { calendarItemSnapshot, recordAuditEvent } from "@/lib/audit";
+import { toCalendarDate } from "@/lib/timeZones";
+import { blocksParticipantTime, findSchedulingConflicts } from "@/lib/schedulingConflicts";
 
 // Explicitly set runtime to nodejs (required for Prisma on Vercel)
 export const runtime = "nodejs";
 
 type RouteParams = { params: Promise<{ id: string }> };
 
+type ItemWithParticipants = CalendarItem & {
+  participants: Pick<CalendarItemParticipant, "userId" | "role" | "rsvp" | "rsvpComment">[];
+};
+
+const itemInclude = {
+  createdBy: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  participants: {
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+        },
+      },
+    },
+  },
+} as const;
+
+// Full row with participants - it is the "before" snapshot of the audit log
+async function findItem(id: string): Promise<ItemWithParticipants> {
+  const item = await db.calendarItem.findUnique({
+    where: { id },
+    include: { participants: { select: { userId: true, role: true, rsvp: true, rsvpComment: true } } },
+  });
+
+  if (!item) {
+    throw new NotFoundError("Calendar item not found");
+  }
+  return item;
+}
+
 /**
- * PATCH /api/calendar/items/:id - Update a calendar item (admin only)
- * Security: Rate limited, admin only, input validated, mass assignment protected
+ * The item a scoped change applies to
+ * A changed occurrence (override) is its own target for "this"; "following" and "all" target its series,
+ * from the occurrence the override replaced
+ */
+async function resolveSeriesTarget(
+  auth: AuthContext,
+  user: User,
+  item: ItemWithParticipants,
+  scope: RecurrenceScope,
+  occurrenceStart: Date | null
+): Promise<{ target: ItemWithParticipants; occurrenceStart: Date | null; onBehalfOfId: string | null }> {
+  requireScope(auth, scopeFor(calendarItemModule(item.type), "write"));
+  const onBehalfOfId = await requireCalendarItemEdit(user, item);
+
+  if (!item.seriesId || scope === "this") {
+    return { target: item, occurrenceStart, onBehalfOfId };
+  }
+
+  const master = await findItem(item.seriesId);
+  requireScope(auth, scopeFor(calendarItemModule(master.type), "write"));
+  return {
+    target: master,
+    occurrenceStart: item.originalStartAt,
+    onBehalfOfId: await requireCalendarItemEdit(user, master),
+  };
+}
+
+/**
+ * PATCH /api/calendar/items/:id - Update a calendar item
+ * Busy-only and private items can only be edited by their owner and participants; delegates with the
+ * EDIT scope may edit their principal's items (recorded as "on behalf of" in the audit log)
+ * Recurring series: `scope` with `occurrenceStart` changes one occurrence ("this", creates an override),
+ * it and the later ones ("following", splits the series) or the whole series ("all", the default;
+ * a new start is relative to the occurrence). For an override id the default is "this".
+ * Changes to a meeting's time, participants or status are checked for scheduling conflicts like on create
+ * Participants' answers are kept - they change only through POST /api/calendar/items/:id/rsvp
+ * Security: Rate limited, EDIT permission on the item (own: myLevel, others: allLevel), input validated, mass assignment protected
  */
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
@@ -29,18 +118,15 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Require admin
-    const user = await requireAdmin();
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
 
-    // Check if item exists
-    const existingItem = await db.calendarItem.findUnique({
-      where: { id },
-      select: { id: true, createdById: true },
-    });
+    // Require authentication (API tokens need a write scope for meetings or deadlines)
+    const auth = await requireAuthContext({ scopes: ["meetings:write", "deadlines:write"] });
+    const { user } = auth;
 
-    if (!existingItem) {
-      throw new Error("Calendar item not found");
-    }
+    // Check if item exists
+    const existingItem = await findItem(id);
 
     const body = await request.json();
 
@@ -50,95 +136,206 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       throw new ValidationError("Invalid request body", validatedBody.error.issues);
     }
 
-    const { participants, ...itemData } = validatedBody.data;
+    const {
+      participants: participantList,
+      scope = existingItem.seriesId ? "this" : "all",
+      occurrenceStart,
+      rejectOnConflict,
+      ...itemData
+    } = validatedBody.data;
 
-    // Update calendar item (createdById cannot be changed - mass assignment protection)
-    const item = await db.calendarItem.update({
-      where: { id },
-      data: {
-        ...itemData,
-        startAt: itemData.startAt ? new Date(itemData.startAt) : undefined,
-        endAt: itemData.endAt !== undefined ? (itemData.endAt ? new Date(itemData.endAt) : null) : undefined,
-        // createdById is not in UpdateCalendarItemSchema, so it cannot be changed
-      },
-      include: {
-        createdBy: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-        participants: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-              },
-            },
-          },
-        },
-      },
+    const { target, ...series } = await resolveSeriesTarget(
+      auth,
+      user,
+      existingItem,
+      scope,
+      occurrenceStart ? new Date(occurrenceStart) : null
+    );
+    const { onBehalfOfId } = series;
+
+    // Changing the type moves the item into the other module
+    if (itemData.type) {
+      requireScope(auth, scopeFor(calendarItemModule(itemData.type), "write"));
+      await requireCalendarItemEdit(user, { ...target, type: itemData.type });
+    }
+
+    if (itemData.recurrence !== undefined && (target.seriesId || (target.recurrence && scope === "this"))) {
+      throw new ValidationError("A single occurrence cannot have its own recurrence");
+    }
+
+    // Participants who stay keep their answers and comments - only the RSVP endpoint changes them
+    const participants = participantList?.map((participant) => {
+      const previous = target.participants.find((existing) => existing.userId === participant.userId);
+      return { ...participant, rsvp: previous?.rsvp ?? null, rsvpComment: previous?.rsvpComment ?? null };
     });
 
+    // All-day items are calendar dates
+    const allDay = itemData.allDay ?? target.allDay;
+    const parseDate = (value: string) => (allDay ? toCalendarDate(new Date(value)) : new Date(value));
+
+    // createdById is not in UpdateCalendarItemSchema, so it cannot be changed (mass assignment protection)
+    const changes = {
+      ...itemData,
+      startAt: itemData.startAt ? parseDate(itemData.startAt) : undefined,
+      endAt: itemData.endAt !== undefined ? (itemData.endAt ? parseDate(itemData.endAt) : null) : undefined,
+    };
+
+    // One occurrence, or it and the following ones: a new item (override or series) carries the changes
+    const occurrence =
+      target.recurrence && scope !== "all" ? requireOccurrenceStart(target, series.occurrenceStart) : null;
+
+    // Only startAt or endAt may be sent: check the range the item ends up with
+    // (series keep their duration when only the start moves)
+    const reference = occurrence ?? series.occurrenceStart ?? target.startAt;
+    const finalStart = changes.startAt ?? (target.recurrence ? reference : target.startAt);
+    const finalEnd = changes.endAt !== undefined ? changes.endAt : target.recurrence ? null : target.endAt;
+    if (finalEnd && finalEnd <= finalStart) {
+      throw new ValidationError("End must be after start");
+    }
+
+    // Meetings moved or re-staffed are checked again (a series at the occurrence being edited)
+    const rescheduled =
+      participants !== undefined ||
+      [changes.startAt, changes.endAt, changes.type, changes.allDay, changes.status].some(
+        (value) => value !== undefined
+      );
+    const conflictEnd =
+      changes.endAt !== undefined
+        ? changes.endAt
+        : target.endAt &&
+          new Date(finalStart.getTime() + target.endAt.getTime() - target.startAt.getTime());
+    const conflicts =
+      rescheduled &&
+      conflictEnd &&
+      blocksParticipantTime({
+        type: changes.type ?? target.type,
+        allDay,
+        status: changes.status ?? target.status,
+        endAt: conflictEnd,
+      })
+        ? await findSchedulingConflicts({
+            startAt: finalStart,
+            endAt: conflictEnd,
+            participantIds: Array.from(
+              new Set([target.createdById, ...(participants ?? target.participants).map((p) => p.userId)])
+            ),
+            excludeItemIds: [existingItem.id, target.id, ...(target.seriesId ? [target.seriesId] : [])],
+            // Delegates see conflicts as their principal would
+            viewer: onBehalfOfId ? await db.user.findUniqueOrThrow({ where: { id: onBehalfOfId } }) : user,
+          })
+        : [];
+    if (rejectOnConflict && conflicts.length > 0) {
+      return NextResponse.json(
+        {
+          error: "SchedulingConflictError",
+          code: "SCHEDULING_CONFLICT",
+          message: "Participants have scheduling conflicts",
+          conflicts,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (occurrence && (scope === "this" || occurrence > target.startAt)) {
+      const created =
+        scope === "this"
+          ? await createOccurrenceOverride(target, occurrence, changes, participants)
+          : await splitSeries(target, occurrence, changes, participants);
+      const [item, updatedSeries] = await Promise.all([
+        db.calendarItem.findUnique({ where: { id: created.id }, include: itemInclude }),
+        findItem(target.id),
+      ]);
+
+      logger.info(`Updated calendar item`, { itemId: created.id, seriesId: target.id, scope, userId: user.id });
+
+      if (scope === "following") {
+        await recordAuditEvent(request, {
+          actorId: user.id,
+          onBehalfOfId,
+          action: "update",
+          entityType: "calendar_item",
+          entityId: target.id,
+          before: calendarItemSnapshot(target),
+          after: calendarItemSnapshot(updatedSeries),
+        });
+      }
+      if (item) {
+        await recordAuditEvent(request, {
+          actorId: user.id,
+          onBehalfOfId,
+          action: "create",
+          entityType: "calendar_item",
+          entityId: item.id,
+          after: calendarItemSnapshot(item),
+        });
+      }
+
+      const response = NextResponse.json({
+        item: item && serializeCalendarItem(item, onBehalfOfId ?? user.id),
+        conflicts,
+      });
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+      return response;
+    }
+
+    // Update calendar item (the whole series, from the occurrence being edited)
+    if (target.recurrence) {
+      await updateSeries(target, series.occurrenceStart, changes);
+    } else {
+      await db.calendarItem.update({ where: { id: target.id }, data: changes });
+    }
+
     // Update participants if provided
     if (participants) {
       // Delete existing participants
       await db.calendarItemParticipant.deleteMany({
-        where: { itemId: id },
+        where: { itemId: target.id },
       });
 
       // Create new participants
       if (participants.length > 0) {
         await db.calendarItemParticipant.createMany({
           data: participants.map((p) => ({
-            itemId: id,
+            itemId: target.id,
             userId: p.userId,
             role: p.role,
             rsvp: p.rsvp,
+            rsvpComment: p.rsvpComment,
           })),
         });
       }
+    }
 
-      // Refetch item with updated participants
-      const updatedItem = await db.calendarItem.findUnique({
-        where: { id },
-        include: {
-          createdBy: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
-          },
-          participants: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  name: true,
-                  email: true,
-                },
-              },
-            },
-          },
-        },
-      });
+    // Refetch item with updated participants
+    const item = await db.calendarItem.findUnique({ where: { id: target.id }, include: itemInclude });
+    if (!item) {
+      throw new NotFoundError("Calendar item not found");
+    }
 
-      logger.info(`Updated calendar item`, { itemId: id, userId: user.id });
+    logger.info(`Updated calendar item`, { itemId: target.id, userId: user.id });
 
-      const response = NextResponse.json({ item: updatedItem });
-      if (rateLimitResult) {
-        response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
-      }
-      return response;
+    await recordAuditEvent(request, {
+      actorId: user.id,
+      onBehalfOfId,
+      action: "update",
+      entityType: "calendar_item",
+      entityId: target.id,
+      before: calendarItemSnapshot(target),
+      after: calendarItemSnapshot(item),
+    });
+    if (participants) {
+      await recordAuditEvent(request, {
+        actorId: user.id,
+        onBehalfOfId,
+        action: "update",
+        entityType: "participant",
+        entityId: target.id,
+        before: calendarItemSnapshot(target).participants,
+        after: calendarItemSnapshot(item).participants,
+      });
     }
 
-    logger.info(`Updated calendar item`, { itemId: id, userId: user.id });
-
-    const response = NextResponse.json({ item });
+    const response = NextResponse.json({ item: serializeCalendarItem(item, onBehalfOfId ?? user.id), conflicts });
     if (rateLimitResult) {
       response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
     }
@@ -150,8 +347,10 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 }
 
 /**
- * DELETE /api/calendar/items/:id - Delete a calendar item (admin only)
- * Security: Rate limited, admin only
+ * DELETE /api/calendar/items/:id - Delete a calendar item
+ * Recurring series: ?scope=this|following|all&occurrenceStart=... cancels one occurrence (EXDATE), ends the
+ * series before it, or deletes the whole series (the default). Deleting an override cancels its occurrence.
+ * Security: Rate limited, EDIT permission on the item (own: myLevel, others: allLevel)
  */
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
@@ -167,25 +366,90 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Require admin
-    const user = await requireAdmin();
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
 
-    // Check if item exists
-    const existingItem = await db.calendarItem.findUnique({
-      where: { id },
-      select: { id: true },
-    });
+    // Require authentication (API tokens need a write scope for meetings or deadlines)
+    const auth = await requireAuthContext({ scopes: ["meetings:write", "deadlines:write"] });
+    const { user } = auth;
 
-    if (!existingItem) {
-      throw new Error("Calendar item not found");
-    }
+    const { searchParams } = new URL(request.url);
 
-    // Delete calendar item (participants will be deleted due to onDelete: Cascade)
-    await db.calendarItem.delete({
-      where: { id },
+    // Validate query params
+    const validatedQuery = DeleteCalendarItemSchema.safeParse({
+      scope: searchParams.get("scope") || undefined,
+      occurrenceStart: searchParams.get("occurrenceStart") || undefined,
     });
+    if (!validatedQuery.success) {
+      throw new ValidationError("Invalid query parameters", validatedQuery.error.issues);
+    }
+
+    // Check if item exists
+    const existingItem = await findItem(id);
+
+    const { scope = existingItem.seriesId ? "this" : "all", occurrenceStart } = validatedQuery.data;
+    const { target, ...series } = await resolveSeriesTarget(
+      auth,
+      user,
+      existingItem,
+      scope,
+      occurrenceStart ? new Date(occurrenceStart) : null
+    );
+    const { onBehalfOfId } = series;
+
+    // Part of a series: the series stays, with fewer occurrences
+    const occurrence = target.seriesId
+      ? target.originalStartAt
+      : target.recurrence && scope !== "all"
+        ? requireOccurrenceStart(target, series.occurrenceStart)
+        : null;
+    if (occurrence && (scope === "this" || occurrence > target.startAt)) {
+      const seriesId = target.seriesId ?? target.id;
+      if (scope === "this") {
+        await cancelOccurrence(seriesId, occurrence);
+      } else {
+        await truncateSeries(target, occurrence);
+      }
+
+      logger.info(`Deleted calendar item occurrences`, { itemId: id, seriesId, scope, userId: user.id });
+
+      if (target.seriesId) {
+        await recordAuditEvent(request, {
+          actorId: user.id,
+          onBehalfOfId,
+          action: "delete",
+          entityType: "calendar_item",
+          entityId: target.id,
+          before: calendarItemSnapshot(target),
+        });
+      } else {
+        await recordAuditEvent(request, {
+          actorId: user.id,
+          onBehalfOfId,
+          action: "update",
+          entityType: "calendar_item",
+          entityId: target.id,
+          before: calendarItemSnapshot(target),
+          after: calendarItemSnapshot(await findItem(target.id)),
+        });
+      }
+    } else {
+      // Delete calendar item (participants and changed occurrences will be deleted due to onDelete: Cascade)
+      await db.calendarItem.delete({
+        where: { id: target.id },
+      });
+
+      logger.info(`Deleted calendar item`, { itemId: target.id, userId: user.id });
 
-    logger.info(`Deleted calendar item`, { itemId: id, userId: user.id });
+      await recordAuditEvent(request, {
+        actorId: user.id,
+        onBehalfOfId,
+        action: "delete",
+        entityType: "calendar_item",
+        entityId: target.id,
+        before: calendarItemSnapshot(target),
+      });
+    }
 
     const response = NextResponse.json({ success: true });
     if (rateLimitResult) {
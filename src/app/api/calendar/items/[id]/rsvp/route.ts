@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireAuthContext, requireScope } from "@/lib/auth";
+import { calendarItemModule, scopeFor } from "@/lib/apiScopes";
+import { RsvpSchema } from "@/lib/validations/calendar";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
+import { requireDelegation } from "@/lib/delegations";
+import { createErrorResponse, ForbiddenError, NotFoundError, ValidationError } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { recordAuditEvent } from "@/lib/audit";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/calendar/items/:id/rsvp - Answer an invitation (YES | NO | MAYBE) with an optional comment
+ * With onBehalfOf a delegate (RSVP scope) answers for the principal
+ * Security: Rate limited, CSRF protected, participants (or their delegates) only
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    logger.info(`POST /api/calendar/items/${id}/rsvp`);
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Require authentication (API tokens need a write scope for meetings or deadlines)
+    const auth = await requireAuthContext({ scopes: ["meetings:write", "deadlines:write"] });
+    const { user } = auth;
+
+    const body = await request.json();
+
+    // Validate request body
+    const validatedBody = RsvpSchema.safeParse(body);
+    if (!validatedBody.success) {
+      throw new ValidationError("Invalid request body", validatedBody.error.issues);
+    }
+
+    const { rsvp, comment, onBehalfOf } = validatedBody.data;
+
+    const item = await db.calendarItem.findUnique({ where: { id }, select: { type: true } });
+    if (!item) {
+      throw new NotFoundError("Calendar item not found");
+    }
+    requireScope(auth, scopeFor(calendarItemModule(item.type), "write"));
+
+    // Delegates answer for the principal
+    const respondent =
+      onBehalfOf && onBehalfOf !== user.id ? await requireDelegation(user, onBehalfOf, "RSVP") : user;
+
+    const participant = await db.calendarItemParticipant.findUnique({
+      where: { itemId_userId: { itemId: id, userId: respondent.id } },
+    });
+    if (!participant) {
+      throw new ForbiddenError("Only participants can respond to this calendar item");
+    }
+
+    const updated = await db.calendarItemParticipant.update({
+      where: { id: participant.id },
+      data: { rsvp, rsvpComment: comment || null },
+    });
+
+    logger.info("Calendar item RSVP", { itemId: id, userId: respondent.id, rsvp });
+
+    await recordAuditEvent(request, {
+      actorId: user.id,
+      onBehalfOfId: respondent.id !== user.id ? respondent.id : null,
+      action: "update",
+      entityType: "participant",
+      entityId: id,
+      before: { userId: respondent.id, rsvp: participant.rsvp, rsvpComment: participant.rsvpComment },
+      after: { userId: respondent.id, rsvp: updated.rsvp, rsvpComment: updated.rsvpComment },
+    });
+
+    const response = NextResponse.json({ participant: updated });
+    response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+
+    return response;
+  } catch (error) {
+    logger.error("Error saving RSVP", { error });
+    return createErrorResponse(error);
+  }
+}
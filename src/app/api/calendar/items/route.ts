@@ -1,17 +1,34 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { requireAdmin, requireAuth } from "@/lib/auth";
+import { hasScope, requireAuthContext, requireScope } from "@/lib/auth";
+import { calendarItemModule, scopeFor } from "@/lib/apiScopes";
 import { CreateCalendarItemSchema, GetCalendarItemsSchema } from "@/lib/validations/calendar";
 import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
-import { createErrorResponse, ValidationError, UnauthorizedError } from "@/lib/errors";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, ValidationError } from "@/lib/errors";
 import { logger } from "@/lib/logger";
-import { getCalendarItemsFilter } from "@/lib/authorize";
+import { calendarItemSnapshot, recordAuditEvent } from "@/lib/audit";
+import {
+  getCalendarItemsFilter,
+  getPrincipalCalendarItemsFilter,
+  requireCalendarItemCreate,
+} from "@/lib/authorize";
+import { requireDelegation } from "@/lib/delegations";
+import { serializeCalendarItem } from "@/lib/calendarVisibility";
+import { calendarItemsRangeFilter, expandCalendarItems } from "@/lib/calendarSeries";
+import { getUserTimeZone } from "@/lib/settings";
+import { toCalendarDate } from "@/lib/timeZones";
+import { blocksParticipantTime, findSchedulingConflicts } from "@/lib/schedulingConflicts";
 
 // Explicitly set runtime to nodejs (required for Prisma on Vercel)
 export const runtime = "nodejs";
 
 /**
  * GET /api/calendar/items - Get calendar items with filters
+ * Private items of others are not listed, busy-only items of others come back redacted (`redacted: true`)
+ * With onBehalfOf a delegate gets the principal's own calendar, as the principal sees it
+ * Recurring series come back as their occurrences within from/to (a year ahead without `to`);
+ * `occurrenceStart` identifies an occurrence (null for plain items), changed occurrences are listed as their overrides
  * Security: Rate limited, authorization filtered, pagination limited
  */
 export async function GET(request: NextRequest) {
@@ -34,8 +51,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Require authentication
-    const user = await requireAuth();
+    // Require authentication (API tokens need a read scope for meetings or deadlines)
+    const auth = await requireAuthContext({ scopes: ["meetings:read", "deadlines:read"] });
+    const { user } = auth;
 
     const { searchParams } = new URL(request.url);
     const query = {
@@ -44,6 +62,7 @@ export async function GET(request: NextRequest) {
       type: searchParams.get("type") || undefined,
       status: searchParams.get("status") || undefined,
       search: searchParams.get("search") || undefined,
+      onBehalfOf: searchParams.get("onBehalfOf") || undefined,
     };
 
     // Validate query params
@@ -52,10 +71,22 @@ export async function GET(request: NextRequest) {
       throw new ValidationError("Invalid query parameters", validatedQuery.error.issues);
     }
 
-    const { from, to, type, status, search } = validatedQuery.data;
+    const { from, to, type, status, search, onBehalfOf } = validatedQuery.data;
+
+    // API tokens only see the item types they have a read scope for
+    if (type) {
+      requireScope(auth, scopeFor(calendarItemModule(type), "read"));
+    }
+    const readableTypes = (["MEETING", "DEADLINE"] as const).filter((itemType) =>
+      hasScope(auth, scopeFor(calendarItemModule(itemType), "read"))
+    );
+
+    // Delegates see the principal's own items (VIEW scope); details are shown as the principal sees them
+    const viewer = onBehalfOf && onBehalfOf !== user.id ? await requireDelegation(user, onBehalfOf, "VIEW") : user;
 
     // Get authorization filter (only show items user has access to)
-    const authFilter = await getCalendarItemsFilter(user);
+    const authFilter =
+      viewer.id === user.id ? await getCalendarItemsFilter(user) : getPrincipalCalendarItemsFilter(viewer.id);
 
     // Build where clause
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -63,13 +94,15 @@ export async function GET(request: NextRequest) {
       ...authFilter,
     };
 
+    const range = { from: from ? new Date(from) : undefined, to: to ? new Date(to) : undefined };
+
+    // Series that started before the window may still have occurrences in it
     if (from || to) {
-      where.startAt = {};
-      if (from) where.startAt.gte = new Date(from);
-      if (to) where.startAt.lte = new Date(to);
+      where.AND = [calendarItemsRangeFilter(range.from, range.to)];
     }
 
     if (type) where.type = type;
+    else if (readableTypes.length < 2) where.type = { in: readableTypes };
     if (status) where.status = status;
     if (search) {
       where.title = {
@@ -107,10 +140,14 @@ export async function GET(request: NextRequest) {
       },
     });
 
-    logger.info(`Found ${items.length} calendar items`, { userId: user.id });
+    const occurrences = await expandCalendarItems(items, range, 1000);
+
+    logger.info(`Found ${occurrences.length} calendar items`, { userId: user.id });
 
     // Add rate limit headers
-    const response = NextResponse.json({ items });
+    const response = NextResponse.json({
+      items: occurrences.map((item) => serializeCalendarItem(item, viewer.id)),
+    });
     if (rateLimitResult) {
       response.headers.set("X-RateLimit-Limit", String(rateLimitResult.limit));
       response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
@@ -125,8 +162,11 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * POST /api/calendar/items - Create a new calendar item (admin only)
- * Security: Rate limited, admin only, input validated, mass assignment protected
+ * POST /api/calendar/items - Create a new calendar item
+ * With onBehalfOf a delegate (EDIT scope) creates the item for the principal, who becomes its owner
+ * Meetings are checked against the owner's and participants' meetings and schedule: the item is saved
+ * and the conflicts come back with it, or with rejectOnConflict the request fails with 409 and `conflicts`
+ * Security: Rate limited, myLevel or allLevel EDIT of the item's module, input validated, mass assignment protected
  */
 export async function POST(request: NextRequest) {
   try {
@@ -141,8 +181,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Require admin
-    const user = await requireAdmin();
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Require authentication (API tokens need a write scope for meetings or deadlines)
+    const auth = await requireAuthContext({ scopes: ["meetings:write", "deadlines:write"] });
+    const { user } = auth;
 
     const body = await request.json();
 
@@ -152,16 +196,55 @@ export async function POST(request: NextRequest) {
       throw new ValidationError("Invalid request body", validatedBody.error.issues);
     }
 
-    const { participants, ...itemData } = validatedBody.data;
+    const { participants, onBehalfOf, rejectOnConflict, ...itemData } = validatedBody.data;
+
+    // Delegates create with the principal's permissions, never with their own
+    const owner = onBehalfOf && onBehalfOf !== user.id ? await requireDelegation(user, onBehalfOf, "EDIT") : user;
+
+    requireScope(auth, scopeFor(calendarItemModule(itemData.type), "write"));
+    await requireCalendarItemCreate(owner, itemData.type);
+
+    // All-day items are calendar dates
+    const startAt = itemData.allDay ? toCalendarDate(new Date(itemData.startAt)) : new Date(itemData.startAt);
+    const endAt = itemData.endAt
+      ? itemData.allDay
+        ? toCalendarDate(new Date(itemData.endAt))
+        : new Date(itemData.endAt)
+      : null;
+    if (endAt && endAt <= startAt) {
+      throw new ValidationError("End must be after start");
+    }
+
+    const conflicts =
+      endAt && blocksParticipantTime({ ...itemData, endAt })
+        ? await findSchedulingConflicts({
+            startAt,
+            endAt,
+            participantIds: Array.from(new Set([owner.id, ...(participants ?? []).map((p) => p.userId)])),
+            viewer: owner,
+          })
+        : [];
+    if (rejectOnConflict && conflicts.length > 0) {
+      return NextResponse.json(
+        {
+          error: "SchedulingConflictError",
+          code: "SCHEDULING_CONFLICT",
+          message: "Participants have scheduling conflicts",
+          conflicts,
+        },
+        { status: 409 }
+      );
+    }
 
     // Ensure createdById is set to current user (prevent mass assignment)
     // Even if user tries to pass createdById, it will be overwritten
     const item = await db.calendarItem.create({
       data: {
         ...itemData,
-        startAt: new Date(itemData.startAt),
-        endAt: itemData.endAt ? new Date(itemData.endAt) : null,
-        createdById: user.id, // Always use current user, ignore any user input
+        startAt,
+        endAt,
+        timeZone: itemData.timeZone ?? (await getUserTimeZone(owner)),
+        createdById: owner.id, // Current user (or their principal), ignore any user input
         participants: participants
           ? {
               create: participants.map((p) => ({
@@ -195,7 +278,16 @@ export async function POST(request: NextRequest) {
 
     logger.info("Created calendar item", { itemId: item.id, userId: user.id });
 
-    const response = NextResponse.json({ item }, { status: 201 });
+    await recordAuditEvent(request, {
+      actorId: user.id,
+      onBehalfOfId: owner.id !== user.id ? owner.id : null,
+      action: "create",
+      entityType: "calendar_item",
+      entityId: item.id,
+      after: calendarItemSnapshot(item),
+    });
+
+    const response = NextResponse.json({ item: serializeCalendarItem(item, owner.id), conflicts }, { status: 201 });
     if (rateLimitResult) {
       response.headers.set("X-RateLimit-Limit", String(rateLimitResult.limit));
       response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { env } from "@/lib/env";
+import { safeEqual } from "@/lib/tokens";
+import { getAppUrl } from "@/lib/request";
+import { sendPermissionExpiryReminders } from "@/lib/permissionExpiry";
+import { createErrorResponse, NotFoundError, UnauthorizedError } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+/**
+ * GET /api/cron/permission-expiry - Warn users whose temporary permissions end soon
+ * Called by the scheduler (see vercel.json crons)
+ * Security: "Authorization: Bearer <CRON_SECRET>" only; disabled when CRON_SECRET is not set
+ */
+export async function GET(request: NextRequest) {
+  try {
+    logger.info("GET /api/cron/permission-expiry");
+
+    if (!env.CRON_SECRET) {
+      throw new NotFoundError("Not found");
+    }
+
+    const authorization = request.headers.get("authorization") ?? "";
+    if (!safeEqual(authorization, `Bearer ${env.CRON_SECRET}`)) {
+      throw new UnauthorizedError("Invalid cron secret");
+    }
+
+    const notifiedUsers = await sendPermissionExpiryReminders(getAppUrl(request));
+
+    return NextResponse.json({ notifiedUsers });
+  } catch (error) {
+    logger.error("Error sending permission expiry reminders", { error });
+    return createErrorResponse(error);
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { createErrorResponse } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { listGroupMembership } from "@/lib/groups";
+
+// Explicitly set runtime to nodejs (required for Prisma on Vercel)
+export const runtime = "nodejs";
+
+/**
+ * GET /api/groups - Get all groups with member ids (for participant pickers)
+ * Security: Rate limited, authenticated only
+ */
+export async function GET(request: NextRequest) {
+  try {
+    logger.info("GET /api/groups");
+
+    // Rate limiting
+    const rateLimitResult = checkRateLimit(request, rateLimitConfigs.moderate);
+    if (!rateLimitResult) {
+      return NextResponse.json(
+        { error: "Too Many Requests", message: "Rate limit exceeded. Please try again later." },
+        { status: 429 }
+      );
+    }
+
+    // Require authentication
+    const user = await requireAuth({ scopes: ["meetings:read", "deadlines:read"] });
+
+    const groups = await listGroupMembership();
+
+    logger.info(`Found ${groups.length} groups`, { userId: user.id });
+
+    const response = NextResponse.json({ groups });
+    if (rateLimitResult) {
+      response.headers.set("X-RateLimit-Limit", String(rateLimitResult.limit));
+      response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
+    }
+
+    return response;
+  } catch (error) {
+    logger.error("Error fetching groups", { error });
+    return createErrorResponse(error);
+  }
+}
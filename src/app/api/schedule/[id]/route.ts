@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { requireAdmin } from "@/lib/auth";
+import { requireAuth } from "@/lib/auth";
+import { requireScheduleEntryEdit } from "@/lib/authorize";
 import { UpdateScheduleEntrySchema } from "@/lib/validations/schedule";
 import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
-import { createErrorResponse, ValidationError } from "@/lib/errors";
+import { verifyCsrf } from "@/lib/csrf";
+import { createErrorResponse, NotFoundError, ValidationError } from "@/lib/errors";
 import { logger } from "@/lib/logger";
+import { recordAuditEvent, scheduleEntrySnapshot } from "@/lib/audit";
+import { withScheduleTimeZones } from "@/lib/settings";
+import { calendarDateToUtc } from "@/lib/timeZones";
 
 // Explicitly set runtime to nodejs (required for Prisma on Vercel)
 export const runtime = "nodejs";
@@ -12,8 +17,9 @@ export const runtime = "nodejs";
 type RouteParams = { params: Promise<{ id: string }> };
 
 /**
- * PATCH /api/schedule/:id - Update a schedule entry (admin only)
- * Security: Rate limited, admin only, input validated, mass assignment protected
+ * PATCH /api/schedule/:id - Update a schedule entry
+ * Security: Rate limited, EDIT permission for the entry's person (self: myLevel, others: allLevel),
+ * input validated, mass assignment protected
  */
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
@@ -29,19 +35,23 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Require admin
-    const user = await requireAdmin();
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Require authentication
+    const user = await requireAuth({ scopes: ["schedule:write"] });
 
     // Check if entry exists
     const existingEntry = await db.scheduleEntry.findUnique({
       where: { id },
-      select: { id: true, date: true, userId: true, startTime: true, endTime: true },
     });
 
     if (!existingEntry) {
-      throw new Error("Schedule entry not found");
+      throw new NotFoundError("Schedule entry not found");
     }
 
+    await requireScheduleEntryEdit(user, existingEntry.userId);
+
     const body = await request.json();
 
     // Validate request body
@@ -52,24 +62,21 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
     const { date, userId, startTime, endTime, note } = validatedBody.data;
 
+    // Moving the entry to another person needs permission for that person too
+    if (userId && userId !== existingEntry.userId) {
+      await requireScheduleEntryEdit(user, userId);
+    }
+
     // If date or userId changed, check for conflicts
     if (date || userId) {
-      const newDate = date ? new Date(date) : existingEntry.date;
-      newDate.setHours(0, 0, 0, 0);
+      const newDate = date ? calendarDateToUtc(date) : existingEntry.date;
       const newUserId = userId || existingEntry.userId;
 
-      const startOfDay = new Date(newDate);
-      const endOfDay = new Date(newDate);
-      endOfDay.setDate(endOfDay.getDate() + 1);
-
       const conflictingEntry = await db.scheduleEntry.findFirst({
         where: {
           id: { not: id },
           userId: newUserId,
-          date: {
-            gte: startOfDay,
-            lt: endOfDay,
-          },
+          date: newDate,
         },
       });
 
@@ -90,7 +97,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     const entry = await db.scheduleEntry.update({
       where: { id },
       data: {
-        date: date ? new Date(date) : undefined,
+        date: date ? calendarDateToUtc(date) : undefined,
         userId,
         startTime,
         endTime,
@@ -103,6 +110,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
             id: true,
             name: true,
             email: true,
+            timeZone: true,
           },
         },
         createdBy: {
@@ -116,7 +124,17 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
     logger.info(`Updated schedule entry`, { entryId: id, userId: user.id });
 
-    const response = NextResponse.json({ entry });
+    await recordAuditEvent(request, {
+      actorId: user.id,
+      action: "update",
+      entityType: "schedule_entry",
+      entityId: id,
+      before: scheduleEntrySnapshot(existingEntry),
+      after: scheduleEntrySnapshot(entry),
+    });
+
+    const [entryWithTimeZone] = await withScheduleTimeZones([entry]);
+    const response = NextResponse.json({ entry: entryWithTimeZone });
     if (rateLimitResult) {
       response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
     }
@@ -129,8 +147,8 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 }
 
 /**
- * DELETE /api/schedule/:id - Delete a schedule entry (admin only)
- * Security: Rate limited, admin only
+ * DELETE /api/schedule/:id - Delete a schedule entry
+ * Security: Rate limited, EDIT permission for the entry's person (self: myLevel, others: allLevel)
  */
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
@@ -146,19 +164,23 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Require admin
-    const user = await requireAdmin();
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Require authentication
+    const user = await requireAuth({ scopes: ["schedule:write"] });
 
     // Check if entry exists
     const existingEntry = await db.scheduleEntry.findUnique({
       where: { id },
-      select: { id: true },
     });
 
     if (!existingEntry) {
-      throw new Error("Schedule entry not found");
+      throw new NotFoundError("Schedule entry not found");
     }
 
+    await requireScheduleEntryEdit(user, existingEntry.userId);
+
     // Delete entry
     await db.scheduleEntry.delete({
       where: { id },
@@ -166,6 +188,14 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
 
     logger.info(`Deleted schedule entry`, { entryId: id, userId: user.id });
 
+    await recordAuditEvent(request, {
+      actorId: user.id,
+      action: "delete",
+      entityType: "schedule_entry",
+      entityId: id,
+      before: scheduleEntrySnapshot(existingEntry),
+    });
+
     const response = NextResponse.json({ success: true });
     if (rateLimitResult) {
       response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
@@ -1,17 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { requireAdmin, requireAuth } from "@/lib/auth";
+import { requireAuth } from "@/lib/auth";
 import { CreateScheduleEntrySchema, GetScheduleSchema } from "@/lib/validations/schedule";
 import { checkRateLimit, rateLimitConfigs } from "@/lib/rateLimit";
+import { verifyCsrf } from "@/lib/csrf";
 import { createErrorResponse, ValidationError } from "@/lib/errors";
 import { logger } from "@/lib/logger";
-import { getScheduleEntriesFilter } from "@/lib/authorize";
+import { recordAuditEvent, scheduleEntrySnapshot } from "@/lib/audit";
+import { getScheduleEntriesFilter, requireScheduleEntryEdit } from "@/lib/authorize";
+import { withScheduleTimeZones } from "@/lib/settings";
+import { calendarDateToUtc } from "@/lib/timeZones";
 
 // Explicitly set runtime to nodejs (required for Prisma on Vercel)
 export const runtime = "nodejs";
 
 /**
  * GET /api/schedule - Get schedule entries for a specific date
+ * Shift times are minutes in the time zone of the user working the shift (`timeZone` of each entry)
  * Security: Rate limited, authorization filtered, pagination limited
  */
 export async function GET(request: NextRequest) {
@@ -28,7 +33,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Require authentication
-    const user = await requireAuth();
+    const user = await requireAuth({ scopes: ["schedule:read"] });
 
     const { searchParams } = new URL(request.url);
     const date = searchParams.get("date");
@@ -43,25 +48,13 @@ export async function GET(request: NextRequest) {
       throw new ValidationError("Invalid date format", validatedQuery.error.issues);
     }
 
-    // Parse date (set to start of day)
-    const queryDate = new Date(validatedQuery.data.date);
-    queryDate.setHours(0, 0, 0, 0);
-
-    // Query for entries on that date
-    const startOfDay = new Date(queryDate);
-    const endOfDay = new Date(queryDate);
-    endOfDay.setDate(endOfDay.getDate() + 1);
-
     // Get authorization filter (only show entries user has access to)
     const authFilter = await getScheduleEntriesFilter(user);
 
     const entries = await db.scheduleEntry.findMany({
       where: {
         ...authFilter,
-        date: {
-          gte: startOfDay,
-          lt: endOfDay,
-        },
+        date: calendarDateToUtc(validatedQuery.data.date), // Calendar date, same for every time zone
       },
       take: 1000, // Max limit to prevent DoS
       include: {
@@ -70,6 +63,7 @@ export async function GET(request: NextRequest) {
             id: true,
             name: true,
             email: true,
+            timeZone: true,
           },
         },
         createdBy: {
@@ -84,7 +78,7 @@ export async function GET(request: NextRequest) {
 
     logger.info(`Found ${entries.length} schedule entries`, { userId: user.id, date });
 
-    const response = NextResponse.json({ entries });
+    const response = NextResponse.json({ entries: await withScheduleTimeZones(entries) });
     if (rateLimitResult) {
       response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
     }
@@ -97,8 +91,9 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * POST /api/schedule - Create a new schedule entry (admin only)
- * Security: Rate limited, admin only, input validated, mass assignment protected
+ * POST /api/schedule - Create a new schedule entry
+ * Security: Rate limited, EDIT permission for the entry's person (self: myLevel, others: allLevel),
+ * input validated, mass assignment protected
  */
 export async function POST(request: NextRequest) {
   try {
@@ -113,8 +108,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Require admin
-    const user = await requireAdmin();
+    // CSRF protection (double-submit token + origin check)
+    verifyCsrf(request);
+
+    // Require authentication
+    const user = await requireAuth({ scopes: ["schedule:write"] });
 
     const body = await request.json();
 
@@ -126,22 +124,15 @@ export async function POST(request: NextRequest) {
 
     const { date, userId, startTime, endTime, note } = validatedBody.data;
 
-    // Parse date
-    const entryDate = new Date(date);
-    entryDate.setHours(0, 0, 0, 0);
+    await requireScheduleEntryEdit(user, userId);
 
-    // Check for existing entry (unique constraint: date + userId)
-    const startOfDay = new Date(entryDate);
-    const endOfDay = new Date(entryDate);
-    endOfDay.setDate(endOfDay.getDate() + 1);
+    const entryDate = calendarDateToUtc(date);
 
+    // Check for existing entry (unique constraint: date + userId)
     const existingEntry = await db.scheduleEntry.findFirst({
       where: {
         userId,
-        date: {
-          gte: startOfDay,
-          lt: endOfDay,
-        },
+        date: entryDate,
       },
     });
 
@@ -165,6 +156,7 @@ export async function POST(request: NextRequest) {
             id: true,
             name: true,
             email: true,
+            timeZone: true,
           },
         },
         createdBy: {
@@ -178,7 +170,16 @@ export async function POST(request: NextRequest) {
 
     logger.info("Created schedule entry", { entryId: entry.id, userId: user.id });
 
-    const response = NextResponse.json({ entry }, { status: 201 });
+    await recordAuditEvent(request, {
+      actorId: user.id,
+      action: "create",
+      entityType: "schedule_entry",
+      entityId: entry.id,
+      after: scheduleEntrySnapshot(entry),
+    });
+
+    const [entryWithTimeZone] = await withScheduleTimeZones([entry]);
+    const response = NextResponse.json({ entry: entryWithTimeZone }, { status: 201 });
     if (rateLimitResult) {
       response.headers.set("X-RateLimit-Remaining", String(rateLimitResult.remaining));
     }
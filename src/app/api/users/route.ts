@@ -26,7 +26,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Require authentication
-    const user = await requireAuth();
+    const user = await requireAuth({ scopes: ["meetings:read", "deadlines:read", "schedule:read"] });
 
     const users = await db.user.findMany({
       select: {
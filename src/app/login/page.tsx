@@ -1,23 +1,74 @@
 "use client";
 
-import { useState, Suspense } from "react";
+import { useEffect, useState, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { csrfFetch } from "@/lib/csrfFetch";
+
+interface AuthConfig {
+  sso: { enabled: boolean; name?: string };
+  signup: { mode: "OPEN" | "DOMAINS" | "INVITE_ONLY"; allowedDomains: string[] };
+}
+
+// Errors reported by /api/auth/oidc/callback
+const SSO_ERRORS: Record<string, string> = {
+  cancelled: "Single sign-on was cancelled.",
+  denied: "Your SSO account cannot be used to sign in here. Contact your administrator.",
+  failed: "Single sign-on failed. Please try again.",
+};
 
 function LoginForm() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(
+    SSO_ERRORS[searchParams.get("ssoError") ?? ""] ?? null
+  );
+
+  // Sign-in options: single sign-on and the workspace signup policy
+  const [config, setConfig] = useState<AuthConfig | null>(null);
+  const sso = config?.sso;
+
+  // Invitation link (/login?invite=...) opens a prefilled signup
+  const inviteToken = searchParams.get("invite");
+  const [invitedEmail, setInvitedEmail] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/auth/config", { cache: "no-store" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setConfig(data))
+      .catch(() => setConfig(null));
+  }, []);
+
+  useEffect(() => {
+    if (!inviteToken) return;
+    fetch(`/api/auth/invitation?token=${encodeURIComponent(inviteToken)}`, { cache: "no-store" })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.message || "This invitation is invalid or has expired");
+          return;
+        }
+        setInvitedEmail(data.invitation.email);
+        setSignupEmail(data.invitation.email);
+      })
+      .catch(() => setError("Could not load the invitation. Please try again."));
+  }, [inviteToken]);
 
   // Login form state
   const [loginEmail, setLoginEmail] = useState("");
   const [loginPassword, setLoginPassword] = useState("");
 
+  // Second step (two-factor) state
+  // An SSO login of a user with 2FA continues here with a challenge in the URL
+  const [challenge, setChallenge] = useState<string | null>(searchParams.get("challenge"));
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+
   // Signup form state
   const [signupName, setSignupName] = useState("");
   const [signupEmail, setSignupEmail] = useState("");
@@ -37,7 +88,7 @@ function LoginForm() {
       
       console.log("[Login] Sending request to:", apiUrl);
       
-      const response = await fetch(apiUrl, {
+      const response = await csrfFetch(apiUrl, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -64,10 +115,19 @@ function LoginForm() {
         return;
       }
 
-      if (response.ok && data.user) {
+      if (response.ok && data.twoFactorRequired) {
+        // Password accepted - ask for the authenticator code
+        setChallenge(data.challenge);
+        setTwoFactorCode("");
+      } else if (response.ok && data.user) {
         // Use window.location for full page reload to ensure cookie is set
-        // Redirect to the page we came from, or to meetings
-        const redirect = searchParams.get("redirect") || "/meetings";
+        // Unconfirmed emails go to the "check your inbox" screen, admins that must enroll in 2FA go to setup
+        // Otherwise redirect to the page we came from, or to meetings
+        const redirect = data.emailVerificationRequired
+          ? "/verify-email"
+          : data.twoFactorSetupRequired
+            ? "/profile/security"
+            : searchParams.get("redirect") || "/meetings";
         window.location.href = redirect;
       } else {
         // Show more specific error message
@@ -95,6 +155,45 @@ function LoginForm() {
     }
   };
 
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const response = await csrfFetch("/api/auth/login/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ challenge, code: twoFactorCode }),
+        cache: "no-store",
+        credentials: "same-origin",
+      });
+
+      const data = await response.json();
+
+      if (response.ok && data.user) {
+        const redirect = data.emailVerificationRequired
+          ? "/verify-email"
+          : searchParams.get("redirect") || "/meetings";
+        window.location.href = redirect;
+      } else {
+        setError(data.message || "Invalid authentication code");
+      }
+    } catch (error) {
+      console.error("[Login] Verify error:", error);
+      setError("Network error. Please check your connection and try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelTwoFactor = () => {
+    setChallenge(null);
+    setTwoFactorCode("");
+    setLoginPassword("");
+    setError(null);
+  };
+
   const handleSignup = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -108,13 +207,14 @@ function LoginForm() {
     setIsLoading(true);
 
     try {
-      const response = await fetch("/api/auth/signup", {
+      const response = await csrfFetch("/api/auth/signup", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           name: signupName,
           email: signupEmail,
           password: signupPassword,
+          invitationToken: invitedEmail ? inviteToken : undefined,
         }),
       });
 
@@ -122,8 +222,10 @@ function LoginForm() {
 
       if (response.ok && data.user) {
         // Use window.location for full page reload to ensure cookie is set
-        // Redirect to the page we came from, or to meetings
-        const redirect = searchParams.get("redirect") || "/meetings";
+        // New accounts confirm their email first, invited ones go to the page we came from, or to meetings
+        const redirect = data.emailVerificationRequired
+          ? "/verify-email"
+          : searchParams.get("redirect") || "/meetings";
         window.location.href = redirect;
       } else {
         setError(data.message || "Registration failed. Please try again.");
@@ -136,6 +238,55 @@ function LoginForm() {
     }
   };
 
+  if (challenge) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="text-2xl">Two-factor authentication</CardTitle>
+            <CardDescription>
+              Enter the 6-digit code from your authenticator app, or one of your recovery codes
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleVerifyCode} className="space-y-4">
+              {error && (
+                <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded">
+                  {error}
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-code">Authentication code</Label>
+                <Input
+                  id="two-factor-code"
+                  autoComplete="one-time-code"
+                  value={twoFactorCode}
+                  onChange={(e) => setTwoFactorCode(e.target.value)}
+                  placeholder="123456"
+                  required
+                  autoFocus
+                  disabled={isLoading}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? "Verifying..." : "Verify"}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={handleCancelTwoFactor}
+                disabled={isLoading}
+              >
+                Back to sign in
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50">
       <Card className="w-full max-w-md">
@@ -144,7 +295,7 @@ function LoginForm() {
           <CardDescription>Sign in to your account or create a new one</CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="login" className="w-full">
+          <Tabs defaultValue={inviteToken ? "signup" : "login"} className="w-full">
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="login">Sign In</TabsTrigger>
               <TabsTrigger value="signup">Sign Up</TabsTrigger>
@@ -170,7 +321,12 @@ function LoginForm() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="login-password">Password</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="login-password">Password</Label>
+                    <Link href="/forgot-password" className="text-xs text-gray-500 hover:text-gray-900 hover:underline">
+                      Forgot password?
+                    </Link>
+                  </div>
                   <Input
                     id="login-password"
                     type="password"
@@ -185,70 +341,106 @@ function LoginForm() {
                   {isLoading ? "Signing in..." : "Sign In"}
                 </Button>
               </form>
+
+              {sso?.enabled && (
+                <>
+                  <div className="flex items-center gap-3 text-xs text-gray-500">
+                    <div className="h-px flex-1 bg-gray-200" />
+                    or
+                    <div className="h-px flex-1 bg-gray-200" />
+                  </div>
+                  <Button variant="outline" className="w-full" asChild>
+                    <a
+                      href={`/api/auth/oidc/start?redirect=${encodeURIComponent(
+                        searchParams.get("redirect") || "/meetings"
+                      )}`}
+                    >
+                      Sign in with {sso.name}
+                    </a>
+                  </Button>
+                </>
+              )}
             </TabsContent>
 
             <TabsContent value="signup" className="space-y-4 mt-4">
-              <form onSubmit={handleSignup} className="space-y-4">
-                {error && (
-                  <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded">
-                    {error}
-                  </div>
-                )}
-                <div className="space-y-2">
-                  <Label htmlFor="signup-name">Name</Label>
-                  <Input
-                    id="signup-name"
-                    type="text"
-                    value={signupName}
-                    onChange={(e) => setSignupName(e.target.value)}
-                    placeholder="Your name"
-                    required
-                    disabled={isLoading}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="signup-email">Email</Label>
-                  <Input
-                    id="signup-email"
-                    type="email"
-                    value={signupEmail}
-                    onChange={(e) => setSignupEmail(e.target.value)}
-                    placeholder="your@email.com"
-                    required
-                    disabled={isLoading}
-                  />
+              {config?.signup.mode === "INVITE_ONLY" && !invitedEmail ? (
+                <div className="p-3 text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded">
+                  {error || "Sign-up is by invitation only. Ask an admin to invite you."}
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="signup-password">Password</Label>
-                  <Input
-                    id="signup-password"
-                    type="password"
-                    value={signupPassword}
-                    onChange={(e) => setSignupPassword(e.target.value)}
-                    placeholder="Create a password"
-                    required
-                    disabled={isLoading}
-                  />
-                  <p className="text-xs text-gray-500">
-                    Must be at least 8 characters with uppercase, lowercase, number, and special character
-                  </p>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="signup-password-confirm">Confirm Password</Label>
-                  <Input
-                    id="signup-password-confirm"
-                    type="password"
-                    value={signupPasswordConfirm}
-                    onChange={(e) => setSignupPasswordConfirm(e.target.value)}
-                    placeholder="Confirm your password"
-                    required
-                    disabled={isLoading}
-                  />
-                </div>
-                <Button type="submit" className="w-full" disabled={isLoading}>
-                  {isLoading ? "Creating account..." : "Sign Up"}
-                </Button>
-              </form>
+              ) : (
+                <form onSubmit={handleSignup} className="space-y-4">
+                  {error && (
+                    <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded">
+                      {error}
+                    </div>
+                  )}
+                  {invitedEmail && (
+                    <div className="p-3 text-sm text-blue-800 bg-blue-50 border border-blue-200 rounded">
+                      You have been invited to join. Choose a name and password to create your account.
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-name">Name</Label>
+                    <Input
+                      id="signup-name"
+                      type="text"
+                      value={signupName}
+                      onChange={(e) => setSignupName(e.target.value)}
+                      placeholder="Your name"
+                      required
+                      disabled={isLoading}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-email">Email</Label>
+                    <Input
+                      id="signup-email"
+                      type="email"
+                      value={signupEmail}
+                      onChange={(e) => setSignupEmail(e.target.value)}
+                      placeholder="your@email.com"
+                      required
+                      readOnly={!!invitedEmail}
+                      disabled={isLoading}
+                    />
+                    {!invitedEmail && config?.signup.mode === "DOMAINS" && (
+                      <p className="text-xs text-gray-500">
+                        Sign-up is limited to {config.signup.allowedDomains.map((d) => `@${d}`).join(", ")} addresses
+                      </p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-password">Password</Label>
+                    <Input
+                      id="signup-password"
+                      type="password"
+                      value={signupPassword}
+                      onChange={(e) => setSignupPassword(e.target.value)}
+                      placeholder="Create a password"
+                      required
+                      disabled={isLoading}
+                    />
+                    <p className="text-xs text-gray-500">
+                      Must be at least 8 characters with uppercase, lowercase, number, and special character
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-password-confirm">Confirm Password</Label>
+                    <Input
+                      id="signup-password-confirm"
+                      type="password"
+                      value={signupPasswordConfirm}
+                      onChange={(e) => setSignupPasswordConfirm(e.target.value)}
+                      placeholder="Confirm your password"
+                      required
+                      disabled={isLoading}
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={isLoading}>
+                    {isLoading ? "Creating account..." : "Sign Up"}
+                  </Button>
+                </form>
+              )}
             </TabsContent>
           </Tabs>
         </CardContent>
@@ -0,0 +1,5 @@
+import { DelegatesPage } from "@/features/calendar/components/DelegatesPage";
+
+export default function Delegates() {
+  return <DelegatesPage />;
+}
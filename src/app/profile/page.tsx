@@ -0,0 +1,5 @@
+import { ProfilePage } from "@/features/account";
+
+export default function Profile() {
+  return <ProfilePage />;
+}
@@ -0,0 +1,5 @@
+import { TwoFactorPage } from "@/features/account";
+
+export default function Security() {
+  return <TwoFactorPage />;
+}
@@ -0,0 +1,5 @@
+import { SessionsPage } from "@/features/account";
+
+export default function Sessions() {
+  return <SessionsPage />;
+}
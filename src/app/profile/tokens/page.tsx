@@ -0,0 +1,5 @@
+import { ApiTokensPage } from "@/features/account";
+
+export default function Tokens() {
+  return <ApiTokensPage />;
+}
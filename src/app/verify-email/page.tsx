@@ -0,0 +1,206 @@
+"use client";
+
+import { useEffect, useRef, useState, Suspense } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { csrfFetch } from "@/lib/csrfFetch";
+
+type VerifyState = "verifying" | "verified" | "failed";
+
+/**
+ * Confirmation link target (/verify-email?token=...) - works without a session
+ */
+function ConfirmEmail({ token }: { token: string }) {
+  const [state, setState] = useState<VerifyState>("verifying");
+  const [error, setError] = useState<string | null>(null);
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    // The token is single use - never send it twice (React strict mode runs effects twice)
+    if (submitted.current) return;
+    submitted.current = true;
+
+    csrfFetch("/api/auth/verify-email", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token }),
+    })
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}));
+        if (response.ok) {
+          setState("verified");
+        } else {
+          setError(data.message || "This verification link is invalid or has expired");
+          setState("failed");
+        }
+      })
+      .catch((err) => {
+        console.error("[VerifyEmail] Error:", err);
+        setError("Network error. Please check your connection and try again.");
+        setState("failed");
+      });
+  }, [token]);
+
+  if (state === "verifying") {
+    return <p className="text-sm text-center text-gray-500">Confirming your email address...</p>;
+  }
+
+  if (state === "verified") {
+    return (
+      <>
+        <div className="p-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded">
+          Your email address is confirmed.
+        </div>
+        <Button className="w-full" onClick={() => (window.location.href = "/meetings")}>
+          Continue
+        </Button>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded">{error}</div>
+      <p className="text-sm text-center text-gray-500">
+        Sign in and request a new link from the{" "}
+        <Link href="/verify-email" className="underline">
+          verification
+        </Link>{" "}
+        page.
+      </p>
+    </>
+  );
+}
+
+/**
+ * "Check your inbox" screen for signed-in users with an unconfirmed address
+ */
+function CheckInbox() {
+  const [email, setEmail] = useState<string | null>(null);
+  const [signedIn, setSignedIn] = useState<boolean | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sent, setSent] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/auth/me", { cache: "no-store" })
+      .then((response) => (response.ok ? response.json() : { user: null }))
+      .then((data) => {
+        if (data.user?.emailVerified) {
+          // Nothing to confirm (e.g. verified in another tab)
+          window.location.href = "/meetings";
+          return;
+        }
+        setSignedIn(Boolean(data.user));
+        setEmail(data.user?.email ?? null);
+      })
+      .catch(() => setSignedIn(false));
+  }, []);
+
+  const handleResend = async () => {
+    setError(null);
+    setSent(false);
+    setIsLoading(true);
+
+    try {
+      const response = await csrfFetch("/api/auth/verify-email/resend", { method: "POST" });
+      const data = await response.json().catch(() => ({}));
+
+      if (response.ok) {
+        setSent(true);
+      } else {
+        setError(data.message || "Could not send the email. Please try again.");
+      }
+    } catch (err) {
+      console.error("[VerifyEmail] Resend error:", err);
+      setError("Network error. Please check your connection and try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    await csrfFetch("/api/auth/logout", { method: "POST" });
+    window.location.href = "/login";
+  };
+
+  if (signedIn === null) {
+    return <p className="text-sm text-center text-gray-500">Loading...</p>;
+  }
+
+  if (!signedIn) {
+    return (
+      <p className="text-sm text-center text-gray-500">
+        Open the link from the email we sent you, or{" "}
+        <Link href="/login?redirect=/verify-email" className="underline">
+          sign in
+        </Link>{" "}
+        to request a new one.
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <p className="text-sm text-gray-600">
+        We sent a confirmation link to <span className="font-medium text-gray-900">{email}</span>.
+        Open it to finish setting up your account.
+      </p>
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded">{error}</div>
+      )}
+      {sent && (
+        <div className="p-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded">
+          A new confirmation link has been sent.
+        </div>
+      )}
+      <Button className="w-full" onClick={handleResend} disabled={isLoading}>
+        {isLoading ? "Sending..." : "Resend email"}
+      </Button>
+      <p className="text-sm text-center text-gray-500">
+        Wrong address?{" "}
+        <button type="button" onClick={handleLogout} className="hover:text-gray-900 hover:underline">
+          Sign out
+        </button>
+      </p>
+    </>
+  );
+}
+
+function VerifyEmail() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl">{token ? "Confirm your email" : "Check your inbox"}</CardTitle>
+          <CardDescription>Your account can be used once the email address is confirmed</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {token ? <ConfirmEmail token={token} /> : <CheckInbox />}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="text-2xl">Check your inbox</CardTitle>
+            <CardDescription>Loading...</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    }>
+      <VerifyEmail />
+    </Suspense>
+  );
+}
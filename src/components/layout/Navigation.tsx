@@ -2,7 +2,7 @@
 
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
-import { Users, Clock, List, LogOut, User, Shield } from "lucide-react";
+import { Users, Clock, List, LogOut, User, Shield, Laptop, Settings, ShieldCheck, KeyRound, Mail, UsersRound, ScrollText, UserCog, SearchCheck } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import {
@@ -14,6 +14,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useEffect, useState } from "react";
+import { csrfFetch } from "@/lib/csrfFetch";
 
 const navItems = [
   { href: "/meetings", label: "Meetings", icon: Users },
@@ -23,8 +24,15 @@ const navItems = [
 
 const adminNavItems = [
   { href: "/admin/permissions", label: "Access", icon: Shield },
+  { href: "/admin/access", label: "Explain", icon: SearchCheck },
+  { href: "/admin/groups", label: "Groups", icon: UsersRound },
+  { href: "/admin/invitations", label: "Invitations", icon: Mail },
+  { href: "/admin/audit", label: "Audit", icon: ScrollText },
+  { href: "/admin/settings", label: "Settings", icon: Settings },
 ];
 
+const authPaths = ["/login", "/forgot-password", "/reset-password", "/verify-email"];
+
 export function Navigation() {
   const pathname = usePathname();
   const router = useRouter();
@@ -42,12 +50,19 @@ export function Navigation() {
           return { user: null };
         }
         try {
-          return JSON.parse(text) as { user?: { name: string; email: string; role: string } | null };
+          return JSON.parse(text) as {
+            user?: { name: string; email: string; role: string; emailVerified: boolean } | null;
+          };
         } catch {
           return { user: null };
         }
       })
       .then((data) => {
+        if (data.user && !data.user.emailVerified && !authPaths.includes(window.location.pathname)) {
+          // Unverified accounts only get the "check your inbox" screen
+          router.replace("/verify-email");
+          return;
+        }
         if (data.user) {
           setCurrentUser(data.user);
         }
@@ -55,16 +70,16 @@ export function Navigation() {
       .catch((err) => {
         console.error("[Navigation] Error fetching user:", err);
       });
-  }, []);
+  }, [router]);
 
   const handleLogout = async () => {
-    await fetch("/api/auth/logout", { method: "POST" });
+    await csrfFetch("/api/auth/logout", { method: "POST" });
     router.push("/login");
     router.refresh();
   };
 
-  // Don't show navigation on login page
-  if (pathname === "/login") {
+  // Don't show navigation on auth pages (login, password reset, email verification)
+  if (authPaths.includes(pathname)) {
     return null;
   }
 
@@ -180,6 +195,37 @@ export function Navigation() {
                   </div>
                 </DropdownMenuLabel>
                 <DropdownMenuSeparator />
+                <DropdownMenuItem asChild>
+                  <Link href="/profile">
+                    <User className="h-4 w-4 mr-2" />
+                    Profile
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href="/profile/sessions">
+                    <Laptop className="h-4 w-4 mr-2" />
+                    Devices & sessions
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href="/profile/security">
+                    <ShieldCheck className="h-4 w-4 mr-2" />
+                    Two-factor authentication
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href="/profile/delegates">
+                    <UserCog className="h-4 w-4 mr-2" />
+                    Calendar delegates
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href="/profile/tokens">
+                    <KeyRound className="h-4 w-4 mr-2" />
+                    API tokens
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={handleLogout}>
                   <LogOut className="h-4 w-4 mr-2" />
                   Logout
@@ -0,0 +1,239 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { enUS } from "date-fns/locale";
+import { Copy, KeyRound, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { API_SCOPE_DESCRIPTIONS, type ApiScope } from "@/lib/apiScopes";
+import { useApiTokens, useCreateApiToken, useRevokeApiToken } from "../hooks/useApiTokens";
+import type { ApiTokenInfo } from "../types";
+
+const EXPIRY_OPTIONS = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "1 year" },
+];
+
+function formatDate(value: string): string {
+  return format(new Date(value), "d MMM yyyy, HH:mm", { locale: enUS });
+}
+
+export function ApiTokensPage() {
+  const { data, isLoading } = useApiTokens();
+  const createToken = useCreateApiToken();
+  const revokeToken = useRevokeApiToken();
+
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiScope[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState("30");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const tokens = data?.tokens ?? [];
+  const availableScopes = data?.availableScopes ?? [];
+
+  const toggleScope = (scope: ApiScope) => {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const result = await createToken.mutateAsync({
+        name,
+        scopes,
+        expiresInDays: Number(expiresInDays),
+      });
+      setCreatedToken(result.token);
+      setName("");
+      setScopes([]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Error creating API token");
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdToken) return;
+    try {
+      await navigator.clipboard.writeText(createdToken);
+      toast.success("Token copied");
+    } catch {
+      toast.error("Could not copy to clipboard");
+    }
+  };
+
+  const handleRevoke = async (token: ApiTokenInfo) => {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) return;
+
+    try {
+      await revokeToken.mutateAsync(token.id);
+      toast.success("Token revoked");
+    } catch (error) {
+      console.error("[ApiTokensPage] Revoke error:", error);
+      toast.error("Error revoking token");
+    }
+  };
+
+  const renderTokens = () => {
+    if (isLoading) {
+      return <p className="text-sm text-muted-foreground py-4">Loading...</p>;
+    }
+
+    if (tokens.length === 0) {
+      return <p className="text-sm text-muted-foreground py-4">No active tokens</p>;
+    }
+
+    return (
+      <div className="divide-y divide-border">
+        {tokens.map((token) => (
+          <div key={token.id} className="flex items-center gap-3 py-3">
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-foreground truncate">{token.name}</span>
+                <span className="text-xs font-mono text-muted-foreground">{token.prefix}…</span>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {token.scopes.map((scope) => (
+                  <Badge key={scope} variant="secondary" className="text-[10px] px-1.5 py-0">
+                    {scope}
+                  </Badge>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Expires {formatDate(token.expiresAt)} ·{" "}
+                {token.lastUsedAt ? `Last used ${formatDate(token.lastUsedAt)}` : "Never used"}
+              </p>
+            </div>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleRevoke(token)}
+              disabled={revokeToken.isPending}
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Revoke
+            </Button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <KeyRound className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="text-xl">API tokens</CardTitle>
+                <CardDescription>
+                  Personal tokens for scripts - send them as{" "}
+                  <code className="font-mono">Authorization: Bearer &lt;token&gt;</code>
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {createdToken ? (
+              <div className="space-y-4">
+                <div className="p-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded">
+                  Copy your new token now. It will not be shown again.
+                </div>
+                <div className="p-3 rounded-lg bg-muted font-mono text-sm break-all select-all">
+                  {createdToken}
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={handleCopy}>
+                    <Copy className="w-4 h-4 mr-2" />
+                    Copy token
+                  </Button>
+                  <Button onClick={() => setCreatedToken(null)}>Done</Button>
+                </div>
+              </div>
+            ) : (
+              <form onSubmit={handleCreate} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="token-name">Name</Label>
+                    <Input
+                      id="token-name"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="e.g. Weekly report script"
+                      maxLength={100}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Expires in</Label>
+                    <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EXPIRY_OPTIONS.map((option) => (
+                          <SelectItem key={option.days} value={String(option.days)}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Scopes</Label>
+                  <div className="space-y-2">
+                    {availableScopes.map((scope) => (
+                      <label key={scope} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 rounded border-gray-300"
+                          checked={scopes.includes(scope)}
+                          onChange={() => toggleScope(scope)}
+                        />
+                        <span className="font-mono text-xs w-32">{scope}</span>
+                        <span className="text-muted-foreground">{API_SCOPE_DESCRIPTIONS[scope]}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <Button type="submit" disabled={createToken.isPending || !name.trim() || scopes.length === 0}>
+                  {createToken.isPending ? "Creating..." : "Create token"}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Active tokens</CardTitle>
+          </CardHeader>
+          <CardContent>{renderTokens()}</CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { format } from "date-fns";
+import { enUS } from "date-fns/locale";
+import { CheckCircle2, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { describeUserAgent } from "@/lib/utils";
+import type { LoginEventInfo } from "../types";
+
+interface LoginHistoryProps {
+  events: LoginEventInfo[];
+  isLoading: boolean;
+}
+
+export function LoginHistory({ events, isLoading }: LoginHistoryProps) {
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {[1, 2, 3].map((i) => (
+          <div key={i} className="animate-pulse h-10 bg-muted rounded" />
+        ))}
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4">No sign-in activity yet</p>;
+  }
+
+  return (
+    <div className="divide-y divide-border">
+      {events.map((event) => {
+        const Icon = event.success ? CheckCircle2 : XCircle;
+
+        return (
+          <div key={event.id} className="flex items-center gap-3 py-2.5">
+            <Icon
+              className={event.success ? "w-4 h-4 text-green-600 shrink-0" : "w-4 h-4 text-red-600 shrink-0"}
+            />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-foreground">
+                  {event.success ? "Signed in" : event.reason || "Failed sign-in"}
+                </span>
+                {event.newIp && (
+                  <Badge variant="outline" className="text-[10px] px-1.5 py-0 border-amber-300 text-amber-700">
+                    New IP address
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground truncate">
+                {event.ip || "Unknown IP"} · {describeUserAgent(event.userAgent)}
+              </p>
+            </div>
+            <span className="text-xs text-muted-foreground shrink-0">
+              {format(new Date(event.createdAt), "d MMM yyyy, HH:mm", { locale: enUS })}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
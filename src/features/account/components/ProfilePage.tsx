@@ -0,0 +1,287 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { KeyRound, Mail, UserCircle } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { TimeZoneSelect } from "@/features/calendar/components/TimeZoneSelect";
+import { localTimeZone } from "@/lib/timeZones";
+import { useProfile, useUpdateProfile } from "../hooks/useProfile";
+
+export function ProfilePage() {
+  const { data: profile, isLoading } = useProfile();
+  const updateProfile = useUpdateProfile();
+
+  const [name, setName] = useState("");
+  const [newEmail, setNewEmail] = useState("");
+  const [emailPassword, setEmailPassword] = useState("");
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [newPasswordConfirm, setNewPasswordConfirm] = useState("");
+
+  useEffect(() => {
+    if (profile) {
+      setName(profile.name);
+    }
+  }, [profile]);
+
+  const handleSaveName = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await updateProfile.mutateAsync({ name });
+      toast.success("Name updated");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Error updating name");
+    }
+  };
+
+  const handleChangeTimeZone = async (timeZone: string | null) => {
+    try {
+      await updateProfile.mutateAsync({ timeZone });
+      toast.success("Time zone updated");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Error updating time zone");
+    }
+  };
+
+  const handleChangeEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await updateProfile.mutateAsync({ email: newEmail, currentPassword: emailPassword });
+      setNewEmail("");
+      setEmailPassword("");
+      toast.success("Confirmation link sent", {
+        description: `Open the link sent to ${newEmail} to finish the change`,
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Error changing email");
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword !== newPasswordConfirm) {
+      toast.error("Passwords do not match");
+      return;
+    }
+
+    try {
+      const result = await updateProfile.mutateAsync({ currentPassword, newPassword });
+      setCurrentPassword("");
+      setNewPassword("");
+      setNewPasswordConfirm("");
+      toast.success("Password changed", {
+        description:
+          result.revokedSessions > 0
+            ? `Signed out of ${result.revokedSessions} other session(s)`
+            : undefined,
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Error changing password");
+    }
+  };
+
+  if (isLoading || !profile) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-3xl mx-auto p-6">
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <UserCircle className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="text-xl">Profile</CardTitle>
+                <CardDescription>Your display name is shown to other workspace members</CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSaveName} className="flex items-end gap-3">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="profile-name">Name</Label>
+                <Input
+                  id="profile-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={255}
+                  required
+                />
+              </div>
+              <Button
+                type="submit"
+                disabled={updateProfile.isPending || !name.trim() || name.trim() === profile.name}
+              >
+                Save
+              </Button>
+            </form>
+
+            <div className="space-y-2 mt-6">
+              <Label>Time zone</Label>
+              <TimeZoneSelect
+                value={profile.timeZone}
+                onChange={handleChangeTimeZone}
+                defaultLabel={`Workspace default${profile.timeZone ? "" : ` (${profile.effectiveTimeZone})`}`}
+                disabled={updateProfile.isPending}
+              />
+              <p className="text-xs text-muted-foreground">
+                Calendar and schedule times are shown in this zone.
+                {profile.effectiveTimeZone !== localTimeZone() && (
+                  <>
+                    {" "}
+                    Your browser is in {localTimeZone()}.{" "}
+                    <button
+                      type="button"
+                      className="underline"
+                      onClick={() => handleChangeTimeZone(localTimeZone())}
+                      disabled={updateProfile.isPending}
+                    >
+                      Use it
+                    </button>
+                  </>
+                )}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <Mail className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="text-lg">Email address</CardTitle>
+                <CardDescription>
+                  Signed in as <span className="font-medium text-foreground">{profile.email}</span>
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {profile.pendingEmail && (
+              <div className="p-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded">
+                Waiting for confirmation of <span className="font-medium">{profile.pendingEmail}</span>.
+                Your current address stays in use until the link is opened.
+              </div>
+            )}
+            {profile.hasPassword ? (
+              <form onSubmit={handleChangeEmail} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="profile-email">New email</Label>
+                    <Input
+                      id="profile-email"
+                      type="email"
+                      value={newEmail}
+                      onChange={(e) => setNewEmail(e.target.value)}
+                      placeholder="name@example.com"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="profile-email-password">Current password</Label>
+                    <Input
+                      id="profile-email-password"
+                      type="password"
+                      value={emailPassword}
+                      onChange={(e) => setEmailPassword(e.target.value)}
+                      autoComplete="current-password"
+                      required
+                    />
+                  </div>
+                </div>
+                <Button type="submit" disabled={updateProfile.isPending || !newEmail || !emailPassword}>
+                  Send confirmation link
+                </Button>
+              </form>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Your account signs in through single sign-on - the email address is managed by your identity provider.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {profile.hasPassword && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                  <KeyRound className="w-5 h-5 text-primary" />
+                </div>
+                <div>
+                  <CardTitle className="text-lg">Password</CardTitle>
+                  <CardDescription>All other devices will be signed out after the password is changed</CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleChangePassword} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="current-password">Current password</Label>
+                  <Input
+                    id="current-password"
+                    type="password"
+                    value={currentPassword}
+                    onChange={(e) => setCurrentPassword(e.target.value)}
+                    autoComplete="current-password"
+                    required
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="new-password">New password</Label>
+                    <Input
+                      id="new-password"
+                      type="password"
+                      value={newPassword}
+                      onChange={(e) => setNewPassword(e.target.value)}
+                      autoComplete="new-password"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="new-password-confirm">Confirm new password</Label>
+                    <Input
+                      id="new-password-confirm"
+                      type="password"
+                      value={newPasswordConfirm}
+                      onChange={(e) => setNewPasswordConfirm(e.target.value)}
+                      autoComplete="new-password"
+                      required
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Must be at least 8 characters with uppercase, lowercase, number, and special character
+                </p>
+                <Button
+                  type="submit"
+                  disabled={updateProfile.isPending || !currentPassword || !newPassword || !newPasswordConfirm}
+                >
+                  Change password
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { Copy } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+
+interface RecoveryCodesListProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+/**
+ * One-time display of freshly generated recovery codes
+ */
+export function RecoveryCodesList({ codes, onDone }: RecoveryCodesListProps) {
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      toast.success("Recovery codes copied");
+    } catch {
+      toast.error("Could not copy to clipboard");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="p-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded">
+        Save these recovery codes somewhere safe. Each code can be used once to sign in if you lose
+        access to your authenticator app. They will not be shown again.
+      </div>
+      <div className="grid grid-cols-2 gap-2 p-4 rounded-lg bg-muted font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={handleCopy}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copy codes
+        </Button>
+        <Button onClick={onDone}>I have saved my codes</Button>
+      </div>
+    </div>
+  );
+}
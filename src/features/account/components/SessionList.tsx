@@ -0,0 +1,83 @@
+"use client";
+
+import { format, formatDistanceToNow } from "date-fns";
+import { enUS } from "date-fns/locale";
+import { LogOut, Monitor, Smartphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { describeUserAgent } from "@/lib/utils";
+import type { SessionInfo } from "../types";
+
+interface SessionListProps {
+  sessions: SessionInfo[];
+  onRevoke: (session: SessionInfo) => void;
+  isRevoking: boolean;
+  isLoading: boolean;
+}
+
+export function SessionList({ sessions, onRevoke, isRevoking, isLoading }: SessionListProps) {
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {[1, 2].map((i) => (
+          <div key={i} className="animate-pulse flex items-center gap-3 p-3">
+            <div className="w-9 h-9 rounded-md bg-muted" />
+            <div className="flex-1 space-y-2">
+              <div className="h-4 bg-muted rounded w-1/2" />
+              <div className="h-3 bg-muted rounded w-1/3" />
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (sessions.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4">No active sessions</p>;
+  }
+
+  return (
+    <div className="divide-y divide-border">
+      {sessions.map((session) => {
+        const isMobile = /iPhone|iPad|Android/.test(session.userAgent || "");
+        const Icon = isMobile ? Smartphone : Monitor;
+
+        return (
+          <div key={session.id} className="flex items-center gap-3 py-3">
+            <div className="w-9 h-9 rounded-md bg-muted flex items-center justify-center shrink-0">
+              <Icon className="w-4 h-4 text-muted-foreground" />
+            </div>
+
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-foreground truncate">
+                  {describeUserAgent(session.userAgent)}
+                </span>
+                {session.current && (
+                  <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                    This device
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground truncate">
+                {session.ip || "Unknown IP"} · Signed in{" "}
+                {format(new Date(session.createdAt), "d MMM yyyy, HH:mm", { locale: enUS })} · Last
+                seen {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+              </p>
+            </div>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onRevoke(session)}
+              disabled={isRevoking}
+            >
+              <LogOut className="h-4 w-4 mr-1" />
+              Sign out
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { History, Laptop } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { LoginHistory } from "./LoginHistory";
+import { SessionList } from "./SessionList";
+import { useLoginEvents } from "../hooks/useLoginEvents";
+import { useRevokeAllSessions, useRevokeSession, useSessions } from "../hooks/useSessions";
+import type { SessionInfo } from "../types";
+
+export function SessionsPage() {
+  const { data: sessions = [], isLoading } = useSessions();
+  const revokeSession = useRevokeSession();
+  const revokeOthers = useRevokeAllSessions();
+  const { data: loginEvents = [], isLoading: isLoadingEvents } = useLoginEvents();
+
+  const otherSessionsCount = sessions.filter((s) => !s.current).length;
+
+  const handleRevoke = async (session: SessionInfo) => {
+    if (session.current && !confirm("Sign out of this device?")) return;
+
+    try {
+      await revokeSession.mutateAsync(session.id);
+      if (session.current) {
+        window.location.href = "/login";
+        return;
+      }
+      toast.success("Session signed out");
+    } catch (error) {
+      console.error("[SessionsPage] Revoke error:", error);
+      toast.error("Error signing out session");
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!confirm("Sign out of all other devices?")) return;
+
+    try {
+      const result = await revokeOthers.mutateAsync();
+      toast.success(`Signed out of ${result.revokedCount} other ${result.revokedCount === 1 ? "session" : "sessions"}`);
+    } catch (error) {
+      console.error("[SessionsPage] Revoke others error:", error);
+      toast.error("Error signing out sessions");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                  <Laptop className="w-5 h-5 text-primary" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl">Devices & sessions</CardTitle>
+                  <CardDescription>Where you are signed in right now</CardDescription>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleRevokeOthers}
+                disabled={otherSessionsCount === 0 || revokeOthers.isPending}
+              >
+                Sign out other sessions
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <SessionList
+              sessions={sessions}
+              onRevoke={handleRevoke}
+              isRevoking={revokeSession.isPending}
+              isLoading={isLoading}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <History className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="text-xl">Recent sign-in activity</CardTitle>
+                <CardDescription>
+                  Sign-ins from a new IP address are flagged - if you don&apos;t recognize one,
+                  change your password
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <LoginHistory events={loginEvents} isLoading={isLoadingEvents} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
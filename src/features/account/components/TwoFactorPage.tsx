@@ -0,0 +1,242 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { enUS } from "date-fns/locale";
+import { ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RecoveryCodesList } from "./RecoveryCodesList";
+import {
+  useBeginTwoFactorSetup,
+  useDisableTwoFactor,
+  useEnableTwoFactor,
+  useRegenerateRecoveryCodes,
+  useTwoFactorStatus,
+} from "../hooks/useTwoFactor";
+import type { TwoFactorSetup } from "../types";
+
+type PendingAction = "disable" | "regenerate" | null;
+
+/**
+ * Group a base32 secret in blocks of four for manual entry
+ */
+function formatSecret(secret: string): string {
+  return secret.match(/.{1,4}/g)?.join(" ") ?? secret;
+}
+
+export function TwoFactorPage() {
+  const { data: status, isLoading } = useTwoFactorStatus();
+  const beginSetup = useBeginTwoFactorSetup();
+  const enable = useEnableTwoFactor();
+  const disable = useDisableTwoFactor();
+  const regenerate = useRegenerateRecoveryCodes();
+
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+  const [code, setCode] = useState("");
+
+  const handleBeginSetup = async () => {
+    try {
+      setSetup(await beginSetup.mutateAsync());
+      setCode("");
+    } catch (error) {
+      console.error("[TwoFactorPage] Setup error:", error);
+      toast.error("Could not start setup", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const result = await enable.mutateAsync(code);
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      toast.success("Two-factor authentication enabled");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Invalid authentication code");
+    }
+  };
+
+  const handleConfirmAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      if (pendingAction === "disable") {
+        await disable.mutateAsync(code);
+        toast.success("Two-factor authentication disabled");
+      } else if (pendingAction === "regenerate") {
+        const result = await regenerate.mutateAsync(code);
+        setRecoveryCodes(result.recoveryCodes);
+      }
+      setPendingAction(null);
+      setCode("");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Invalid authentication code");
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading || !status) {
+      return <p className="text-sm text-muted-foreground py-4">Loading...</p>;
+    }
+
+    if (recoveryCodes) {
+      return <RecoveryCodesList codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />;
+    }
+
+    if (setup) {
+      return (
+        <form onSubmit={handleEnable} className="space-y-4">
+          <ol className="list-decimal list-inside space-y-2 text-sm text-foreground">
+            <li>
+              Add this account to your authenticator app:{" "}
+              <a href={setup.otpauthUri} className="text-primary underline">
+                open in authenticator
+              </a>{" "}
+              or enter the key manually.
+            </li>
+            <li>Enter the 6-digit code the app shows.</li>
+          </ol>
+          <div className="p-3 rounded-lg bg-muted font-mono text-sm break-all select-all">
+            {formatSecret(setup.secret)}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="totp-code">Authentication code</Label>
+            <Input
+              id="totp-code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              required
+              disabled={enable.isPending}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" disabled={enable.isPending || !code}>
+              {enable.isPending ? "Verifying..." : "Enable"}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setSetup(null)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      );
+    }
+
+    if (!status.enabled) {
+      return (
+        <div className="space-y-4">
+          {status.required && (
+            <div className="p-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded">
+              Your workspace requires two-factor authentication for admin accounts. Set it up to
+              continue using admin features.
+            </div>
+          )}
+          <p className="text-sm text-muted-foreground">
+            Protect your account with a one-time code from an authenticator app in addition to
+            your password.
+          </p>
+          <Button onClick={handleBeginSetup} disabled={beginSetup.isPending}>
+            Set up two-factor authentication
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="text-sm text-muted-foreground space-y-1">
+          {status.enabledAt && <p>Enabled {format(new Date(status.enabledAt), "d MMM yyyy", { locale: enUS })}</p>}
+          <p>
+            {status.recoveryCodesRemaining} unused recovery{" "}
+            {status.recoveryCodesRemaining === 1 ? "code" : "codes"} left
+          </p>
+        </div>
+
+        {pendingAction ? (
+          <form onSubmit={handleConfirmAction} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="confirm-code">Authentication or recovery code</Label>
+              <Input
+                id="confirm-code"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+                required
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                variant={pendingAction === "disable" ? "destructive" : "default"}
+                disabled={!code || disable.isPending || regenerate.isPending}
+              >
+                {pendingAction === "disable" ? "Disable" : "Generate new codes"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setPendingAction(null);
+                  setCode("");
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setPendingAction("regenerate")}>
+              Regenerate recovery codes
+            </Button>
+            {!status.required && (
+              <Button variant="outline" onClick={() => setPendingAction("disable")}>
+                Disable
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto p-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <ShieldCheck className="w-5 h-5 text-primary" />
+              </div>
+              <div className="flex-1">
+                <div className="flex items-center gap-2">
+                  <CardTitle className="text-xl">Two-factor authentication</CardTitle>
+                  {status && (
+                    <Badge variant={status.enabled ? "default" : "secondary"}>
+                      {status.enabled ? "On" : "Off"}
+                    </Badge>
+                  )}
+                </div>
+                <CardDescription>Authenticator app codes (TOTP) and recovery codes</CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>{renderContent()}</CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
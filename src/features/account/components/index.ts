@@ -0,0 +1,7 @@
+export { ProfilePage } from "./ProfilePage";
+export { SessionsPage } from "./SessionsPage";
+export { SessionList } from "./SessionList";
+export { TwoFactorPage } from "./TwoFactorPage";
+export { RecoveryCodesList } from "./RecoveryCodesList";
+export { LoginHistory } from "./LoginHistory";
+export { ApiTokensPage } from "./ApiTokensPage";
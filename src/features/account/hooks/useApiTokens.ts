@@ -0,0 +1,75 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ApiScope } from "@/lib/apiScopes";
+import type { ApiTokenInfo } from "../types";
+import { csrfFetch } from "@/lib/csrfFetch";
+
+async function fetchApiTokens(): Promise<{ tokens: ApiTokenInfo[]; availableScopes: ApiScope[] }> {
+  const response = await fetch("/api/auth/tokens", { cache: "no-store" });
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch API tokens");
+  }
+
+  return response.json();
+}
+
+async function createApiToken(data: {
+  name: string;
+  scopes: ApiScope[];
+  expiresInDays: number;
+}): Promise<{ token: string; apiToken: ApiTokenInfo }> {
+  const response = await csrfFetch("/api/auth/tokens", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to create API token");
+  }
+
+  return response.json();
+}
+
+async function revokeApiToken(tokenId: string): Promise<void> {
+  const response = await csrfFetch(`/api/auth/tokens/${tokenId}`, {
+    method: "DELETE",
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to revoke API token");
+  }
+}
+
+export function useApiTokens() {
+  return useQuery({
+    queryKey: ["api-tokens"],
+    queryFn: fetchApiTokens,
+  });
+}
+
+export function useCreateApiToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createApiToken,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["api-tokens"] });
+    },
+  });
+}
+
+export function useRevokeApiToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: revokeApiToken,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["api-tokens"] });
+    },
+  });
+}
@@ -0,0 +1,22 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { LoginEventInfo } from "../types";
+
+async function fetchLoginEvents(): Promise<LoginEventInfo[]> {
+  const response = await fetch("/api/auth/login-events", { cache: "no-store" });
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch login history");
+  }
+
+  const data = await response.json();
+  return data.events;
+}
+
+export function useLoginEvents() {
+  return useQuery({
+    queryKey: ["login-events"],
+    queryFn: fetchLoginEvents,
+  });
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ProfileInfo, ProfileUpdate } from "../types";
+import { csrfFetch } from "@/lib/csrfFetch";
+
+const PROFILE_KEY = ["profile"];
+
+async function fetchProfile(): Promise<ProfileInfo> {
+  const response = await fetch("/api/auth/me", { cache: "no-store" });
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch profile");
+  }
+
+  const data = await response.json();
+  if (!data.user) {
+    throw new Error("Not signed in");
+  }
+  return data.user;
+}
+
+async function updateProfile(update: ProfileUpdate): Promise<{
+  user: ProfileInfo;
+  passwordChanged: boolean;
+  revokedSessions: number;
+  emailChangePending: boolean;
+}> {
+  const response = await csrfFetch("/api/auth/me", {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(update),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to update profile");
+  }
+
+  return response.json();
+}
+
+export function useProfile() {
+  return useQuery({
+    queryKey: PROFILE_KEY,
+    queryFn: fetchProfile,
+  });
+}
+
+export function useUpdateProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateProfile,
+    onSuccess: (result) => {
+      queryClient.setQueryData(PROFILE_KEY, result.user);
+      // The name is shown elsewhere (navigation, participant lists)
+      queryClient.invalidateQueries({ queryKey: ["currentUser"] });
+      if (result.revokedSessions > 0) {
+        queryClient.invalidateQueries({ queryKey: ["sessions"] });
+      }
+    },
+  });
+}
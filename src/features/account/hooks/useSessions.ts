@@ -0,0 +1,89 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { SessionInfo } from "../types";
+import { csrfFetch } from "@/lib/csrfFetch";
+
+/**
+ * Base URL for session endpoints
+ * Without userId - the current user's sessions; with userId - admin view of that user
+ */
+function sessionsUrl(userId?: string): string {
+  return userId ? `/api/admin/users/${userId}/sessions` : "/api/auth/sessions";
+}
+
+async function fetchSessions(userId?: string): Promise<SessionInfo[]> {
+  const response = await fetch(sessionsUrl(userId), { cache: "no-store" });
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch sessions");
+  }
+
+  const data = await response.json();
+  return data.sessions;
+}
+
+async function revokeSession({
+  userId,
+  sessionId,
+}: {
+  userId?: string;
+  sessionId: string;
+}): Promise<{ current?: boolean }> {
+  const response = await csrfFetch(`${sessionsUrl(userId)}/${sessionId}`, {
+    method: "DELETE",
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to sign out session");
+  }
+
+  return response.json();
+}
+
+async function revokeAllSessions(userId?: string): Promise<{ revokedCount: number }> {
+  const response = await csrfFetch(sessionsUrl(userId), {
+    method: "DELETE",
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to sign out sessions");
+  }
+
+  return response.json();
+}
+
+export function useSessions(userId?: string) {
+  return useQuery({
+    queryKey: ["sessions", userId ?? "me"],
+    queryFn: () => fetchSessions(userId),
+  });
+}
+
+export function useRevokeSession(userId?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (sessionId: string) => revokeSession({ userId, sessionId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sessions", userId ?? "me"] });
+    },
+  });
+}
+
+/**
+ * Without userId - signs out all other sessions of the current user
+ * With userId (admin) - signs out every session of that user
+ */
+export function useRevokeAllSessions(userId?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => revokeAllSessions(userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sessions", userId ?? "me"] });
+    },
+  });
+}
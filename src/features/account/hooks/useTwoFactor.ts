@@ -0,0 +1,80 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { TwoFactorSetup, TwoFactorStatus } from "../types";
+import { csrfFetch } from "@/lib/csrfFetch";
+
+const TWO_FACTOR_KEY = ["two-factor"];
+
+async function fetchTwoFactorStatus(): Promise<TwoFactorStatus> {
+  const response = await fetch("/api/auth/2fa", { cache: "no-store" });
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch two-factor status");
+  }
+
+  return response.json();
+}
+
+async function postWithCode<T>(url: string, method: string, code?: string): Promise<T> {
+  const response = await csrfFetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(code === undefined ? {} : { code }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Request failed");
+  }
+
+  return response.json();
+}
+
+export function useTwoFactorStatus() {
+  return useQuery({
+    queryKey: TWO_FACTOR_KEY,
+    queryFn: fetchTwoFactorStatus,
+  });
+}
+
+export function useBeginTwoFactorSetup() {
+  return useMutation({
+    mutationFn: () => postWithCode<TwoFactorSetup>("/api/auth/2fa/setup", "POST"),
+  });
+}
+
+export function useEnableTwoFactor() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (code: string) =>
+      postWithCode<{ recoveryCodes: string[] }>("/api/auth/2fa/enable", "POST", code),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TWO_FACTOR_KEY });
+    },
+  });
+}
+
+export function useDisableTwoFactor() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (code: string) => postWithCode<{ success: boolean }>("/api/auth/2fa", "DELETE", code),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TWO_FACTOR_KEY });
+    },
+  });
+}
+
+export function useRegenerateRecoveryCodes() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (code: string) =>
+      postWithCode<{ recoveryCodes: string[] }>("/api/auth/2fa/recovery-codes", "POST", code),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TWO_FACTOR_KEY });
+    },
+  });
+}
@@ -0,0 +1,7 @@
+export * from "./components";
+export * from "./hooks/useApiTokens";
+export * from "./hooks/useLoginEvents";
+export * from "./hooks/useProfile";
+export * from "./hooks/useSessions";
+export * from "./hooks/useTwoFactor";
+export * from "./types";
@@ -0,0 +1,70 @@
+import type { ApiScope } from "@/lib/apiScopes";
+
+// Session as returned by /api/auth/sessions and /api/admin/users/:id/sessions
+export interface SessionInfo {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+// Two-factor status as returned by /api/auth/2fa
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// Enrollment data from /api/auth/2fa/setup
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+// Login attempt as returned by /api/auth/login-events
+export interface LoginEventInfo {
+  id: string;
+  success: boolean;
+  reason: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  newIp: boolean;
+  createdAt: string;
+}
+
+// API token as returned by /api/auth/tokens (the raw token is only returned on creation)
+export interface ApiTokenInfo {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiScope[];
+  expiresAt: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+// Current user as returned by /api/auth/me
+export interface ProfileInfo {
+  id: string;
+  name: string;
+  email: string;
+  role: "ADMIN" | "USER";
+  emailVerified: boolean;
+  pendingEmail: string | null; // New address waiting for confirmation
+  hasPassword: boolean; // false for SSO-only accounts
+  timeZone: string | null; // Own choice, null - the workspace default
+  effectiveTimeZone: string;
+}
+
+// Changes accepted by PATCH /api/auth/me
+export interface ProfileUpdate {
+  name?: string;
+  email?: string;
+  currentPassword?: string;
+  newPassword?: string;
+  timeZone?: string | null;
+}
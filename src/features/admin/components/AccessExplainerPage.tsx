@@ -0,0 +1,326 @@
+"use client";
+
+import { useState } from "react";
+import { addDays, format } from "date-fns";
+import { enUS } from "date-fns/locale";
+import { CheckCircle2, Eye, MinusCircle, SearchCheck, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useUsers } from "@/features/calendar/hooks/useUsers";
+import { formatCalendarDateAs } from "@/lib/timeZones";
+import { formatTimeRange } from "@/lib/utils";
+import {
+  useAccessExplanation,
+  useAccessPreview,
+  type AccessExplanationRequest,
+} from "../hooks/useAccessExplainer";
+import {
+  ACCESS_TARGET_TYPES,
+  type AccessPreviewInfo,
+  type AccessRuleInfo,
+  type AccessTargetType,
+} from "../types";
+
+const RULE_LABELS: Record<AccessRuleInfo["rule"], string> = {
+  owner: "Owner",
+  participant: "Participant",
+  delegate: "Delegation",
+  visibility: "Visibility",
+  module_permission: "Module permission",
+  default: "Default",
+};
+
+const OUTCOME_ICONS: Record<AccessRuleInfo["outcome"], React.ReactNode> = {
+  allow: <CheckCircle2 className="w-4 h-4 text-green-600" />,
+  deny: <XCircle className="w-4 h-4 text-destructive" />,
+  no_match: <MinusCircle className="w-4 h-4 text-muted-foreground" />,
+};
+
+const toDateInput = (date: Date) => format(date, "yyyy-MM-dd");
+const formatDateTime = (value: Date | string) => format(new Date(value), "d MMM, HH:mm", { locale: enUS });
+
+interface PreviewListProps {
+  title: string;
+  emptyText: string;
+  rows: { key: string; id: string; primary: React.ReactNode; secondary: string }[];
+  onExplain: (id: string) => void;
+}
+
+function PreviewList({ title, emptyText, rows, onExplain }: PreviewListProps) {
+  return (
+    <div className="space-y-2 min-w-0">
+      <p className="text-sm font-medium text-foreground">
+        {title} <span className="text-muted-foreground font-normal">({rows.length})</span>
+      </p>
+      {rows.length === 0 ? (
+        <p className="text-xs text-muted-foreground">{emptyText}</p>
+      ) : (
+        <div className="divide-y divide-border rounded-lg border border-border max-h-96 overflow-y-auto">
+          {rows.map((row) => (
+            <div key={row.key} className="flex items-center gap-2 px-3 py-2">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-foreground truncate">{row.primary}</div>
+                <p className="text-xs text-muted-foreground truncate">{row.secondary}</p>
+              </div>
+              <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onExplain(row.id)}>
+                Why?
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Calendar items of one type as preview rows (busy blocks keep their "Busy" title, occurrences explain their series)
+function itemRows(preview: AccessPreviewInfo | undefined, type: "MEETING" | "DEADLINE") {
+  return (preview?.items ?? [])
+    .filter((item) => item.type === type)
+    .map((item) => ({
+      key: `${item.id}:${item.occurrenceStart ?? ""}`,
+      id: item.id,
+      primary: item.redacted ? (
+        <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+          Busy
+        </Badge>
+      ) : (
+        item.title
+      ),
+      secondary: `${item.allDay ? formatCalendarDateAs(item.startAt, "d MMM") : formatDateTime(item.startAt)} · ${
+        item.createdBy.name
+      }`,
+    }));
+}
+
+/**
+ * "Why can this user see this?" - access decisions with their rule chain, and a "View as user" preview
+ */
+export function AccessExplainerPage() {
+  const { data: users = [] } = useUsers();
+
+  const [userId, setUserId] = useState<string | null>(null);
+  const [targetType, setTargetType] = useState<AccessTargetType>("calendar_item");
+  const [targetId, setTargetId] = useState("");
+  const [level, setLevel] = useState<"VIEW" | "EDIT">("VIEW");
+  const [explainRequest, setExplainRequest] = useState<AccessExplanationRequest | null>(null);
+  const [from, setFrom] = useState(() => toDateInput(new Date()));
+  const [to, setTo] = useState(() => toDateInput(addDays(new Date(), 6)));
+
+  const explanation = useAccessExplanation(explainRequest);
+  const preview = useAccessPreview(userId, from, to);
+
+  const selectedUser = users.find((u) => u.id === userId);
+
+  const explain = (type: AccessTargetType, id: string, requiredLevel: "VIEW" | "EDIT") => {
+    if (!userId || !id.trim()) return;
+    setTargetType(type);
+    setTargetId(id);
+    setLevel(requiredLevel);
+    setExplainRequest({ userId, targetType: type, targetId: id.trim(), level: requiredLevel });
+  };
+
+  const handleUserChange = (value: string) => {
+    setUserId(value);
+    setExplainRequest(null);
+  };
+
+  const result = explanation.data;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-[1200px] mx-auto p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <SearchCheck className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="text-xl">Access explainer</CardTitle>
+                <CardDescription>
+                  Why a user can or cannot see something, and what their pages list - using the same checks as the
+                  API
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2 max-w-sm">
+              <Label>User</Label>
+              <Select value={userId ?? ""} onValueChange={handleUserChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a user" />
+                </SelectTrigger>
+                <SelectContent>
+                  {users.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {user.name} ({user.email})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {userId && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Explain access</CardTitle>
+                <CardDescription>Paste an ID (e.g. from the audit log) or use &quot;Why?&quot; in the preview below</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    explain(targetType, targetId, level);
+                  }}
+                  className="grid grid-cols-1 md:grid-cols-[180px_1fr_140px_auto] gap-3 items-end"
+                >
+                  <div className="space-y-2">
+                    <Label>Target</Label>
+                    <Select value={targetType} onValueChange={(value) => setTargetType(value as AccessTargetType)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ACCESS_TARGET_TYPES.map((type) => (
+                          <SelectItem key={type.id} value={type.id}>
+                            {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="access-target-id">ID</Label>
+                    <Input
+                      id="access-target-id"
+                      value={targetId}
+                      onChange={(e) => setTargetId(e.target.value)}
+                      placeholder="clx..."
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Access</Label>
+                    <Select value={level} onValueChange={(value) => setLevel(value as "VIEW" | "EDIT")}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="VIEW">View</SelectItem>
+                        <SelectItem value="EDIT">Edit</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button type="submit" disabled={!targetId.trim() || explanation.isFetching}>
+                    {explanation.isFetching ? "Checking..." : "Explain"}
+                  </Button>
+                </form>
+
+                {explanation.error && (
+                  <p className="text-sm text-destructive">{(explanation.error as Error).message}</p>
+                )}
+
+                {result && !explanation.isFetching && (
+                  <div className="rounded-lg border border-border p-4 space-y-3">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Badge variant={result.decision.allowed ? "default" : "destructive"}>
+                        {result.decision.allowed ? "Allowed" : "Denied"}
+                      </Badge>
+                      <span className="text-sm text-foreground">
+                        {result.user.name} {result.decision.allowed ? "can" : "cannot"}{" "}
+                        {result.level === "EDIT" ? "edit" : "view"} <strong>{result.target.label}</strong>
+                      </span>
+                    </div>
+                    {result.decision.allowed && result.level === "VIEW" && result.decision.redacted && (
+                      <p className="text-xs text-muted-foreground">Shown as a busy block - details are hidden</p>
+                    )}
+                    <ol className="space-y-2">
+                      {result.decision.rules.map((rule, index) => (
+                        <li key={`${rule.rule}-${index}`} className="flex items-start gap-2 text-sm">
+                          <span className="mt-0.5">{OUTCOME_ICONS[rule.outcome]}</span>
+                          <span className="font-medium text-foreground w-36 shrink-0">{RULE_LABELS[rule.rule]}</span>
+                          <span className="text-muted-foreground">{rule.detail}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <Eye className="w-4 h-4 text-muted-foreground" />
+                  <CardTitle className="text-lg">View as {selectedUser?.name ?? "user"}</CardTitle>
+                </div>
+                <CardDescription>What their Meetings, Deadlines and Schedule pages list for the period</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="preview-from">From</Label>
+                    <Input id="preview-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="preview-to">To</Label>
+                    <Input id="preview-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+                  </div>
+                </div>
+
+                {preview.isLoading ? (
+                  <p className="text-sm text-muted-foreground py-4">Loading...</p>
+                ) : preview.error ? (
+                  <p className="text-sm text-destructive py-4">{(preview.error as Error).message}</p>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <PreviewList
+                      title="Meetings"
+                      emptyText="No meetings in this period"
+                      rows={itemRows(preview.data, "MEETING")}
+                      onExplain={(id) => explain("calendar_item", id, "VIEW")}
+                    />
+                    <PreviewList
+                      title="Deadlines"
+                      emptyText="No deadlines in this period"
+                      rows={itemRows(preview.data, "DEADLINE")}
+                      onExplain={(id) => explain("calendar_item", id, "VIEW")}
+                    />
+                    <PreviewList
+                      title="Schedule"
+                      emptyText="No schedule entries in this period"
+                      rows={(preview.data?.entries ?? []).map((entry) => ({
+                        key: entry.id,
+                        id: entry.id,
+                        primary: entry.user.name,
+                        secondary: `${formatCalendarDateAs(entry.date, "d MMM")} · ${formatTimeRange(
+                          entry.startTime,
+                          entry.endTime
+                        )}`,
+                      }))}
+                      onExplain={(id) => explain("schedule_entry", id, "VIEW")}
+                    />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,28 +1,77 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Loader2, Check } from "lucide-react";
+import { Loader2, Check, ArrowRight } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { MODULES, type PermissionChange } from "../types";
 
 interface ActionBarProps {
-  hasChanges: boolean;
-  changesCount: number;
+  changes: PermissionChange[];
   isSaving: boolean;
   saveSuccess: boolean;
   onSave: () => void;
   onReset: () => void;
 }
 
+const SCOPE_LABELS: Record<PermissionChange["scope"], string> = {
+  my: "My records",
+  all: "All records",
+  window: "Active window",
+};
+
+const moduleLabel = (module: PermissionChange["module"]) =>
+  MODULES.find((m) => m.id === module)?.label ?? module;
+
 export function ActionBar({
-  hasChanges,
-  changesCount,
+  changes,
   isSaving,
   saveSuccess,
   onSave,
   onReset,
 }: ActionBarProps) {
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const hasChanges = changes.length > 0;
+  const changesCount = changes.length;
+  const usersCount = new Set(changes.map((c) => c.userId)).size;
+
+  // Nothing left to preview (saved or reset)
+  useEffect(() => {
+    if (!hasChanges) {
+      setIsPreviewOpen(false);
+    }
+  }, [hasChanges]);
+
   return (
     <div className="sticky bottom-0 bg-background/95 backdrop-blur-sm border-t border-border">
+      {/* Diff preview - shown before saving */}
+      {isPreviewOpen && (
+        <div className="max-w-[1200px] mx-auto px-6 pt-4">
+          <p className="text-sm font-medium text-foreground mb-2">
+            Review {changesCount} {changesCount === 1 ? "change" : "changes"} for {usersCount}{" "}
+            {usersCount === 1 ? "user" : "users"}
+          </p>
+          <div className="max-h-60 overflow-y-auto rounded-lg border border-border divide-y divide-border">
+            {changes.map((change) => (
+              <div
+                key={`${change.userId}-${change.module}-${change.scope}`}
+                className="grid grid-cols-[1fr_1fr_auto] gap-3 items-center px-3 py-2 text-sm"
+              >
+                <span className="truncate text-foreground">{change.userName}</span>
+                <span className="text-muted-foreground">
+                  {moduleLabel(change.module)} · {SCOPE_LABELS[change.scope]}
+                </span>
+                <span className="flex items-center gap-1.5 font-mono text-xs">
+                  <span className="text-muted-foreground">{change.from}</span>
+                  <ArrowRight className="w-3 h-3" />
+                  <span className="text-primary font-medium">{change.to}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="max-w-[1200px] mx-auto px-6 py-4 flex items-center justify-between">
         {/* Unsaved changes indicator */}
         <div className="flex items-center gap-2">
@@ -40,14 +89,14 @@ export function ActionBar({
         <div className="flex items-center gap-3">
           <Button
             variant="outline"
-            onClick={onReset}
+            onClick={isPreviewOpen ? () => setIsPreviewOpen(false) : onReset}
             disabled={!hasChanges || isSaving}
           >
-            Reset
+            {isPreviewOpen ? "Back" : "Reset"}
           </Button>
 
           <Button
-            onClick={onSave}
+            onClick={isPreviewOpen ? onSave : () => setIsPreviewOpen(true)}
             disabled={!hasChanges || isSaving}
             className={cn(
               "min-w-[140px] transition-all duration-300",
@@ -65,8 +114,10 @@ export function ActionBar({
                 <Check className="w-4 h-4 mr-2" />
                 Saved!
               </>
+            ) : isPreviewOpen ? (
+              "Confirm & save"
             ) : (
-              "Save"
+              "Review & save"
             )}
           </Button>
         </div>
@@ -0,0 +1,263 @@
+"use client";
+
+import { useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { enUS } from "date-fns/locale";
+import { ChevronDown, ChevronRight, Download, ScrollText } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useUsers } from "@/features/calendar/hooks/useUsers";
+import { AUDIT_ENTITY_TYPES, type AuditEntityType, type AuditEventInfo, type AuditFilter } from "../types";
+
+// Select items cannot have an empty value
+const ANY = "any";
+
+const PAGE_SIZE = 50;
+
+function toSearchParams(filter: AuditFilter): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filter)) {
+    if (value) params.set(key, value);
+  }
+  return params;
+}
+
+async function fetchAuditEvents(
+  filter: AuditFilter,
+  cursor: string | null
+): Promise<{ events: AuditEventInfo[]; nextCursor: string | null }> {
+  const params = toSearchParams(filter);
+  params.set("limit", String(PAGE_SIZE));
+  if (cursor) params.set("cursor", cursor);
+
+  const response = await fetch(`/api/admin/audit?${params.toString()}`, { cache: "no-store" });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to fetch audit events");
+  }
+
+  return response.json();
+}
+
+const entityLabel = (entityType: AuditEntityType) =>
+  AUDIT_ENTITY_TYPES.find((t) => t.id === entityType)?.label ?? entityType;
+
+function AuditEventRow({ event }: { event: AuditEventInfo }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const hasDetails = event.before != null || event.after != null;
+
+  return (
+    <div className="py-2">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        disabled={!hasDetails}
+        className="w-full grid grid-cols-[16px_150px_1fr_90px_1fr] gap-3 items-center text-left text-sm"
+      >
+        {hasDetails ? (
+          isExpanded ? (
+            <ChevronDown className="w-4 h-4 text-muted-foreground" />
+          ) : (
+            <ChevronRight className="w-4 h-4 text-muted-foreground" />
+          )
+        ) : (
+          <span />
+        )}
+        <span className="text-xs text-muted-foreground">
+          {format(new Date(event.createdAt), "d MMM yyyy, HH:mm:ss", { locale: enUS })}
+        </span>
+        <span className="truncate text-foreground">
+          {event.actor ? event.actor.name : "—"}
+          {event.onBehalfOf && (
+            <span className="text-muted-foreground"> for {event.onBehalfOf.name}</span>
+          )}
+        </span>
+        <Badge variant={event.action === "login_failed" ? "destructive" : "secondary"} className="w-fit">
+          {event.action}
+        </Badge>
+        <span className="truncate text-muted-foreground">
+          {entityLabel(event.entityType)}
+          {event.entityId && <span className="font-mono text-xs"> · {event.entityId}</span>}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="mt-2 ml-7 space-y-2">
+          <div className="grid grid-cols-2 gap-3">
+            {(["before", "after"] as const).map((key) => (
+              <div key={key}>
+                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">{key}</p>
+                <pre className="text-xs bg-muted rounded-md p-2 overflow-x-auto max-h-64">
+                  {event[key] == null ? "—" : JSON.stringify(event[key], null, 2)}
+                </pre>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            IP {event.ip ?? "unknown"} · Request {event.requestId ?? "—"}
+            {event.actor && ` · ${event.actor.email}`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function AuditLogPage() {
+  const [filter, setFilter] = useState<AuditFilter>({});
+  const { data: users = [] } = useUsers();
+
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["admin", "audit", filter],
+    queryFn: ({ pageParam }) => fetchAuditEvents(filter, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const events = data?.pages.flatMap((page) => page.events) ?? [];
+
+  const updateFilter = (changes: Partial<AuditFilter>) => {
+    setFilter((current) => ({ ...current, ...changes }));
+  };
+
+  const exportParams = toSearchParams(filter);
+  exportParams.set("format", "csv");
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-[1200px] mx-auto p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                  <ScrollText className="w-5 h-5 text-primary" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl">Audit log</CardTitle>
+                  <CardDescription>Changes and sign-ins across the workspace, newest first</CardDescription>
+                </div>
+              </div>
+              <Button variant="outline" asChild>
+                <a href={`/api/admin/audit?${exportParams.toString()}`} download>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export CSV
+                </a>
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div className="space-y-2">
+                <Label>Actor</Label>
+                <Select
+                  value={filter.actorId ?? ANY}
+                  onValueChange={(value) => updateFilter({ actorId: value === ANY ? undefined : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Anyone</SelectItem>
+                    {users.map((user) => (
+                      <SelectItem key={user.id} value={user.id}>
+                        {user.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Entity</Label>
+                <Select
+                  value={filter.entityType ?? ANY}
+                  onValueChange={(value) =>
+                    updateFilter({ entityType: value === ANY ? undefined : (value as AuditEntityType) })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All entities</SelectItem>
+                    {AUDIT_ENTITY_TYPES.map((type) => (
+                      <SelectItem key={type.id} value={type.id}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-entity-id">Entity ID</Label>
+                <Input
+                  id="audit-entity-id"
+                  value={filter.entityId ?? ""}
+                  onChange={(e) => updateFilter({ entityId: e.target.value.trim() || undefined })}
+                  placeholder="Any"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-from">From</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={filter.from ?? ""}
+                  onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-to">To</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={filter.to ?? ""}
+                  onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground py-4">Loading...</p>
+            ) : error ? (
+              <p className="text-sm text-destructive py-4">{(error as Error).message}</p>
+            ) : events.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4">No audit events match the filters</p>
+            ) : (
+              <>
+                <div className="divide-y divide-border">
+                  {events.map((event) => (
+                    <AuditEventRow key={event.id} event={event} />
+                  ))}
+                </div>
+                {hasNextPage && (
+                  <div className="flex justify-center pt-4">
+                    <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                      {isFetchingNextPage ? "Loading..." : "Load more"}
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
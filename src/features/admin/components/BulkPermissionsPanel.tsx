@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import { Users, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PermissionSegment } from "./PermissionSegment";
+import {
+  MODULES,
+  type BulkPermission,
+  type ModuleType,
+  type PermissionLevel,
+  type PermissionPresetInfo,
+  type UserWithPermissions,
+} from "../types";
+
+// Staged bulk change with a human-readable description
+export interface BulkChange {
+  label: string;
+  permissions: BulkPermission[];
+}
+
+interface BulkPermissionsPanelProps {
+  users: UserWithPermissions[];
+  presets: PermissionPresetInfo[];
+  change: BulkChange | null;
+  onChange: (change: BulkChange | null) => void;
+  onClearSelection: () => void;
+}
+
+/**
+ * Apply a preset or a single cell change to all checked users
+ * The change is only staged here - it is saved (after a diff preview) from the action bar
+ */
+export function BulkPermissionsPanel({
+  users,
+  presets,
+  change,
+  onChange,
+  onClearSelection,
+}: BulkPermissionsPanelProps) {
+  const [module, setModule] = useState<ModuleType>("meetings");
+  const [scope, setScope] = useState<"my" | "all">("my");
+  const [level, setLevel] = useState<PermissionLevel>("VIEW");
+
+  const handlePresetSelect = (presetId: string) => {
+    const preset = presets.find((p) => p.id === presetId);
+    if (!preset) return;
+    // A preset makes the grants permanent - a lapsed or future window would leave its levels without effect
+    onChange({
+      label: `Preset "${preset.name}"`,
+      permissions: preset.permissions.map((perm) => ({ ...perm, validFrom: null, validUntil: null })),
+    });
+  };
+
+  const handleStageCell = () => {
+    const moduleLabel = MODULES.find((m) => m.id === module)?.label ?? module;
+    onChange({
+      label: `${moduleLabel} · ${scope === "my" ? "My records" : "All records"} → ${level}`,
+      permissions: [{ module, [scope === "my" ? "myLevel" : "allLevel"]: level }],
+    });
+  };
+
+  return (
+    <div className="flex-1 bg-card rounded-lg border border-border overflow-hidden">
+      {/* Header */}
+      <div className="p-4 border-b border-border flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Users className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-medium text-foreground">
+            Bulk edit: <span className="text-primary">{users.length} users selected</span>
+          </h3>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClearSelection}>
+          <X className="w-4 h-4 mr-1" />
+          Clear selection
+        </Button>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {/* Apply preset */}
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Apply preset</p>
+          <Select value="" onValueChange={handlePresetSelect}>
+            <SelectTrigger className="w-full sm:w-72">
+              <SelectValue placeholder={presets.length ? "Select a preset" : "No presets"} />
+            </SelectTrigger>
+            <SelectContent>
+              {presets.map((preset) => (
+                <SelectItem key={preset.id} value={preset.id}>
+                  {preset.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Replaces all modules with the preset&apos;s levels and removes their active windows
+          </p>
+        </div>
+
+        {/* Single cell change */}
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+            Change one permission
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <Select value={module} onValueChange={(value) => setModule(value as ModuleType)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MODULES.map((m) => (
+                  <SelectItem key={m.id} value={m.id}>
+                    {m.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={scope} onValueChange={(value) => setScope(value as "my" | "all")}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="my">My records</SelectItem>
+                <SelectItem value="all">All records</SelectItem>
+              </SelectContent>
+            </Select>
+            <PermissionSegment value={level} onChange={setLevel} />
+            <Button variant="outline" size="sm" onClick={handleStageCell}>
+              Stage change
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">Other permissions of the selected users stay as they are</p>
+        </div>
+
+        {/* Staged change */}
+        {change && (
+          <div className="flex items-center justify-between gap-3 p-3 rounded-md bg-amber-500/10">
+            <span className="text-sm text-amber-700">Staged: {change.label}</span>
+            <Button variant="ghost" size="sm" onClick={() => onChange(null)}>
+              Discard
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
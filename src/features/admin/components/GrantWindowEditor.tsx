@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format, formatDistance } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { grantWindowState } from "@/lib/permissions";
+import type { UserModulePermission } from "../types";
+
+interface GrantWindowEditorProps {
+  permission: UserModulePermission;
+  onChange: (bound: "validFrom" | "validUntil", value: string | null) => void;
+}
+
+// Warn (amber badge) when a grant ends within this many hours
+const EXPIRING_SOON_HOURS = 48;
+
+// datetime-local works in the browser's time zone
+const toInputValue = (value: string | null) => (value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "");
+const fromInputValue = (value: string) => (value ? new Date(value).toISOString() : null);
+
+/**
+ * Countdown badge for a time-boxed grant (nothing for permanent grants)
+ */
+export function GrantWindowBadge({ permission }: { permission: UserModulePermission }) {
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep the countdown current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const state = grantWindowState(permission, now);
+
+  if (state === "pending") {
+    return (
+      <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+        Starts {formatDistance(new Date(permission.validFrom!), now, { addSuffix: true })}
+      </Badge>
+    );
+  }
+
+  if (state === "expired") {
+    return (
+      <Badge variant="destructive" className="text-[10px] px-1.5 py-0">
+        Expired
+      </Badge>
+    );
+  }
+
+  if (!permission.validUntil) {
+    return null;
+  }
+
+  const until = new Date(permission.validUntil);
+  const isSoon = until.getTime() - now.getTime() < EXPIRING_SOON_HOURS * 60 * 60 * 1000;
+
+  return (
+    <Badge
+      variant="secondary"
+      className={`text-[10px] px-1.5 py-0 ${isSoon ? "bg-amber-500/15 text-amber-700" : ""}`}
+    >
+      Expires {formatDistance(until, now, { addSuffix: true })}
+    </Badge>
+  );
+}
+
+/**
+ * Optional from / until bounds of a user's grant for one module (empty = unbounded)
+ */
+export function GrantWindowEditor({ permission, onChange }: GrantWindowEditorProps) {
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-1.5">
+        <span className="text-[10px] text-muted-foreground w-8">From</span>
+        <Input
+          type="datetime-local"
+          className="h-7 text-xs"
+          value={toInputValue(permission.validFrom)}
+          onChange={(e) => onChange("validFrom", fromInputValue(e.target.value))}
+        />
+      </div>
+      <div className="flex items-center gap-1.5">
+        <span className="text-[10px] text-muted-foreground w-8">Until</span>
+        <Input
+          type="datetime-local"
+          className="h-7 text-xs"
+          value={toInputValue(permission.validUntil)}
+          onChange={(e) => onChange("validUntil", fromInputValue(e.target.value))}
+        />
+      </div>
+      <GrantWindowBadge permission={permission} />
+    </div>
+  );
+}
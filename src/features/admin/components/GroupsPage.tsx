@@ -0,0 +1,322 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Trash2, UsersRound } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useUsers } from "@/features/calendar/hooks/useUsers";
+import { PermissionSegment } from "./PermissionSegment";
+import { MODULES, type GroupInfo, type ModulePermission, type PermissionLevel } from "../types";
+import { csrfFetch } from "@/lib/csrfFetch";
+
+const EMPTY_PERMISSIONS: ModulePermission[] = MODULES.map((module) => ({
+  module: module.id,
+  myLevel: "NONE",
+  allLevel: "NONE",
+}));
+
+interface GroupDraft {
+  name: string;
+  description: string;
+  memberIds: string[];
+  permissions: ModulePermission[];
+}
+
+const EMPTY_DRAFT: GroupDraft = { name: "", description: "", memberIds: [], permissions: EMPTY_PERMISSIONS };
+
+function toDraft(group: GroupInfo): GroupDraft {
+  return {
+    name: group.name,
+    description: group.description ?? "",
+    memberIds: group.members.map((m) => m.id),
+    permissions: EMPTY_PERMISSIONS.map(
+      (empty) => group.permissions.find((p) => p.module === empty.module) ?? empty
+    ),
+  };
+}
+
+async function fetchGroups(): Promise<GroupInfo[]> {
+  const response = await fetch("/api/admin/groups", { cache: "no-store" });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to fetch groups");
+  }
+
+  const data = await response.json();
+  return data.groups;
+}
+
+async function saveGroup({ id, draft }: { id: string | null; draft: GroupDraft }): Promise<GroupInfo> {
+  const response = await csrfFetch(id ? `/api/admin/groups/${id}` : "/api/admin/groups", {
+    method: id ? "PATCH" : "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...draft, description: draft.description || null }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to save group");
+  }
+
+  const data = await response.json();
+  return data.group;
+}
+
+async function deleteGroup(groupId: string): Promise<void> {
+  const response = await csrfFetch(`/api/admin/groups/${groupId}`, {
+    method: "DELETE",
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to delete group");
+  }
+}
+
+export function GroupsPage() {
+  const queryClient = useQueryClient();
+
+  // null = creating a new group
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<GroupDraft>(EMPTY_DRAFT);
+
+  const { data: groups = [], isLoading } = useQuery({
+    queryKey: ["admin", "groups"],
+    queryFn: fetchGroups,
+  });
+  const { data: users = [] } = useUsers();
+
+  const selectedGroup = groups.find((g) => g.id === selectedGroupId) ?? null;
+
+  // Load the selected group into the editor
+  useEffect(() => {
+    setDraft(selectedGroup ? toDraft(selectedGroup) : EMPTY_DRAFT);
+  }, [selectedGroup]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["admin", "groups"] });
+    // Group membership is shown on the access management page
+    queryClient.invalidateQueries({ queryKey: ["admin", "permissions", "users"] });
+    queryClient.invalidateQueries({ queryKey: ["groups"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: saveGroup,
+    onSuccess: (group) => {
+      invalidate();
+      setSelectedGroupId(group.id);
+      toast.success(`Group "${group.name}" saved`);
+    },
+    onError: (error: Error) => {
+      console.error("[GroupsPage] Failed to save group:", error);
+      toast.error("Error saving group", { description: error.message });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteGroup,
+    onSuccess: () => {
+      invalidate();
+      setSelectedGroupId(null);
+      toast.success("Group deleted");
+    },
+    onError: (error: Error) => {
+      console.error("[GroupsPage] Failed to delete group:", error);
+      toast.error("Error deleting group", { description: error.message });
+    },
+  });
+
+  const handlePermissionChange = (
+    module: ModulePermission["module"],
+    scope: "my" | "all",
+    level: PermissionLevel
+  ) => {
+    setDraft((current) => ({
+      ...current,
+      permissions: current.permissions.map((perm) =>
+        perm.module === module
+          ? { ...perm, [scope === "my" ? "myLevel" : "allLevel"]: level }
+          : perm
+      ),
+    }));
+  };
+
+  const handleMemberToggle = (userId: string, checked: boolean) => {
+    setDraft((current) => ({
+      ...current,
+      memberIds: checked
+        ? [...current.memberIds, userId]
+        : current.memberIds.filter((id) => id !== userId),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate({ id: selectedGroupId, draft });
+  };
+
+  const handleDelete = () => {
+    if (!selectedGroup) return;
+    if (!confirm(`Delete the group "${selectedGroup.name}"? Members keep their own permissions.`)) return;
+    deleteMutation.mutate(selectedGroup.id);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-[1200px] mx-auto p-6 flex flex-col lg:flex-row gap-6">
+        {/* Group list */}
+        <div className="w-full lg:w-[280px] shrink-0 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Groups</h3>
+            <Button variant="ghost" size="sm" onClick={() => setSelectedGroupId(null)}>
+              <Plus className="h-4 w-4 mr-1" />
+              New
+            </Button>
+          </div>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground py-4">Loading...</p>
+          ) : groups.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">No groups yet</p>
+          ) : (
+            <div className="space-y-1">
+              {groups.map((group) => (
+                <button
+                  key={group.id}
+                  type="button"
+                  onClick={() => setSelectedGroupId(group.id)}
+                  className={`w-full text-left p-3 rounded-lg transition-colors ${
+                    group.id === selectedGroupId ? "bg-primary/10" : "hover:bg-muted"
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-foreground truncate">{group.name}</span>
+                    <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                      {group.members.length}
+                    </Badge>
+                  </div>
+                  {group.description && (
+                    <p className="text-xs text-muted-foreground truncate">{group.description}</p>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Group editor */}
+        <Card className="flex-1 min-w-0">
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <UsersRound className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="text-xl">{selectedGroup ? selectedGroup.name : "New group"}</CardTitle>
+                <CardDescription>
+                  Members get the group&apos;s permissions on top of their own (the higher level applies)
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="group-name">Name</Label>
+                  <Input
+                    id="group-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    maxLength={100}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="group-description">Description</Label>
+                  <Input
+                    id="group-description"
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    maxLength={500}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Permissions</Label>
+                <div className="rounded-lg border border-border divide-y divide-border">
+                  <div className="grid grid-cols-3 gap-2 px-3 py-2 text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                    <span>Module</span>
+                    <span className="text-center">My records</span>
+                    <span className="text-center">All records</span>
+                  </div>
+                  {MODULES.map((module) => {
+                    const perm = draft.permissions.find((p) => p.module === module.id)!;
+                    return (
+                      <div key={module.id} className="grid grid-cols-3 gap-2 items-center px-3 py-2">
+                        <span className="text-sm font-medium text-foreground">{module.label}</span>
+                        <div className="flex justify-center">
+                          <PermissionSegment
+                            value={perm.myLevel}
+                            onChange={(level) => handlePermissionChange(module.id, "my", level)}
+                          />
+                        </div>
+                        <div className="flex justify-center">
+                          <PermissionSegment
+                            value={perm.allLevel}
+                            onChange={(level) => handlePermissionChange(module.id, "all", level)}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Members ({draft.memberIds.length})</Label>
+                <div className="border rounded-md p-3 space-y-2 max-h-64 overflow-y-auto">
+                  {users.map((user) => (
+                    <label key={user.id} className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={draft.memberIds.includes(user.id)}
+                        onChange={(e) => handleMemberToggle(user.id, e.target.checked)}
+                        className="rounded border-gray-300"
+                      />
+                      <span className="text-sm">{user.name}</span>
+                      <span className="text-xs text-gray-500">({user.email})</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex justify-between gap-2">
+                <Button type="submit" disabled={saveMutation.isPending || !draft.name.trim()}>
+                  {saveMutation.isPending ? "Saving..." : selectedGroup ? "Save" : "Create group"}
+                </Button>
+                {selectedGroup && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={handleDelete}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                )}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
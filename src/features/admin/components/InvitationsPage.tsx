@@ -0,0 +1,294 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { enUS } from "date-fns/locale";
+import { Copy, Mail, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PermissionSegment } from "./PermissionSegment";
+import { MODULES, type InvitationInfo, type ModulePermission, type PermissionLevel } from "../types";
+import { csrfFetch } from "@/lib/csrfFetch";
+
+const EMPTY_PERMISSIONS: ModulePermission[] = MODULES.map((module) => ({
+  module: module.id,
+  myLevel: "NONE",
+  allLevel: "NONE",
+}));
+
+async function fetchInvitations(): Promise<InvitationInfo[]> {
+  const response = await fetch("/api/admin/invitations", { cache: "no-store" });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to fetch invitations");
+  }
+
+  const data = await response.json();
+  return data.invitations;
+}
+
+async function createInvitation(data: {
+  email: string;
+  role: "ADMIN" | "USER";
+  permissions: ModulePermission[];
+}): Promise<{ invitation: InvitationInfo; inviteUrl: string }> {
+  const response = await csrfFetch("/api/admin/invitations", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to create invitation");
+  }
+
+  return response.json();
+}
+
+async function revokeInvitation(invitationId: string): Promise<void> {
+  const response = await csrfFetch(`/api/admin/invitations/${invitationId}`, {
+    method: "DELETE",
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to revoke invitation");
+  }
+}
+
+export function InvitationsPage() {
+  const queryClient = useQueryClient();
+
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<"ADMIN" | "USER">("USER");
+  const [permissions, setPermissions] = useState<ModulePermission[]>(EMPTY_PERMISSIONS);
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  const { data: invitations = [], isLoading } = useQuery({
+    queryKey: ["admin", "invitations"],
+    queryFn: fetchInvitations,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createInvitation,
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "invitations"] });
+      setInviteUrl(result.inviteUrl);
+      setEmail("");
+      setRole("USER");
+      setPermissions(EMPTY_PERMISSIONS);
+      toast.success(`Invitation sent to ${result.invitation.email}`);
+    },
+    onError: (error: Error) => {
+      console.error("[InvitationsPage] Failed to create invitation:", error);
+      toast.error("Error creating invitation", { description: error.message });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: revokeInvitation,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "invitations"] });
+      toast.success("Invitation revoked");
+    },
+    onError: (error: Error) => {
+      console.error("[InvitationsPage] Failed to revoke invitation:", error);
+      toast.error("Error revoking invitation", { description: error.message });
+    },
+  });
+
+  const handlePermissionChange = (
+    module: ModulePermission["module"],
+    scope: "my" | "all",
+    level: PermissionLevel
+  ) => {
+    setPermissions((current) =>
+      current.map((perm) =>
+        perm.module === module
+          ? { ...perm, [scope === "my" ? "myLevel" : "allLevel"]: level }
+          : perm
+      )
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({ email, role, permissions });
+  };
+
+  const handleCopy = async () => {
+    if (!inviteUrl) return;
+    try {
+      await navigator.clipboard.writeText(inviteUrl);
+      toast.success("Invitation link copied");
+    } catch {
+      toast.error("Could not copy to clipboard");
+    }
+  };
+
+  const handleRevoke = (invitation: InvitationInfo) => {
+    if (!confirm(`Revoke the invitation for ${invitation.email}?`)) return;
+    revokeMutation.mutate(invitation.id);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <Mail className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="text-xl">Invite a user</CardTitle>
+                <CardDescription>
+                  The invitation link is emailed and opens a prefilled sign-up form
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {inviteUrl && (
+              <div className="mb-6 space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  You can also share the link directly. It will not be shown again.
+                </p>
+                <div className="flex gap-2">
+                  <div className="flex-1 p-2 rounded-md bg-muted font-mono text-xs break-all select-all">
+                    {inviteUrl}
+                  </div>
+                  <Button variant="outline" size="sm" onClick={handleCopy}>
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2 space-y-2">
+                  <Label htmlFor="invite-email">Email</Label>
+                  <Input
+                    id="invite-email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="colleague@example.com"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Role</Label>
+                  <Select value={role} onValueChange={(value) => setRole(value as "ADMIN" | "USER")}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="USER">User</SelectItem>
+                      <SelectItem value="ADMIN">Admin</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Permissions</Label>
+                <div className="rounded-lg border border-border divide-y divide-border">
+                  <div className="grid grid-cols-3 gap-2 px-3 py-2 text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                    <span>Module</span>
+                    <span className="text-center">My records</span>
+                    <span className="text-center">All records</span>
+                  </div>
+                  {MODULES.map((module) => {
+                    const perm = permissions.find((p) => p.module === module.id)!;
+                    return (
+                      <div key={module.id} className="grid grid-cols-3 gap-2 items-center px-3 py-2">
+                        <span className="text-sm font-medium text-foreground">{module.label}</span>
+                        <div className="flex justify-center">
+                          <PermissionSegment
+                            value={perm.myLevel}
+                            onChange={(level) => handlePermissionChange(module.id, "my", level)}
+                          />
+                        </div>
+                        <div className="flex justify-center">
+                          <PermissionSegment
+                            value={perm.allLevel}
+                            onChange={(level) => handlePermissionChange(module.id, "all", level)}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <Button type="submit" disabled={createMutation.isPending || !email}>
+                {createMutation.isPending ? "Sending..." : "Send invitation"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Pending invitations</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground py-4">Loading...</p>
+            ) : invitations.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4">No pending invitations</p>
+            ) : (
+              <div className="divide-y divide-border">
+                {invitations.map((invitation) => (
+                  <div key={invitation.id} className="flex items-center gap-3 py-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium text-foreground truncate">
+                          {invitation.email}
+                        </span>
+                        {invitation.role === "ADMIN" && (
+                          <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                            Admin
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Invited by {invitation.invitedBy.name} · Expires{" "}
+                        {format(new Date(invitation.expiresAt), "d MMM yyyy, HH:mm", { locale: enUS })}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(invitation)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Revoke
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
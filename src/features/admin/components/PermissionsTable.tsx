@@ -2,8 +2,22 @@
 
 import { Calendar, Clock, BarChart3, Info, User } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { PermissionSegment } from "./PermissionSegment";
-import type { ModulePermission, ModuleType, PermissionLevel, UserWithPermissions, MODULES } from "../types";
+import { GrantWindowEditor } from "./GrantWindowEditor";
+import type {
+  ModuleType,
+  PermissionLevel,
+  PermissionPresetInfo,
+  UserModulePermission,
+  UserWithPermissions,
+} from "../types";
 
 // Module icons mapping
 const MODULE_ICONS: Record<ModuleType, React.ReactNode> = {
@@ -21,8 +35,11 @@ const MODULE_LABELS: Record<ModuleType, string> = {
 
 interface PermissionsTableProps {
   user: UserWithPermissions | null;
-  permissions: ModulePermission[];
+  permissions: UserModulePermission[];
   onChange: (module: ModuleType, scope: "my" | "all", level: PermissionLevel) => void;
+  onWindowChange: (module: ModuleType, bound: "validFrom" | "validUntil", value: string | null) => void;
+  presets: PermissionPresetInfo[];
+  onApplyPreset: (preset: PermissionPresetInfo) => void;
   isLoading: boolean;
 }
 
@@ -30,6 +47,9 @@ export function PermissionsTable({
   user,
   permissions,
   onChange,
+  onWindowChange,
+  presets,
+  onApplyPreset,
   isLoading,
 }: PermissionsTableProps) {
   // Empty state - no user selected
@@ -77,9 +97,37 @@ export function PermissionsTable({
     <div className="flex-1 bg-card rounded-lg border border-border overflow-hidden">
       {/* Header with user name */}
       <div className="p-4 border-b border-border">
-        <h3 className="text-sm font-medium text-foreground">
-          Access permissions: <span className="text-primary">{user.name}</span>
-        </h3>
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="text-sm font-medium text-foreground">
+            Access permissions: <span className="text-primary">{user.name}</span>
+          </h3>
+          {/* Fill the matrix from a preset (saved with the other changes) */}
+          {presets.length > 0 && (
+            <Select
+              value=""
+              onValueChange={(presetId) => {
+                const preset = presets.find((p) => p.id === presetId);
+                if (preset) onApplyPreset(preset);
+              }}
+            >
+              <SelectTrigger className="w-44 h-8 text-xs">
+                <SelectValue placeholder="Apply preset..." />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        {user.groups.length > 0 && (
+          <p className="text-xs text-muted-foreground mt-1">
+            Also gets the permissions of: {user.groups.map((g) => g.name).join(", ")} (the higher level applies)
+          </p>
+        )}
       </div>
 
       {/* Desktop table view */}
@@ -132,6 +180,25 @@ export function PermissionsTable({
                   (All records)
                 </span>
               </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wide w-56">
+                <div className="flex items-center gap-1">
+                  <span>Active</span>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <button type="button" className="p-0.5 hover:bg-muted rounded">
+                        <Info className="w-3.5 h-3.5" />
+                      </button>
+                    </TooltipTrigger>
+                    <TooltipContent side="top" className="max-w-[220px]">
+                      <p className="font-medium mb-1">Temporary access</p>
+                      <p className="text-xs opacity-90">
+                        Outside this window the row grants nothing (group permissions still apply). Leave
+                        empty for permanent access
+                      </p>
+                    </TooltipContent>
+                  </Tooltip>
+                </div>
+              </th>
             </tr>
           </thead>
           <tbody>
@@ -140,6 +207,8 @@ export function PermissionsTable({
                 module,
                 myLevel: "NONE" as PermissionLevel,
                 allLevel: "NONE" as PermissionLevel,
+                validFrom: null,
+                validUntil: null,
               };
 
               // Check for warning condition: Everyone = Edit & My = None
@@ -181,6 +250,14 @@ export function PermissionsTable({
                       />
                     </div>
                   </td>
+
+                  {/* Active window */}
+                  <td className="px-4 py-4">
+                    <GrantWindowEditor
+                      permission={perm}
+                      onChange={(bound, value) => onWindowChange(module, bound, value)}
+                    />
+                  </td>
                 </tr>
               );
             })}
@@ -195,6 +272,8 @@ export function PermissionsTable({
             module,
             myLevel: "NONE" as PermissionLevel,
             allLevel: "NONE" as PermissionLevel,
+            validFrom: null,
+            validUntil: null,
           };
 
           return (
@@ -227,6 +306,15 @@ export function PermissionsTable({
                   onChange={(level) => onChange(module, "all", level)}
                 />
               </div>
+
+              {/* Active window */}
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">Active:</p>
+                <GrantWindowEditor
+                  permission={perm}
+                  onChange={(bound, value) => onWindowChange(module, bound, value)}
+                />
+              </div>
             </div>
           );
         })}
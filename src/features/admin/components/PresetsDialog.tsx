@@ -0,0 +1,231 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PermissionSegment } from "./PermissionSegment";
+import {
+  useDeletePermissionPreset,
+  usePermissionPresets,
+  useSavePermissionPreset,
+} from "../hooks/usePermissionPresets";
+import { MODULES, type ModulePermission, type PermissionLevel, type PermissionPresetInfo } from "../types";
+
+const EMPTY_PERMISSIONS: ModulePermission[] = MODULES.map((module) => ({
+  module: module.id,
+  myLevel: "NONE",
+  allLevel: "NONE",
+}));
+
+interface PresetsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Create, edit and delete permission presets
+ * Editing a preset does not change users it was already applied to
+ */
+export function PresetsDialog({ isOpen, onClose }: PresetsDialogProps) {
+  const { data: presets = [], isLoading } = usePermissionPresets();
+  const savePreset = useSavePermissionPreset();
+  const deletePreset = useDeletePermissionPreset();
+
+  // null = creating a new preset
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [permissions, setPermissions] = useState<ModulePermission[]>(EMPTY_PERMISSIONS);
+
+  const startEditing = (preset: PermissionPresetInfo | null) => {
+    setEditingId(preset?.id ?? null);
+    setName(preset?.name ?? "");
+    setDescription(preset?.description ?? "");
+    setPermissions(
+      EMPTY_PERMISSIONS.map(
+        (empty) => preset?.permissions.find((p) => p.module === empty.module) ?? empty
+      )
+    );
+  };
+
+  // Start with an empty form every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      startEditing(null);
+    }
+  }, [isOpen]);
+
+  const handlePermissionChange = (
+    module: ModulePermission["module"],
+    scope: "my" | "all",
+    level: PermissionLevel
+  ) => {
+    setPermissions((current) =>
+      current.map((perm) =>
+        perm.module === module
+          ? { ...perm, [scope === "my" ? "myLevel" : "allLevel"]: level }
+          : perm
+      )
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const preset = await savePreset.mutateAsync({
+        id: editingId,
+        name,
+        description: description || null,
+        permissions,
+      });
+      toast.success(`Preset "${preset.name}" saved`);
+      startEditing(null);
+    } catch (error) {
+      toast.error("Error saving preset", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const handleDelete = async (preset: PermissionPresetInfo) => {
+    if (!confirm(`Delete the preset "${preset.name}"? Users keep their current permissions.`)) return;
+    try {
+      await deletePreset.mutateAsync(preset.id);
+      toast.success("Preset deleted");
+      if (editingId === preset.id) {
+        startEditing(null);
+      }
+    } catch (error) {
+      toast.error("Error deleting preset", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Permission presets</DialogTitle>
+          <DialogDescription>
+            Applying a preset copies its levels to the user - later edits of the preset do not change them
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Preset list */}
+        <div className="rounded-lg border border-border divide-y divide-border max-h-48 overflow-y-auto">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground p-3">Loading...</p>
+          ) : presets.length === 0 ? (
+            <p className="text-sm text-muted-foreground p-3">No presets yet</p>
+          ) : (
+            presets.map((preset) => (
+              <div key={preset.id} className="flex items-center gap-3 px-3 py-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">{preset.name}</p>
+                  {preset.description && (
+                    <p className="text-xs text-muted-foreground truncate">{preset.description}</p>
+                  )}
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => startEditing(preset)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(preset)}
+                  disabled={deletePreset.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Preset editor */}
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-foreground">
+              {editingId ? "Edit preset" : "New preset"}
+            </h4>
+            {editingId && (
+              <Button type="button" variant="ghost" size="sm" onClick={() => startEditing(null)}>
+                <Plus className="h-4 w-4 mr-1" />
+                New
+              </Button>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="preset-name">Name</Label>
+              <Input
+                id="preset-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preset-description">Description</Label>
+              <Input
+                id="preset-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={500}
+              />
+            </div>
+          </div>
+
+          <div className="rounded-lg border border-border divide-y divide-border">
+            <div className="grid grid-cols-3 gap-2 px-3 py-2 text-xs font-medium text-muted-foreground uppercase tracking-wide">
+              <span>Module</span>
+              <span className="text-center">My records</span>
+              <span className="text-center">All records</span>
+            </div>
+            {MODULES.map((module) => {
+              const perm = permissions.find((p) => p.module === module.id)!;
+              return (
+                <div key={module.id} className="grid grid-cols-3 gap-2 items-center px-3 py-2">
+                  <span className="text-sm font-medium text-foreground">{module.label}</span>
+                  <div className="flex justify-center">
+                    <PermissionSegment
+                      value={perm.myLevel}
+                      onChange={(level) => handlePermissionChange(module.id, "my", level)}
+                    />
+                  </div>
+                  <div className="flex justify-center">
+                    <PermissionSegment
+                      value={perm.allLevel}
+                      onChange={(level) => handlePermissionChange(module.id, "all", level)}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Close
+            </Button>
+            <Button type="submit" disabled={savePreset.isPending || !name.trim()}>
+              {savePreset.isPending ? "Saving..." : editingId ? "Save preset" : "Create preset"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
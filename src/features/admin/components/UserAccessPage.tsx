@@ -2,27 +2,107 @@
 
 import { useState, useEffect, useCallback, useMemo } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Shield } from "lucide-react";
+import { format } from "date-fns";
+import { enUS } from "date-fns/locale";
+import { Layers, Shield } from "lucide-react";
 import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { UserListPanel } from "./UserListPanel";
 import { PermissionsTable } from "./PermissionsTable";
+import { BulkPermissionsPanel, type BulkChange } from "./BulkPermissionsPanel";
+import { PresetsDialog } from "./PresetsDialog";
 import { ActionBar } from "./ActionBar";
+import { UserSessionsPanel } from "./UserSessionsPanel";
+import { UserLockoutNotice } from "./UserLockoutNotice";
+import { usePermissionPresets } from "../hooks/usePermissionPresets";
 import type {
   UserWithPermissions,
-  ModulePermission,
+  BulkPermission,
+  BulkUpdatePermissionsRequest,
   ModuleType,
+  PermissionChange,
   PermissionLevel,
+  PermissionPresetInfo,
   UpdatePermissionsRequest,
+  UserModulePermission,
 } from "../types";
+import { csrfFetch } from "@/lib/csrfFetch";
 
 // Default permissions for all modules
-const DEFAULT_PERMISSIONS: ModulePermission[] = [
-  { module: "meetings", myLevel: "NONE", allLevel: "NONE" },
-  { module: "deadlines", myLevel: "NONE", allLevel: "NONE" },
-  { module: "schedule", myLevel: "NONE", allLevel: "NONE" },
+const DEFAULT_PERMISSIONS: UserModulePermission[] = [
+  { module: "meetings", myLevel: "NONE", allLevel: "NONE", validFrom: null, validUntil: null },
+  { module: "deadlines", myLevel: "NONE", allLevel: "NONE", validFrom: null, validUntil: null },
+  { module: "schedule", myLevel: "NONE", allLevel: "NONE", validFrom: null, validUntil: null },
 ];
 
+const toIsoString = (value: Date | string | null) => (value ? new Date(value).toISOString() : null);
+
+// Build the full matrix from a user's stored permission rows
+function toModulePermissions(user: UserWithPermissions): UserModulePermission[] {
+  return DEFAULT_PERMISSIONS.map((defaultPerm) => {
+    const userPerm = (user.permissions || []).find((p) => p.module === defaultPerm.module);
+    if (userPerm) {
+      return {
+        module: defaultPerm.module,
+        myLevel: userPerm.myLevel as PermissionLevel,
+        allLevel: userPerm.allLevel as PermissionLevel,
+        validFrom: toIsoString(userPerm.validFrom),
+        validUntil: toIsoString(userPerm.validUntil),
+      };
+    }
+    return defaultPerm;
+  });
+}
+
+// Active window in the diff preview
+function formatWindow(perm: UserModulePermission): string {
+  if (!perm.validFrom && !perm.validUntil) return "Permanent";
+  const formatDate = (value: string) => format(new Date(value), "d MMM yyyy, HH:mm", { locale: enUS });
+  const from = perm.validFrom ? formatDate(perm.validFrom) : "Now";
+  const until = perm.validUntil ? formatDate(perm.validUntil) : "No end";
+  return `${from} - ${until}`;
+}
+
+// Matrix after a bulk change (levels and window bounds left out keep their current value)
+function applyBulkPermissions(current: UserModulePermission[], bulk: BulkPermission[]): UserModulePermission[] {
+  return current.map((perm) => {
+    const change = bulk.find((b) => b.module === perm.module);
+    return change
+      ? {
+          ...perm,
+          myLevel: change.myLevel ?? perm.myLevel,
+          allLevel: change.allLevel ?? perm.allLevel,
+          validFrom: change.validFrom === undefined ? perm.validFrom : change.validFrom,
+          validUntil: change.validUntil === undefined ? perm.validUntil : change.validUntil,
+        }
+      : perm;
+  });
+}
+
+// Changed cells between two matrices of a user
+function diffPermissions(
+  user: Pick<UserWithPermissions, "id" | "name">,
+  from: UserModulePermission[],
+  to: UserModulePermission[]
+): PermissionChange[] {
+  return to.flatMap((next) => {
+    const prev = from.find((p) => p.module === next.module);
+    if (!prev) return [];
+    const changes: PermissionChange[] = [];
+    if (prev.myLevel !== next.myLevel) {
+      changes.push({ userId: user.id, userName: user.name, module: next.module, scope: "my", from: prev.myLevel, to: next.myLevel });
+    }
+    if (prev.allLevel !== next.allLevel) {
+      changes.push({ userId: user.id, userName: user.name, module: next.module, scope: "all", from: prev.allLevel, to: next.allLevel });
+    }
+    if (prev.validFrom !== next.validFrom || prev.validUntil !== next.validUntil) {
+      changes.push({ userId: user.id, userName: user.name, module: next.module, scope: "window", from: formatWindow(prev), to: formatWindow(next) });
+    }
+    return changes;
+  });
+}
+
 // Fetch users with permissions
 async function fetchUsersWithPermissions(): Promise<UserWithPermissions[]> {
   console.log("[UserAccessPage] Fetching users with permissions...");
@@ -41,7 +121,7 @@ async function fetchUsersWithPermissions(): Promise<UserWithPermissions[]> {
 // Update permissions
 async function updatePermissions(data: UpdatePermissionsRequest) {
   console.log("[UserAccessPage] Updating permissions for user:", data.userId);
-  const response = await fetch("/api/admin/permissions", {
+  const response = await csrfFetch("/api/admin/permissions", {
     method: "PUT",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify(data),
@@ -55,14 +135,35 @@ async function updatePermissions(data: UpdatePermissionsRequest) {
   return response.json();
 }
 
+// Apply one change to many users (single transaction)
+async function bulkUpdatePermissions(data: BulkUpdatePermissionsRequest) {
+  const response = await csrfFetch("/api/admin/permissions/bulk", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to update permissions");
+  }
+
+  return response.json();
+}
+
 export function UserAccessPage() {
   const queryClient = useQueryClient();
 
   // State
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
-  const [localPermissions, setLocalPermissions] = useState<ModulePermission[]>(DEFAULT_PERMISSIONS);
-  const [originalPermissions, setOriginalPermissions] = useState<ModulePermission[]>(DEFAULT_PERMISSIONS);
+  const [localPermissions, setLocalPermissions] = useState<UserModulePermission[]>(DEFAULT_PERMISSIONS);
+  const [originalPermissions, setOriginalPermissions] = useState<UserModulePermission[]>(DEFAULT_PERMISSIONS);
   const [saveSuccess, setSaveSuccess] = useState(false);
+  // Bulk mode: checked users and the staged change for all of them
+  const [checkedUserIds, setCheckedUserIds] = useState<string[]>([]);
+  const [bulkChange, setBulkChange] = useState<BulkChange | null>(null);
+  const [isPresetsOpen, setIsPresetsOpen] = useState(false);
+  const isBulkMode = checkedUserIds.length > 0;
 
   // Fetch users
   const {
@@ -73,6 +174,7 @@ export function UserAccessPage() {
     queryKey: ["admin", "permissions", "users"],
     queryFn: fetchUsersWithPermissions,
   });
+  const { data: presets = [] } = usePermissionPresets();
 
   // Mutation for saving permissions
   const saveMutation = useMutation({
@@ -98,30 +200,43 @@ export function UserAccessPage() {
     },
   });
 
+  // Mutation for bulk changes
+  const bulkMutation = useMutation({
+    mutationFn: bulkUpdatePermissions,
+    onSuccess: (result: { updatedUsers: number }) => {
+      setBulkChange(null);
+      queryClient.invalidateQueries({ queryKey: ["admin", "permissions", "users"] });
+      setSaveSuccess(true);
+      setTimeout(() => setSaveSuccess(false), 2000);
+      toast.success("Permissions saved", {
+        description: `Changes applied to ${result.updatedUsers} users`,
+      });
+    },
+    onError: (error: Error) => {
+      toast.error("Error saving", {
+        description: error.message,
+      });
+    },
+  });
+
   // Selected user
   const selectedUser = useMemo(
     () => users.find((u) => u.id === selectedUserId) || null,
     [users, selectedUserId]
   );
 
+  // Users checked for bulk changes
+  const checkedUsers = useMemo(
+    () => users.filter((u) => checkedUserIds.includes(u.id)),
+    [users, checkedUserIds]
+  );
+
   // When user is selected, load their permissions
   useEffect(() => {
     if (selectedUser) {
       console.log("[UserAccessPage] Loading permissions for user:", selectedUser.name);
-      const userPermissions = selectedUser.permissions || [];
-
       // Build permissions state from user's stored permissions
-      const perms: ModulePermission[] = DEFAULT_PERMISSIONS.map((defaultPerm) => {
-        const userPerm = userPermissions.find((p) => p.module === defaultPerm.module);
-        if (userPerm) {
-          return {
-            module: defaultPerm.module,
-            myLevel: userPerm.myLevel as PermissionLevel,
-            allLevel: userPerm.allLevel as PermissionLevel,
-          };
-        }
-        return defaultPerm;
-      });
+      const perms = toModulePermissions(selectedUser);
 
       setLocalPermissions(perms);
       setOriginalPermissions(perms);
@@ -146,39 +261,76 @@ export function UserAccessPage() {
     []
   );
 
-  // Check if there are unsaved changes
-  const hasChanges = useMemo(() => {
-    return localPermissions.some((local, index) => {
-      const original = originalPermissions[index];
-      return local.myLevel !== original.myLevel || local.allLevel !== original.allLevel;
+  // Handle active window change (null = unbounded)
+  const handleWindowChange = useCallback(
+    (module: ModuleType, bound: "validFrom" | "validUntil", value: string | null) => {
+      setLocalPermissions((prev) => prev.map((p) => (p.module === module ? { ...p, [bound]: value } : p)));
+    },
+    []
+  );
+
+  // Fill the selected user's matrix from a preset (saved with the other changes)
+  const handleApplyPreset = useCallback((preset: PermissionPresetInfo) => {
+    setLocalPermissions(applyBulkPermissions(DEFAULT_PERMISSIONS, preset.permissions));
+  }, []);
+
+  // Unsaved changes of the selected user
+  const singleChanges = useMemo(
+    () => (selectedUser ? diffPermissions(selectedUser, originalPermissions, localPermissions) : []),
+    [selectedUser, originalPermissions, localPermissions]
+  );
+
+  // Changes the staged bulk change would make for each checked user
+  const bulkChanges = useMemo(() => {
+    if (!bulkChange) return [];
+    return checkedUsers.flatMap((user) => {
+      const current = toModulePermissions(user);
+      return diffPermissions(user, current, applyBulkPermissions(current, bulkChange.permissions));
     });
-  }, [localPermissions, originalPermissions]);
-
-  // Count changes
-  const changesCount = useMemo(() => {
-    return localPermissions.reduce((count, local, index) => {
-      const original = originalPermissions[index];
-      let changes = 0;
-      if (local.myLevel !== original.myLevel) changes++;
-      if (local.allLevel !== original.allLevel) changes++;
-      return count + changes;
-    }, 0);
-  }, [localPermissions, originalPermissions]);
+  }, [bulkChange, checkedUsers]);
+
+  const changes = isBulkMode ? bulkChanges : singleChanges;
+  const hasChanges = singleChanges.length > 0;
 
   // Handle save
   const handleSave = useCallback(() => {
+    if (isBulkMode) {
+      if (!bulkChange) return;
+      bulkMutation.mutate({
+        userIds: checkedUserIds,
+        permissions: bulkChange.permissions,
+      });
+      return;
+    }
+
     if (!selectedUserId) return;
 
     saveMutation.mutate({
       userId: selectedUserId,
       permissions: localPermissions,
     });
-  }, [selectedUserId, localPermissions, saveMutation]);
+  }, [isBulkMode, bulkChange, checkedUserIds, bulkMutation, selectedUserId, localPermissions, saveMutation]);
 
   // Handle reset
   const handleReset = useCallback(() => {
+    if (isBulkMode) {
+      setBulkChange(null);
+      return;
+    }
     setLocalPermissions([...originalPermissions]);
-  }, [originalPermissions]);
+  }, [isBulkMode, originalPermissions]);
+
+  // Handle multi-select (entering bulk mode drops unsaved changes of the selected user)
+  const handleCheckedChange = useCallback((userIds: string[]) => {
+    if (userIds.length > 0 && hasChanges) {
+      const confirmed = window.confirm(
+        "You have unsaved changes. Discard them and start a bulk change?"
+      );
+      if (!confirmed) return;
+      setLocalPermissions([...originalPermissions]);
+    }
+    setCheckedUserIds(userIds);
+  }, [hasChanges, originalPermissions]);
 
   // Handle user selection
   const handleSelectUser = useCallback((userId: string) => {
@@ -221,15 +373,21 @@ export function UserAccessPage() {
               </div>
             </div>
 
-            {/* Unsaved indicator in header */}
-            {hasChanges && (
-              <div className="flex items-center gap-2 px-3 py-1.5 bg-amber-500/10 rounded-full">
-                <span className="w-2 h-2 rounded-full bg-amber-500 animate-pulse" />
-                <span className="text-sm text-amber-600 font-medium">
-                  Unsaved changes
-                </span>
-              </div>
-            )}
+            <div className="flex items-center gap-3">
+              {/* Unsaved indicator in header */}
+              {changes.length > 0 && (
+                <div className="flex items-center gap-2 px-3 py-1.5 bg-amber-500/10 rounded-full">
+                  <span className="w-2 h-2 rounded-full bg-amber-500 animate-pulse" />
+                  <span className="text-sm text-amber-600 font-medium">
+                    Unsaved changes
+                  </span>
+                </div>
+              )}
+              <Button variant="outline" size="sm" onClick={() => setIsPresetsOpen(true)}>
+                <Layers className="w-4 h-4 mr-2" />
+                Presets
+              </Button>
+            </div>
           </div>
         </div>
 
@@ -241,28 +399,55 @@ export function UserAccessPage() {
               users={users}
               selectedUserId={selectedUserId}
               onSelectUser={handleSelectUser}
+              checkedUserIds={checkedUserIds}
+              onCheckedChange={handleCheckedChange}
               isLoading={isLoadingUsers}
             />
 
-            {/* Permissions table */}
-            <PermissionsTable
-              user={selectedUser}
-              permissions={localPermissions}
-              onChange={handlePermissionChange}
-              isLoading={isLoadingUsers}
-            />
+            {isBulkMode ? (
+              <div className="flex-1 flex flex-col gap-6 min-w-0">
+                {/* Preset or single cell change for all checked users */}
+                <BulkPermissionsPanel
+                  users={checkedUsers}
+                  presets={presets}
+                  change={bulkChange}
+                  onChange={setBulkChange}
+                  onClearSelection={() => handleCheckedChange([])}
+                />
+              </div>
+            ) : (
+              <div className="flex-1 flex flex-col gap-6 min-w-0">
+                {/* Brute-force lockout of the selected user */}
+                {selectedUser && <UserLockoutNotice user={selectedUser} />}
+
+                {/* Permissions table */}
+                <PermissionsTable
+                  user={selectedUser}
+                  permissions={localPermissions}
+                  onChange={handlePermissionChange}
+                  onWindowChange={handleWindowChange}
+                  presets={presets}
+                  onApplyPreset={handleApplyPreset}
+                  isLoading={isLoadingUsers}
+                />
+
+                {/* Active sessions of the selected user */}
+                {selectedUser && <UserSessionsPanel user={selectedUser} />}
+              </div>
+            )}
           </div>
         </div>
 
         {/* Action bar */}
         <ActionBar
-          hasChanges={hasChanges}
-          changesCount={changesCount}
-          isSaving={saveMutation.isPending}
+          changes={changes}
+          isSaving={saveMutation.isPending || bulkMutation.isPending}
           saveSuccess={saveSuccess}
           onSave={handleSave}
           onReset={handleReset}
         />
+
+        <PresetsDialog isOpen={isPresetsOpen} onClose={() => setIsPresetsOpen(false)} />
       </div>
     </TooltipProvider>
   );
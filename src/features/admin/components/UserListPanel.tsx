@@ -10,6 +10,9 @@ interface UserListPanelProps {
   users: UserWithPermissions[];
   selectedUserId: string | null;
   onSelectUser: (userId: string) => void;
+  // Multi-select for bulk changes
+  checkedUserIds: string[];
+  onCheckedChange: (userIds: string[]) => void;
   isLoading: boolean;
 }
 
@@ -17,6 +20,8 @@ export function UserListPanel({
   users,
   selectedUserId,
   onSelectUser,
+  checkedUserIds,
+  onCheckedChange,
   isLoading,
 }: UserListPanelProps) {
   const [searchQuery, setSearchQuery] = useState("");
@@ -32,13 +37,43 @@ export function UserListPanel({
 
   const clearSearch = () => setSearchQuery("");
 
+  // "Select all" works on the filtered list
+  const allFilteredChecked =
+    filteredUsers.length > 0 && filteredUsers.every((user) => checkedUserIds.includes(user.id));
+
+  const toggleAllFiltered = (checked: boolean) => {
+    const filteredIds = filteredUsers.map((user) => user.id);
+    onCheckedChange(
+      checked
+        ? [...checkedUserIds, ...filteredIds.filter((id) => !checkedUserIds.includes(id))]
+        : checkedUserIds.filter((id) => !filteredIds.includes(id))
+    );
+  };
+
+  const toggleUser = (userId: string, checked: boolean) => {
+    onCheckedChange(
+      checked ? [...checkedUserIds, userId] : checkedUserIds.filter((id) => id !== userId)
+    );
+  };
+
   return (
     <div className="w-full lg:w-[280px] shrink-0 flex flex-col">
       {/* Section header */}
-      <div className="mb-3">
+      <div className="mb-3 flex items-center justify-between">
         <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
           Users
         </h3>
+        {filteredUsers.length > 0 && (
+          <label className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allFilteredChecked}
+              onChange={(e) => toggleAllFiltered(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Select all
+          </label>
+        )}
       </div>
 
       {/* Search input */}
@@ -93,12 +128,22 @@ export function UserListPanel({
         ) : (
           // User cards
           filteredUsers.map((user) => (
-            <UserCard
-              key={user.id}
-              user={user}
-              isSelected={selectedUserId === user.id}
-              onClick={() => onSelectUser(user.id)}
-            />
+            <div key={user.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                aria-label={`Select ${user.name} for bulk changes`}
+                checked={checkedUserIds.includes(user.id)}
+                onChange={(e) => toggleUser(user.id, e.target.checked)}
+                className="rounded border-gray-300 shrink-0"
+              />
+              <div className="flex-1 min-w-0">
+                <UserCard
+                  user={user}
+                  isSelected={selectedUserId === user.id}
+                  onClick={() => onSelectUser(user.id)}
+                />
+              </div>
+            </div>
           ))
         )}
       </div>
@@ -110,6 +155,7 @@ export function UserListPanel({
             {filteredUsers.length === users.length
               ? `${users.length} users`
               : `Showing ${filteredUsers.length} of ${users.length}`}
+            {checkedUserIds.length > 0 && ` · ${checkedUserIds.length} selected`}
           </p>
         </div>
       )}
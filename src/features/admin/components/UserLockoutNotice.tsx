@@ -0,0 +1,68 @@
+"use client";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Lock } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import type { UserWithPermissions } from "../types";
+import { csrfFetch } from "@/lib/csrfFetch";
+
+async function unlockUser(userId: string) {
+  const response = await csrfFetch(`/api/admin/users/${userId}/unlock`, { method: "POST" });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to unlock account");
+  }
+
+  return response.json();
+}
+
+interface UserLockoutNoticeProps {
+  user: UserWithPermissions;
+}
+
+/**
+ * Shown for accounts locked after too many failed logins
+ */
+export function UserLockoutNotice({ user }: UserLockoutNoticeProps) {
+  const queryClient = useQueryClient();
+
+  const unlockMutation = useMutation({
+    mutationFn: () => unlockUser(user.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "permissions", "users"] });
+      toast.success("Account unlocked", { description: `${user.name} can sign in again` });
+    },
+    onError: (error: Error) => {
+      console.error("[UserLockoutNotice] Unlock error:", error);
+      toast.error("Error unlocking account", { description: error.message });
+    },
+  });
+
+  const lockedUntil = user.lockedUntil ? new Date(user.lockedUntil) : null;
+  if (!lockedUntil || lockedUntil <= new Date()) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-4 p-4 rounded-lg border border-red-200 bg-red-50">
+      <div className="flex items-center gap-3">
+        <Lock className="w-4 h-4 text-red-600 shrink-0" />
+        <p className="text-sm text-red-700">
+          Locked after too many failed sign-in attempts. Unlocks{" "}
+          {formatDistanceToNow(lockedUntil, { addSuffix: true })}.
+        </p>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => unlockMutation.mutate()}
+        disabled={unlockMutation.isPending}
+      >
+        Unlock now
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { Laptop } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { SessionList, useRevokeAllSessions, useRevokeSession, useSessions } from "@/features/account";
+import type { UserWithPermissions } from "../types";
+
+interface UserSessionsPanelProps {
+  user: UserWithPermissions;
+}
+
+export function UserSessionsPanel({ user }: UserSessionsPanelProps) {
+  const { data: sessions = [], isLoading } = useSessions(user.id);
+  const revokeSession = useRevokeSession(user.id);
+  const revokeAll = useRevokeAllSessions(user.id);
+
+  const handleRevoke = async (sessionId: string) => {
+    try {
+      await revokeSession.mutateAsync(sessionId);
+      toast.success("Session signed out");
+    } catch (error) {
+      console.error("[UserSessionsPanel] Revoke error:", error);
+      toast.error("Error signing out session");
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    if (!confirm(`Sign ${user.name} out of all devices?`)) return;
+
+    try {
+      const result = await revokeAll.mutateAsync();
+      toast.success("Signed out everywhere", {
+        description: `${result.revokedCount} ${result.revokedCount === 1 ? "session" : "sessions"} revoked for ${user.name}`,
+      });
+    } catch (error) {
+      console.error("[UserSessionsPanel] Revoke all error:", error);
+      toast.error("Error signing out sessions");
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-lg border border-border overflow-hidden">
+      <div className="p-4 border-b border-border flex items-center justify-between">
+        <h3 className="text-sm font-medium text-foreground flex items-center gap-2">
+          <Laptop className="w-4 h-4 text-muted-foreground" />
+          Devices & sessions
+        </h3>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleRevokeAll}
+          disabled={sessions.length === 0 || revokeAll.isPending}
+        >
+          Sign out everywhere
+        </Button>
+      </div>
+      <div className="px-4">
+        <SessionList
+          sessions={sessions}
+          onRevoke={(session) => handleRevoke(session.id)}
+          isRevoking={revokeSession.isPending}
+          isLoading={isLoading}
+        />
+      </div>
+    </div>
+  );
+}
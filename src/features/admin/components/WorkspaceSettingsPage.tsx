@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Globe, Settings, ShieldCheck, UserPlus } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TimeZoneSelect } from "@/features/calendar/components/TimeZoneSelect";
+import type { SignupMode, WorkspaceSettings } from "../types";
+import { csrfFetch } from "@/lib/csrfFetch";
+
+const SIGNUP_MODE_OPTIONS: { value: SignupMode; label: string; description: string }[] = [
+  { value: "OPEN", label: "Open", description: "Anyone can create an account" },
+  {
+    value: "DOMAINS",
+    label: "Allowed domains",
+    description: "Only email addresses at the listed domains can sign up",
+  },
+  {
+    value: "INVITE_ONLY",
+    label: "Invitation only",
+    description: "New accounts need an invitation from an admin",
+  },
+];
+
+async function fetchSettings(): Promise<WorkspaceSettings> {
+  const response = await fetch("/api/admin/settings", { cache: "no-store" });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to fetch settings");
+  }
+
+  const data = await response.json();
+  return data.settings;
+}
+
+async function updateSettings(data: Partial<WorkspaceSettings>): Promise<WorkspaceSettings> {
+  const response = await csrfFetch("/api/admin/settings", {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to update settings");
+  }
+
+  const result = await response.json();
+  return result.settings;
+}
+
+export function WorkspaceSettingsPage() {
+  const queryClient = useQueryClient();
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ["admin", "settings"],
+    queryFn: fetchSettings,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: updateSettings,
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["admin", "settings"], updated);
+      toast.success("Settings saved");
+    },
+    onError: (error: Error) => {
+      console.error("[WorkspaceSettingsPage] Failed to save settings:", error);
+      toast.error("Error saving", { description: error.message });
+    },
+  });
+
+  // Signup policy form (saved together)
+  const [signupMode, setSignupMode] = useState<SignupMode>("OPEN");
+  const [domains, setDomains] = useState("");
+
+  useEffect(() => {
+    if (settings) {
+      setSignupMode(settings.signupMode);
+      setDomains(settings.allowedSignupDomains.join(", "));
+    }
+  }, [settings]);
+
+  const handleSaveSignupPolicy = () => {
+    saveMutation.mutate({
+      signupMode,
+      allowedSignupDomains: domains
+        .split(",")
+        .map((domain) => domain.trim())
+        .filter(Boolean),
+    });
+  };
+
+  const handleToggleAdminTwoFactor = () => {
+    if (!settings) return;
+    const next = !settings.adminTwoFactorRequired;
+    if (!next && !confirm("Allow admins to sign in without two-factor authentication?")) return;
+    saveMutation.mutate({ adminTwoFactorRequired: next });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto p-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <Settings className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="text-xl">Workspace settings</CardTitle>
+                <CardDescription>Security policies that apply to every account</CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading || !settings ? (
+              <p className="text-sm text-muted-foreground py-4">Loading...</p>
+            ) : (
+              <div className="flex items-start justify-between gap-4 py-2">
+                <div className="flex gap-3">
+                  <ShieldCheck className="w-5 h-5 text-muted-foreground mt-0.5" />
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-foreground">
+                        Require two-factor authentication for admins
+                      </p>
+                      <Badge variant={settings.adminTwoFactorRequired ? "default" : "secondary"}>
+                        {settings.adminTwoFactorRequired ? "Required" : "Optional"}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Admins without an authenticator app are sent to enrollment before they can
+                      use admin features. Two-factor authentication stays optional for other users.
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleToggleAdminTwoFactor}
+                  disabled={saveMutation.isPending}
+                >
+                  {settings.adminTwoFactorRequired ? "Make optional" : "Require"}
+                </Button>
+              </div>
+            )}
+
+            {settings && (
+              <div className="flex gap-3 py-4 mt-2 border-t border-border">
+                <UserPlus className="w-5 h-5 text-muted-foreground mt-0.5" />
+                <div className="flex-1 space-y-3">
+                  <div>
+                    <p className="text-sm font-medium text-foreground">Sign-up policy</p>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Who can create an account from the login page. Invitations always work.
+                    </p>
+                  </div>
+                  <Select value={signupMode} onValueChange={(value) => setSignupMode(value as SignupMode)}>
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SIGNUP_MODE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {SIGNUP_MODE_OPTIONS.find((option) => option.value === signupMode)?.description}
+                  </p>
+                  {signupMode === "DOMAINS" && (
+                    <Input
+                      value={domains}
+                      onChange={(e) => setDomains(e.target.value)}
+                      placeholder="example.com, example.org"
+                    />
+                  )}
+                  <Button size="sm" onClick={handleSaveSignupPolicy} disabled={saveMutation.isPending}>
+                    Save sign-up policy
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {settings && (
+              <div className="flex gap-3 py-4 border-t border-border">
+                <Globe className="w-5 h-5 text-muted-foreground mt-0.5" />
+                <div className="flex-1 space-y-3">
+                  <div>
+                    <p className="text-sm font-medium text-foreground">Default time zone</p>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Times are shown in this zone to users who have not picked their own in their profile.
+                    </p>
+                  </div>
+                  <TimeZoneSelect
+                    value={settings.timeZone}
+                    onChange={(timeZone) => timeZone && saveMutation.mutate({ timeZone })}
+                    disabled={saveMutation.isPending}
+                    className="w-64"
+                  />
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -4,3 +4,13 @@ export { UserCard } from "./UserCard";
 export { PermissionsTable } from "./PermissionsTable";
 export { PermissionSegment } from "./PermissionSegment";
 export { ActionBar } from "./ActionBar";
+export { UserSessionsPanel } from "./UserSessionsPanel";
+export { WorkspaceSettingsPage } from "./WorkspaceSettingsPage";
+export { UserLockoutNotice } from "./UserLockoutNotice";
+export { InvitationsPage } from "./InvitationsPage";
+export { GroupsPage } from "./GroupsPage";
+export { BulkPermissionsPanel } from "./BulkPermissionsPanel";
+export { PresetsDialog } from "./PresetsDialog";
+export { AuditLogPage } from "./AuditLogPage";
+export { GrantWindowEditor, GrantWindowBadge } from "./GrantWindowEditor";
+export { AccessExplainerPage } from "./AccessExplainerPage";
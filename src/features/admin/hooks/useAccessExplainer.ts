@@ -0,0 +1,57 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { AccessExplanationInfo, AccessPreviewInfo, AccessTargetType } from "../types";
+
+export interface AccessExplanationRequest {
+  userId: string;
+  targetType: AccessTargetType;
+  targetId: string;
+  level: "VIEW" | "EDIT";
+}
+
+async function fetchAccessExplanation(request: AccessExplanationRequest): Promise<AccessExplanationInfo> {
+  const params = new URLSearchParams({ ...request });
+  const response = await fetch(`/api/admin/access/explain?${params.toString()}`, { cache: "no-store" });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to explain access");
+  }
+
+  return response.json();
+}
+
+async function fetchAccessPreview(userId: string, from: string, to: string): Promise<AccessPreviewInfo> {
+  const params = new URLSearchParams({ userId, from, to });
+  const response = await fetch(`/api/admin/access/preview?${params.toString()}`, { cache: "no-store" });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to load the preview");
+  }
+
+  return response.json();
+}
+
+/**
+ * Why a user may (not) view or edit an item - null request = nothing to explain yet
+ */
+export function useAccessExplanation(request: AccessExplanationRequest | null) {
+  return useQuery({
+    queryKey: ["admin", "access", "explain", request],
+    queryFn: () => fetchAccessExplanation(request!),
+    enabled: request !== null,
+  });
+}
+
+/**
+ * What a user's Meetings, Deadlines and Schedule pages list for a period
+ */
+export function useAccessPreview(userId: string | null, from: string, to: string) {
+  return useQuery({
+    queryKey: ["admin", "access", "preview", userId, from, to],
+    queryFn: () => fetchAccessPreview(userId!, from, to),
+    enabled: userId !== null && from !== "" && to !== "",
+  });
+}
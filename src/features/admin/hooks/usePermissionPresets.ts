@@ -0,0 +1,85 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ModulePermission, PermissionPresetInfo } from "../types";
+import { csrfFetch } from "@/lib/csrfFetch";
+
+interface PresetInput {
+  name: string;
+  description: string | null;
+  permissions: ModulePermission[];
+}
+
+async function fetchPermissionPresets(): Promise<PermissionPresetInfo[]> {
+  const response = await fetch("/api/admin/permission-presets", { cache: "no-store" });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to fetch permission presets");
+  }
+
+  const data = await response.json();
+  return data.presets;
+}
+
+async function savePermissionPreset({
+  id,
+  ...data
+}: PresetInput & { id: string | null }): Promise<PermissionPresetInfo> {
+  const response = await csrfFetch(
+    id ? `/api/admin/permission-presets/${id}` : "/api/admin/permission-presets",
+    {
+      method: id ? "PATCH" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to save permission preset");
+  }
+
+  const result = await response.json();
+  return result.preset;
+}
+
+async function deletePermissionPreset(presetId: string): Promise<void> {
+  const response = await csrfFetch(`/api/admin/permission-presets/${presetId}`, {
+    method: "DELETE",
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to delete permission preset");
+  }
+}
+
+export function usePermissionPresets() {
+  return useQuery({
+    queryKey: ["admin", "permission-presets"],
+    queryFn: fetchPermissionPresets,
+  });
+}
+
+export function useSavePermissionPreset() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: savePermissionPreset,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "permission-presets"] });
+    },
+  });
+}
+
+export function useDeletePermissionPreset() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deletePermissionPreset,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "permission-presets"] });
+    },
+  });
+}
@@ -1,2 +1,4 @@
 export * from "./components";
+export * from "./hooks/usePermissionPresets";
+export * from "./hooks/useAccessExplainer";
 export * from "./types";
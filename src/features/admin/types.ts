@@ -1,4 +1,5 @@
-import type { User, UserPermission } from "@prisma/client";
+import type { ScheduleEntry, User, UserPermission } from "@prisma/client";
+import type { CalendarItemWithRelations } from "@/features/calendar/types";
 
 // Permission levels
 export type PermissionLevel = "NONE" | "VIEW" | "EDIT";
@@ -26,8 +27,10 @@ export const PERMISSION_LEVELS: { value: PermissionLevel; label: string }[] = [
 ];
 
 // User with permissions
-export interface UserWithPermissions extends Pick<User, "id" | "name" | "email" | "role"> {
+export interface UserWithPermissions
+  extends Pick<User, "id" | "name" | "email" | "role" | "lockedUntil"> {
   permissions: UserPermission[];
+  groups: { id: string; name: string }[]; // Group grants are added on top of the user's own
 }
 
 // Permission state for a single module
@@ -37,6 +40,12 @@ export interface ModulePermission {
   allLevel: PermissionLevel;
 }
 
+// A user's own permission row with its optional active window (ISO strings, null = unbounded)
+export interface UserModulePermission extends ModulePermission {
+  validFrom: string | null;
+  validUntil: string | null;
+}
+
 // Full permissions state for a user
 export interface UserPermissionsState {
   userId: string;
@@ -50,9 +59,150 @@ export interface UpdatePermissionsRequest {
     module: ModuleType;
     myLevel: PermissionLevel;
     allLevel: PermissionLevel;
+    validFrom?: string | null;
+    validUntil?: string | null;
   }[];
 }
 
 export interface PermissionsResponse {
   permissions: UserPermission[];
 }
+
+// Bulk update (/api/admin/permissions/bulk) - a level or window bound that is left out keeps its current value
+export interface BulkPermission {
+  module: ModuleType;
+  myLevel?: PermissionLevel;
+  allLevel?: PermissionLevel;
+  validFrom?: string | null;
+  validUntil?: string | null;
+}
+
+export interface BulkUpdatePermissionsRequest {
+  userIds: string[];
+  permissions: BulkPermission[];
+}
+
+// One changed cell of a user's matrix (diff preview before saving)
+// "window" changes carry the formatted active window instead of a level
+export interface PermissionChange {
+  userId: string;
+  userName: string;
+  module: ModuleType;
+  scope: "my" | "all" | "window";
+  from: string;
+  to: string;
+}
+
+// Named preset as returned by /api/admin/permission-presets
+export interface PermissionPresetInfo {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: ModulePermission[];
+  updatedAt: string;
+}
+
+// Self-service signup policy
+export type SignupMode = "OPEN" | "DOMAINS" | "INVITE_ONLY";
+
+// Workspace-wide policies (/api/admin/settings)
+export interface WorkspaceSettings {
+  adminTwoFactorRequired: boolean;
+  signupMode: SignupMode;
+  allowedSignupDomains: string[];
+  timeZone: string; // Default for users who have not picked their own
+  updatedAt: string;
+}
+
+// Group as returned by /api/admin/groups
+export interface GroupInfo {
+  id: string;
+  name: string;
+  description: string | null;
+  members: { id: string; name: string; email: string }[];
+  permissions: ModulePermission[];
+  createdAt: string;
+}
+
+// Pending invitation as returned by /api/admin/invitations
+export interface InvitationInfo {
+  id: string;
+  email: string;
+  role: string;
+  permissions: ModulePermission[];
+  expiresAt: string;
+  createdAt: string;
+  invitedBy: { id: string; name: string };
+}
+
+// Entity types recorded in the audit log (mirrors AUDIT_ENTITY_TYPES in lib/audit)
+export const AUDIT_ENTITY_TYPES = [
+  { id: "calendar_item", label: "Calendar items" },
+  { id: "participant", label: "Participants" },
+  { id: "schedule_entry", label: "Schedule entries" },
+  { id: "permission", label: "Permissions" },
+  { id: "group", label: "Groups" },
+  { id: "permission_preset", label: "Permission presets" },
+  { id: "user", label: "Users & logins" },
+  { id: "delegation", label: "Calendar delegations" },
+] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number]["id"];
+
+// Audit event as returned by /api/admin/audit
+export interface AuditEventInfo {
+  id: string;
+  action: string;
+  entityType: AuditEntityType;
+  entityId: string | null;
+  before: unknown;
+  after: unknown;
+  ip: string | null;
+  requestId: string | null;
+  createdAt: string;
+  actor: { id: string; name: string; email: string } | null;
+  onBehalfOf: { id: string; name: string; email: string } | null;
+}
+
+export interface AuditFilter {
+  actorId?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  from?: string;
+  to?: string;
+}
+
+// What an access explanation is about
+export type AccessTargetType = "calendar_item" | "schedule_entry";
+
+export const ACCESS_TARGET_TYPES: { id: AccessTargetType; label: string }[] = [
+  { id: "calendar_item", label: "Calendar item" },
+  { id: "schedule_entry", label: "Schedule entry" },
+];
+
+// One step of an access decision (mirrors AccessRule in lib/authorize)
+export interface AccessRuleInfo {
+  rule: "owner" | "participant" | "delegate" | "visibility" | "module_permission" | "default";
+  outcome: "allow" | "deny" | "no_match";
+  detail: string;
+}
+
+// Access decision as returned by /api/admin/access/explain
+export interface AccessExplanationInfo {
+  user: { id: string; name: string; email: string; role: string };
+  target: { type: AccessTargetType; id: string; label: string };
+  level: "VIEW" | "EDIT";
+  decision: {
+    allowed: boolean;
+    rules: AccessRuleInfo[];
+    onBehalfOfId: string | null;
+    redacted: boolean;
+  };
+}
+
+// "View as user" lists as returned by /api/admin/access/preview (items are redacted as the user sees them)
+export interface AccessPreviewInfo {
+  user: { id: string; name: string; email: string; role: string };
+  items: CalendarItemWithRelations[];
+  entries: (ScheduleEntry & { user: Pick<User, "id" | "name" | "email"> })[];
+}
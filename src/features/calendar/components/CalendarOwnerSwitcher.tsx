@@ -0,0 +1,51 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useDelegations } from "../hooks/useDelegations";
+import type { DelegationInfo } from "../types";
+
+// Select items cannot have an empty value
+const OWN_CALENDAR = "me";
+
+interface CalendarOwnerSwitcherProps {
+  principal: DelegationInfo | null;
+  onChange: (principal: DelegationInfo | null) => void;
+}
+
+/**
+ * Switch between the own calendar and the calendars of people the user is a delegate for
+ * Renders nothing for users without delegations
+ */
+export function CalendarOwnerSwitcher({ principal, onChange }: CalendarOwnerSwitcherProps) {
+  const { data } = useDelegations();
+  const received = data?.received ?? [];
+
+  if (received.length === 0) {
+    return null;
+  }
+
+  return (
+    <Select
+      value={principal?.id ?? OWN_CALENDAR}
+      onValueChange={(value) => onChange(received.find((d) => d.id === value) ?? null)}
+    >
+      <SelectTrigger className="w-48">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={OWN_CALENDAR}>My calendar</SelectItem>
+        {received.map((delegation) => (
+          <SelectItem key={delegation.id} value={delegation.id}>
+            {delegation.principal.name}&apos;s calendar
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -6,6 +6,8 @@ import dayGridPlugin from "@fullcalendar/daygrid";
 import timeGridPlugin from "@fullcalendar/timegrid";
 import interactionPlugin from "@fullcalendar/interaction";
 import type { EventClickArg, DatesSetArg, DateSelectArg } from "@fullcalendar/core";
+import { formatCalendarDate, formatInTimeZone } from "@/lib/timeZones";
+import { useViewerTimeZone } from "../hooks/useCurrentUser";
 import type { CalendarItemWithRelations } from "../types";
 
 interface CalendarViewProps {
@@ -28,6 +30,7 @@ export function CalendarView({
   isLoading,
 }: CalendarViewProps) {
   const calendarRef = useRef<FullCalendar>(null);
+  const viewerTimeZone = useViewerTimeZone();
 
   // Update calendar view when viewType changes
   useEffect(() => {
@@ -37,19 +40,29 @@ export function CalendarView({
     }
   }, [viewType]);
 
-  // Transform items to FullCalendar events
+  // FullCalendar has no named time zones without a plugin, so it gets the viewer's wall times (no offset)
+  // as local times; all-day items are calendar dates
+  const toCalendarTime = (date: Date, allDay: boolean) =>
+    allDay ? formatCalendarDate(date) : formatInTimeZone(date, viewerTimeZone, "yyyy-MM-dd'T'HH:mm:ss");
+
+  // Transform items to FullCalendar events (redacted items are grey "Busy" blocks)
+  // Occurrences of a series share the item id
   const events = items.map((item) => ({
-    id: item.id,
+    id: item.occurrenceStart ? `${item.id}:${new Date(item.occurrenceStart).toISOString()}` : item.id,
     title: item.title,
-    start: item.startAt,
-    end: item.endAt || undefined,
+    start: toCalendarTime(item.startAt, item.allDay),
+    end: item.endAt ? toCalendarTime(item.endAt, item.allDay) : undefined,
     allDay: item.allDay,
     extendedProps: {
       item,
     },
-    className: item.type === "MEETING" ? "fc-event-meeting" : "fc-event-deadline",
-    backgroundColor: item.type === "MEETING" ? "#22C55E" : "#EF4444",
-    borderColor: item.type === "MEETING" ? "#16A34A" : "#DC2626",
+    className: item.redacted
+      ? "fc-event-busy"
+      : item.type === "MEETING"
+        ? "fc-event-meeting"
+        : "fc-event-deadline",
+    backgroundColor: item.redacted ? "#9CA3AF" : item.type === "MEETING" ? "#22C55E" : "#EF4444",
+    borderColor: item.redacted ? "#6B7280" : item.type === "MEETING" ? "#16A34A" : "#DC2626",
   }));
 
   // Handlers
@@ -99,6 +112,7 @@ export function CalendarView({
           right: "",
         }}
         locale="en"
+        now={() => formatInTimeZone(new Date(), viewerTimeZone, "yyyy-MM-dd'T'HH:mm:ss")}
         firstDay={1}
         events={events}
         selectable={true}
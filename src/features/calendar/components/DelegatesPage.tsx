@@ -0,0 +1,224 @@
+"use client";
+
+import { useState } from "react";
+import { Trash2, UserCog } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DELEGATION_SCOPES, DELEGATION_SCOPE_DESCRIPTIONS, type DelegationScope } from "@/lib/delegationScopes";
+import { useDelegations, useDeleteDelegation, useSaveDelegation } from "../hooks/useDelegations";
+import { useCurrentUser } from "../hooks/useCurrentUser";
+import { useUsers } from "../hooks/useUsers";
+import type { DelegationInfo } from "../types";
+
+/**
+ * Manage who may act on the current user's calendar, and see whose calendars they manage
+ */
+export function DelegatesPage() {
+  const { data, isLoading } = useDelegations();
+  const { data: users = [] } = useUsers();
+  const { data: currentUser } = useCurrentUser();
+  const saveDelegation = useSaveDelegation();
+  const deleteDelegation = useDeleteDelegation();
+
+  const [delegateId, setDelegateId] = useState("");
+  const [scopes, setScopes] = useState<DelegationScope[]>(["VIEW"]);
+
+  const granted = data?.granted ?? [];
+  const received = data?.received ?? [];
+
+  const toggleScope = (scope: DelegationScope) => {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    );
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const delegation = await saveDelegation.mutateAsync({ delegateId, scopes });
+      toast.success(`${delegation.delegate.name} can now manage your calendar`);
+      setDelegateId("");
+      setScopes(["VIEW"]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Error saving delegation");
+    }
+  };
+
+  const handleRevoke = async (delegation: DelegationInfo, message: string) => {
+    if (!confirm(message)) return;
+
+    try {
+      await deleteDelegation.mutateAsync(delegation.id);
+      toast.success("Delegation removed");
+    } catch (error) {
+      console.error("[DelegatesPage] Revoke error:", error);
+      toast.error("Error removing delegation");
+    }
+  };
+
+  const renderScopes = (delegation: DelegationInfo) => (
+    <div className="flex flex-wrap gap-1">
+      {delegation.scopes.map((scope) => (
+        <Badge key={scope} variant="secondary" className="text-[10px] px-1.5 py-0">
+          {scope}
+        </Badge>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <UserCog className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="text-xl">Calendar delegates</CardTitle>
+                <CardDescription>
+                  Let an assistant view your calendar, manage your items or respond for you - with your
+                  permissions, never more
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Delegate</Label>
+                <Select value={delegateId} onValueChange={setDelegateId}>
+                  <SelectTrigger className="w-full sm:w-80">
+                    <SelectValue placeholder="Select a person" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users
+                      .filter((user) => user.id !== currentUser?.id)
+                      .map((user) => (
+                        <SelectItem key={user.id} value={user.id}>
+                          {user.name} ({user.email})
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                <div className="space-y-2">
+                  {DELEGATION_SCOPES.map((scope) => (
+                    <label key={scope} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 rounded border-gray-300"
+                        checked={scopes.includes(scope)}
+                        onChange={() => toggleScope(scope)}
+                      />
+                      <span className="font-mono text-xs w-16">{scope}</span>
+                      <span className="text-muted-foreground">{DELEGATION_SCOPE_DESCRIPTIONS[scope]}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Delegating again to the same person replaces their scopes
+                </p>
+              </div>
+
+              <Button type="submit" disabled={saveDelegation.isPending || !delegateId || scopes.length === 0}>
+                {saveDelegation.isPending ? "Saving..." : "Save delegate"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">My delegates</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground py-4">Loading...</p>
+            ) : granted.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4">Nobody manages your calendar</p>
+            ) : (
+              <div className="divide-y divide-border">
+                {granted.map((delegation) => (
+                  <div key={delegation.id} className="flex items-center gap-3 py-3">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <p className="text-sm font-medium text-foreground truncate">
+                        {delegation.delegate.name}{" "}
+                        <span className="text-xs text-muted-foreground">({delegation.delegate.email})</span>
+                      </p>
+                      {renderScopes(delegation)}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        handleRevoke(delegation, `Stop ${delegation.delegate.name} from managing your calendar?`)
+                      }
+                      disabled={deleteDelegation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Revoke
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Calendars I manage</CardTitle>
+            <CardDescription>Switch to them on the Meetings and Deadlines pages</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground py-4">Loading...</p>
+            ) : received.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4">You do not manage anyone&apos;s calendar</p>
+            ) : (
+              <div className="divide-y divide-border">
+                {received.map((delegation) => (
+                  <div key={delegation.id} className="flex items-center gap-3 py-3">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <p className="text-sm font-medium text-foreground truncate">
+                        {delegation.principal.name}{" "}
+                        <span className="text-xs text-muted-foreground">({delegation.principal.email})</span>
+                      </p>
+                      {renderScopes(delegation)}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        handleRevoke(delegation, `Stop managing ${delegation.principal.name}'s calendar?`)
+                      }
+                      disabled={deleteDelegation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Leave
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
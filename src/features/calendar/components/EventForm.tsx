@@ -1,8 +1,9 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { format } from "date-fns";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
 import { toast } from "sonner";
+import { AlertTriangle } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -20,21 +21,67 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { useCreateCalendarItem, useUpdateCalendarItem } from "../hooks/useCalendarItems";
+import { SchedulingConflictError, useCreateCalendarItem, useUpdateCalendarItem } from "../hooks/useCalendarItems";
 import { useUsers } from "../hooks/useUsers";
-import type { CalendarItemWithRelations, CalendarItemType, ItemStatus } from "../types";
-import { ITEM_TYPE_LABELS, STATUS_LABELS } from "../types";
+import { useGroups, type GroupBasic } from "../hooks/useGroups";
+import { useViewerTimeZone } from "../hooks/useCurrentUser";
+import type {
+  CalendarItemWithRelations,
+  CalendarItemType,
+  CalendarVisibility,
+  ItemStatus,
+  ParticipantConflicts,
+  RecurrenceScope,
+  SchedulingConflict,
+} from "../types";
+import { ITEM_TYPE_LABELS, RECURRENCE_SCOPE_LABELS, STATUS_LABELS, VISIBILITY_LABELS } from "../types";
+import { RecurrenceEditor } from "./RecurrenceEditor";
+import { TimeZoneSelect } from "./TimeZoneSelect";
+import {
+  calendarDateInTimeZone,
+  calendarDateToUtc,
+  formatCalendarDate,
+  formatCalendarDateAs,
+  formatInTimeZone,
+  zonedDateTime,
+} from "@/lib/timeZones";
+import { minutesToTime } from "@/lib/utils";
 
 interface EventFormProps {
   event: CalendarItemWithRelations | null;
+  scope?: RecurrenceScope; // Recurring events: which occurrences the edit applies to
   isOpen: boolean;
   onClose: () => void;
+  onBehalfOf?: string; // Principal id - new items are created for them (delegates)
   defaultDate?: Date;
   defaultType?: CalendarItemType;
 }
 
-export function EventForm({ event, isOpen, onClose, defaultDate, defaultType }: EventFormProps) {
+/**
+ * One line about a participant's conflict; meeting times in the viewer's zone, shifts in the participant's
+ */
+function describeConflict(conflict: SchedulingConflict, timeZone: string): string {
+  switch (conflict.type) {
+    case "OVERLAP": {
+      const { title, startAt, endAt } = conflict.item;
+      return `Busy: ${title}, ${formatInTimeZone(startAt, timeZone, "d MMM HH:mm")} - ${formatInTimeZone(endAt, timeZone, "HH:mm")}`;
+    }
+    case "OUTSIDE_HOURS": {
+      // Shifts of people whose schedule the viewer cannot see are not named
+      if (!conflict.shift) return "Outside working hours";
+      const { date, startTime, endTime, timeZone: shiftTimeZone } = conflict.shift;
+      const hours = `${minutesToTime(startTime)} - ${minutesToTime(endTime)}`;
+      return `Outside working hours: ${hours} on ${formatCalendarDateAs(date, "d MMM")} (${shiftTimeZone})`;
+    }
+    case "NO_SCHEDULE":
+      return `Not scheduled on ${formatCalendarDateAs(conflict.date, "d MMM")}`;
+  }
+}
+
+export function EventForm({ event, scope, isOpen, onClose, onBehalfOf, defaultDate, defaultType }: EventFormProps) {
   const isEditing = !!event;
+  // A single occurrence cannot repeat on its own
+  const canRepeat = !event?.seriesId && !(event?.recurrence && scope === "this");
 
   // Form state
   const [type, setType] = useState<CalendarItemType>("MEETING");
@@ -42,16 +89,24 @@ export function EventForm({ event, isOpen, onClose, defaultDate, defaultType }:
   const [description, setDescription] = useState("");
   const [startDate, setStartDate] = useState("");
   const [startTime, setStartTime] = useState("10:00");
+  const [endDate, setEndDate] = useState(""); // For all-day events - the last day
   const [endTime, setEndTime] = useState("11:00");
   const [allDay, setAllDay] = useState(false);
+  const [timeZone, setTimeZone] = useState("UTC"); // Date and times are wall time in this zone
   const [status, setStatus] = useState<ItemStatus>("DRAFT");
   const [location, setLocation] = useState("");
+  const [visibility, setVisibility] = useState<CalendarVisibility>("PUBLIC");
+  const [recurrence, setRecurrence] = useState<string | null>(null);
   const [selectedParticipants, setSelectedParticipants] = useState<string[]>([]);
+  // Conflicts the server reported; saving again with them shown means the user confirmed
+  const [conflicts, setConflicts] = useState<ParticipantConflicts[] | null>(null);
 
   // Queries
   const { data: users = [] } = useUsers();
+  const { data: groups = [] } = useGroups();
   const createItem = useCreateCalendarItem();
   const updateItem = useUpdateCalendarItem();
+  const viewerTimeZone = useViewerTimeZone();
 
   // Initialize form when event changes
   useEffect(() => {
@@ -59,29 +114,78 @@ export function EventForm({ event, isOpen, onClose, defaultDate, defaultType }:
       setType(event.type as CalendarItemType);
       setTitle(event.title);
       setDescription(event.description || "");
-      setStartDate(format(new Date(event.startAt), "yyyy-MM-dd"));
-      setStartTime(format(new Date(event.startAt), "HH:mm"));
+      // Shown in the zone the event was planned in
+      const zone = event.timeZone ?? viewerTimeZone;
+      setTimeZone(zone);
+      setStartDate(
+        event.allDay ? formatCalendarDate(event.startAt) : formatInTimeZone(event.startAt, zone, "yyyy-MM-dd")
+      );
+      setStartTime(formatInTimeZone(event.startAt, zone, "HH:mm"));
       if (event.endAt) {
-        setEndTime(format(new Date(event.endAt), "HH:mm"));
+        setEndTime(formatInTimeZone(event.endAt, zone, "HH:mm"));
       }
+      // An all-day event ends at the start of the day after its last day
+      setEndDate(
+        !event.endAt
+          ? event.allDay
+            ? formatCalendarDate(event.startAt)
+            : formatInTimeZone(event.startAt, zone, "yyyy-MM-dd")
+          : event.allDay
+            ? formatCalendarDate(addDays(new Date(event.endAt), -1))
+            : formatInTimeZone(event.endAt, zone, "yyyy-MM-dd")
+      );
       setAllDay(event.allDay);
       setStatus(event.status as ItemStatus);
       setLocation(event.location || "");
+      setVisibility(event.visibility as CalendarVisibility);
+      setRecurrence(event.recurrence);
       setSelectedParticipants(event.participants.map((p) => p.user.id));
     } else {
       // Reset form for new event
       setType(defaultType || "MEETING");
       setTitle("");
       setDescription("");
-      setStartDate(defaultDate ? format(defaultDate, "yyyy-MM-dd") : format(new Date(), "yyyy-MM-dd"));
+      // defaultDate is a day picked in the calendar, which shows the viewer's zone
+      setTimeZone(viewerTimeZone);
+      const date = defaultDate ? format(defaultDate, "yyyy-MM-dd") : calendarDateInTimeZone(new Date(), viewerTimeZone);
+      setStartDate(date);
+      setEndDate(date);
       setStartTime("10:00");
       setEndTime("11:00");
       setAllDay(false);
       setStatus("DRAFT");
       setLocation("");
+      setVisibility("PUBLIC");
+      setRecurrence(null);
       setSelectedParticipants([]);
     }
-  }, [event, defaultDate, defaultType, isOpen]);
+  }, [event, defaultDate, defaultType, isOpen, viewerTimeZone]);
+
+  // Confirmed conflicts no longer apply once the time, participants or status change
+  useEffect(() => {
+    setConflicts(null);
+  }, [type, startDate, startTime, endDate, endTime, allDay, timeZone, status, selectedParticipants, isOpen]);
+
+  // Picking a group adds all its members, unpicking removes them
+  const isGroupSelected = (group: GroupBasic) =>
+    group.memberIds.length > 0 && group.memberIds.every((id) => selectedParticipants.includes(id));
+
+  const handleGroupToggle = (group: GroupBasic, checked: boolean) => {
+    setSelectedParticipants((current) =>
+      checked
+        ? [...current, ...group.memberIds.filter((id) => !current.includes(id))]
+        : current.filter((id) => !group.memberIds.includes(id))
+    );
+  };
+
+  // Moving the start moves the end along, keeping the length of the event
+  const handleStartDateChange = (value: string) => {
+    if (value && startDate && endDate) {
+      const days = differenceInCalendarDays(parseISO(endDate), parseISO(startDate));
+      setEndDate(format(addDays(parseISO(value), Math.max(days, 0)), "yyyy-MM-dd"));
+    }
+    setStartDate(value);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -91,8 +195,19 @@ export function EventForm({ event, isOpen, onClose, defaultDate, defaultType }:
       return;
     }
 
-    const startAt = new Date(`${startDate}T${allDay ? "00:00" : startTime}:00`);
-    const endAt = allDay ? null : new Date(`${startDate}T${endTime}:00`);
+    // All-day events are calendar dates (midnight UTC; a range ends the day after its last day),
+    // others wall times in the chosen zone
+    const startAt = allDay ? calendarDateToUtc(startDate) : zonedDateTime(startDate, startTime, timeZone);
+    const endAt = allDay
+      ? endDate > startDate
+        ? addDays(calendarDateToUtc(endDate), 1)
+        : null
+      : zonedDateTime(endDate, endTime, timeZone);
+
+    if (endAt && endAt <= startAt) {
+      toast.error(allDay ? "End date must not be before the start date" : "End must be after start");
+      return;
+    }
 
     try {
       if (isEditing) {
@@ -104,9 +219,16 @@ export function EventForm({ event, isOpen, onClose, defaultDate, defaultType }:
           startAt: startAt.toISOString(),
           endAt: endAt?.toISOString() || null,
           allDay,
+          timeZone,
           status,
           location: location.trim() || null,
+          visibility,
+          // Unchanged rules are left to the server (splitting a series recounts COUNT)
+          recurrence: canRepeat && recurrence !== event.recurrence ? recurrence : undefined,
+          scope,
+          occurrenceStart: event.occurrenceStart ? new Date(event.occurrenceStart).toISOString() : undefined,
           participants: selectedParticipants.map((userId) => ({ userId, role: "PARTICIPANT" as const })),
+          rejectOnConflict: conflicts === null,
         });
         toast.success("Event updated");
       } else {
@@ -117,14 +239,23 @@ export function EventForm({ event, isOpen, onClose, defaultDate, defaultType }:
           startAt: startAt.toISOString(),
           endAt: endAt?.toISOString(),
           allDay,
+          timeZone,
           status,
           location: location.trim() || undefined,
+          visibility,
+          recurrence: recurrence ?? undefined,
+          onBehalfOf,
           participants: selectedParticipants.map((userId) => ({ userId, role: "PARTICIPANT" as const })),
+          rejectOnConflict: conflicts === null,
         });
         toast.success("Event created");
       }
       onClose();
     } catch (error) {
+      if (error instanceof SchedulingConflictError) {
+        setConflicts(error.conflicts);
+        return;
+      }
       console.error("[EventForm] Submit error:", error);
       toast.error(isEditing ? "Error updating" : "Error creating");
     }
@@ -137,6 +268,9 @@ export function EventForm({ event, isOpen, onClose, defaultDate, defaultType }:
       <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{isEditing ? "Edit event" : "New event"}</DialogTitle>
+          {isEditing && scope && event.recurrence && (
+            <p className="text-sm text-gray-500">{RECURRENCE_SCOPE_LABELS[scope]}</p>
+          )}
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-4 mt-4">
@@ -181,16 +315,29 @@ export function EventForm({ event, isOpen, onClose, defaultDate, defaultType }:
             />
           </div>
 
-          {/* Date */}
-          <div className="space-y-2">
-            <Label htmlFor="date">Date</Label>
-            <Input
-              id="date"
-              type="date"
-              value={startDate}
-              onChange={(e) => setStartDate(e.target.value)}
-              required
-            />
+          {/* Dates - the end can fall on a later day (multi-day or overnight events) */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="date">Start date</Label>
+              <Input
+                id="date"
+                type="date"
+                value={startDate}
+                onChange={(e) => handleStartDateChange(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="endDate">End date</Label>
+              <Input
+                id="endDate"
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                required
+              />
+            </div>
           </div>
 
           {/* All day checkbox */}
@@ -228,9 +375,23 @@ export function EventForm({ event, isOpen, onClose, defaultDate, defaultType }:
                   onChange={(e) => setEndTime(e.target.value)}
                 />
               </div>
+              <div className="space-y-2 col-span-2">
+                <Label>Time zone</Label>
+                <TimeZoneSelect value={timeZone} onChange={(zone) => zone && setTimeZone(zone)} />
+              </div>
             </div>
           )}
 
+          {/* Recurrence */}
+          {canRepeat && (
+            <RecurrenceEditor
+              value={recurrence}
+              onChange={setRecurrence}
+              startDate={startDate}
+              timeZone={allDay ? "UTC" : timeZone}
+            />
+          )}
+
           {/* Status */}
           <div className="space-y-2">
             <Label>Status</Label>
@@ -248,6 +409,30 @@ export function EventForm({ event, isOpen, onClose, defaultDate, defaultType }:
             </Select>
           </div>
 
+          {/* Visibility */}
+          <div className="space-y-2">
+            <Label>Visibility</Label>
+            <Select value={visibility} onValueChange={(v) => setVisibility(v as CalendarVisibility)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(VISIBILITY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              {visibility === "BUSY_ONLY"
+                ? "Others only see a busy block"
+                : visibility === "PRIVATE"
+                  ? "Only you and the participants see this event"
+                  : "Visible to everyone with access to the calendar"}
+            </p>
+          </div>
+
           {/* Location */}
           <div className="space-y-2">
             <Label htmlFor="location">Location</Label>
@@ -263,6 +448,20 @@ export function EventForm({ event, isOpen, onClose, defaultDate, defaultType }:
           <div className="space-y-2">
             <Label>Participants</Label>
             <div className="border rounded-md p-3 space-y-2 max-h-40 overflow-y-auto">
+              {groups.map((group) => (
+                <label key={group.id} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={isGroupSelected(group)}
+                    onChange={(e) => handleGroupToggle(group, e.target.checked)}
+                    disabled={group.memberIds.length === 0}
+                    className="rounded border-gray-300"
+                  />
+                  <span className="text-sm font-medium">{group.name}</span>
+                  <span className="text-xs text-gray-500">(group, {group.memberIds.length} members)</span>
+                </label>
+              ))}
+              {groups.length > 0 && users.length > 0 && <div className="border-t" />}
               {users.map((user) => (
                 <label key={user.id} className="flex items-center gap-2 cursor-pointer">
                   <input
@@ -284,13 +483,33 @@ export function EventForm({ event, isOpen, onClose, defaultDate, defaultType }:
             </div>
           </div>
 
+          {/* Scheduling conflicts - saving again confirms them */}
+          {conflicts && (
+            <div className="rounded-md border border-amber-300 bg-amber-500/10 p-3 space-y-2">
+              <div className="flex items-center gap-2 text-sm font-medium text-amber-700">
+                <AlertTriangle className="w-4 h-4" />
+                Scheduling conflicts
+              </div>
+              {conflicts.map(({ user, conflicts: userConflicts }) => (
+                <div key={user.id} className="text-sm">
+                  <p className="font-medium">{user.name}</p>
+                  <ul className="text-xs text-gray-600 space-y-0.5">
+                    {userConflicts.map((conflict, index) => (
+                      <li key={index}>{describeConflict(conflict, viewerTimeZone)}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex justify-end gap-2 pt-4">
             <Button type="button" variant="outline" onClick={onClose}>
               Cancel
             </Button>
             <Button type="submit" disabled={isPending}>
-              {isPending ? "Saving..." : isEditing ? "Save" : "Create"}
+              {isPending ? "Saving..." : conflicts ? "Save anyway" : isEditing ? "Save" : "Create"}
             </Button>
           </div>
         </form>
@@ -1,8 +1,7 @@
 "use client";
 
-import { format } from "date-fns";
-import { enUS } from "date-fns/locale";
-import { Calendar, Clock, MapPin, Users, Trash2, Edit } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Calendar, Clock, EyeOff, Hourglass, MapPin, Repeat, Users, Trash2, Edit } from "lucide-react";
 import { toast } from "sonner";
 import {
   Dialog,
@@ -12,30 +11,146 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { useDeleteCalendarItem } from "../hooks/useCalendarItems";
-import type { CalendarItemWithRelations } from "../types";
-import { ITEM_TYPE_LABELS, STATUS_LABELS, STATUS_COLORS } from "../types";
+import { useDeleteCalendarItem, useRespondToCalendarItem } from "../hooks/useCalendarItems";
+import { useCurrentUser, useViewerTimeZone } from "../hooks/useCurrentUser";
+import type { CalendarItemWithRelations, DelegationInfo, RecurrenceScope, RsvpStatus } from "../types";
+import { ITEM_TYPE_LABELS, STATUS_LABELS, STATUS_COLORS, VISIBILITY_LABELS } from "../types";
 import { getInitials, stringToColor } from "@/lib/utils";
+import { canEditCalendarItem } from "@/lib/permissions";
+import { hasDelegationScope } from "@/lib/delegationScopes";
+import { describeRecurrence, parseRecurrenceRule } from "@/lib/recurrence";
+import { formatCalendarDateAs, formatInTimeZone } from "@/lib/timeZones";
+import { RecurrenceScopeDialog } from "./RecurrenceScopeDialog";
+
+const RSVP_OPTIONS: Array<{ value: RsvpStatus; label: string }> = [
+  { value: "YES", label: "Yes" },
+  { value: "MAYBE", label: "Maybe" },
+  { value: "NO", label: "No" },
+];
+
+const RSVP_SUMMARY: Array<{ value: RsvpStatus | null; label: string }> = [
+  { value: "YES", label: "yes" },
+  { value: "MAYBE", label: "maybe" },
+  { value: "NO", label: "no" },
+  { value: null, label: "pending" },
+];
+
+/**
+ * Answers of the participants, e.g. "3 yes / 1 maybe / 2 pending" (answers nobody gave are left out)
+ */
+function formatRsvpSummary(participants: Array<{ rsvp: string | null }>): string {
+  return RSVP_SUMMARY.map(({ value, label }) => ({
+    count: participants.filter((p) => (p.rsvp ?? null) === value).length,
+    label,
+  }))
+    .filter(({ count }) => count > 0)
+    .map(({ count, label }) => `${count} ${label}`)
+    .join(" / ");
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Date and time lines of an event in a zone; events over several days show both dates
+ */
+function formatEventSpan(
+  event: Pick<CalendarItemWithRelations, "startAt" | "endAt" | "allDay">,
+  timeZone: string
+): { dates: string; times: string | null } {
+  if (event.allDay) {
+    // A range ends at the start of the day after its last day
+    const lastDay = event.endAt ? new Date(new Date(event.endAt).getTime() - DAY_MS) : null;
+    return {
+      dates:
+        lastDay && lastDay > new Date(event.startAt)
+          ? `${formatCalendarDateAs(event.startAt, "d MMMM")} – ${formatCalendarDateAs(lastDay, "d MMMM yyyy")}`
+          : formatCalendarDateAs(event.startAt, "d MMMM yyyy"),
+      times: null,
+    };
+  }
+
+  const date = (value: Date, pattern: string) => formatInTimeZone(value, timeZone, pattern);
+  const endsLater = event.endAt && date(event.endAt, "yyyy-MM-dd") !== date(event.startAt, "yyyy-MM-dd");
+  return {
+    dates:
+      event.endAt && endsLater
+        ? `${date(event.startAt, "d MMMM")} – ${date(event.endAt, "d MMMM yyyy")}`
+        : date(event.startAt, "d MMMM yyyy"),
+    times: `${date(event.startAt, "HH:mm")}${event.endAt ? ` – ${date(event.endAt, "HH:mm")}` : ""}`,
+  };
+}
 
 interface EventModalProps {
   event: CalendarItemWithRelations | null;
   isOpen: boolean;
   onClose: () => void;
-  onEdit?: (event: CalendarItemWithRelations) => void;
+  onEdit?: (event: CalendarItemWithRelations, scope?: RecurrenceScope) => void;
+  principal?: DelegationInfo | null; // Set while a delegate views the principal's calendar
 }
 
-export function EventModal({ event, isOpen, onClose, onEdit }: EventModalProps) {
+export function EventModal({ event, isOpen, onClose, onEdit, principal }: EventModalProps) {
   const deleteItem = useDeleteCalendarItem();
+  const respond = useRespondToCalendarItem();
+  const { data: currentUser } = useCurrentUser();
+  const viewerTimeZone = useViewerTimeZone();
+  const [scopeAction, setScopeAction] = useState<"edit" | "delete" | null>(null);
+  const [rsvpComment, setRsvpComment] = useState("");
+
+  // The person whose answer is shown: the current user, or the principal for delegates with RSVP
+  const respondentId = principal ? principal.principal.id : currentUser?.id;
+  const ownParticipation = event?.participants.find((p) => p.userId === respondentId);
+
+  useEffect(() => {
+    setRsvpComment(ownParticipation?.rsvpComment ?? "");
+  }, [ownParticipation?.rsvpComment, isOpen]);
 
   if (!event) return null;
 
-  const handleDelete = async () => {
-    if (!confirm("Are you sure you want to delete this event?")) return;
+  const span = formatEventSpan(event, viewerTimeZone);
+
+  // Occurrence of a recurring series (or a changed occurrence): edit and delete ask for a scope
+  const isRecurring = !!event.recurrence || !!event.seriesId;
+  const recurrenceRule = event.recurrence ? parseRecurrenceRule(event.recurrence) : null;
 
+  // Redacted (busy-only) items of others can never be edited;
+  // delegates edit the principal's own items (the server checks the principal's permissions)
+  const canEdit =
+    !event.redacted &&
+    !!onEdit &&
+    (principal
+      ? hasDelegationScope(principal.scopes, "EDIT") && event.createdById === principal.principal.id
+      : !!currentUser && canEditCalendarItem(currentUser.permissions, currentUser.id, event));
+
+  const pendingParticipants = event.participants.filter((p) => !p.rsvp);
+  const canRespond = !!ownParticipation && (!principal || hasDelegationScope(principal.scopes, "RSVP"));
+
+  const handleRespond = async (rsvp: RsvpStatus) => {
+    try {
+      await respond.mutateAsync({
+        id: event.id,
+        rsvp,
+        comment: rsvpComment.trim(),
+        onBehalfOf: principal?.principal.id,
+      });
+      toast.success("Response saved");
+      onClose();
+    } catch (error) {
+      console.error("[EventModal] RSVP error:", error);
+      toast.error(error instanceof Error ? error.message : "Error saving response");
+    }
+  };
+
+  const deleteEvent = async (scope?: RecurrenceScope) => {
     try {
-      await deleteItem.mutateAsync(event.id);
+      await deleteItem.mutateAsync({
+        id: event.id,
+        scope,
+        occurrenceStart: event.occurrenceStart ? new Date(event.occurrenceStart).toISOString() : undefined,
+      });
       toast.success("Event deleted");
+      setScopeAction(null);
       onClose();
     } catch (error) {
       console.error("[EventModal] Delete error:", error);
@@ -43,12 +158,32 @@ export function EventModal({ event, isOpen, onClose, onEdit }: EventModalProps)
     }
   };
 
+  const handleDelete = () => {
+    if (isRecurring) {
+      setScopeAction("delete");
+      return;
+    }
+    if (!confirm("Are you sure you want to delete this event?")) return;
+    deleteEvent();
+  };
+
   const handleEdit = () => {
-    if (onEdit) {
+    if (isRecurring) {
+      setScopeAction("edit");
+    } else if (onEdit) {
       onEdit(event);
     }
   };
 
+  const handleScopeSelect = (scope: RecurrenceScope) => {
+    if (scopeAction === "delete") {
+      deleteEvent(scope);
+    } else {
+      setScopeAction(null);
+      onEdit?.(event, scope);
+    }
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-lg">
@@ -65,9 +200,17 @@ export function EventModal({ event, isOpen, onClose, onEdit }: EventModalProps)
           <Badge variant={event.type === "MEETING" ? "meeting" : "deadline"}>
             {ITEM_TYPE_LABELS[event.type as keyof typeof ITEM_TYPE_LABELS]}
           </Badge>
-          <Badge variant="outline" className={STATUS_COLORS[event.status as keyof typeof STATUS_COLORS]}>
-            {STATUS_LABELS[event.status as keyof typeof STATUS_LABELS]}
-          </Badge>
+          {!event.redacted && (
+            <Badge variant="outline" className={STATUS_COLORS[event.status as keyof typeof STATUS_COLORS]}>
+              {STATUS_LABELS[event.status as keyof typeof STATUS_LABELS]}
+            </Badge>
+          )}
+          {event.visibility !== "PUBLIC" && (
+            <Badge variant="outline" className="gap-1">
+              <EyeOff className="h-3 w-3" />
+              {VISIBILITY_LABELS[event.visibility as keyof typeof VISIBILITY_LABELS]}
+            </Badge>
+          )}
         </div>
 
         <div className="space-y-4 mt-4">
@@ -75,20 +218,40 @@ export function EventModal({ event, isOpen, onClose, onEdit }: EventModalProps)
           <div className="flex items-start gap-3">
             <Calendar className="h-5 w-5 text-gray-400 mt-0.5" />
             <div>
-              <p className="font-medium">
-                {format(new Date(event.startAt), "d MMMM yyyy", { locale: enUS })}
-              </p>
-              {!event.allDay && (
+              <p className="font-medium">{span.dates}</p>
+              {span.times && (
                 <p className="text-sm text-gray-500 flex items-center gap-1 mt-1">
                   <Clock className="h-4 w-4" />
-                  {format(new Date(event.startAt), "HH:mm")}
-                  {event.endAt && ` – ${format(new Date(event.endAt), "HH:mm")}`}
+                  {span.times}
+                </p>
+              )}
+              {/* Planned in another zone: its local time too */}
+              {!event.allDay && event.timeZone && event.timeZone !== viewerTimeZone && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {formatEventSpan(event, event.timeZone).times} {event.timeZone}
                 </p>
               )}
               {event.allDay && <p className="text-sm text-gray-500">All day</p>}
             </div>
           </div>
 
+          {/* Recurrence */}
+          {isRecurring && (
+            <div className="flex items-start gap-3">
+              <Repeat className="h-5 w-5 text-gray-400 mt-0.5" />
+              <p className="text-sm text-gray-700">
+                {recurrenceRule ? describeRecurrence(recurrenceRule) : "Changed occurrence of a recurring event"}
+              </p>
+            </div>
+          )}
+
+          {/* Busy-only item of someone else - details are hidden */}
+          {event.redacted && (
+            <p className="text-sm text-gray-500">
+              {event.createdBy.name} is busy at this time. Details are only visible to participants.
+            </p>
+          )}
+
           {/* Location */}
           {event.location && (
             <div className="flex items-start gap-3">
@@ -110,6 +273,7 @@ export function EventModal({ event, isOpen, onClose, onEdit }: EventModalProps)
               <div className="flex items-center gap-2 mb-3">
                 <Users className="h-5 w-5 text-gray-400" />
                 <span className="font-medium">Participants ({event.participants.length})</span>
+                <span className="text-sm text-gray-500">{formatRsvpSummary(event.participants)}</span>
               </div>
               <div className="space-y-2">
                 {event.participants.map((participant) => (
@@ -119,9 +283,12 @@ export function EventModal({ event, isOpen, onClose, onEdit }: EventModalProps)
                         {getInitials(participant.user.name)}
                       </AvatarFallback>
                     </Avatar>
-                    <div className="flex-1">
+                    <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium">{participant.user.name}</p>
                       <p className="text-xs text-gray-500">{participant.user.email}</p>
+                      {participant.rsvpComment && (
+                        <p className="text-xs text-gray-600 italic truncate">“{participant.rsvpComment}”</p>
+                      )}
                     </div>
                     {participant.rsvp && (
                       <Badge variant="outline" className="text-xs">
@@ -138,14 +305,55 @@ export function EventModal({ event, isOpen, onClose, onEdit }: EventModalProps)
             </div>
           )}
 
+          {/* Organizer view: who still has to answer */}
+          {canEdit && pendingParticipants.length > 0 && (
+            <div className="pt-2 border-t flex items-start gap-3">
+              <Hourglass className="h-5 w-5 text-gray-400 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium">Awaiting response ({pendingParticipants.length})</p>
+                <p className="text-sm text-gray-500">{pendingParticipants.map((p) => p.user.name).join(", ")}</p>
+              </div>
+            </div>
+          )}
+
+          {/* RSVP - participants (or their delegates) answer for themselves */}
+          {canRespond && (
+            <div className="pt-2 border-t space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-sm font-medium">
+                  {principal ? `Going (for ${principal.principal.name})?` : "Going?"}
+                </span>
+                <div className="flex gap-2">
+                  {RSVP_OPTIONS.map((option) => (
+                    <Button
+                      key={option.value}
+                      size="sm"
+                      variant={ownParticipation?.rsvp === option.value ? "default" : "outline"}
+                      onClick={() => handleRespond(option.value)}
+                      disabled={respond.isPending}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <Input
+                value={rsvpComment}
+                onChange={(e) => setRsvpComment(e.target.value)}
+                placeholder="Add a comment (optional)"
+                maxLength={500}
+              />
+            </div>
+          )}
+
           {/* Created by */}
           <div className="pt-2 border-t text-sm text-gray-500">
             Created by: {event.createdBy.name}
           </div>
         </div>
 
-        {/* Actions - only for admin */}
-        {onEdit && (
+        {/* Actions - only with EDIT permission for this item */}
+        {canEdit && (
           <div className="flex justify-end gap-2 mt-6">
             <Button
               variant="destructive"
@@ -161,6 +369,13 @@ export function EventModal({ event, isOpen, onClose, onEdit }: EventModalProps)
             </Button>
           </div>
         )}
+
+        <RecurrenceScopeDialog
+          action={scopeAction}
+          isPending={deleteItem.isPending}
+          onSelect={handleScopeSelect}
+          onCancel={() => setScopeAction(null)}
+        />
       </DialogContent>
     </Dialog>
   );
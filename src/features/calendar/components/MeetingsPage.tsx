@@ -16,9 +16,12 @@ import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { CalendarView } from "./CalendarView";
 import { EventModal } from "./EventModal";
 import { EventForm } from "./EventForm";
+import { CalendarOwnerSwitcher } from "./CalendarOwnerSwitcher";
 import { useCalendarItems } from "../hooks/useCalendarItems";
 import { useCurrentUser } from "../hooks/useCurrentUser";
-import type { CalendarItemWithRelations, ItemStatus } from "../types";
+import { canCreateRecord } from "@/lib/permissions";
+import { hasDelegationScope } from "@/lib/delegationScopes";
+import type { CalendarItemWithRelations, DelegationInfo, ItemStatus, RecurrenceScope } from "../types";
 import { CALENDAR_VIEWS, STATUS_LABELS } from "../types";
 
 export function MeetingsPage() {
@@ -33,11 +36,15 @@ export function MeetingsPage() {
   const [statusFilter, setStatusFilter] = useState<ItemStatus | "ALL">("ALL");
   const [searchQuery, setSearchQuery] = useState("");
 
+  // Whose calendar is shown: null = own, otherwise a delegation received from the principal
+  const [principal, setPrincipal] = useState<DelegationInfo | null>(null);
+
   // Modal state
   const [selectedEvent, setSelectedEvent] = useState<CalendarItemWithRelations | null>(null);
   const [isEventModalOpen, setIsEventModalOpen] = useState(false);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingEvent, setEditingEvent] = useState<CalendarItemWithRelations | null>(null);
+  const [editingScope, setEditingScope] = useState<RecurrenceScope | undefined>(undefined);
 
   // Calculate date range for query
   const queryStart = startOfMonth(addMonths(currentDate, -1));
@@ -50,11 +57,17 @@ export function MeetingsPage() {
     type: "MEETING",
     status: statusFilter !== "ALL" ? statusFilter : undefined,
     search: searchQuery || undefined,
+    onBehalfOf: principal?.principal.id,
   });
 
-  // Get current user to check role
+  // Get current user to check permissions
   const { data: currentUser } = useCurrentUser();
-  const isAdmin = currentUser?.role === "ADMIN";
+  // Delegates create for the principal (the server checks the principal's permissions)
+  const canCreate = principal
+    ? hasDelegationScope(principal.scopes, "EDIT")
+    : currentUser
+      ? canCreateRecord(currentUser.permissions.meetings)
+      : false;
 
   // Handlers
   const handleDateSelect = useCallback((date: Date) => {
@@ -82,8 +95,9 @@ export function MeetingsPage() {
     setIsFormOpen(true);
   }, []);
 
-  const handleEditEvent = useCallback((event: CalendarItemWithRelations) => {
+  const handleEditEvent = useCallback((event: CalendarItemWithRelations, scope?: RecurrenceScope) => {
     setEditingEvent(event);
+    setEditingScope(scope);
     setIsEventModalOpen(false);
     setIsFormOpen(true);
   }, []);
@@ -117,6 +131,9 @@ export function MeetingsPage() {
 
           {/* Right side - Filters and actions */}
           <div className="flex flex-wrap items-center gap-3">
+            {/* Calendar owner (for delegates) */}
+            <CalendarOwnerSwitcher principal={principal} onChange={setPrincipal} />
+
             {/* Search */}
             <div className="relative">
               <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
@@ -146,8 +163,8 @@ export function MeetingsPage() {
               </SelectContent>
             </Select>
 
-            {/* Create button - only for admin */}
-            {isAdmin && (
+            {/* Create button - only with EDIT permission */}
+            {canCreate && (
               <Button onClick={handleCreateEvent}>
                 <Plus className="h-4 w-4 mr-2" />
                 Create meeting
@@ -175,14 +192,17 @@ export function MeetingsPage() {
         event={selectedEvent}
         isOpen={isEventModalOpen}
         onClose={handleCloseEventModal}
-        onEdit={isAdmin ? handleEditEvent : undefined}
+        onEdit={handleEditEvent}
+        principal={principal}
       />
 
       {/* Event create/edit form */}
       <EventForm
         event={editingEvent}
+        scope={editingScope}
         isOpen={isFormOpen}
         onClose={handleCloseForm}
+        onBehalfOf={principal?.principal.id}
         defaultDate={selectedDate}
         defaultType="MEETING"
       />
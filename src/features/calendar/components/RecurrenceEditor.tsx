@@ -0,0 +1,206 @@
+"use client";
+
+import { format } from "date-fns";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  describeRecurrence,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+  WEEKDAY_LABELS,
+  WEEKDAYS,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type Weekday,
+} from "@/lib/recurrence";
+import { formatInTimeZone, zonedDateTime } from "@/lib/timeZones";
+
+// Select items cannot have an empty value
+const NONE = "none";
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: "Daily",
+  WEEKLY: "Weekly",
+  MONTHLY: "Monthly",
+  YEARLY: "Yearly",
+};
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: "day(s)",
+  WEEKLY: "week(s)",
+  MONTHLY: "month(s)",
+  YEARLY: "year(s)",
+};
+
+const ORDINAL_LABELS: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", 5: "last" };
+
+interface RecurrenceEditorProps {
+  value: string | null; // RRULE value, null for a one-off event
+  onChange: (value: string | null) => void;
+  startDate: string; // yyyy-MM-dd - weekday and day of month defaults come from it
+  timeZone: string; // Zone of the event - an end date is the end of that day there
+}
+
+/**
+ * Repeat settings of an event: frequency, interval, weekdays, monthly mode and end
+ */
+export function RecurrenceEditor({ value, onChange, startDate, timeZone }: RecurrenceEditorProps) {
+  const rule = value ? parseRecurrenceRule(value) : null;
+
+  const start = new Date(`${startDate || format(new Date(), "yyyy-MM-dd")}T00:00:00`);
+  const startWeekday = WEEKDAYS[(start.getDay() + 6) % 7];
+  const startNth = Math.ceil(start.getDate() / 7);
+
+  const endOfDay = (date: string) => zonedDateTime(date, "23:59", timeZone);
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (rule) onChange(formatRecurrenceRule({ ...rule, ...changes }));
+  };
+
+  const handleFrequencyChange = (frequency: string) => {
+    onChange(
+      frequency === NONE
+        ? null
+        : formatRecurrenceRule({ freq: frequency as RecurrenceFrequency, interval: 1, count: rule?.count, until: rule?.until })
+    );
+  };
+
+  const weekdays = rule?.byDay?.map((day) => day.weekday) ?? [startWeekday];
+  const toggleWeekday = (weekday: Weekday) => {
+    const next = weekdays.includes(weekday) ? weekdays.filter((d) => d !== weekday) : [...weekdays, weekday];
+    if (next.length === 0) return;
+    update({ byDay: WEEKDAYS.filter((d) => next.includes(d)).map((d) => ({ weekday: d })) });
+  };
+
+  const monthlyMode = rule?.byDay?.length ? "weekday" : "day";
+  const endMode = rule?.count !== undefined ? "count" : rule?.until ? "until" : "never";
+
+  const handleEndModeChange = (mode: string) => {
+    if (mode === "count") update({ count: 10, until: undefined });
+    else if (mode === "until") update({ count: undefined, until: endOfDay(startDate) });
+    else update({ count: undefined, until: undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Repeat</Label>
+        <Select value={rule?.freq ?? NONE} onValueChange={handleFrequencyChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Does not repeat</SelectItem>
+            {Object.entries(FREQUENCY_LABELS).map(([frequency, label]) => (
+              <SelectItem key={frequency} value={frequency}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {rule && (
+        <div className="border rounded-md p-3 space-y-3">
+          <div className="flex items-center gap-2 text-sm">
+            <span>Every</span>
+            <Input
+              type="number"
+              min={1}
+              max={1000}
+              value={rule.interval}
+              onChange={(e) => update({ interval: Math.min(1000, Math.max(1, Number(e.target.value) || 1)) })}
+              className="w-20"
+            />
+            <span>{UNIT_LABELS[rule.freq]}</span>
+          </div>
+
+          {rule.freq === "WEEKLY" && (
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAYS.map((weekday) => (
+                <button
+                  key={weekday}
+                  type="button"
+                  onClick={() => toggleWeekday(weekday)}
+                  className={`h-8 w-11 rounded-md border text-xs ${
+                    weekdays.includes(weekday) ? "bg-primary text-primary-foreground border-primary" : "bg-white"
+                  }`}
+                >
+                  {WEEKDAY_LABELS[weekday]}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {rule.freq === "MONTHLY" && (
+            <Select
+              value={monthlyMode}
+              onValueChange={(mode) =>
+                update(
+                  mode === "weekday"
+                    ? { byDay: [{ weekday: startWeekday, nth: startNth > 4 ? -1 : startNth }], byMonthDay: undefined }
+                    : { byDay: undefined, byMonthDay: undefined }
+                )
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">On day {start.getDate()}</SelectItem>
+                <SelectItem value="weekday">
+                  On the {ORDINAL_LABELS[startNth]} {WEEKDAY_LABELS[startWeekday]}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+
+          <div className="flex items-center gap-2 text-sm">
+            <span>Ends</span>
+            <Select value={endMode} onValueChange={handleEndModeChange}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="count">After</SelectItem>
+                <SelectItem value="until">On</SelectItem>
+              </SelectContent>
+            </Select>
+            {endMode === "count" && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={rule.count}
+                  onChange={(e) => update({ count: Math.min(1000, Math.max(1, Number(e.target.value) || 1)) })}
+                  className="w-20"
+                />
+                <span>times</span>
+              </>
+            )}
+            {endMode === "until" && rule.until && (
+              <Input
+                type="date"
+                value={formatInTimeZone(rule.until, timeZone, "yyyy-MM-dd")}
+                min={startDate}
+                onChange={(e) => e.target.value && update({ until: endOfDay(e.target.value) })}
+                className="w-40"
+              />
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500">{describeRecurrence(rule)}</p>
+        </div>
+      )}
+    </div>
+  );
+}
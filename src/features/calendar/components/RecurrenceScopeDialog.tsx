@@ -0,0 +1,66 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { RecurrenceScope } from "../types";
+import { RECURRENCE_SCOPE_LABELS } from "../types";
+
+interface RecurrenceScopeDialogProps {
+  action: "edit" | "delete" | null; // null - closed
+  isPending?: boolean;
+  onSelect: (scope: RecurrenceScope) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks which occurrences of a recurring event an edit or delete applies to
+ */
+export function RecurrenceScopeDialog({ action, isPending, onSelect, onCancel }: RecurrenceScopeDialogProps) {
+  const [scope, setScope] = useState<RecurrenceScope>("this");
+
+  return (
+    <Dialog open={action !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{action === "delete" ? "Delete recurring event" : "Edit recurring event"}</DialogTitle>
+          <DialogDescription>Apply to</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {(Object.keys(RECURRENCE_SCOPE_LABELS) as RecurrenceScope[]).map((value) => (
+            <label key={value} className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="radio"
+                name="recurrence-scope"
+                checked={scope === value}
+                onChange={() => setScope(value)}
+                className="h-4 w-4 border-gray-300"
+              />
+              {RECURRENCE_SCOPE_LABELS[value]}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            variant={action === "delete" ? "destructive" : "default"}
+            onClick={() => onSelect(scope)}
+            disabled={isPending}
+          >
+            {action === "delete" ? "Delete" : "Continue"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
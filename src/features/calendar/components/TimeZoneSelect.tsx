@@ -0,0 +1,53 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { listTimeZones } from "@/lib/timeZones";
+
+// Select items cannot have an empty value
+const DEFAULT = "default";
+
+interface TimeZoneSelectProps {
+  value: string | null; // IANA zone, null - the default
+  onChange: (value: string | null) => void;
+  defaultLabel?: string; // Offers a "default" option when set
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Picker of IANA time zones
+ */
+export function TimeZoneSelect({ value, onChange, defaultLabel, disabled, className }: TimeZoneSelectProps) {
+  const zones = useMemo(() => {
+    const all = listTimeZones();
+    // Keep a stored zone the runtime does not list (e.g. a legacy alias) selectable
+    return value && !all.includes(value) ? [value, ...all] : all;
+  }, [value]);
+
+  return (
+    <Select
+      value={value ?? DEFAULT}
+      onValueChange={(next) => onChange(next === DEFAULT ? null : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="max-h-72">
+        {defaultLabel && <SelectItem value={DEFAULT}>{defaultLabel}</SelectItem>}
+        {zones.map((zone) => (
+          <SelectItem key={zone} value={zone}>
+            {zone.replace(/_/g, " ")}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,11 +1,19 @@
 "use client";
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import type { CalendarItemWithRelations, CalendarItemType, ItemStatus } from "../types";
+import type {
+  CalendarItemWithRelations,
+  CalendarItemType,
+  ItemStatus,
+  ParticipantConflicts,
+} from "../types";
 import type {
   CreateCalendarItemInput,
+  DeleteCalendarItemInput,
+  RsvpInput,
   UpdateCalendarItemInput,
 } from "@/lib/validations/calendar";
+import { csrfFetch } from "@/lib/csrfFetch";
 
 interface GetCalendarItemsParams {
   from?: string;
@@ -13,6 +21,17 @@ interface GetCalendarItemsParams {
   type?: CalendarItemType;
   status?: ItemStatus;
   search?: string;
+  onBehalfOf?: string; // Principal id - a delegate viewing their calendar
+}
+
+/**
+ * A meeting was not saved because of its participants' conflicts (sent with rejectOnConflict)
+ */
+export class SchedulingConflictError extends Error {
+  constructor(public conflicts: ParticipantConflicts[]) {
+    super("Participants have scheduling conflicts");
+    this.name = "SchedulingConflictError";
+  }
 }
 
 async function fetchCalendarItems(
@@ -25,6 +44,7 @@ async function fetchCalendarItems(
   if (params.type) searchParams.set("type", params.type);
   if (params.status) searchParams.set("status", params.status);
   if (params.search) searchParams.set("search", params.search);
+  if (params.onBehalfOf) searchParams.set("onBehalfOf", params.onBehalfOf);
 
   const response = await fetch(`/api/calendar/items?${searchParams.toString()}`);
 
@@ -39,7 +59,7 @@ async function fetchCalendarItems(
 async function createCalendarItem(
   input: CreateCalendarItemInput
 ): Promise<CalendarItemWithRelations> {
-  const response = await fetch("/api/calendar/items", {
+  const response = await csrfFetch("/api/calendar/items", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify(input),
@@ -47,6 +67,9 @@ async function createCalendarItem(
 
   if (!response.ok) {
     const error = await response.json();
+    if (response.status === 409 && error.conflicts) {
+      throw new SchedulingConflictError(error.conflicts);
+    }
     throw new Error(error.error || "Failed to create calendar item");
   }
 
@@ -58,7 +81,7 @@ async function updateCalendarItem({
   id,
   ...input
 }: UpdateCalendarItemInput & { id: string }): Promise<CalendarItemWithRelations> {
-  const response = await fetch(`/api/calendar/items/${id}`, {
+  const response = await csrfFetch(`/api/calendar/items/${id}`, {
     method: "PATCH",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify(input),
@@ -66,6 +89,9 @@ async function updateCalendarItem({
 
   if (!response.ok) {
     const error = await response.json();
+    if (response.status === 409 && error.conflicts) {
+      throw new SchedulingConflictError(error.conflicts);
+    }
     throw new Error(error.error || "Failed to update calendar item");
   }
 
@@ -73,8 +99,13 @@ async function updateCalendarItem({
   return data.item;
 }
 
-async function deleteCalendarItem(id: string): Promise<void> {
-  const response = await fetch(`/api/calendar/items/${id}`, {
+async function deleteCalendarItem({ id, ...input }: DeleteCalendarItemInput & { id: string }): Promise<void> {
+  const searchParams = new URLSearchParams();
+
+  if (input.scope) searchParams.set("scope", input.scope);
+  if (input.occurrenceStart) searchParams.set("occurrenceStart", input.occurrenceStart);
+
+  const response = await csrfFetch(`/api/calendar/items/${id}?${searchParams.toString()}`, {
     method: "DELETE",
   });
 
@@ -84,6 +115,19 @@ async function deleteCalendarItem(id: string): Promise<void> {
   }
 }
 
+async function respondToCalendarItem({ id, ...input }: RsvpInput & { id: string }): Promise<void> {
+  const response = await csrfFetch(`/api/calendar/items/${id}/rsvp`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to save response");
+  }
+}
+
 export function useCalendarItems(params: GetCalendarItemsParams = {}) {
   return useQuery({
     queryKey: ["calendarItems", params],
@@ -123,3 +167,14 @@ export function useDeleteCalendarItem() {
     },
   });
 }
+
+export function useRespondToCalendarItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: respondToCalendarItem,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["calendarItems"] });
+    },
+  });
+}
@@ -1,12 +1,17 @@
 "use client";
 
 import { useQuery } from "@tanstack/react-query";
+import type { EffectivePermissions } from "@/lib/permissions";
+import { localTimeZone } from "@/lib/timeZones";
 
 interface CurrentUser {
   id: string;
   name: string;
   email: string;
   role: "ADMIN" | "USER";
+  permissions: EffectivePermissions;
+  timeZone: string | null; // Own choice, null - the workspace default
+  effectiveTimeZone: string; // Zone times are shown in
 }
 
 async function fetchCurrentUser(): Promise<CurrentUser | null> {
@@ -36,3 +41,11 @@ export function useCurrentUser() {
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 }
+
+/**
+ * Time zone the current user sees times in (the browser's until the user is loaded)
+ */
+export function useViewerTimeZone(): string {
+  const { data: currentUser } = useCurrentUser();
+  return currentUser?.effectiveTimeZone ?? localTimeZone();
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { DelegationScope } from "@/lib/delegationScopes";
+import type { DelegationInfo } from "../types";
+import { csrfFetch } from "@/lib/csrfFetch";
+
+async function fetchDelegations(): Promise<{ granted: DelegationInfo[]; received: DelegationInfo[] }> {
+  const response = await fetch("/api/calendar/delegations", { cache: "no-store" });
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch delegations");
+  }
+
+  return response.json();
+}
+
+async function saveDelegation(data: { delegateId: string; scopes: DelegationScope[] }): Promise<DelegationInfo> {
+  const response = await csrfFetch("/api/calendar/delegations", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to save delegation");
+  }
+
+  const result = await response.json();
+  return result.delegation;
+}
+
+async function deleteDelegation(delegationId: string): Promise<void> {
+  const response = await csrfFetch(`/api/calendar/delegations/${delegationId}`, {
+    method: "DELETE",
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || "Failed to revoke delegation");
+  }
+}
+
+export function useDelegations() {
+  return useQuery({
+    queryKey: ["delegations"],
+    queryFn: fetchDelegations,
+  });
+}
+
+export function useSaveDelegation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveDelegation,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["delegations"] });
+    },
+  });
+}
+
+export function useDeleteDelegation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteDelegation,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["delegations"] });
+      queryClient.invalidateQueries({ queryKey: ["calendarItems"] });
+    },
+  });
+}
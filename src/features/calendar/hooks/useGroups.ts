@@ -0,0 +1,28 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+
+export interface GroupBasic {
+  id: string;
+  name: string;
+  memberIds: string[];
+}
+
+async function fetchGroups(): Promise<GroupBasic[]> {
+  const response = await fetch("/api/groups");
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch groups");
+  }
+
+  const data = await response.json();
+  return data.groups;
+}
+
+export function useGroups() {
+  return useQuery({
+    queryKey: ["groups"],
+    queryFn: fetchGroups,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
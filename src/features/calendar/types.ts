@@ -1,4 +1,5 @@
 import type { CalendarItem, CalendarItemParticipant, User } from "@prisma/client";
+import type { DelegationScope } from "@/lib/delegationScopes";
 
 // String literal types (matching Prisma schema)
 export type Role = "ADMIN" | "USER";
@@ -6,12 +7,46 @@ export type CalendarItemType = "MEETING" | "DEADLINE";
 export type ItemStatus = "DRAFT" | "CONFIRMED" | "DONE" | "CANCELED";
 export type ParticipantRole = "OWNER" | "PARTICIPANT" | "RESPONSIBLE";
 export type RsvpStatus = "YES" | "NO" | "MAYBE";
+export type CalendarVisibility = "PUBLIC" | "BUSY_ONLY" | "PRIVATE";
 
 export interface CalendarItemWithRelations extends CalendarItem {
   createdBy: Pick<User, "id" | "name" | "email">;
   participants: (CalendarItemParticipant & {
     user: Pick<User, "id" | "name" | "email">;
   })[];
+  // Busy-only item of someone else: title, description, location and participants are blanked
+  redacted: boolean;
+  // Occurrence of a recurring series: the start of its slot in the series (null for plain items)
+  occurrenceStart?: Date | null;
+}
+
+// Which occurrences of a series an edit or delete applies to
+export type RecurrenceScope = "this" | "following" | "all";
+
+// Participant's conflict with a meeting, as returned by the items API (see lib/schedulingConflicts)
+export type SchedulingConflict =
+  | {
+      type: "OVERLAP";
+      item: { id: string | null; title: string; startAt: string; endAt: string };
+    }
+  | {
+      type: "OUTSIDE_HOURS";
+      shift: { date: string; startTime: number; endTime: number; timeZone: string } | null;
+    }
+  | { type: "NO_SCHEDULE"; date: string };
+
+export interface ParticipantConflicts {
+  user: { id: string; name: string };
+  conflicts: SchedulingConflict[];
+}
+
+// Delegation as returned by /api/calendar/delegations
+export interface DelegationInfo {
+  id: string;
+  principal: Pick<User, "id" | "name" | "email">;
+  delegate: Pick<User, "id" | "name" | "email">;
+  scopes: DelegationScope[];
+  createdAt: string;
 }
 
 export interface CalendarViewType {
@@ -37,6 +72,18 @@ export const STATUS_LABELS: Record<ItemStatus, string> = {
   CANCELED: "Canceled",
 };
 
+export const VISIBILITY_LABELS: Record<CalendarVisibility, string> = {
+  PUBLIC: "Public",
+  BUSY_ONLY: "Busy only",
+  PRIVATE: "Private",
+};
+
+export const RECURRENCE_SCOPE_LABELS: Record<RecurrenceScope, string> = {
+  this: "This event",
+  following: "This and following events",
+  all: "All events",
+};
+
 export const STATUS_COLORS: Record<ItemStatus, string> = {
   DRAFT: "bg-gray-100 text-gray-800",
   CONFIRMED: "bg-blue-100 text-blue-800",
@@ -5,8 +5,10 @@ import { toast } from "sonner";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { useViewerTimeZone } from "@/features/calendar/hooks/useCurrentUser";
 import { useDeleteScheduleEntry } from "../hooks/useSchedule";
 import type { ScheduleEntryWithRelations } from "../types";
+import { formatInTimeZone, scheduleEntryInterval } from "@/lib/timeZones";
 import { formatTimeRange, getInitials, stringToColor } from "@/lib/utils";
 
 interface ScheduleEntryProps {
@@ -16,6 +18,18 @@ interface ScheduleEntryProps {
 
 export function ScheduleEntry({ entry, onEdit }: ScheduleEntryProps) {
   const deleteEntry = useDeleteScheduleEntry();
+  const viewerTimeZone = useViewerTimeZone();
+
+  // Shift times are local to the person working it; others see them converted to their own zone
+  const localTimes = formatTimeRange(entry.startTime, entry.endTime);
+  const interval = entry.timeZone !== viewerTimeZone ? scheduleEntryInterval(entry, entry.timeZone) : null;
+  const viewerTimes = interval
+    ? `${formatInTimeZone(interval.start, viewerTimeZone, "HH:mm")}–${formatInTimeZone(
+        interval.end,
+        viewerTimeZone,
+        "HH:mm"
+      )}`
+    : localTimes;
 
   const handleDelete = async () => {
     if (!confirm(`Delete entry for ${entry.user.name}?`)) return;
@@ -42,15 +56,18 @@ export function ScheduleEntry({ entry, onEdit }: ScheduleEntryProps) {
         {/* Info */}
         <div className="flex-1 min-w-0">
           <p className="font-medium text-gray-900 truncate">{entry.user.name}</p>
-          <p className="text-sm font-mono text-gray-600">
-            {formatTimeRange(entry.startTime, entry.endTime)}
-          </p>
+          <p className="text-sm font-mono text-gray-600">{viewerTimes}</p>
+          {interval && viewerTimes !== localTimes && (
+            <p className="text-xs text-gray-500">
+              {localTimes} {entry.timeZone}
+            </p>
+          )}
           {entry.note && (
             <p className="text-xs text-gray-500 mt-1 truncate">{entry.note}</p>
           )}
         </div>
 
-        {/* Actions - only for admin */}
+        {/* Actions - only with EDIT permission for this entry */}
         {onEdit && (
           <div className="flex items-center gap-1">
             <Button
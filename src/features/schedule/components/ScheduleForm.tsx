@@ -21,6 +21,8 @@ import {
 } from "@/components/ui/select";
 import { useCreateScheduleEntry, useUpdateScheduleEntry } from "../hooks/useSchedule";
 import { useUsers } from "@/features/calendar/hooks/useUsers";
+import { useCurrentUser } from "@/features/calendar/hooks/useCurrentUser";
+import { canEditScheduleEntry } from "@/lib/permissions";
 import type { ScheduleEntryWithRelations } from "../types";
 import { minutesToTime, timeToMinutes } from "@/lib/utils";
 
@@ -43,9 +45,17 @@ export function ScheduleForm({ entry, isOpen, onClose, date }: ScheduleFormProps
 
   // Queries
   const { data: users = [] } = useUsers();
+  const { data: currentUser } = useCurrentUser();
   const createEntry = useCreateScheduleEntry();
   const updateEntry = useUpdateScheduleEntry();
 
+  // Only people whose schedule the current user may edit (themselves unless allLevel is EDIT)
+  const selectableUsers = users.filter(
+    (user) =>
+      !!currentUser && canEditScheduleEntry(currentUser.permissions, currentUser.id, { userId: user.id })
+  );
+  const defaultUserId = selectableUsers.length === 1 ? selectableUsers[0].id : "";
+
   // Initialize form
   useEffect(() => {
     if (entry) {
@@ -54,13 +64,14 @@ export function ScheduleForm({ entry, isOpen, onClose, date }: ScheduleFormProps
       setEndTime(minutesToTime(entry.endTime));
       setNote(entry.note || "");
     } else {
-      setUserId("");
+      // Preselect the current user when they can only add entries for themselves
+      setUserId(defaultUserId);
       setStartTime("09:00");
       setEndTime("18:00");
       setNote("");
     }
     setError("");
-  }, [entry, isOpen]);
+  }, [entry, isOpen, defaultUserId]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -141,7 +152,7 @@ export function ScheduleForm({ entry, isOpen, onClose, date }: ScheduleFormProps
                 <SelectValue placeholder="Select employee" />
               </SelectTrigger>
               <SelectContent>
-                {users.map((user) => (
+                {selectableUsers.map((user) => (
                   <SelectItem key={user.id} value={user.id}>
                     {user.name}
                   </SelectItem>
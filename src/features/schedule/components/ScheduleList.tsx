@@ -6,16 +6,17 @@ import type { ScheduleEntryWithRelations } from "../types";
 interface ScheduleListProps {
   entries: ScheduleEntryWithRelations[];
   onEdit?: (entry: ScheduleEntryWithRelations) => void;
+  canEdit?: (entry: ScheduleEntryWithRelations) => boolean;
 }
 
-export function ScheduleList({ entries, onEdit }: ScheduleListProps) {
+export function ScheduleList({ entries, onEdit, canEdit }: ScheduleListProps) {
   return (
     <div className="space-y-3">
       {entries.map((entry) => (
         <ScheduleEntry
           key={entry.id}
           entry={entry}
-          onEdit={onEdit ? () => onEdit(entry) : undefined}
+          onEdit={onEdit && (!canEdit || canEdit(entry)) ? () => onEdit(entry) : undefined}
         />
       ))}
     </div>
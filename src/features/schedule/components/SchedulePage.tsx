@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useCallback, useRef, useEffect } from "react";
-import { format, startOfMonth, endOfMonth, addMonths } from "date-fns";
+import { format, parseISO, startOfMonth, endOfMonth, addMonths } from "date-fns";
 import { enUS } from "date-fns/locale";
 import { Plus, Calendar } from "lucide-react";
 import FullCalendar from "@fullcalendar/react";
@@ -14,8 +14,9 @@ import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScheduleList } from "./ScheduleList";
 import { ScheduleForm } from "./ScheduleForm";
 import { useSchedule } from "../hooks/useSchedule";
-import { useCurrentUser } from "@/features/calendar/hooks/useCurrentUser";
-import { formatDateToISO } from "@/lib/utils";
+import { useCurrentUser, useViewerTimeZone } from "@/features/calendar/hooks/useCurrentUser";
+import { calendarDateInTimeZone, formatInTimeZone } from "@/lib/timeZones";
+import { canCreateRecord, canEditScheduleEntry } from "@/lib/permissions";
 import type { ScheduleEntryWithRelations } from "../types";
 import { CALENDAR_VIEWS } from "@/features/calendar/types";
 
@@ -24,7 +25,10 @@ export function SchedulePage() {
 
   // Calendar state
   const [currentDate, setCurrentDate] = useState(new Date());
-  const [selectedDate, setSelectedDate] = useState(new Date());
+  // Days are calendar dates; "today" is the viewer's today (FullCalendar works with local dates)
+  const viewerTimeZone = useViewerTimeZone();
+  const [pickedDate, setSelectedDate] = useState<Date | null>(null);
+  const selectedDate = pickedDate ?? parseISO(calendarDateInTimeZone(new Date(), viewerTimeZone));
   const [viewType, setViewType] = useState<"dayGridMonth" | "timeGridWeek" | "timeGridDay">(
     "dayGridMonth"
   );
@@ -34,12 +38,17 @@ export function SchedulePage() {
   const [editingEntry, setEditingEntry] = useState<ScheduleEntryWithRelations | null>(null);
 
   // Fetch schedule for selected date
-  const dateStr = formatDateToISO(selectedDate);
+  const dateStr = format(selectedDate, "yyyy-MM-dd");
   const { data: entries = [], isLoading } = useSchedule(dateStr);
 
-  // Get current user to check role
+  // Get current user to check permissions
   const { data: currentUser } = useCurrentUser();
-  const isAdmin = currentUser?.role === "ADMIN";
+  const canCreate = currentUser ? canCreateRecord(currentUser.permissions.schedule) : false;
+  const canEditEntry = useCallback(
+    (entry: ScheduleEntryWithRelations) =>
+      !!currentUser && canEditScheduleEntry(currentUser.permissions, currentUser.id, entry),
+    [currentUser]
+  );
 
   // Update calendar view when viewType changes
   useEffect(() => {
@@ -116,6 +125,7 @@ export function SchedulePage() {
                 right: "",
               }}
               locale="en"
+              now={() => formatInTimeZone(new Date(), viewerTimeZone, "yyyy-MM-dd'T'HH:mm:ss")}
               firstDay={1}
               selectable={true}
               selectMirror={true}
@@ -151,7 +161,7 @@ export function SchedulePage() {
                     {format(selectedDate, "d MMMM yyyy", { locale: enUS })}
                   </div>
                 </div>
-                {isAdmin && (
+                {canCreate && (
                   <Button size="sm" onClick={handleAddClick}>
                     <Plus className="h-4 w-4 mr-1" />
                     Add
@@ -169,14 +179,14 @@ export function SchedulePage() {
               ) : entries.length === 0 ? (
                 <div className="text-center text-gray-500 py-8">
                   <p>No entries for this day</p>
-                  {isAdmin && (
+                  {canCreate && (
                     <Button variant="link" onClick={handleAddClick} className="mt-2">
                       Add entry
                     </Button>
                   )}
                 </div>
               ) : (
-                <ScheduleList entries={entries} onEdit={isAdmin ? handleEditEntry : undefined} />
+                <ScheduleList entries={entries} onEdit={handleEditEntry} canEdit={canEditEntry} />
               )}
             </div>
           </div>
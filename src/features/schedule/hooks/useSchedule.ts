@@ -6,6 +6,7 @@ import type {
   CreateScheduleEntryInput,
   UpdateScheduleEntryInput,
 } from "@/lib/validations/schedule";
+import { csrfFetch } from "@/lib/csrfFetch";
 
 async function fetchSchedule(date: string): Promise<ScheduleEntryWithRelations[]> {
   const response = await fetch(`/api/schedule?date=${date}`);
@@ -21,7 +22,7 @@ async function fetchSchedule(date: string): Promise<ScheduleEntryWithRelations[]
 async function createScheduleEntry(
   input: CreateScheduleEntryInput
 ): Promise<ScheduleEntryWithRelations> {
-  const response = await fetch("/api/schedule", {
+  const response = await csrfFetch("/api/schedule", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify(input),
@@ -40,7 +41,7 @@ async function updateScheduleEntry({
   id,
   ...input
 }: UpdateScheduleEntryInput & { id: string }): Promise<ScheduleEntryWithRelations> {
-  const response = await fetch(`/api/schedule/${id}`, {
+  const response = await csrfFetch(`/api/schedule/${id}`, {
     method: "PATCH",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify(input),
@@ -56,7 +57,7 @@ async function updateScheduleEntry({
 }
 
 async function deleteScheduleEntry(id: string): Promise<void> {
-  const response = await fetch(`/api/schedule/${id}`, {
+  const response = await csrfFetch(`/api/schedule/${id}`, {
     method: "DELETE",
   });
 
@@ -3,6 +3,7 @@ import type { ScheduleEntry, User } from "@prisma/client";
 export interface ScheduleEntryWithRelations extends ScheduleEntry {
   user: Pick<User, "id" | "name" | "email">;
   createdBy: Pick<User, "id" | "name">;
+  timeZone: string; // Zone of startTime/endTime - that of the user working the shift
 }
 
 export interface ScheduleFormData {
@@ -0,0 +1,42 @@
+/**
+ * API Token Scopes
+ * Client-safe (no server imports) - shared by the token routes, auth checks and the tokens UI
+ * Module scopes mirror the permission modules (meetings | deadlines | schedule)
+ */
+
+export const API_MODULES = ["meetings", "deadlines", "schedule"] as const;
+export type ApiModule = (typeof API_MODULES)[number];
+
+export type ApiAccess = "read" | "write";
+
+export type ApiScope = `${ApiModule}:${ApiAccess}` | "admin";
+
+export const API_SCOPES: ApiScope[] = [
+  ...API_MODULES.flatMap((module) => [`${module}:read`, `${module}:write`] as ApiScope[]),
+  "admin",
+];
+
+export const API_SCOPE_DESCRIPTIONS: Record<ApiScope, string> = {
+  "meetings:read": "Read meetings",
+  "meetings:write": "Create, edit and delete meetings",
+  "deadlines:read": "Read deadlines",
+  "deadlines:write": "Create, edit and delete deadlines",
+  "schedule:read": "Read schedule entries",
+  "schedule:write": "Create, edit and delete schedule entries",
+  admin: "Admin API (users, permissions, sessions, invitations) - admins only",
+};
+
+export function isApiScope(value: string): value is ApiScope {
+  return (API_SCOPES as string[]).includes(value);
+}
+
+export function scopeFor(module: ApiModule, access: ApiAccess): ApiScope {
+  return `${module}:${access}`;
+}
+
+/**
+ * Module a calendar item belongs to, by its type (MEETING | DEADLINE)
+ */
+export function calendarItemModule(type: string): ApiModule {
+  return type === "DEADLINE" ? "deadlines" : "meetings";
+}
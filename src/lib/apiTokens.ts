@@ -0,0 +1,119 @@
+/**
+ * Personal API Tokens
+ * Long-lived bearer tokens for scripts, limited by scopes and an expiry
+ * Only the SHA-256 hash is stored - the raw token is returned once at creation
+ */
+
+import type { ApiToken, User } from "@prisma/client";
+import { db } from "./db";
+import { isApiScope, type ApiScope } from "./apiScopes";
+import { generateToken, hashToken } from "./tokens";
+
+// Recognizable prefix (helps secret scanners and users tell tokens apart from other secrets)
+const TOKEN_PREFIX = "cal_";
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 8;
+const LAST_USED_UPDATE_INTERVAL_MS = 1000 * 60 * 5; // Avoid a DB write on every request
+
+export const MAX_API_TOKEN_LIFETIME_DAYS = 365;
+
+export type ApiTokenWithUser = ApiToken & { user: User };
+
+/**
+ * Public view of a token (never includes the hash)
+ */
+export interface ApiTokenSummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiScope[];
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+function toSummary(token: ApiToken): ApiTokenSummary {
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    scopes: token.scopes.filter(isApiScope),
+    expiresAt: token.expiresAt,
+    lastUsedAt: token.lastUsedAt,
+    createdAt: token.createdAt,
+  };
+}
+
+/**
+ * Create a token
+ * @returns raw token (shown to the user once) and its summary
+ */
+export async function createApiToken(
+  userId: string,
+  data: { name: string; scopes: ApiScope[]; expiresAt: Date }
+): Promise<{ token: string; apiToken: ApiTokenSummary }> {
+  const token = `${TOKEN_PREFIX}${generateToken()}`;
+  const apiToken = await db.apiToken.create({
+    data: {
+      userId,
+      name: data.name,
+      tokenHash: hashToken(token),
+      prefix: token.substring(0, DISPLAY_PREFIX_LENGTH),
+      scopes: Array.from(new Set(data.scopes)),
+      expiresAt: data.expiresAt,
+    },
+  });
+
+  return { token, apiToken: toSummary(apiToken) };
+}
+
+/**
+ * List a user's tokens that are neither revoked nor expired
+ */
+export async function listApiTokens(userId: string): Promise<ApiTokenSummary[]> {
+  const tokens = await db.apiToken.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return tokens.map(toSummary);
+}
+
+/**
+ * Revoke one of the user's tokens
+ * @returns false if the token does not exist, belongs to someone else or is already revoked
+ */
+export async function revokeApiToken(userId: string, tokenId: string): Promise<boolean> {
+  const result = await db.apiToken.updateMany({
+    where: { id: tokenId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Resolve a raw bearer token to an active (not revoked, not expired) token with its user
+ */
+export async function findActiveApiToken(rawToken: string): Promise<ApiTokenWithUser | null> {
+  if (!rawToken.startsWith(TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const apiToken = await db.apiToken.findUnique({
+    where: { tokenHash: hashToken(rawToken) },
+    include: { user: true },
+  });
+
+  if (!apiToken || apiToken.revokedAt || apiToken.expiresAt <= new Date()) {
+    return null;
+  }
+
+  if (!apiToken.lastUsedAt || Date.now() - apiToken.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+    await db.apiToken.update({
+      where: { id: apiToken.id },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  return apiToken;
+}
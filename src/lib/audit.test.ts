@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AuditEventSummary } from "./audit";
+
+vi.mock("./db", () => ({ db: {} }));
+
+const { auditEventsToCsv } = await import("./audit");
+
+function event(overrides: Partial<AuditEventSummary> = {}): AuditEventSummary {
+  return {
+    id: "event",
+    action: "update",
+    entityType: "calendar_item",
+    entityId: "item",
+    before: null,
+    after: null,
+    ip: null,
+    requestId: null,
+    createdAt: new Date("2026-05-04T09:00:00Z"),
+    actor: { id: "admin", name: "Admin", email: "admin@example.com" },
+    onBehalfOf: null,
+    ...overrides,
+  };
+}
+
+describe("auditEventsToCsv", () => {
+  it("writes a header and one row per event with non-empty cells quoted, ending in CRLF", () => {
+    const csv = auditEventsToCsv([event()]);
+
+    expect(csv).toBe(
+      "createdAt,actorId,actorEmail,onBehalfOfEmail,action,entityType,entityId,before,after,ip,requestId\r\n" +
+        '"2026-05-04T09:00:00.000Z","admin","admin@example.com",,"update","calendar_item","item",,,,\r\n'
+    );
+  });
+
+  it("doubles quotes and serializes snapshots as JSON", () => {
+    const csv = auditEventsToCsv([event({ before: { title: 'Say "hi"' }, after: { title: "Bye" } })]);
+
+    expect(csv).toContain(',"{""title"":""Say \\""hi\\""""}","{""title"":""Bye""}",');
+  });
+
+  it.each(["=HYPERLINK(\"x\")", "+1", "-1", "@SUM(A1)", "\t=1", "\r=1"])(
+    "neutralizes a cell starting like a formula: %j",
+    (entityId) => {
+      const csv = auditEventsToCsv([event({ entityId })]);
+
+      expect(csv).toContain(`,"calendar_item","'${entityId.replace(/"/g, '""')}",`);
+    }
+  );
+});
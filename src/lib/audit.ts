@@ -0,0 +1,279 @@
+/**
+ * Audit Log
+ * Persistent record of mutations and logins: actor, action, entity, before/after snapshots, IP and request id
+ * Writing never fails the request - errors are logged and the mutation stands
+ */
+
+import type { NextRequest } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { db } from "./db";
+import { logger } from "./logger";
+import { getClientIp } from "./request";
+
+export const AUDIT_ACTIONS = ["create", "update", "delete", "login", "login_failed", "logout"] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_ENTITY_TYPES = [
+  "calendar_item",
+  "participant",
+  "schedule_entry",
+  "permission",
+  "group",
+  "permission_preset",
+  "user",
+  "delegation",
+] as const;
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export interface AuditEventInput {
+  actorId: string | null;
+  onBehalfOfId?: string | null; // Principal, when the actor used a calendar delegation
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEventFilter {
+  actorId?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Audit event as shown to admins
+ */
+export interface AuditEventSummary {
+  id: string;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  before: unknown;
+  after: unknown;
+  ip: string | null;
+  requestId: string | null;
+  createdAt: Date;
+  actor: { id: string; name: string; email: string } | null;
+  onBehalfOf: { id: string; name: string; email: string } | null;
+}
+
+// Never stored, even if a caller passes a whole row
+const SECRET_KEYS = new Set(["passwordHash", "totpSecret", "tokenHash", "codeHash"]);
+
+// One id per request, shared by all events written while handling it
+const requestIds = new WeakMap<NextRequest, string>();
+
+function getRequestId(request: NextRequest): string {
+  let requestId = requestIds.get(request);
+  if (!requestId) {
+    requestId =
+      request.headers.get("x-request-id")?.substring(0, 100) ||
+      `req_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+    requestIds.set(request, requestId);
+  }
+  return requestId;
+}
+
+/**
+ * JSON snapshot without secrets (dates become ISO strings)
+ */
+function toSnapshot(value: unknown): Prisma.InputJsonValue | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  return JSON.parse(
+    JSON.stringify(value, (key, v) => (SECRET_KEYS.has(key) ? undefined : v))
+  ) as Prisma.InputJsonValue;
+}
+
+/**
+ * Snapshot of a calendar item with its participants
+ * Works for both plain rows and rows with the usual createdBy/participants.user includes
+ */
+export function calendarItemSnapshot(item: {
+  id: string;
+  type: string;
+  title: string;
+  description: string | null;
+  startAt: Date;
+  endAt: Date | null;
+  allDay: boolean;
+  timeZone: string | null;
+  status: string;
+  location: string | null;
+  visibility: string;
+  recurrence: string | null;
+  exceptionDates: Date[];
+  seriesId: string | null;
+  originalStartAt: Date | null;
+  createdById: string;
+  participants?: Array<{ userId: string; role: string; rsvp: string | null }>;
+}) {
+  return {
+    id: item.id,
+    type: item.type,
+    title: item.title,
+    description: item.description,
+    startAt: item.startAt,
+    endAt: item.endAt,
+    allDay: item.allDay,
+    timeZone: item.timeZone,
+    status: item.status,
+    location: item.location,
+    visibility: item.visibility,
+    recurrence: item.recurrence,
+    exceptionDates: item.exceptionDates,
+    seriesId: item.seriesId,
+    originalStartAt: item.originalStartAt,
+    createdById: item.createdById,
+    participants: item.participants?.map(({ userId, role, rsvp }) => ({ userId, role, rsvp })),
+  };
+}
+
+/**
+ * Snapshot of a schedule entry (relation includes are dropped)
+ */
+export function scheduleEntrySnapshot(entry: {
+  id: string;
+  date: Date;
+  startTime: number;
+  endTime: number;
+  note: string | null;
+  userId: string;
+  createdById: string;
+}) {
+  return {
+    id: entry.id,
+    date: entry.date,
+    startTime: entry.startTime,
+    endTime: entry.endTime,
+    note: entry.note,
+    userId: entry.userId,
+    createdById: entry.createdById,
+  };
+}
+
+/**
+ * Write an audit event for the current request
+ */
+export async function recordAuditEvent(request: NextRequest, input: AuditEventInput): Promise<void> {
+  try {
+    const ip = getClientIp(request);
+
+    await db.auditEvent.create({
+      data: {
+        actorId: input.actorId,
+        onBehalfOfId: input.onBehalfOfId ?? null,
+        action: input.action,
+        entityType: input.entityType,
+        entityId: input.entityId ?? null,
+        before: toSnapshot(input.before),
+        after: toSnapshot(input.after),
+        ip: ip === "unknown" ? null : ip,
+        requestId: getRequestId(request),
+      },
+    });
+  } catch (error) {
+    logger.error("Failed to write audit event", {
+      error: error instanceof Error ? error.message : String(error),
+      action: input.action,
+      entityType: input.entityType,
+      entityId: input.entityId,
+    });
+  }
+}
+
+function toWhere(filter: AuditEventFilter): Prisma.AuditEventWhereInput {
+  return {
+    ...(filter.actorId && { actorId: filter.actorId }),
+    ...(filter.entityType && { entityType: filter.entityType }),
+    ...(filter.entityId && { entityId: filter.entityId }),
+    ...((filter.from || filter.to) && {
+      createdAt: {
+        ...(filter.from && { gte: filter.from }),
+        ...(filter.to && { lte: filter.to }),
+      },
+    }),
+  };
+}
+
+/**
+ * Audit events matching the filter, newest first
+ * Pass the id of the last event of the previous page as cursor
+ */
+export async function listAuditEvents(
+  filter: AuditEventFilter,
+  options: { limit: number; cursor?: string }
+): Promise<{ events: AuditEventSummary[]; nextCursor: string | null }> {
+  const events = await db.auditEvent.findMany({
+    where: toWhere(filter),
+    include: {
+      actor: { select: { id: true, name: true, email: true } },
+      onBehalfOf: { select: { id: true, name: true, email: true } },
+    },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: options.limit + 1,
+    ...(options.cursor && { cursor: { id: options.cursor }, skip: 1 }),
+  });
+
+  const hasMore = events.length > options.limit;
+  const page = hasMore ? events.slice(0, options.limit) : events;
+
+  return {
+    events: page.map(({ actorId: _actorId, onBehalfOfId: _onBehalfOfId, ...event }) => event),
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  };
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text = typeof value === "string" ? value : value instanceof Date ? value.toISOString() : JSON.stringify(value);
+  // Quote every cell; neutralize spreadsheet formulas
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+/**
+ * CSV export of audit events (one row per event)
+ */
+export function auditEventsToCsv(events: AuditEventSummary[]): string {
+  const header = [
+    "createdAt",
+    "actorId",
+    "actorEmail",
+    "onBehalfOfEmail",
+    "action",
+    "entityType",
+    "entityId",
+    "before",
+    "after",
+    "ip",
+    "requestId",
+  ];
+
+  const rows = events.map((event) =>
+    [
+      event.createdAt,
+      event.actor?.id,
+      event.actor?.email,
+      event.onBehalfOf?.email,
+      event.action,
+      event.entityType,
+      event.entityId,
+      event.before,
+      event.after,
+      event.ip,
+      event.requestId,
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+
+  return [header.join(","), ...rows].join("\r\n") + "\r\n";
+}
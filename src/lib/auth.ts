@@ -1,15 +1,40 @@
-import { cookies } from "next/headers";
-import { db } from "./db";
+import { cookies, headers } from "next/headers";
 import { logger } from "./logger";
+import {
+  EmailNotVerifiedError,
+  ForbiddenError,
+  RateLimitError,
+  TwoFactorRequiredError,
+  UnauthorizedError,
+} from "./errors";
+import { findActiveSession, SESSION_COOKIE_NAME, type SessionWithUser } from "./session";
+import { needsTwoFactorEnrollment } from "./twoFactor";
+import { findActiveApiToken, type ApiTokenWithUser } from "./apiTokens";
+import type { ApiScope } from "./apiScopes";
+import { checkRateLimitByKey, rateLimitConfigs } from "./rateLimit";
 import type { User } from "@prisma/client";
 
-const AUTH_COOKIE_NAME = "calendar_auth_user_id";
+/**
+ * Authenticated caller: a browser session or a personal API token
+ */
+export interface AuthContext {
+  user: User;
+  apiToken: ApiTokenWithUser | null; // null for browser sessions (not limited by scopes)
+}
+
+export interface RequireAuthOptions {
+  // API tokens are accepted only if they carry at least one of these scopes.
+  // Without scopes the endpoint is browser-session only.
+  scopes?: ApiScope[];
+  // Let users who have not confirmed their email through (only the verification flow needs this)
+  allowUnverified?: boolean;
+}
 
 /**
- * Get current user from cookie (simplified auth for demo)
- * In production, use proper authentication (NextAuth, Clerk, etc.)
+ * Get current session from the signed session cookie
+ * Returns null if there is no cookie, the signature is invalid, or the session is expired/revoked
  */
-export async function getCurrentUser(): Promise<User | null> {
+export async function getCurrentSession(): Promise<SessionWithUser | null> {
   try {
     // Check if we're in a valid context for cookies() API
     // cookies() can only be called in Server Components, Route Handlers, or Server Actions
@@ -28,54 +53,46 @@ export async function getCurrentUser(): Promise<User | null> {
       return null;
     }
 
-    const userId = cookieStore.get(AUTH_COOKIE_NAME)?.value;
+    const cookieValue = cookieStore.get(SESSION_COOKIE_NAME)?.value;
 
-    if (!userId) {
+    if (!cookieValue) {
       // No cookie = not logged in (this is normal, not an error)
-      logger.debug("[AUTH] No auth cookie found", {
-        cookieName: AUTH_COOKIE_NAME,
+      logger.debug("[AUTH] No session cookie found", {
+        cookieName: SESSION_COOKIE_NAME,
       });
       return null;
     }
 
-    logger.debug("[AUTH] Found auth cookie, fetching user", {
-      userId: userId.substring(0, 8) + "***", // Partial ID for logs
-    });
-
-    // Try to fetch user from database
-    let user;
+    // Try to resolve session from database
+    let session;
     try {
-      user = await db.user.findUnique({
-        where: { id: userId },
-      });
+      session = await findActiveSession(cookieValue);
     } catch (dbError) {
       const errorMessage = dbError instanceof Error ? dbError.message : "Unknown error";
-      logger.error("[AUTH] Database error while fetching user", {
+      logger.error("[AUTH] Database error while fetching session", {
         error: errorMessage,
         errorType: dbError instanceof Error ? dbError.constructor.name : typeof dbError,
-        userId: userId.substring(0, 8) + "***",
         environment: process.env.VERCEL ? "vercel" : "local",
         stack: dbError instanceof Error ? dbError.stack : undefined,
       });
-      // Database error - return null (user not found or DB unavailable)
+      // Database error - return null (session not found or DB unavailable)
       return null;
     }
 
-    if (!user) {
-      logger.warn("[AUTH] User not found in database", {
-        userId: userId.substring(0, 8) + "***",
-        message: "Cookie exists but user not found - possible stale cookie",
+    if (!session) {
+      logger.warn("[AUTH] Session not found or no longer valid", {
+        message: "Cookie exists but session is forged, expired or revoked",
       });
       return null;
     }
 
-    logger.debug("[AUTH] User found successfully", {
-      userId: user.id.substring(0, 8) + "***",
-      email: user.email.substring(0, 3) + "***",
-      role: user.role,
+    logger.debug("[AUTH] Session found successfully", {
+      userId: session.user.id.substring(0, 8) + "***",
+      email: session.user.email.substring(0, 3) + "***",
+      role: session.user.role,
     });
 
-    return user;
+    return session;
   } catch (error) {
     // Catch any unexpected errors
     const errorDetails = error instanceof Error ? {
@@ -84,7 +101,7 @@ export async function getCurrentUser(): Promise<User | null> {
       stack: error.stack,
     } : { error };
     
-    logger.error("[AUTH] Unexpected error in getCurrentUser()", {
+    logger.error("[AUTH] Unexpected error in getCurrentSession()", {
       ...errorDetails,
       environment: process.env.VERCEL ? "vercel" : "local",
     });
@@ -94,6 +111,15 @@ export async function getCurrentUser(): Promise<User | null> {
   }
 }
 
+/**
+ * Get current user from the session cookie
+ * API tokens are not considered here - use requireAuth() for endpoints that accept them
+ */
+export async function getCurrentUser(): Promise<User | null> {
+  const session = await getCurrentSession();
+  return session?.user ?? null;
+}
+
 /**
  * Check if user is admin
  */
@@ -102,31 +128,142 @@ export function isAdmin(user: User | null): boolean {
 }
 
 /**
- * Require admin role - throws if not admin
+ * Read the raw token from an "Authorization: Bearer <token>" header
  */
-export async function requireAdmin(): Promise<User> {
-  const user = await getCurrentUser();
+async function getBearerToken(): Promise<string | null> {
+  let headerStore;
+  try {
+    headerStore = await headers();
+  } catch {
+    return null;
+  }
+  const match = headerStore.get("authorization")?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Require an authenticated caller (session cookie or API token)
+ * With an Authorization: Bearer header only the token is considered, cookies are ignored
+ * Users with an unconfirmed email are rejected unless allowUnverified is set
+ * Throws UnauthorizedError / ForbiddenError / EmailNotVerifiedError / RateLimitError
+ */
+export async function requireAuthContext(
+  options: RequireAuthOptions & { admin?: boolean } = {}
+): Promise<AuthContext> {
+  const bearerToken = await getBearerToken();
+  let context: AuthContext;
+
+  if (bearerToken) {
+    const apiToken = await findActiveApiToken(bearerToken);
+    if (!apiToken) {
+      throw new UnauthorizedError("Unauthorized: Invalid or expired API token");
+    }
+
+    if (!options.scopes) {
+      throw new ForbiddenError("Forbidden: This endpoint does not accept API tokens");
+    }
+    if (!options.scopes.some((scope) => apiToken.scopes.includes(scope))) {
+      throw new ForbiddenError(
+        `Forbidden: API token requires one of the scopes: ${options.scopes.join(", ")}`
+      );
+    }
+
+    // Each token has its own budget, independent of the client IP
+    if (!checkRateLimitByKey(`api-token:${apiToken.id}`, rateLimitConfigs.apiToken)) {
+      throw new RateLimitError("API token rate limit exceeded. Please try again later.");
+    }
+
+    context = { user: apiToken.user, apiToken };
+  } else {
+    const user = await getCurrentUser();
+    if (!user) {
+      throw new UnauthorizedError("Unauthorized: No user found");
+    }
+    context = { user, apiToken: null };
+  }
 
-  if (!user) {
-    throw new Error("Unauthorized: No user found");
+  if (!options.allowUnverified) {
+    assertEmailVerified(context.user);
   }
 
-  if (!isAdmin(user)) {
-    throw new Error("Forbidden: Admin access required");
+  if (options.admin) {
+    if (!isAdmin(context.user)) {
+      throw new ForbiddenError("Forbidden: Admin access required");
+    }
+
+    // Admins who have not enrolled in 2FA while the workspace policy requires it are rejected too
+    if (await needsTwoFactorEnrollment(context.user)) {
+      throw new TwoFactorRequiredError(
+        "Forbidden: Two-factor authentication must be enabled for admin access"
+      );
+    }
   }
 
+  return context;
+}
+
+/**
+ * Reject users who have not confirmed their email address yet
+ */
+function assertEmailVerified(user: User): void {
+  if (!user.emailVerifiedAt) {
+    throw new EmailNotVerifiedError("Forbidden: Please confirm your email address first");
+  }
+}
+
+/**
+ * Whether the caller may use a scope (browser sessions are not limited by scopes)
+ */
+export function hasScope(context: AuthContext, scope: ApiScope): boolean {
+  return !context.apiToken || context.apiToken.scopes.includes(scope);
+}
+
+/**
+ * Require a scope for the current caller - throws ForbiddenError for tokens without it
+ */
+export function requireScope(context: AuthContext, scope: ApiScope): void {
+  if (!hasScope(context, scope)) {
+    throw new ForbiddenError(`Forbidden: API token is missing the "${scope}" scope`);
+  }
+}
+
+/**
+ * Require admin role - throws if not admin
+ */
+export async function requireAdmin(options: RequireAuthOptions = {}): Promise<User> {
+  const { user } = await requireAuthContext({ ...options, admin: true });
   return user;
 }
 
 /**
  * Require any authenticated user
  */
-export async function requireAuth(): Promise<User> {
-  const user = await getCurrentUser();
+export async function requireAuth(options: RequireAuthOptions = {}): Promise<User> {
+  const { user } = await requireAuthContext(options);
+  return user;
+}
+
+/**
+ * Require an authenticated browser session (needed when the session itself matters,
+ * e.g. to flag or keep the current session when managing devices)
+ * API tokens are never accepted
+ */
+export async function requireSession(
+  options: Pick<RequireAuthOptions, "allowUnverified"> = {}
+): Promise<SessionWithUser> {
+  if (await getBearerToken()) {
+    throw new ForbiddenError("Forbidden: This endpoint does not accept API tokens");
+  }
 
-  if (!user) {
-    throw new Error("Unauthorized: No user found");
+  const session = await getCurrentSession();
+
+  if (!session) {
+    throw new UnauthorizedError("Unauthorized: No user found");
   }
 
-  return user;
+  if (!options.allowUnverified) {
+    assertEmailVerified(session.user);
+  }
+
+  return session;
 }
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Prisma, User } from "@prisma/client";
+import type { PermissionLevel } from "./permissions";
+
+// Permission rows of the user under test (no groups, no delegations)
+let permissionRows: Array<{ module: string; myLevel: string; allLevel: string }> = [];
+
+vi.mock("./db", () => ({
+  db: {
+    userPermission: { findMany: vi.fn(async () => permissionRows) },
+    groupPermission: { findMany: vi.fn(async () => []) },
+    calendarDelegation: { findMany: vi.fn(async () => []), findUnique: vi.fn(async () => null) },
+  },
+}));
+
+const { explainCalendarItemAccess, getCalendarItemsFilter } = await import("./authorize");
+
+const LEVELS: PermissionLevel[] = ["NONE", "VIEW", "EDIT"];
+const TYPES = [
+  { type: "MEETING", module: "meetings", otherType: "DEADLINE" },
+  { type: "DEADLINE", module: "deadlines", otherType: "MEETING" },
+] as const;
+
+const user = { id: "me", role: "USER" } as User;
+
+type TestItem = {
+  id: string;
+  type: string;
+  createdById: string;
+  visibility: string;
+  participants: Array<{ userId: string }>;
+};
+
+function item(id: string, type: string, createdById: string, participants: string[] = []): TestItem {
+  return { id, type, createdById, visibility: "PUBLIC", participants: participants.map((userId) => ({ userId })) };
+}
+
+/**
+ * Evaluate the subset of Prisma where clauses getCalendarItemsFilter produces
+ */
+function matches(where: Prisma.CalendarItemWhereInput, row: TestItem): boolean {
+  if (where.OR && !where.OR.some((clause) => matches(clause, row))) return false;
+  if (where.type !== undefined && where.type !== row.type) return false;
+  if (where.createdById !== undefined && where.createdById !== row.createdById) return false;
+  if (where.visibility !== undefined) {
+    const { not } = where.visibility as { not: string };
+    if (row.visibility === not) return false;
+  }
+  if (where.participants?.some) {
+    const { userId } = where.participants.some as { userId: string };
+    if (!row.participants.some((p) => p.userId === userId)) return false;
+  }
+  return true;
+}
+
+describe.each(TYPES)("$module permissions", ({ type, module, otherType }) => {
+  const own = item("own", type, user.id);
+  const joined = item("joined", type, "someone", [user.id]);
+  const others = item("others", type, "someone");
+  const otherTypeOwn = item("other-type-own", otherType, user.id);
+  const otherTypeOthers = item("other-type-others", otherType, "someone");
+
+  describe.each(LEVELS)("myLevel %s", (myLevel) => {
+    describe.each(LEVELS)("allLevel %s", (allLevel) => {
+      const canViewAll = allLevel !== "NONE";
+      const canEditOwn = myLevel === "EDIT" || allLevel === "EDIT";
+      const canEditAll = allLevel === "EDIT";
+
+      beforeEach(() => {
+        // Only this module is granted - the other item type must not pick it up
+        permissionRows = [{ module, myLevel, allLevel }];
+      });
+
+      it("lists own and joined items, and others' items only with allLevel VIEW", async () => {
+        const where = await getCalendarItemsFilter(user);
+        const listed = [own, joined, others, otherTypeOwn, otherTypeOthers]
+          .filter((row) => matches(where, row))
+          .map((row) => row.id);
+
+        expect(listed).toEqual(["own", "joined", ...(canViewAll ? ["others"] : []), "other-type-own"]);
+      });
+
+      it("lets the user view others' items only with allLevel VIEW", async () => {
+        expect((await explainCalendarItemAccess(user, own, "VIEW")).allowed).toBe(true);
+        expect((await explainCalendarItemAccess(user, others, "VIEW")).allowed).toBe(canViewAll);
+        expect((await explainCalendarItemAccess(user, otherTypeOthers, "VIEW")).allowed).toBe(false);
+      });
+
+      it("lets the user edit own items with myLevel or allLevel EDIT, others' with allLevel EDIT", async () => {
+        expect((await explainCalendarItemAccess(user, own, "EDIT")).allowed).toBe(canEditOwn);
+        expect((await explainCalendarItemAccess(user, others, "EDIT")).allowed).toBe(canEditAll);
+        expect((await explainCalendarItemAccess(user, otherTypeOwn, "EDIT")).allowed).toBe(false);
+        expect((await explainCalendarItemAccess(user, otherTypeOthers, "EDIT")).allowed).toBe(false);
+      });
+    });
+  });
+});
@@ -6,68 +6,276 @@
 
 import { db } from "./db";
 import { ForbiddenError, NotFoundError } from "./errors";
-import type { User } from "@prisma/client";
+import { calendarItemModule, type ApiModule } from "./apiScopes";
+import { canSeeCalendarItemDetails } from "./calendarVisibility";
+import { getDelegationScopes } from "./delegations";
+import { hasDelegationScope } from "./delegationScopes";
+import {
+  canCreateRecord,
+  grantWindowState,
+  meetsLevel,
+  resolveEffectivePermissions,
+  type EffectivePermissions,
+  type ModuleAccess,
+} from "./permissions";
+import type { Prisma, User } from "@prisma/client";
+
+const CALENDAR_ITEM_TYPES = ["MEETING", "DEADLINE"] as const;
+
+// Rules an access decision is made of (see explainCalendarItemAccess / explainScheduleEntryAccess)
+export type AccessRuleId = "owner" | "participant" | "delegate" | "visibility" | "module_permission" | "default";
 
 /**
- * Check if user has permission to view/edit calendar items
- * Based on UserPermission model (myLevel, allLevel)
+ * One step of an access decision, in the order the rules are checked
+ * allow / deny end the evaluation, no_match moves on to the next rule
  */
-async function checkCalendarPermission(
-  user: User,
-  itemCreatedById: string,
-  requiredLevel: "VIEW" | "EDIT" = "VIEW"
-): Promise<boolean> {
-  // User can always access their own items
-  if (user.id === itemCreatedById) {
-    return true;
-  }
-
-  // Check permissions
-  const permission = await db.userPermission.findUnique({
-    where: {
-      userId_module: {
-        userId: user.id,
-        module: "meetings", // Calendar items fall under "meetings" module
-      },
-    },
-  });
+export interface AccessRule {
+  rule: AccessRuleId;
+  outcome: "allow" | "deny" | "no_match";
+  detail: string;
+}
 
-  if (!permission) {
-    return false;
-  }
+/**
+ * Outcome of an access check with the chain of rules that produced it
+ */
+export interface AccessDecision {
+  allowed: boolean;
+  rules: AccessRule[];
+  onBehalfOfId: string | null; // Owner the user acts for when access comes from an EDIT delegation
+  redacted: boolean; // Calendar items only: details are hidden from the user (busy-only items)
+}
 
-  // Check allLevel (permission to view/edit all items)
-  if (requiredLevel === "VIEW" && permission.allLevel === "VIEW") {
-    return true;
+const DEFAULT_DENY: AccessRule = { rule: "default", outcome: "deny", detail: "No rule grants access" };
+
+// A permission row with where it comes from
+interface PermissionGrantSource {
+  module: string;
+  myLevel: string;
+  allLevel: string;
+  source: string;
+  active: boolean; // Inside its active window (group grants are always active)
+}
+
+/**
+ * All permission rows of a user: their own (including those outside their active window) and their groups'
+ */
+async function getPermissionGrants(user: User): Promise<PermissionGrantSource[]> {
+  const select = { module: true, myLevel: true, allLevel: true } as const;
+  const now = new Date();
+  const [userRows, groupRows] = await Promise.all([
+    db.userPermission.findMany({
+      where: { userId: user.id },
+      select: { ...select, validFrom: true, validUntil: true },
+    }),
+    db.groupPermission.findMany({
+      where: { group: { members: { some: { userId: user.id } } } },
+      select: { ...select, group: { select: { name: true } } },
+    }),
+  ]);
+
+  return [
+    ...userRows.map(({ validFrom, validUntil, ...row }) => ({
+      ...row,
+      source: "own permissions",
+      active: grantWindowState({ validFrom, validUntil }, now) === "active",
+    })),
+    ...groupRows.map(({ group, ...row }) => ({ ...row, source: `group "${group.name}"`, active: true })),
+  ];
+}
+
+/**
+ * Effective permissions of a user for every module (admins have full access)
+ * Combines the user's own grants (those within their active window) with the grants of every
+ * group they belong to
+ */
+export async function getEffectivePermissions(user: User): Promise<EffectivePermissions> {
+  if (user.role === "ADMIN") {
+    return resolveEffectivePermissions(user.role, []);
   }
-  if (requiredLevel === "VIEW" && permission.allLevel === "EDIT") {
-    return true;
+
+  const grants = await getPermissionGrants(user);
+  return resolveEffectivePermissions(user.role, grants.filter((grant) => grant.active));
+}
+
+/**
+ * Effective access of a user to one module
+ */
+async function getModuleAccess(user: User, module: ApiModule): Promise<ModuleAccess> {
+  const permissions = await getEffectivePermissions(user);
+  return permissions[module];
+}
+
+/**
+ * Whether a user's grants for a module reach a level
+ * Own records are covered by myLevel or allLevel, everyone's records by allLevel only
+ */
+async function explainModulePermission(
+  user: User,
+  module: ApiModule,
+  requiredLevel: "VIEW" | "EDIT",
+  isOwn: boolean
+): Promise<AccessRule> {
+  if (user.role === "ADMIN") {
+    return { rule: "module_permission", outcome: "allow", detail: `Admins have full access to ${module}` };
   }
-  if (requiredLevel === "EDIT" && permission.allLevel === "EDIT") {
-    return true;
+
+  const needed = `${isOwn ? "myLevel or allLevel" : "allLevel"} ${requiredLevel} on ${module}`;
+  const grantsLevel = (grant: PermissionGrantSource) =>
+    meetsLevel(grant.allLevel, requiredLevel) || (isOwn && meetsLevel(grant.myLevel, requiredLevel));
+
+  const grants = (await getPermissionGrants(user)).filter((grant) => grant.module === module && grantsLevel(grant));
+  const active = grants.filter((grant) => grant.active);
+  if (active.length > 0) {
+    return {
+      rule: "module_permission",
+      outcome: "allow",
+      detail: `Has ${needed} from ${active.map((grant) => grant.source).join(", ")}`,
+    };
   }
 
-  return false;
+  return {
+    rule: "module_permission",
+    outcome: "no_match",
+    detail:
+      grants.length > 0
+        ? `No ${needed} - own permissions would grant it, but are outside their active window`
+        : `No ${needed}`,
+  };
 }
 
 /**
- * Check if user is participant in calendar item
+ * A delegation (with a scope) the user holds from the item's owner or from one of its participants
  */
-async function isCalendarItemParticipant(userId: string, itemId: string): Promise<boolean> {
-  const participant = await db.calendarItemParticipant.findUnique({
-    where: {
-      itemId_userId: {
-        itemId,
-        userId,
-      },
-    },
+async function findCalendarItemDelegation(
+  user: User,
+  item: { createdById: string; participants: Array<{ userId: string }> },
+  scope: "VIEW" | "EDIT" | "RSVP"
+): Promise<{ principal: { id: string; name: string }; scopes: string[] } | null> {
+  const principalIds = [item.createdById, ...item.participants.map((p) => p.userId)].filter(
+    (id) => id !== user.id
+  );
+  const delegations = await db.calendarDelegation.findMany({
+    where: { delegateId: user.id, principalId: { in: principalIds } },
+    select: { scopes: true, principal: { select: { id: true, name: true } } },
   });
 
-  return !!participant;
+  return delegations.find((d) => hasDelegationScope(d.scopes, scope)) ?? null;
+}
+
+/**
+ * Decide whether a user may view or edit a calendar item, and why
+ * Viewing: owner, participant, their delegate or allLevel VIEW (private items: owner, participants
+ * and their delegates only)
+ * Editing: own items need myLevel or allLevel EDIT, other items need allLevel EDIT (of the item's module);
+ * busy-only and private items can only be edited by their owner and participants; a delegate with the
+ * EDIT scope may edit the owner's items - with the owner's permissions
+ */
+export async function explainCalendarItemAccess(
+  user: User,
+  item: { createdById: string; type: string; visibility: string; participants: Array<{ userId: string }> },
+  requiredLevel: "VIEW" | "EDIT" = "VIEW"
+): Promise<AccessDecision> {
+  const rules: AccessRule[] = [];
+  const module = calendarItemModule(item.type);
+  const isOwn = item.createdById === user.id;
+  const redacted = !canSeeCalendarItemDetails(user.id, item);
+
+  const decide = (rule: AccessRule, onBehalfOfId: string | null = null): AccessDecision => {
+    rules.push(rule);
+    return { allowed: rule.outcome === "allow", rules, onBehalfOfId, redacted };
+  };
+
+  if (requiredLevel === "VIEW") {
+    // Owner, participants and their delegates can always view
+    if (isOwn) {
+      return decide({ rule: "owner", outcome: "allow", detail: "Owns the item" });
+    }
+    rules.push({ rule: "owner", outcome: "no_match", detail: "Does not own the item" });
+
+    if (item.participants.some((p) => p.userId === user.id)) {
+      return decide({ rule: "participant", outcome: "allow", detail: "Takes part in the item" });
+    }
+    rules.push({ rule: "participant", outcome: "no_match", detail: "Does not take part in the item" });
+
+    const delegation = await findCalendarItemDelegation(user, item, "VIEW");
+    if (delegation) {
+      return decide({
+        rule: "delegate",
+        outcome: "allow",
+        detail: `Delegate of ${delegation.principal.name} (${delegation.scopes.join(", ")})`,
+      });
+    }
+    rules.push({ rule: "delegate", outcome: "no_match", detail: "Not a delegate of the owner or of a participant" });
+
+    if (item.visibility === "PRIVATE") {
+      return decide({
+        rule: "visibility",
+        outcome: "deny",
+        detail: "Private item - only the owner, participants and their delegates see it",
+      });
+    }
+    rules.push({
+      rule: "visibility",
+      outcome: "no_match",
+      detail: item.visibility === "BUSY_ONLY" ? "Busy-only item - listed without details" : "Public item",
+    });
+
+    const permission = await explainModulePermission(user, module, "VIEW", false);
+    if (permission.outcome === "allow") {
+      return decide(permission);
+    }
+    rules.push(permission);
+
+    return decide(DEFAULT_DENY);
+  }
+
+  if (redacted) {
+    rules.push({
+      rule: "visibility",
+      outcome: "no_match",
+      detail: "Busy-only or private item - only the owner and participants can edit it directly",
+    });
+  } else {
+    const permission = await explainModulePermission(user, module, "EDIT", isOwn);
+    if (permission.outcome === "allow") {
+      return decide(permission);
+    }
+    rules.push(permission);
+  }
+
+  if (!isOwn) {
+    const scopes = await getDelegationScopes(user.id, item.createdById);
+    const owner = hasDelegationScope(scopes, "EDIT")
+      ? await db.user.findUnique({ where: { id: item.createdById } })
+      : null;
+
+    if (owner) {
+      const ownerPermission = await explainModulePermission(owner, module, "EDIT", true);
+      if (ownerPermission.outcome === "allow") {
+        return decide(
+          {
+            rule: "delegate",
+            outcome: "allow",
+            detail: `Delegate of ${owner.name} (EDIT), acting with the owner's permissions: ${ownerPermission.detail}`,
+          },
+          owner.id
+        );
+      }
+      rules.push({
+        rule: "delegate",
+        outcome: "no_match",
+        detail: `Delegate of ${owner.name} (EDIT), but the owner cannot edit it: ${ownerPermission.detail}`,
+      });
+    } else {
+      rules.push({ rule: "delegate", outcome: "no_match", detail: "Not an EDIT delegate of the owner" });
+    }
+  }
+
+  return decide(DEFAULT_DENY);
 }
 
 /**
- * Require that user owns the calendar item or has permission
+ * Require that user owns the calendar item or has permission (see explainCalendarItemAccess)
  * Throws ForbiddenError if access denied
  */
 export async function requireCalendarItemAccess(
@@ -77,31 +285,84 @@ export async function requireCalendarItemAccess(
 ): Promise<void> {
   const item = await db.calendarItem.findUnique({
     where: { id: itemId },
-    select: { createdById: true },
+    select: { createdById: true, type: true, visibility: true, participants: { select: { userId: true } } },
   });
 
   if (!item) {
     throw new NotFoundError("Calendar item not found");
   }
 
-  // Check if user is owner
-  if (user.id === item.createdById) {
+  if (requiredLevel === "EDIT") {
+    await requireCalendarItemEdit(user, item);
     return;
   }
 
-  // Check if user is participant (participants can view)
+  const decision = await explainCalendarItemAccess(user, item, "VIEW");
+  if (!decision.allowed) {
+    throw new ForbiddenError("You do not have permission to access this calendar item");
+  }
+}
+
+/**
+ * Require that user may create calendar items of a type (myLevel or allLevel EDIT of its module)
+ * Throws ForbiddenError if access denied
+ */
+export async function requireCalendarItemCreate(user: User, type: string): Promise<void> {
+  const access = await getModuleAccess(user, calendarItemModule(type));
+  if (!canCreateRecord(access)) {
+    throw new ForbiddenError(`You do not have permission to create ${calendarItemModule(type)}`);
+  }
+}
+
+/**
+ * Require that user may edit/delete a calendar item (see explainCalendarItemAccess)
+ * @returns the owner's id when access comes from a delegation (for the audit log), otherwise null
+ * Throws ForbiddenError if access denied
+ */
+export async function requireCalendarItemEdit(
+  user: User,
+  item: { createdById: string; type: string; visibility: string; participants: Array<{ userId: string }> }
+): Promise<string | null> {
+  const decision = await explainCalendarItemAccess(user, item, "EDIT");
+  if (!decision.allowed) {
+    throw new ForbiddenError("You do not have permission to edit this calendar item");
+  }
+
+  return decision.onBehalfOfId;
+}
+
+/**
+ * Decide whether a user may view or edit a person's schedule entries, and why
+ * Viewing: entries for oneself, or allLevel VIEW; editing: entries for oneself need myLevel or
+ * allLevel EDIT, entries for others need allLevel EDIT
+ */
+export async function explainScheduleEntryAccess(
+  user: User,
+  entry: { userId: string },
+  requiredLevel: "VIEW" | "EDIT" = "VIEW"
+): Promise<AccessDecision> {
+  const rules: AccessRule[] = [];
+  const isOwn = entry.userId === user.id;
+
+  const decide = (rule: AccessRule): AccessDecision => {
+    rules.push(rule);
+    return { allowed: rule.outcome === "allow", rules, onBehalfOfId: null, redacted: false };
+  };
+
   if (requiredLevel === "VIEW") {
-    const isParticipant = await isCalendarItemParticipant(user.id, itemId);
-    if (isParticipant) {
-      return;
+    if (isOwn) {
+      return decide({ rule: "owner", outcome: "allow", detail: "The entry is for this user" });
     }
+    rules.push({ rule: "owner", outcome: "no_match", detail: "The entry is for someone else" });
   }
 
-  // Check permissions
-  const hasPermission = await checkCalendarPermission(user, item.createdById, requiredLevel);
-  if (!hasPermission) {
-    throw new ForbiddenError("You do not have permission to access this calendar item");
+  const permission = await explainModulePermission(user, "schedule", requiredLevel, isOwn);
+  if (permission.outcome === "allow") {
+    return decide(permission);
   }
+  rules.push(permission);
+
+  return decide(DEFAULT_DENY);
 }
 
 /**
@@ -125,43 +386,62 @@ export async function requireScheduleEntryAccess(user: User, entryId: string): P
   }
 }
 
+/**
+ * Require that user may create/edit/delete schedule entries of a person
+ * Entries for oneself need myLevel or allLevel EDIT, entries for others need allLevel EDIT
+ * Throws ForbiddenError if access denied
+ */
+export async function requireScheduleEntryEdit(user: User, entryUserId: string): Promise<void> {
+  const decision = await explainScheduleEntryAccess(user, { userId: entryUserId }, "EDIT");
+  if (!decision.allowed) {
+    throw new ForbiddenError(
+      entryUserId === user.id
+        ? "You do not have permission to edit your schedule"
+        : "You do not have permission to edit other people's schedule"
+    );
+  }
+}
+
 /**
  * Filter calendar items based on user permissions
+ * Each item type is filtered by its own module (meetings / deadlines)
+ * Private items are only listed for their owner and participants (busy-only items are
+ * listed, their details are redacted by serializeCalendarItem)
  * Returns where clause for Prisma query
- * Returns empty object {} if user has access to all items
  */
-export async function getCalendarItemsFilter(user: User): Promise<
-  | {
-      OR: Array<{
-        createdById?: string;
-        participants?: { some: { userId: string } };
-      }>;
-    }
-  | Record<string, never> // Empty object for "no filter" (access to all)
-> {
-  // Get user permissions
-  const permission = await db.userPermission.findUnique({
-    where: {
-      userId_module: {
-        userId: user.id,
-        module: "meetings",
-      },
-    },
-  });
+export async function getCalendarItemsFilter(user: User): Promise<Prisma.CalendarItemWhereInput> {
+  const permissions = await getEffectivePermissions(user);
 
-  // If user has permission to view all items, return empty filter (no restrictions)
-  if (permission && (permission.allLevel === "VIEW" || permission.allLevel === "EDIT")) {
-    return {};
+  const canViewAll = (type: string) =>
+    meetsLevel(permissions[calendarItemModule(type)].allLevel, "VIEW");
+
+  const insiderConditions: Prisma.CalendarItemWhereInput[] = [
+    // User's own items
+    { createdById: user.id },
+    // Items where user is participant
+    { participants: { some: { userId: user.id } } },
+  ];
+
+  // If user has permission to view all items of every type, only private items are restricted
+  if (CALENDAR_ITEM_TYPES.every(canViewAll)) {
+    return { OR: [{ visibility: { not: "PRIVATE" } }, ...insiderConditions] };
   }
 
-  // Otherwise, filter by ownership and participation
+  // Otherwise, types without allLevel access are filtered by ownership and participation
   return {
-    OR: [
-      // User's own items
-      { createdById: user.id },
-      // Items where user is participant
-      { participants: { some: { userId: user.id } } },
-    ],
+    OR: CALENDAR_ITEM_TYPES.map((type) => ({
+      type,
+      OR: canViewAll(type) ? [{ visibility: { not: "PRIVATE" } }, ...insiderConditions] : insiderConditions,
+    })),
+  };
+}
+
+/**
+ * Filter for a principal's own calendar (items they own or take part in), as shown to their delegates
+ */
+export function getPrincipalCalendarItemsFilter(principalId: string): Prisma.CalendarItemWhereInput {
+  return {
+    OR: [{ createdById: principalId }, { participants: { some: { userId: principalId } } }],
   };
 }
 
@@ -175,17 +455,10 @@ export async function getScheduleEntriesFilter(user: User): Promise<
     }
   | Record<string, never> // Empty object for "no filter" (access to all)
 > {
-  const permission = await db.userPermission.findUnique({
-    where: {
-      userId_module: {
-        userId: user.id,
-        module: "schedule",
-      },
-    },
-  });
+  const access = await getModuleAccess(user, "schedule");
 
   // If user has permission to view all entries, return empty filter (no restrictions)
-  if (permission && (permission.allLevel === "VIEW" || permission.allLevel === "EDIT")) {
+  if (meetsLevel(access.allLevel, "VIEW")) {
     return {};
   }
 
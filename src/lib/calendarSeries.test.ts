@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", () => ({
+  db: {
+    calendarItem: { findMany: vi.fn(async () => []) },
+  },
+}));
+
+const { expandCalendarItems } = await import("./calendarSeries");
+
+function series(startAt: string, endAt: string, recurrence: string, allDay = false) {
+  return {
+    id: "series",
+    startAt: new Date(startAt),
+    endAt: new Date(endAt),
+    allDay,
+    timeZone: allDay ? null : "UTC",
+    recurrence,
+    exceptionDates: [],
+    seriesId: null,
+    originalStartAt: null,
+  };
+}
+
+const startsOf = (items: Array<{ startAt: Date }>) => items.map((item) => item.startAt.toISOString());
+
+describe("expandCalendarItems", () => {
+  const range = { from: new Date("2026-05-04T00:00:00Z"), to: new Date("2026-05-05T23:59:00Z") };
+
+  it("includes an overnight occurrence that started before the window and runs into it", async () => {
+    const nightShift = series("2026-05-01T22:00:00Z", "2026-05-02T06:00:00Z", "FREQ=DAILY");
+
+    const occurrences = await expandCalendarItems([nightShift], range, 100);
+
+    expect(startsOf(occurrences)).toEqual([
+      "2026-05-03T22:00:00.000Z",
+      "2026-05-04T22:00:00.000Z",
+      "2026-05-05T22:00:00.000Z",
+    ]);
+    expect(occurrences[0].endAt).toEqual(new Date("2026-05-04T06:00:00Z"));
+  });
+
+  it("includes a multi-day occurrence overlapping the window start", async () => {
+    const retreat = series("2026-04-02T09:00:00Z", "2026-04-05T17:00:00Z", "FREQ=MONTHLY");
+
+    expect(startsOf(await expandCalendarItems([retreat], range, 100))).toEqual(["2026-05-02T09:00:00.000Z"]);
+  });
+
+  it("drops occurrences that ended by the window start, as for plain items", async () => {
+    const standup = series("2026-05-01T09:00:00Z", "2026-05-01T09:15:00Z", "FREQ=DAILY");
+    const allDay = series("2026-05-01T00:00:00Z", "2026-05-02T00:00:00Z", "FREQ=DAILY", true);
+
+    expect(startsOf(await expandCalendarItems([standup], range, 100))).toEqual([
+      "2026-05-04T09:00:00.000Z",
+      "2026-05-05T09:00:00.000Z",
+    ]);
+    // The all-day occurrence of 3 May ends exactly at the window start
+    expect(startsOf(await expandCalendarItems([allDay], range, 100))).toEqual([
+      "2026-05-04T00:00:00.000Z",
+      "2026-05-05T00:00:00.000Z",
+    ]);
+  });
+
+  it("includes an all-day occurrence on the day before a window starting in the middle of it", async () => {
+    const allDay = series("2026-05-01T00:00:00Z", "2026-05-02T00:00:00Z", "FREQ=DAILY", true);
+    // Midnight in Berlin is still 3 May in UTC
+    const berlinDay = { from: new Date("2026-05-03T22:00:00Z"), to: new Date("2026-05-04T22:00:00Z") };
+
+    expect(startsOf(await expandCalendarItems([allDay], berlinDay, 100))).toEqual([
+      "2026-05-03T00:00:00.000Z",
+      "2026-05-04T00:00:00.000Z",
+    ]);
+  });
+});
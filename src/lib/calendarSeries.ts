@@ -0,0 +1,341 @@
+/**
+ * Recurring Calendar Items
+ * A series is a master item with an RRULE (`recurrence`) and cancelled occurrences (`exceptionDates`, EXDATE).
+ * A changed occurrence is an override item pointing at its master (`seriesId`) that replaces the occurrence
+ * which started at `originalStartAt`. Occurrences are not stored - GET /api/calendar/items expands them.
+ * Timed series repeat in the item's time zone; all-day series are calendar dates and repeat in UTC.
+ */
+
+import type { CalendarItem, CalendarItemParticipant, Prisma } from "@prisma/client";
+import { db } from "./db";
+import { NotFoundError, ValidationError } from "./errors";
+import {
+  countOccurrencesBefore,
+  expandRecurrence,
+  formatRecurrenceRule,
+  isRecurrenceOccurrence,
+  parseRecurrenceRule,
+  type RecurrenceRule,
+} from "./recurrence";
+
+// How far series are expanded when the query has no `to`
+const DEFAULT_EXPANSION_DAYS = 366;
+
+type SeriesMaster = Pick<
+  CalendarItem,
+  "id" | "startAt" | "endAt" | "allDay" | "timeZone" | "recurrence" | "exceptionDates"
+>;
+
+type ParticipantInput = Pick<CalendarItemParticipant, "userId" | "role"> & {
+  rsvp?: string | null;
+  rsvpComment?: string | null;
+};
+
+/**
+ * Item fields a PATCH may change (dates already parsed)
+ */
+export type CalendarItemChanges = Partial<
+  Pick<
+    CalendarItem,
+    "type"
+    | "title"
+    | "description"
+    | "startAt"
+    | "endAt"
+    | "allDay"
+    | "timeZone"
+    | "status"
+    | "location"
+    | "visibility"
+    | "recurrence"
+  >
+>;
+
+function seriesRule(master: SeriesMaster): RecurrenceRule {
+  const rule = master.recurrence ? parseRecurrenceRule(master.recurrence) : null;
+  if (!rule) {
+    throw new ValidationError("Calendar item is not a recurring series");
+  }
+  return rule;
+}
+
+const seriesTimeZone = (master: SeriesMaster) => (master.allDay ? undefined : (master.timeZone ?? undefined));
+
+const shift = (date: Date, delta: number) => new Date(date.getTime() + delta);
+
+// End of an occurrence: an explicit change, or the series duration from the occurrence start
+function occurrenceEnd(master: SeriesMaster, startAt: Date, changes: CalendarItemChanges): Date | null {
+  if (changes.endAt !== undefined) return changes.endAt;
+  return master.endAt ? shift(startAt, master.endAt.getTime() - master.startAt.getTime()) : null;
+}
+
+// New item with the series' fields, the changes applied and its participants (or the given ones)
+function seriesCopy(
+  master: CalendarItem & { participants: ParticipantInput[] },
+  startAt: Date,
+  changes: CalendarItemChanges,
+  participants?: ParticipantInput[]
+): Prisma.CalendarItemUncheckedCreateInput {
+  return {
+    type: changes.type ?? master.type,
+    title: changes.title ?? master.title,
+    description: changes.description !== undefined ? changes.description : master.description,
+    allDay: changes.allDay ?? master.allDay,
+    timeZone: changes.timeZone !== undefined ? changes.timeZone : master.timeZone,
+    status: changes.status ?? master.status,
+    location: changes.location !== undefined ? changes.location : master.location,
+    visibility: changes.visibility ?? master.visibility,
+    startAt,
+    endAt: occurrenceEnd(master, startAt, changes),
+    createdById: master.createdById,
+    participants: {
+      create: (participants ?? master.participants).map(({ userId, role, rsvp, rsvpComment }) => ({
+        userId,
+        role,
+        rsvp,
+        rsvpComment,
+      })),
+    },
+  };
+}
+
+/**
+ * Filter for items that may have an occurrence in [from, to]:
+ * plain items overlapping the window (multi-day items may start before it), and series that started before its end
+ */
+export function calendarItemsRangeFilter(from?: Date, to?: Date): Prisma.CalendarItemWhereInput {
+  const startsBeforeEnd = to ? { startAt: { lte: to } } : {};
+
+  return {
+    OR: [
+      {
+        recurrence: null,
+        ...startsBeforeEnd,
+        ...(from && { OR: [{ startAt: { gte: from } }, { endAt: { gt: from } }] }),
+      },
+      { recurrence: { not: null }, ...startsBeforeEnd },
+    ],
+  };
+}
+
+/**
+ * Items as occurrences within [from, to], ordered by start
+ * Series are expanded (changed occurrences are left to their override items, which are listed on their own);
+ * every result carries `occurrenceStart` - its slot in the series, null for plain items
+ */
+export async function expandCalendarItems<
+  T extends SeriesMaster & Pick<CalendarItem, "seriesId" | "originalStartAt">,
+>(items: T[], range: { from?: Date; to?: Date }, limit: number): Promise<Array<T & { occurrenceStart: Date | null }>> {
+  const masters = items.filter((item) => item.recurrence);
+  const overrides = masters.length
+    ? await db.calendarItem.findMany({
+        where: { seriesId: { in: masters.map((item) => item.id) } },
+        select: { seriesId: true, originalStartAt: true },
+      })
+    : [];
+  const changed = new Set(overrides.map((o) => `${o.seriesId}:${o.originalStartAt?.getTime()}`));
+
+  const to = range.to ?? new Date((range.from ?? new Date()).getTime() + DEFAULT_EXPANSION_DAYS * 24 * 60 * 60 * 1000);
+
+  const results: Array<T & { occurrenceStart: Date | null }> = [];
+  for (const item of items) {
+    const rule = item.recurrence ? parseRecurrenceRule(item.recurrence) : null;
+    if (!rule) {
+      results.push({ ...item, occurrenceStart: item.originalStartAt });
+      continue;
+    }
+
+    // Like plain items, occurrences that started before the window but still run into it are included
+    const duration = item.endAt ? item.endAt.getTime() - item.startAt.getTime() : 0;
+    const starts = expandRecurrence(
+      item.startAt,
+      rule,
+      { from: range.from ? shift(range.from, -duration) : item.startAt, to },
+      { exceptions: item.exceptionDates, limit, timeZone: seriesTimeZone(item) }
+    );
+    for (const startAt of starts) {
+      if (changed.has(`${item.id}:${startAt.getTime()}`)) continue;
+      const endAt = occurrenceEnd(item, startAt, {});
+      if (range.from && startAt < range.from && !(endAt && endAt > range.from)) continue;
+      results.push({ ...item, startAt, endAt, occurrenceStart: startAt });
+    }
+  }
+
+  return results.sort((a, b) => a.startAt.getTime() - b.startAt.getTime()).slice(0, limit);
+}
+
+/**
+ * Check that a time is an occurrence of a series
+ * Throws ValidationError if it is missing or not an occurrence
+ */
+export function requireOccurrenceStart(master: SeriesMaster, occurrenceStart: Date | null): Date {
+  if (!occurrenceStart) {
+    throw new ValidationError("occurrenceStart is required to change part of a series");
+  }
+  if (!isRecurrenceOccurrence(master.startAt, seriesRule(master), occurrenceStart, seriesTimeZone(master))) {
+    throw new ValidationError("occurrenceStart is not an occurrence of this series");
+  }
+  return occurrenceStart;
+}
+
+/**
+ * Change one occurrence: create its override (a copy of the series with the changes)
+ */
+export async function createOccurrenceOverride(
+  master: CalendarItem & { participants: ParticipantInput[] },
+  occurrenceStart: Date,
+  changes: CalendarItemChanges,
+  participants?: ParticipantInput[]
+): Promise<CalendarItem> {
+  const existing = await db.calendarItem.findUnique({
+    where: { seriesId_originalStartAt: { seriesId: master.id, originalStartAt: occurrenceStart } },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new ValidationError("This occurrence has already been changed - edit it by its own id");
+  }
+
+  const startAt = changes.startAt ?? occurrenceStart;
+  return db.calendarItem.create({
+    data: {
+      ...seriesCopy(master, startAt, changes, participants),
+      seriesId: master.id,
+      originalStartAt: occurrenceStart,
+    },
+  });
+}
+
+/**
+ * Change an occurrence and all following ones: the series ends before the occurrence and a new series
+ * (with the changes) continues from it. Later cancellations and changed occurrences move to the new series.
+ */
+export async function splitSeries(
+  master: CalendarItem & { participants: ParticipantInput[] },
+  occurrenceStart: Date,
+  changes: CalendarItemChanges,
+  participants?: ParticipantInput[]
+): Promise<CalendarItem> {
+  const rule = seriesRule(master);
+  const startAt = changes.startAt ?? occurrenceStart;
+  const delta = startAt.getTime() - occurrenceStart.getTime();
+
+  // COUNT covers the whole series, so the new series only gets what is left of it
+  const remaining: RecurrenceRule = rule.count
+    ? { ...rule, count: rule.count - countOccurrencesBefore(master.startAt, rule, occurrenceStart, seriesTimeZone(master)) }
+    : rule;
+
+  return db.$transaction(async (tx) => {
+    await tx.calendarItem.update({
+      where: { id: master.id },
+      data: {
+        recurrence: formatRecurrenceRule({ ...rule, count: undefined, until: shift(occurrenceStart, -1000) }),
+        exceptionDates: master.exceptionDates.filter((date) => date < occurrenceStart),
+      },
+    });
+
+    const successor = await tx.calendarItem.create({
+      data: {
+        ...seriesCopy(master, startAt, changes, participants),
+        recurrence: changes.recurrence !== undefined ? changes.recurrence : formatRecurrenceRule(remaining),
+        exceptionDates: master.exceptionDates.filter((date) => date >= occurrenceStart).map((date) => shift(date, delta)),
+      },
+    });
+
+    const laterOverrides = await tx.calendarItem.findMany({
+      where: { seriesId: master.id, originalStartAt: { gte: occurrenceStart } },
+      select: { id: true, originalStartAt: true },
+    });
+    for (const override of laterOverrides) {
+      await tx.calendarItem.update({
+        where: { id: override.id },
+        data: { seriesId: successor.id, originalStartAt: shift(override.originalStartAt!, delta) },
+      });
+    }
+
+    return successor;
+  });
+}
+
+/**
+ * Change a whole series
+ * With an occurrence, a new start is relative to it (moving one occurrence by an hour moves the series by an
+ * hour); cancellations and changed occurrences move along. Removing the recurrence drops both.
+ */
+export async function updateSeries(
+  master: SeriesMaster,
+  occurrenceStart: Date | null,
+  changes: CalendarItemChanges
+): Promise<void> {
+  const reference = occurrenceStart ?? master.startAt;
+  const delta = changes.startAt ? changes.startAt.getTime() - reference.getTime() : 0;
+  const startAt = shift(master.startAt, delta);
+  const endAt = changes.endAt
+    ? shift(startAt, changes.endAt.getTime() - (changes.startAt ?? reference).getTime())
+    : changes.endAt;
+
+  await db.$transaction(async (tx) => {
+    if (changes.recurrence === null) {
+      await tx.calendarItem.deleteMany({ where: { seriesId: master.id } });
+    } else if (delta !== 0) {
+      const overrides = await tx.calendarItem.findMany({
+        where: { seriesId: master.id },
+        select: { id: true, originalStartAt: true },
+      });
+      for (const override of overrides) {
+        await tx.calendarItem.update({
+          where: { id: override.id },
+          data: { originalStartAt: shift(override.originalStartAt!, delta) },
+        });
+      }
+    }
+
+    await tx.calendarItem.update({
+      where: { id: master.id },
+      data: {
+        ...changes,
+        startAt,
+        endAt: endAt !== undefined ? endAt : master.endAt && shift(master.endAt, delta),
+        exceptionDates:
+          changes.recurrence === null ? [] : master.exceptionDates.map((date) => shift(date, delta)),
+      },
+    });
+  });
+}
+
+/**
+ * Cancel one occurrence: add it to the series' EXDATE and drop its override, if any
+ */
+export async function cancelOccurrence(seriesId: string, occurrenceStart: Date): Promise<void> {
+  await db.$transaction(async (tx) => {
+    const master = await tx.calendarItem.findUnique({ where: { id: seriesId }, select: { exceptionDates: true } });
+    if (!master) {
+      throw new NotFoundError("Calendar item not found");
+    }
+
+    if (!master.exceptionDates.some((date) => date.getTime() === occurrenceStart.getTime())) {
+      await tx.calendarItem.update({
+        where: { id: seriesId },
+        data: { exceptionDates: [...master.exceptionDates, occurrenceStart] },
+      });
+    }
+    await tx.calendarItem.deleteMany({ where: { seriesId, originalStartAt: occurrenceStart } });
+  });
+}
+
+/**
+ * End a series before an occurrence; later cancellations and changed occurrences are dropped
+ */
+export async function truncateSeries(master: SeriesMaster, occurrenceStart: Date): Promise<void> {
+  const rule = seriesRule(master);
+
+  await db.$transaction([
+    db.calendarItem.update({
+      where: { id: master.id },
+      data: {
+        recurrence: formatRecurrenceRule({ ...rule, count: undefined, until: shift(occurrenceStart, -1000) }),
+        exceptionDates: master.exceptionDates.filter((date) => date < occurrenceStart),
+      },
+    }),
+    db.calendarItem.deleteMany({ where: { seriesId: master.id, originalStartAt: { gte: occurrenceStart } } }),
+  ]);
+}
@@ -0,0 +1,61 @@
+/**
+ * Calendar Item Visibility
+ * Client-safe (no server imports) - shared by the API and the UI
+ * Owners and participants always see everything; for everyone else:
+ * - PUBLIC: full details (subject to module permissions)
+ * - BUSY_ONLY: only the time slot and the owner ("Busy")
+ * - PRIVATE: not listed at all
+ */
+
+export const CALENDAR_VISIBILITIES = ["PUBLIC", "BUSY_ONLY", "PRIVATE"] as const;
+export type CalendarVisibility = (typeof CALENDAR_VISIBILITIES)[number];
+
+export const BUSY_TITLE = "Busy";
+
+/**
+ * Whether a user is the owner or a participant of an item
+ */
+export function isCalendarItemInsider(
+  userId: string,
+  item: { createdById: string; participants: Array<{ userId: string }> }
+): boolean {
+  return item.createdById === userId || item.participants.some((p) => p.userId === userId);
+}
+
+/**
+ * Whether a user may see an item's details (title, description, location, participants)
+ */
+export function canSeeCalendarItemDetails(
+  userId: string,
+  item: { createdById: string; visibility: string; participants: Array<{ userId: string }> }
+): boolean {
+  return item.visibility === "PUBLIC" || isCalendarItemInsider(userId, item);
+}
+
+/**
+ * Calendar item as returned by the API to a given viewer
+ * Details are blanked for outsiders of non-public items; `redacted` tells the UI to show a busy block
+ */
+export function serializeCalendarItem<
+  T extends {
+    createdById: string;
+    visibility: string;
+    title: string;
+    description: string | null;
+    location: string | null;
+    participants: Array<{ userId: string }>;
+  },
+>(item: T, viewerId: string): T & { redacted: boolean } {
+  if (canSeeCalendarItemDetails(viewerId, item)) {
+    return { ...item, redacted: false };
+  }
+
+  return {
+    ...item,
+    title: BUSY_TITLE,
+    description: null,
+    location: null,
+    participants: [],
+    redacted: true,
+  };
+}
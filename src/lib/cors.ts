@@ -0,0 +1,78 @@
+/**
+ * CORS Utilities
+ * Strict origin allowlist: the app's own origin, APP_URL and CORS_ALLOWED_ORIGINS
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { env } from "./env";
+import { CSRF_HEADER_NAME } from "./csrfToken";
+
+/**
+ * Normalize a URL to its origin (scheme://host[:port]), or null if invalid
+ */
+function toOrigin(value: string): string | null {
+  try {
+    return new URL(value).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Origins allowed to make credentialed requests
+ */
+export function getAllowedOrigins(request: NextRequest): string[] {
+  const origins = [request.nextUrl.origin, ...env.CORS_ALLOWED_ORIGINS];
+  if (env.APP_URL) {
+    origins.push(env.APP_URL);
+  }
+  return origins.map(toOrigin).filter((origin): origin is string => origin !== null);
+}
+
+export function isAllowedOrigin(origin: string, request: NextRequest): boolean {
+  const normalized = toOrigin(origin);
+  return normalized !== null && getAllowedOrigins(request).includes(normalized);
+}
+
+/**
+ * Answer a CORS preflight request
+ * Allowed origins get their own origin echoed back (never "*"), others get 403
+ */
+export function corsPreflightResponse(request: NextRequest, methods: string[]): NextResponse {
+  const origin = request.headers.get("origin");
+
+  if (!origin || !isAllowedOrigin(origin, request)) {
+    return NextResponse.json(
+      { error: "Forbidden", message: "Origin not allowed" },
+      { status: 403, headers: { Vary: "Origin" } }
+    );
+  }
+
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      "Access-Control-Allow-Origin": origin,
+      "Access-Control-Allow-Credentials": "true",
+      "Access-Control-Allow-Methods": [...methods, "OPTIONS"].join(", "),
+      "Access-Control-Allow-Headers": `Content-Type, ${CSRF_HEADER_NAME}`,
+      "Access-Control-Max-Age": "86400", // 24 hours
+      Vary: "Origin",
+    },
+  });
+}
+
+/**
+ * Add CORS headers to an actual (non-preflight) API response
+ * Allowed cross-origin callers get their origin echoed back with credentials, so browsers hand them
+ * the response; other origins get no CORS headers
+ */
+export function withCorsHeaders(request: NextRequest, response: NextResponse): NextResponse {
+  const origin = request.headers.get("origin");
+
+  response.headers.append("Vary", "Origin");
+  if (origin && isAllowedOrigin(origin, request)) {
+    response.headers.set("Access-Control-Allow-Origin", origin);
+    response.headers.set("Access-Control-Allow-Credentials", "true");
+  }
+  return response;
+}
@@ -0,0 +1,65 @@
+/**
+ * CSRF Protection
+ * Double-submit token: the middleware sets a random token in a readable cookie,
+ * the client echoes it in the X-CSRF-Token header on every mutating request.
+ * A cross-site page can make the browser send the cookie but cannot read it to set the header.
+ * The Origin (or Referer) header is additionally checked against the CORS allowlist.
+ * Requests authenticated with an API token (Authorization: Bearer) are exempt - browsers
+ * never attach that header on their own, and such requests ignore the session cookie.
+ */
+
+import type { NextRequest } from "next/server";
+import { env } from "./env";
+import { ForbiddenError } from "./errors";
+import { isAllowedOrigin } from "./cors";
+import { CSRF_COOKIE_NAME, CSRF_HEADER_NAME } from "./csrfToken";
+import { safeEqual } from "./tokens";
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * Origin of the request as reported by the browser (Origin, falling back to Referer)
+ */
+function getRequestOrigin(request: NextRequest): string | null {
+  const origin = request.headers.get("origin");
+  if (origin && origin !== "null") {
+    return origin;
+  }
+
+  const referer = request.headers.get("referer");
+  if (referer) {
+    try {
+      return new URL(referer).origin;
+    } catch {
+      return null;
+    }
+  }
+
+  return origin;
+}
+
+/**
+ * Verify CSRF protection for a mutating request
+ * No-op for safe methods, bearer-token requests or when ENABLE_CSRF_PROTECTION=false
+ * Throws ForbiddenError if the origin is not allowed or the token is missing/wrong
+ */
+export function verifyCsrf(request: NextRequest): void {
+  if (!env.ENABLE_CSRF_PROTECTION || SAFE_METHODS.includes(request.method)) {
+    return;
+  }
+
+  if (/^Bearer\s/i.test(request.headers.get("authorization") ?? "")) {
+    return;
+  }
+
+  const origin = getRequestOrigin(request);
+  if (origin && !isAllowedOrigin(origin, request)) {
+    throw new ForbiddenError("Forbidden: Cross-origin request rejected");
+  }
+
+  const cookieToken = request.cookies.get(CSRF_COOKIE_NAME)?.value;
+  const headerToken = request.headers.get(CSRF_HEADER_NAME);
+  if (!cookieToken || !headerToken || !safeEqual(cookieToken, headerToken)) {
+    throw new ForbiddenError("Forbidden: Invalid or missing CSRF token");
+  }
+}
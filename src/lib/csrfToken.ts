@@ -0,0 +1,16 @@
+/**
+ * CSRF Token
+ * Edge Runtime and browser compatible - uses Web Crypto only
+ * Shared by middleware (issues the cookie), route handlers (verify) and client fetch (sends the header)
+ */
+
+export const CSRF_COOKIE_NAME = "calendar_csrf";
+export const CSRF_HEADER_NAME = "x-csrf-token";
+
+/**
+ * Generate a random token (256 bits, hex)
+ */
+export function generateCsrfToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,25 @@
+/**
+ * Calendar Delegation Scopes
+ * Client-safe (no server imports) - shared by the delegation routes, authorization checks and the UI
+ * EDIT and RSVP imply VIEW: a delegate cannot act on items they cannot see
+ */
+
+export const DELEGATION_SCOPES = ["VIEW", "EDIT", "RSVP"] as const;
+export type DelegationScope = (typeof DELEGATION_SCOPES)[number];
+
+export const DELEGATION_SCOPE_DESCRIPTIONS: Record<DelegationScope, string> = {
+  VIEW: "See my calendar",
+  EDIT: "Create, edit and delete my meetings and deadlines",
+  RSVP: "Respond to invitations for me",
+};
+
+export function isDelegationScope(value: string): value is DelegationScope {
+  return (DELEGATION_SCOPES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether granted scopes cover the required one
+ */
+export function hasDelegationScope(scopes: readonly string[], required: DelegationScope): boolean {
+  return required === "VIEW" ? scopes.some(isDelegationScope) : scopes.includes(required);
+}
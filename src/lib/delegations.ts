@@ -0,0 +1,138 @@
+/**
+ * Calendar Delegation
+ * A principal lets a delegate (e.g. an assistant) view their calendar, manage their items or RSVP for them
+ * Delegates act with the principal's permissions, never with more
+ */
+
+import type { CalendarDelegation, User } from "@prisma/client";
+import { db } from "./db";
+import { ForbiddenError, NotFoundError, ValidationError } from "./errors";
+import { hasDelegationScope, isDelegationScope, type DelegationScope } from "./delegationScopes";
+
+const userSelect = { id: true, name: true, email: true } as const;
+
+type UserBasic = { id: string; name: string; email: string };
+
+/**
+ * Public view of a delegation
+ */
+export interface DelegationSummary {
+  id: string;
+  principal: UserBasic;
+  delegate: UserBasic;
+  scopes: DelegationScope[];
+  createdAt: Date;
+}
+
+function toSummary(delegation: CalendarDelegation & { principal: UserBasic; delegate: UserBasic }): DelegationSummary {
+  return {
+    id: delegation.id,
+    principal: delegation.principal,
+    delegate: delegation.delegate,
+    scopes: delegation.scopes.filter(isDelegationScope),
+    createdAt: delegation.createdAt,
+  };
+}
+
+/**
+ * Delegations a user has granted (their delegates) and received (people they act for)
+ */
+export async function listDelegations(
+  userId: string
+): Promise<{ granted: DelegationSummary[]; received: DelegationSummary[] }> {
+  const delegations = await db.calendarDelegation.findMany({
+    where: { OR: [{ principalId: userId }, { delegateId: userId }] },
+    include: { principal: { select: userSelect }, delegate: { select: userSelect } },
+    orderBy: { createdAt: "asc" },
+    take: 200, // Max limit to prevent DoS
+  });
+
+  const summaries = delegations.map(toSummary);
+  return {
+    granted: summaries.filter((d) => d.principal.id === userId),
+    received: summaries.filter((d) => d.delegate.id === userId),
+  };
+}
+
+/**
+ * Single delegation, or null
+ */
+export async function getDelegation(id: string): Promise<DelegationSummary | null> {
+  const delegation = await db.calendarDelegation.findUnique({
+    where: { id },
+    include: { principal: { select: userSelect }, delegate: { select: userSelect } },
+  });
+  return delegation ? toSummary(delegation) : null;
+}
+
+/**
+ * Grant (or change the scopes of) a delegation
+ */
+export async function saveDelegation(
+  principalId: string,
+  delegateId: string,
+  scopes: DelegationScope[]
+): Promise<DelegationSummary> {
+  if (principalId === delegateId) {
+    throw new ValidationError("You cannot delegate your calendar to yourself");
+  }
+
+  const delegate = await db.user.findUnique({ where: { id: delegateId }, select: { id: true } });
+  if (!delegate) {
+    throw new NotFoundError("User not found");
+  }
+
+  const uniqueScopes = [...new Set(scopes)];
+  const delegation = await db.calendarDelegation.upsert({
+    where: { principalId_delegateId: { principalId, delegateId } },
+    update: { scopes: uniqueScopes },
+    create: { principalId, delegateId, scopes: uniqueScopes },
+    include: { principal: { select: userSelect }, delegate: { select: userSelect } },
+  });
+
+  return toSummary(delegation);
+}
+
+/**
+ * Revoke a delegation
+ * @returns false if the delegation does not exist
+ */
+export async function deleteDelegation(id: string): Promise<boolean> {
+  const { count } = await db.calendarDelegation.deleteMany({ where: { id } });
+  return count > 0;
+}
+
+/**
+ * Scopes a delegate holds for a principal (empty if there is no delegation)
+ */
+export async function getDelegationScopes(delegateId: string, principalId: string): Promise<DelegationScope[]> {
+  const delegation = await db.calendarDelegation.findUnique({
+    where: { principalId_delegateId: { principalId, delegateId } },
+    select: { scopes: true },
+  });
+
+  return delegation?.scopes.filter(isDelegationScope) ?? [];
+}
+
+/**
+ * Require that a user may act for a principal with a scope
+ * @returns the principal (their permissions apply to whatever the delegate does)
+ * Throws ForbiddenError if there is no such delegation
+ */
+export async function requireDelegation(
+  delegate: User,
+  principalId: string,
+  scope: DelegationScope
+): Promise<User> {
+  const scopes = await getDelegationScopes(delegate.id, principalId);
+  if (!hasDelegationScope(scopes, scope)) {
+    throw new ForbiddenError("You are not allowed to act on behalf of this user");
+  }
+
+  const principal = await db.user.findUnique({ where: { id: principalId } });
+  if (!principal) {
+    throw new NotFoundError("User not found");
+  }
+
+  return principal;
+}
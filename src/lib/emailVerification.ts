@@ -0,0 +1,141 @@
+/**
+ * Email Verification
+ * Single-use, expiring confirmation tokens - only the SHA-256 hash is stored
+ * A token confirms one address: the account's own (new accounts) or a requested new one (email change)
+ */
+
+import { db } from "./db";
+import { ValidationError } from "./errors";
+import { emailVerificationEmail } from "./emails";
+import { sendMail } from "./mail";
+import { generateToken, hashToken } from "./tokens";
+
+export const EMAIL_VERIFICATION_TTL_HOURS = 24;
+
+/**
+ * Issue a verification token for an address of a user
+ * Any previously issued, unused tokens are invalidated so only the latest link works
+ * @returns raw token (to be sent by email, never stored)
+ */
+export async function createEmailVerificationToken(userId: string, email: string): Promise<string> {
+  const token = generateToken();
+  const now = new Date();
+
+  await db.$transaction([
+    db.emailVerificationToken.updateMany({
+      where: { userId, usedAt: null },
+      data: { usedAt: now },
+    }),
+    db.emailVerificationToken.create({
+      data: {
+        userId,
+        email,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(now.getTime() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000),
+      },
+    }),
+  ]);
+
+  return token;
+}
+
+/**
+ * Issue a token and send the confirmation link through the mail transport
+ * @param email Address to confirm (defaults to the account's current address)
+ */
+export async function sendVerificationEmail(
+  user: { id: string; name: string; email: string },
+  appUrl: string,
+  email: string = user.email
+): Promise<void> {
+  const token = await createEmailVerificationToken(user.id, email);
+  const verifyUrl = `${appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+  await sendMail(emailVerificationEmail(email, user.name, verifyUrl, EMAIL_VERIFICATION_TTL_HOURS));
+}
+
+/**
+ * Start an email change: the new address is only applied once its link is opened
+ * The current address stays in use (and verified) until then
+ * Throws ValidationError if the address belongs to another account
+ */
+export async function requestEmailChange(
+  user: { id: string; name: string; email: string },
+  newEmail: string,
+  appUrl: string
+): Promise<void> {
+  await assertEmailAvailable(user.id, newEmail);
+
+  await db.user.update({
+    where: { id: user.id },
+    data: { pendingEmail: newEmail },
+  });
+  await sendVerificationEmail(user, appUrl, newEmail);
+}
+
+async function assertEmailAvailable(userId: string, email: string): Promise<void> {
+  const owner = await db.user.findUnique({ where: { email }, select: { id: true } });
+  if (owner && owner.id !== userId) {
+    throw new ValidationError("This email address is already in use");
+  }
+}
+
+/**
+ * Confirm an email address with a token
+ * For an email change the confirmed address replaces the account's email
+ * Throws ValidationError for unknown, used or expired tokens
+ * @returns id of the verified user and whether the email was changed
+ */
+export async function verifyEmailWithToken(
+  token: string
+): Promise<{ userId: string; emailChanged: boolean }> {
+  const verificationToken = await db.emailVerificationToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: {
+      id: true,
+      userId: true,
+      email: true,
+      usedAt: true,
+      expiresAt: true,
+      user: { select: { email: true } },
+    },
+  });
+
+  if (!verificationToken || verificationToken.usedAt || verificationToken.expiresAt <= new Date()) {
+    throw new ValidationError("This verification link is invalid or has expired");
+  }
+
+  const emailChanged = verificationToken.email !== verificationToken.user.email;
+  if (emailChanged) {
+    // The address may have been registered by someone else since the change was requested
+    await assertEmailAvailable(verificationToken.userId, verificationToken.email);
+  }
+
+  const now = new Date();
+
+  // Claim the token atomically - a concurrent request with the same token finds usedAt set
+  await db.$transaction(async (tx) => {
+    const claimed = await tx.emailVerificationToken.updateMany({
+      where: { id: verificationToken.id, usedAt: null },
+      data: { usedAt: now },
+    });
+    if (claimed.count === 0) {
+      throw new ValidationError("This verification link is invalid or has expired");
+    }
+
+    if (emailChanged) {
+      await tx.user.update({
+        where: { id: verificationToken.userId },
+        data: { email: verificationToken.email, emailVerifiedAt: now, pendingEmail: null },
+      });
+      return;
+    }
+
+    // Keep the original timestamp if the address was already confirmed
+    await tx.user.updateMany({
+      where: { id: verificationToken.userId, emailVerifiedAt: null },
+      data: { emailVerifiedAt: now },
+    });
+  });
+
+  return { userId: verificationToken.userId, emailChanged };
+}
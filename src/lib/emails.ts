@@ -0,0 +1,113 @@
+/**
+ * Email Templates
+ * Plain-text bodies with a minimal HTML alternative
+ */
+
+import type { MailMessage } from "./mail";
+
+/**
+ * Escape text for safe interpolation into HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Build a simple message with a single call-to-action link
+ */
+function linkEmail(options: {
+  to: string;
+  subject: string;
+  greeting: string;
+  intro: string;
+  linkLabel: string;
+  url: string;
+  outro: string;
+}): MailMessage {
+  const { to, subject, greeting, intro, linkLabel, url, outro } = options;
+
+  return {
+    to,
+    subject,
+    text: `${greeting}\n\n${intro}\n\n${linkLabel}: ${url}\n\n${outro}\n`,
+    html: [
+      `<p>${escapeHtml(greeting)}</p>`,
+      `<p>${escapeHtml(intro)}</p>`,
+      `<p><a href="${escapeHtml(url)}">${escapeHtml(linkLabel)}</a></p>`,
+      `<p>${escapeHtml(outro)}</p>`,
+    ].join("\n"),
+  };
+}
+
+/**
+ * Password reset link
+ */
+export function passwordResetEmail(to: string, name: string, url: string, expiresInMinutes: number): MailMessage {
+  return linkEmail({
+    to,
+    subject: "Reset your Calendar password",
+    greeting: `Hi ${name},`,
+    intro: `We received a request to reset your password. The link is valid for ${expiresInMinutes} minutes and can be used once.`,
+    linkLabel: "Reset password",
+    url,
+    outro: "If you did not request a password reset, you can ignore this email.",
+  });
+}
+
+/**
+ * Email address confirmation link for a new account
+ */
+export function emailVerificationEmail(to: string, name: string, url: string, expiresInHours: number): MailMessage {
+  return linkEmail({
+    to,
+    subject: "Confirm your Calendar email address",
+    greeting: `Hi ${name},`,
+    intro: `Please confirm your email address to finish setting up your account. The link is valid for ${expiresInHours} hours and can be used once.`,
+    linkLabel: "Confirm email address",
+    url,
+    outro: "If you did not create a Calendar account, you can ignore this email.",
+  });
+}
+
+/**
+ * Invitation link
+ */
+export function invitationEmail(to: string, inviterName: string, url: string, expiresInDays: number): MailMessage {
+  return linkEmail({
+    to,
+    subject: "You have been invited to Calendar",
+    greeting: "Hi,",
+    intro: `${inviterName} invited you to join Calendar. The link is valid for ${expiresInDays} days and can be used once.`,
+    linkLabel: "Accept invitation",
+    url,
+    outro: "If you were not expecting this invitation, you can ignore this email.",
+  });
+}
+
+/**
+ * Warning that temporary access is about to end
+ */
+export function permissionExpiryEmail(
+  to: string,
+  name: string,
+  grants: Array<{ module: string; validUntil: Date }>,
+  url: string
+): MailMessage {
+  const list = grants
+    .map((grant) => `${grant.module} (until ${grant.validUntil.toUTCString()})`)
+    .join(", ");
+
+  return linkEmail({
+    to,
+    subject: "Your temporary Calendar access is ending",
+    greeting: `Hi ${name},`,
+    intro: `Your temporary access ends soon: ${list}. After that the access you had before applies again.`,
+    linkLabel: "Open Calendar",
+    url,
+    outro: "If you still need this access, ask an administrator to extend it.",
+  });
+}
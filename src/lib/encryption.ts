@@ -0,0 +1,49 @@
+/**
+ * Secret Encryption
+ * AES-256-GCM encryption for secrets stored in the database (e.g. TOTP secrets)
+ * The key is derived from AUTH_SECRET, so rotating AUTH_SECRET invalidates stored secrets
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { env } from "./env";
+
+const ALGORITHM = "aes-256-gcm";
+const VERSION = "v1";
+
+function getKey(): Buffer {
+  return createHash("sha256").update(`encryption:${env.AUTH_SECRET}`).digest();
+}
+
+/**
+ * Encrypt a string
+ * @returns "v1.<iv>.<authTag>.<ciphertext>" (base64url parts)
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [VERSION, iv, authTag, ciphertext]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64url")))
+    .join(".");
+}
+
+/**
+ * Decrypt a value produced by encryptSecret()
+ * Throws if the value was tampered with or encrypted with another key
+ */
+export function decryptSecret(value: string): string {
+  const [version, iv, authTag, ciphertext] = value.split(".");
+  if (version !== VERSION || !iv || !authTag || ciphertext === undefined) {
+    throw new Error("Unsupported encrypted value format");
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, "base64url"));
+  decipher.setAuthTag(Buffer.from(authTag, "base64url"));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64url")),
+    decipher.final(),
+  ]).toString("utf8");
+}
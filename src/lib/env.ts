@@ -4,6 +4,30 @@ import { z } from "zod";
  * Environment variables schema
  * Validates all required environment variables at startup
  */
+const PermissionLevelSchema = z.enum(["NONE", "VIEW", "EDIT"]);
+
+// Default permissions per IdP group: { "<group>": { "<module>": { myLevel, allLevel } } }
+const OidcGroupPermissionsSchema = z.record(
+  z.string(),
+  z.partialRecord(
+    z.enum(["meetings", "deadlines", "schedule"]),
+    z.object({
+      myLevel: PermissionLevelSchema.default("NONE"),
+      allLevel: PermissionLevelSchema.default("NONE"),
+    })
+  )
+);
+
+/**
+ * Split a comma-separated variable into trimmed, non-empty values
+ */
+function commaList(val: string | undefined): string[] {
+  return (val ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
 const envSchema = z.object({
   // Database (PostgreSQL, e.g. Neon)
   DATABASE_URL: z.string().min(1, "DATABASE_URL is required"),
@@ -28,8 +52,67 @@ const envSchema = z.object({
     .string()
     .optional()
     .transform((val) => val !== "false"), // Default to true unless explicitly false
+
+  // Optional: Extra origins allowed to call the API with credentials (comma-separated)
+  CORS_ALLOWED_ORIGINS: z.string().optional().transform(commaList),
+
+  // Public base URL used in email links; required in production to send them (see getAppUrl),
+  // development falls back to the request origin
+  APP_URL: z.string().url().optional(),
+
+  // Optional: Shared secret for scheduled jobs (/api/cron/*, sent as "Authorization: Bearer <secret>")
+  CRON_SECRET: z.string().min(16, "CRON_SECRET must be at least 16 characters long").optional(),
+
+  // Optional: Mail
+  MAIL_TRANSPORT: z.enum(["outbox", "console"]).default("outbox"),
+  MAIL_FROM: z.string().default("Calendar <no-reply@localhost>"),
+
+  // Optional: OpenID Connect single sign-on (enabled when issuer and client id are set)
+  OIDC_ISSUER: z.string().url().optional(),
+  OIDC_CLIENT_ID: z.string().optional(),
+  OIDC_CLIENT_SECRET: z.string().optional(), // Omit for public clients (PKCE only)
+  OIDC_SCOPES: z.string().default("openid email profile"),
+  OIDC_PROVIDER_NAME: z.string().default("SSO"), // Shown on the login button
+  OIDC_GROUPS_CLAIM: z.string().default("groups"),
+  OIDC_ADMIN_GROUPS: z.string().optional().transform(commaList),
+  OIDC_GROUP_PERMISSIONS: z
+    .string()
+    .optional()
+    .transform((val, ctx) => {
+      if (!val) return {};
+      try {
+        return JSON.parse(val) as unknown;
+      } catch {
+        ctx.addIssue({ code: "custom", message: "OIDC_GROUP_PERMISSIONS must be valid JSON" });
+        return z.NEVER;
+      }
+    })
+    .pipe(OidcGroupPermissionsSchema),
 });
 
+/**
+ * Optional variables, read the same way at runtime and in the build-time fallback
+ */
+function readOptionalEnv() {
+  return {
+    RATE_LIMIT_ENABLED: process.env.RATE_LIMIT_ENABLED,
+    ENABLE_CSRF_PROTECTION: process.env.ENABLE_CSRF_PROTECTION,
+    CORS_ALLOWED_ORIGINS: process.env.CORS_ALLOWED_ORIGINS,
+    APP_URL: process.env.APP_URL || undefined,
+    CRON_SECRET: process.env.CRON_SECRET || undefined,
+    MAIL_TRANSPORT: process.env.MAIL_TRANSPORT || undefined,
+    MAIL_FROM: process.env.MAIL_FROM || undefined,
+    OIDC_ISSUER: process.env.OIDC_ISSUER || undefined,
+    OIDC_CLIENT_ID: process.env.OIDC_CLIENT_ID || undefined,
+    OIDC_CLIENT_SECRET: process.env.OIDC_CLIENT_SECRET || undefined,
+    OIDC_SCOPES: process.env.OIDC_SCOPES || undefined,
+    OIDC_PROVIDER_NAME: process.env.OIDC_PROVIDER_NAME || undefined,
+    OIDC_GROUPS_CLAIM: process.env.OIDC_GROUPS_CLAIM || undefined,
+    OIDC_ADMIN_GROUPS: process.env.OIDC_ADMIN_GROUPS,
+    OIDC_GROUP_PERMISSIONS: process.env.OIDC_GROUP_PERMISSIONS || undefined,
+  };
+}
+
 /**
  * Check if we're in build time (Prisma generation, not runtime)
  * Uses environment variables only for Edge Runtime compatibility
@@ -60,8 +143,7 @@ export const env = (() => {
       DATABASE_URL: databaseUrl,
       AUTH_SECRET: authSecret,
       NODE_ENV: process.env.NODE_ENV || "development",
-      RATE_LIMIT_ENABLED: process.env.RATE_LIMIT_ENABLED,
-      ENABLE_CSRF_PROTECTION: process.env.ENABLE_CSRF_PROTECTION,
+      ...readOptionalEnv(),
     };
     
     return envSchema.parse(envData);
@@ -82,8 +164,7 @@ export const env = (() => {
           DATABASE_URL: process.env.DATABASE_URL || (buildTime ? "postgresql://build-placeholder" : undefined!),
           AUTH_SECRET: "build-time-placeholder-min-32-chars-long-required",
           NODE_ENV: process.env.NODE_ENV || "development",
-          RATE_LIMIT_ENABLED: process.env.RATE_LIMIT_ENABLED,
-          ENABLE_CSRF_PROTECTION: process.env.ENABLE_CSRF_PROTECTION,
+          ...readOptionalEnv(),
         });
       }
 
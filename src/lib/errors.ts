@@ -39,6 +39,20 @@ export class ForbiddenError extends AppError {
   }
 }
 
+export class TwoFactorRequiredError extends AppError {
+  constructor(message: string = "Two-factor authentication must be enabled") {
+    super(message, 403, "TWO_FACTOR_REQUIRED");
+    this.name = "TwoFactorRequiredError";
+  }
+}
+
+export class EmailNotVerifiedError extends AppError {
+  constructor(message: string = "Email address must be verified") {
+    super(message, 403, "EMAIL_NOT_VERIFIED");
+    this.name = "EmailNotVerifiedError";
+  }
+}
+
 export class NotFoundError extends AppError {
   constructor(message: string = "Not Found") {
     super(message, 404, "NOT_FOUND");
@@ -0,0 +1,201 @@
+/**
+ * Groups
+ * Teams of users with shared permission grants (see getEffectivePermissions)
+ * Groups can also be picked as a whole when adding event participants
+ */
+
+import type { Prisma } from "@prisma/client";
+import { db } from "./db";
+import { NotFoundError, ValidationError } from "./errors";
+
+export interface GroupPermissionGrant {
+  module: "meetings" | "deadlines" | "schedule";
+  myLevel: "NONE" | "VIEW" | "EDIT";
+  allLevel: "NONE" | "VIEW" | "EDIT";
+}
+
+/**
+ * Admin view of a group
+ */
+export interface GroupSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  members: Array<{ id: string; name: string; email: string }>;
+  permissions: GroupPermissionGrant[];
+  createdAt: Date;
+}
+
+const groupInclude = {
+  members: {
+    select: { user: { select: { id: true, name: true, email: true } } },
+    orderBy: { user: { name: "asc" } },
+  },
+  permissions: { select: { module: true, myLevel: true, allLevel: true } },
+} satisfies Prisma.GroupInclude;
+
+function toSummary(group: Prisma.GroupGetPayload<{ include: typeof groupInclude }>): GroupSummary {
+  return {
+    id: group.id,
+    name: group.name,
+    description: group.description,
+    members: group.members.map((m) => m.user),
+    permissions: group.permissions as GroupPermissionGrant[],
+    createdAt: group.createdAt,
+  };
+}
+
+/**
+ * Group names are unique (case-insensitive)
+ */
+async function assertNameAvailable(name: string, exceptId?: string): Promise<void> {
+  const existing = await db.group.findFirst({
+    where: { name: { equals: name, mode: "insensitive" }, ...(exceptId && { id: { not: exceptId } }) },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new ValidationError("A group with this name already exists");
+  }
+}
+
+/**
+ * Every member id must belong to an existing user
+ */
+async function assertUsersExist(userIds: string[]): Promise<void> {
+  const unique = [...new Set(userIds)];
+  const count = await db.user.count({ where: { id: { in: unique } } });
+
+  if (count !== unique.length) {
+    throw new ValidationError("One or more members do not exist");
+  }
+}
+
+/**
+ * List all groups with members and grants
+ */
+export async function listGroups(): Promise<GroupSummary[]> {
+  const groups = await db.group.findMany({
+    include: groupInclude,
+    orderBy: { name: "asc" },
+    take: 500, // Max limit to prevent DoS
+  });
+
+  return groups.map(toSummary);
+}
+
+/**
+ * Single group with members and grants, or null
+ */
+export async function getGroup(id: string): Promise<GroupSummary | null> {
+  const group = await db.group.findUnique({ where: { id }, include: groupInclude });
+  return group ? toSummary(group) : null;
+}
+
+/**
+ * Groups with their member ids (for participant pickers)
+ */
+export async function listGroupMembership(): Promise<Array<{ id: string; name: string; memberIds: string[] }>> {
+  const groups = await db.group.findMany({
+    select: { id: true, name: true, members: { select: { userId: true } } },
+    orderBy: { name: "asc" },
+    take: 500,
+  });
+
+  return groups.map((group) => ({
+    id: group.id,
+    name: group.name,
+    memberIds: group.members.map((m) => m.userId),
+  }));
+}
+
+/**
+ * Create a group
+ */
+export async function createGroup(data: {
+  name: string;
+  description?: string | null;
+  memberIds?: string[];
+  permissions?: GroupPermissionGrant[];
+}): Promise<GroupSummary> {
+  await assertNameAvailable(data.name);
+  await assertUsersExist(data.memberIds ?? []);
+
+  const group = await db.group.create({
+    data: {
+      name: data.name,
+      description: data.description || null,
+      members: { create: [...new Set(data.memberIds ?? [])].map((userId) => ({ userId })) },
+      permissions: { create: data.permissions ?? [] },
+    },
+    include: groupInclude,
+  });
+
+  return toSummary(group);
+}
+
+/**
+ * Update a group
+ * memberIds and permissions, when given, replace the current members / grants
+ */
+export async function updateGroup(
+  id: string,
+  data: {
+    name?: string;
+    description?: string | null;
+    memberIds?: string[];
+    permissions?: GroupPermissionGrant[];
+  }
+): Promise<GroupSummary> {
+  const existing = await db.group.findUnique({ where: { id }, select: { id: true } });
+  if (!existing) {
+    throw new NotFoundError("Group not found");
+  }
+
+  if (data.name !== undefined) {
+    await assertNameAvailable(data.name, id);
+  }
+  if (data.memberIds !== undefined) {
+    await assertUsersExist(data.memberIds);
+  }
+
+  const group = await db.$transaction(async (tx) => {
+    if (data.memberIds !== undefined) {
+      await tx.groupMember.deleteMany({ where: { groupId: id } });
+      await tx.groupMember.createMany({
+        data: data.memberIds.map((userId) => ({ groupId: id, userId })),
+        skipDuplicates: true,
+      });
+    }
+
+    if (data.permissions !== undefined) {
+      for (const perm of data.permissions) {
+        await tx.groupPermission.upsert({
+          where: { groupId_module: { groupId: id, module: perm.module } },
+          update: { myLevel: perm.myLevel, allLevel: perm.allLevel },
+          create: { groupId: id, ...perm },
+        });
+      }
+    }
+
+    return tx.group.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.description !== undefined && { description: data.description || null }),
+      },
+      include: groupInclude,
+    });
+  });
+
+  return toSummary(group);
+}
+
+/**
+ * Delete a group (members keep their own grants)
+ * @returns false if the group does not exist
+ */
+export async function deleteGroup(id: string): Promise<boolean> {
+  const { count } = await db.group.deleteMany({ where: { id } });
+  return count > 0;
+}
@@ -0,0 +1,166 @@
+/**
+ * Invitations
+ * Single-use, expiring signup links issued by admins with a pre-set role and permissions
+ * Only the SHA-256 hash of the token is stored
+ */
+
+import type { Invitation, User } from "@prisma/client";
+import { db } from "./db";
+import { ValidationError } from "./errors";
+import { generateToken, hashToken } from "./tokens";
+
+export const INVITATION_TTL_DAYS = 7;
+
+export interface InvitationPermission {
+  module: "meetings" | "deadlines" | "schedule";
+  myLevel: "NONE" | "VIEW" | "EDIT";
+  allLevel: "NONE" | "VIEW" | "EDIT";
+}
+
+/**
+ * Public view of an invitation (never includes the hash)
+ */
+export interface InvitationSummary {
+  id: string;
+  email: string;
+  role: string;
+  permissions: InvitationPermission[];
+  expiresAt: Date;
+  createdAt: Date;
+  invitedBy: { id: string; name: string };
+}
+
+function toSummary(invitation: Invitation & { invitedBy: Pick<User, "id" | "name"> }): InvitationSummary {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    permissions: invitation.permissions as unknown as InvitationPermission[],
+    expiresAt: invitation.expiresAt,
+    createdAt: invitation.createdAt,
+    invitedBy: invitation.invitedBy,
+  };
+}
+
+/**
+ * Create an invitation
+ * Pending invitations for the same email are revoked so only the latest link works
+ * @returns raw token (to be sent by email, never stored) and the invitation
+ */
+export async function createInvitation(
+  invitedById: string,
+  data: { email: string; role: "ADMIN" | "USER"; permissions: InvitationPermission[] }
+): Promise<{ token: string; invitation: InvitationSummary }> {
+  const token = generateToken();
+  const now = new Date();
+
+  const [, invitation] = await db.$transaction([
+    db.invitation.updateMany({
+      where: { email: data.email, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: now },
+    }),
+    db.invitation.create({
+      data: {
+        email: data.email,
+        role: data.role,
+        permissions: data.permissions as unknown as object,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(now.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+        invitedById,
+      },
+      include: { invitedBy: { select: { id: true, name: true } } },
+    }),
+  ]);
+
+  return { token, invitation: toSummary(invitation) };
+}
+
+/**
+ * List invitations that can still be accepted
+ */
+export async function listPendingInvitations(): Promise<InvitationSummary[]> {
+  const invitations = await db.invitation.findMany({
+    where: { acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+    include: { invitedBy: { select: { id: true, name: true } } },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return invitations.map(toSummary);
+}
+
+/**
+ * Revoke a pending invitation
+ * @returns false if it does not exist or was already accepted/revoked
+ */
+export async function revokeInvitation(invitationId: string): Promise<boolean> {
+  const result = await db.invitation.updateMany({
+    where: { id: invitationId, acceptedAt: null, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Resolve a raw token to an invitation that can still be accepted
+ */
+export async function findValidInvitation(token: string): Promise<Invitation | null> {
+  const invitation = await db.invitation.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (
+    !invitation ||
+    invitation.acceptedAt ||
+    invitation.revokedAt ||
+    invitation.expiresAt <= new Date()
+  ) {
+    return null;
+  }
+
+  return invitation;
+}
+
+/**
+ * Create the invited user with the invitation's role and permissions
+ * The invitation is claimed atomically - a concurrent signup with the same link fails
+ * Throws ValidationError for unusable invitations
+ */
+export async function acceptInvitation(
+  invitation: Invitation,
+  data: { name: string; passwordHash: string }
+): Promise<User> {
+  return db.$transaction(async (tx) => {
+    const claimed = await tx.invitation.updateMany({
+      where: {
+        id: invitation.id,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      data: { acceptedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw new ValidationError("This invitation is invalid or has expired");
+    }
+
+    const permissions = invitation.permissions as unknown as InvitationPermission[];
+    const user = await tx.user.create({
+      data: {
+        name: data.name,
+        email: invitation.email,
+        passwordHash: data.passwordHash,
+        role: invitation.role,
+        emailVerifiedAt: new Date(), // The invitation link was delivered to this address
+        permissions: { create: permissions },
+      },
+    });
+
+    await tx.invitation.update({
+      where: { id: invitation.id },
+      data: { acceptedUserId: user.id },
+    });
+
+    return user;
+  });
+}
@@ -123,4 +123,144 @@ export const securityLogger = {
       event: "permission_changed",
     });
   },
+
+  sessionsRevoked: (adminUserId: string, targetUserId: string, count: number) => {
+    logger.info("Security: Sessions revoked by admin", {
+      adminUserId,
+      targetUserId,
+      count,
+      event: "sessions_revoked",
+    });
+  },
+
+  passwordResetRequested: (userId: string, ip: string) => {
+    logger.info("Security: Password reset requested", {
+      userId,
+      ip,
+      event: "password_reset_requested",
+    });
+  },
+
+  passwordReset: (userId: string, ip: string) => {
+    logger.info("Security: Password reset completed", {
+      userId,
+      ip,
+      event: "password_reset",
+    });
+  },
+
+  emailVerified: (userId: string, ip: string) => {
+    logger.info("Security: Email address verified", {
+      userId,
+      ip,
+      event: "email_verified",
+    });
+  },
+
+  emailChanged: (userId: string, ip: string) => {
+    logger.info("Security: Email address changed", {
+      userId,
+      ip,
+      event: "email_changed",
+    });
+  },
+
+  passwordChanged: (userId: string, ip: string, revokedSessions: number) => {
+    logger.info("Security: Password changed", {
+      userId,
+      ip,
+      revokedSessions,
+      event: "password_changed",
+    });
+  },
+
+  twoFactorChanged: (
+    userId: string,
+    action: "enabled" | "disabled" | "recovery_codes_regenerated"
+  ) => {
+    logger.info("Security: Two-factor authentication changed", {
+      userId,
+      action,
+      event: "two_factor_changed",
+    });
+  },
+
+  settingsChanged: (adminUserId: string, changes: unknown) => {
+    logger.info("Security: Workspace settings changed", {
+      adminUserId,
+      changes,
+      event: "settings_changed",
+    });
+  },
+
+  accountUnlocked: (adminUserId: string, targetUserId: string) => {
+    logger.info("Security: Account unlocked by admin", {
+      adminUserId,
+      targetUserId,
+      event: "account_unlocked",
+    });
+  },
+
+  apiTokenChanged: (userId: string, tokenId: string, action: "created" | "revoked") => {
+    logger.info("Security: API token changed", {
+      userId,
+      tokenId,
+      action,
+      event: "api_token_changed",
+    });
+  },
+
+  invitationChanged: (adminUserId: string, invitationId: string, action: "created" | "revoked") => {
+    logger.info("Security: Invitation changed", {
+      adminUserId,
+      invitationId,
+      action,
+      event: "invitation_changed",
+    });
+  },
+
+  groupChanged: (
+    adminUserId: string,
+    groupId: string,
+    action: "created" | "updated" | "deleted",
+    changes?: unknown
+  ) => {
+    logger.info("Security: Group changed", {
+      adminUserId,
+      groupId,
+      action,
+      changes,
+      event: "group_changed",
+    });
+  },
+
+  presetChanged: (
+    adminUserId: string,
+    presetId: string,
+    action: "created" | "updated" | "deleted",
+    changes?: unknown
+  ) => {
+    logger.info("Security: Permission preset changed", {
+      adminUserId,
+      presetId,
+      action,
+      changes,
+      event: "preset_changed",
+    });
+  },
+
+  delegationChanged: (
+    userId: string,
+    delegationId: string,
+    action: "granted" | "revoked",
+    details?: unknown
+  ) => {
+    logger.info("Security: Calendar delegation changed", {
+      userId,
+      delegationId,
+      action,
+      details,
+      event: "delegation_changed",
+    });
+  },
 };
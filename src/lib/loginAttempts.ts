@@ -0,0 +1,158 @@
+/**
+ * Login Attempts
+ * Per-account brute-force protection (progressive delays, temporary lockout)
+ * and the LoginEvent history shown to users
+ */
+
+import type { LoginEvent, User } from "@prisma/client";
+import { db } from "./db";
+
+// Failures before each further attempt has to wait (progressive delay)
+const DELAY_THRESHOLD = 3;
+// Failures before the account is locked
+export const LOCKOUT_THRESHOLD = 5;
+
+const BASE_DELAY_MS = 1000 * 30; // 30s, 60s before lockout
+const BASE_LOCKOUT_MS = 1000 * 60 * 15; // 15 min, doubled with every further failure
+const MAX_LOCKOUT_MS = 1000 * 60 * 60 * 24; // 24 hours
+
+const DEFAULT_HISTORY_LIMIT = 20;
+
+export interface LoginEventInput {
+  userId: string | null;
+  email: string;
+  success: boolean;
+  reason?: string;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * Public view of a login event
+ */
+export type LoginEventSummary = Pick<
+  LoginEvent,
+  "id" | "success" | "reason" | "ip" | "userAgent" | "newIp" | "createdAt"
+>;
+
+/**
+ * How long the account must wait after the given number of consecutive failures
+ */
+export function getLockoutDurationMs(failedLoginCount: number): number {
+  if (failedLoginCount < DELAY_THRESHOLD) {
+    return 0;
+  }
+  if (failedLoginCount < LOCKOUT_THRESHOLD) {
+    return BASE_DELAY_MS * 2 ** (failedLoginCount - DELAY_THRESHOLD);
+  }
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (failedLoginCount - LOCKOUT_THRESHOLD), MAX_LOCKOUT_MS);
+}
+
+/**
+ * Get the time until which the account is locked, or null if attempts are allowed now
+ */
+export function getActiveLock(user: Pick<User, "lockedUntil">): Date | null {
+  return user.lockedUntil && user.lockedUntil > new Date() ? user.lockedUntil : null;
+}
+
+/**
+ * Record a failed attempt (password or second factor) and extend the lock
+ * @returns the new lock expiry, or null if the next attempt is allowed immediately
+ */
+export async function recordFailedLogin(userId: string): Promise<Date | null> {
+  // Atomic increment - concurrent failures are all counted
+  const user = await db.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: { increment: 1 } },
+    select: { failedLoginCount: true },
+  });
+
+  const durationMs = getLockoutDurationMs(user.failedLoginCount);
+  if (durationMs === 0) {
+    return null;
+  }
+
+  const lockedUntil = new Date(Date.now() + durationMs);
+  await db.user.update({ where: { id: userId }, data: { lockedUntil } });
+  return lockedUntil;
+}
+
+/**
+ * Reset the failure counter after a successful login (or password reset / admin unlock)
+ */
+export async function resetFailedLogins(userId: string): Promise<void> {
+  await db.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: 0, lockedUntil: null },
+  });
+}
+
+/**
+ * Write a login attempt to the history
+ * Successful logins from an IP this user never signed in from before are flagged as newIp
+ * (the very first login is not flagged)
+ */
+export async function recordLoginEvent(input: LoginEventInput): Promise<LoginEvent> {
+  let newIp = false;
+
+  if (input.success && input.userId && input.ip) {
+    const [previousSuccess, previousFromIp] = await Promise.all([
+      db.loginEvent.findFirst({
+        where: { userId: input.userId, success: true },
+        select: { id: true },
+      }),
+      db.loginEvent.findFirst({
+        where: { userId: input.userId, success: true, ip: input.ip },
+        select: { id: true },
+      }),
+    ]);
+    newIp = !!previousSuccess && !previousFromIp;
+  }
+
+  return db.loginEvent.create({
+    data: {
+      userId: input.userId,
+      email: input.email,
+      success: input.success,
+      reason: input.reason,
+      ip: input.ip,
+      userAgent: input.userAgent,
+      newIp,
+    },
+  });
+}
+
+/**
+ * Recent login attempts of a user, newest first
+ */
+export async function listLoginEvents(
+  userId: string,
+  limit: number = DEFAULT_HISTORY_LIMIT
+): Promise<LoginEventSummary[]> {
+  return db.loginEvent.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      success: true,
+      reason: true,
+      ip: true,
+      userAgent: true,
+      newIp: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+}
+
+/**
+ * Human-readable wait time for lockout messages
+ */
+export function formatLockoutWait(lockedUntil: Date): string {
+  const seconds = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+  if (seconds < 60) {
+    return `${seconds} ${seconds === 1 ? "second" : "seconds"}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} ${minutes === 1 ? "minute" : "minutes"}`;
+}
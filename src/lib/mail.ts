@@ -0,0 +1,95 @@
+/**
+ * Mail Utilities
+ * Pluggable mail transport - the default "outbox" transport stores messages
+ * in the OutboxMessage table so the app works without SMTP
+ */
+
+import { db } from "./db";
+import { env } from "./env";
+import { logger } from "./logger";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send: (message: MailMessage & { from: string }) => Promise<void>;
+}
+
+/**
+ * Outbox transport: persist the message for later delivery / inspection
+ */
+const outboxTransport: MailTransport = {
+  name: "outbox",
+  send: async (message) => {
+    await db.outboxMessage.create({
+      data: {
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      },
+    });
+  },
+};
+
+/**
+ * Console transport: print the message (local development)
+ */
+const consoleTransport: MailTransport = {
+  name: "console",
+  send: async (message) => {
+    console.log(
+      `\n[MAIL] From: ${message.from}\n[MAIL] To: ${message.to}\n[MAIL] Subject: ${message.subject}\n\n${message.text}\n`
+    );
+  },
+};
+
+const builtInTransports: Record<typeof env.MAIL_TRANSPORT, MailTransport> = {
+  outbox: outboxTransport,
+  console: consoleTransport,
+};
+
+// Custom transport registered at startup (e.g. SMTP or a mail API)
+let customTransport: MailTransport | null = null;
+
+/**
+ * Register a custom transport, replacing the one selected by MAIL_TRANSPORT
+ */
+export function setMailTransport(transport: MailTransport | null): void {
+  customTransport = transport;
+}
+
+/**
+ * Get the active transport
+ */
+export function getMailTransport(): MailTransport {
+  return customTransport ?? builtInTransports[env.MAIL_TRANSPORT];
+}
+
+/**
+ * Send an email through the active transport
+ * Errors are logged and rethrown so callers decide whether mail failure is fatal
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const transport = getMailTransport();
+
+  try {
+    await transport.send({ ...message, from: env.MAIL_FROM });
+    logger.info("Mail sent", {
+      transport: transport.name,
+      to: message.to.substring(0, 3) + "***",
+      subject: message.subject,
+    });
+  } catch (error) {
+    logger.error("Failed to send mail", {
+      transport: transport.name,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,334 @@
+/**
+ * OpenID Connect Client
+ * Authorization code flow with PKCE against the issuer configured in OIDC_* variables
+ * ID tokens are verified locally against the issuer's JWKS (RS256/384/512, ES256/384)
+ */
+
+import { createHash, createPublicKey, verify, type JsonWebKey } from "crypto";
+import { encryptSecret, decryptSecret } from "./encryption";
+import { env } from "./env";
+import { AppError } from "./errors";
+import { generateToken } from "./tokens";
+
+const DISCOVERY_CACHE_TTL_MS = 1000 * 60 * 60; // 1 hour
+const HTTP_TIMEOUT_MS = 10_000;
+const CLOCK_SKEW_SECONDS = 60;
+
+export class OidcError extends AppError {
+  constructor(message: string) {
+    super(message, 502, "OIDC_ERROR");
+    this.name = "OidcError";
+  }
+}
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface Jwk extends JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+/**
+ * Verified ID token claims used by the app
+ */
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+// Signature algorithms accepted for ID tokens (never "none" or HMAC)
+const SIGNING_ALGORITHMS: Record<string, { hash: string; ecdsa: boolean }> = {
+  RS256: { hash: "sha256", ecdsa: false },
+  RS384: { hash: "sha384", ecdsa: false },
+  RS512: { hash: "sha512", ecdsa: false },
+  ES256: { hash: "sha256", ecdsa: true },
+  ES384: { hash: "sha384", ecdsa: true },
+};
+
+let discoveryCache: { value: OidcDiscovery; fetchedAt: number } | null = null;
+let jwksCache: { keys: Jwk[]; fetchedAt: number } | null = null;
+
+/**
+ * Whether SSO is configured
+ */
+export function isOidcEnabled(): boolean {
+  return Boolean(env.OIDC_ISSUER && env.OIDC_CLIENT_ID);
+}
+
+function getIssuer(): string {
+  if (!env.OIDC_ISSUER || !env.OIDC_CLIENT_ID) {
+    throw new OidcError("Single sign-on is not configured");
+  }
+  return env.OIDC_ISSUER.replace(/\/$/, "");
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      cache: "no-store",
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new OidcError(
+      `Identity provider is unreachable: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new OidcError(`Identity provider returned ${response.status}: ${body.substring(0, 200)}`);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Fetch (and cache) the issuer's discovery document
+ */
+async function getDiscovery(): Promise<OidcDiscovery> {
+  if (discoveryCache && Date.now() - discoveryCache.fetchedAt < DISCOVERY_CACHE_TTL_MS) {
+    return discoveryCache.value;
+  }
+
+  const issuer = getIssuer();
+  const discovery = await fetchJson<OidcDiscovery>(`${issuer}/.well-known/openid-configuration`);
+
+  if (discovery.issuer?.replace(/\/$/, "") !== issuer) {
+    throw new OidcError("Discovery document issuer does not match OIDC_ISSUER");
+  }
+  if (!discovery.authorization_endpoint || !discovery.token_endpoint || !discovery.jwks_uri) {
+    throw new OidcError("Discovery document is missing required endpoints");
+  }
+
+  discoveryCache = { value: discovery, fetchedAt: Date.now() };
+  return discovery;
+}
+
+/**
+ * Find the signing key for a kid, refetching the JWKS once for unknown kids (key rotation)
+ */
+async function getSigningKey(kid: string | undefined): Promise<Jwk> {
+  const findKey = (keys: Jwk[]) =>
+    keys.find((key) => (kid ? key.kid === kid : true) && (!key.use || key.use === "sig"));
+
+  const cached = jwksCache && Date.now() - jwksCache.fetchedAt < DISCOVERY_CACHE_TTL_MS ? jwksCache.keys : null;
+  const cachedKey = cached ? findKey(cached) : undefined;
+  if (cachedKey) {
+    return cachedKey;
+  }
+
+  const { jwks_uri } = await getDiscovery();
+  const { keys } = await fetchJson<{ keys: Jwk[] }>(jwks_uri);
+  jwksCache = { keys: keys ?? [], fetchedAt: Date.now() };
+
+  const key = findKey(jwksCache.keys);
+  if (!key) {
+    throw new OidcError("No matching signing key found in the identity provider's JWKS");
+  }
+  return key;
+}
+
+/**
+ * PKCE S256 challenge for a code verifier
+ */
+function codeChallengeFor(codeVerifier: string): string {
+  return createHash("sha256").update(codeVerifier).digest("base64url");
+}
+
+/**
+ * Start an authorization request
+ * state, nonce and codeVerifier must be kept (in a cookie) until the callback
+ */
+export async function createAuthorizationRequest(redirectUri: string): Promise<{
+  url: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}> {
+  const { authorization_endpoint } = await getDiscovery();
+  const state = generateToken();
+  const nonce = generateToken();
+  const codeVerifier = generateToken(48);
+
+  const url = new URL(authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", env.OIDC_CLIENT_ID!);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", env.OIDC_SCOPES);
+  url.searchParams.set("state", state);
+  url.searchParams.set("nonce", nonce);
+  url.searchParams.set("code_challenge", codeChallengeFor(codeVerifier));
+  url.searchParams.set("code_challenge_method", "S256");
+
+  return { url: url.toString(), state, nonce, codeVerifier };
+}
+
+/**
+ * Exchange an authorization code for tokens
+ * Uses client_secret_basic when a client secret is configured, otherwise a public client
+ * @returns the raw ID token
+ */
+export async function exchangeAuthorizationCode(
+  code: string,
+  codeVerifier: string,
+  redirectUri: string
+): Promise<string> {
+  const { token_endpoint } = await getDiscovery();
+
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: codeVerifier,
+  });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+
+  if (env.OIDC_CLIENT_SECRET) {
+    const credentials = `${encodeURIComponent(env.OIDC_CLIENT_ID!)}:${encodeURIComponent(env.OIDC_CLIENT_SECRET)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  } else {
+    body.set("client_id", env.OIDC_CLIENT_ID!);
+  }
+
+  const tokens = await fetchJson<{ id_token?: string }>(token_endpoint, {
+    method: "POST",
+    headers,
+    body,
+  });
+
+  if (!tokens.id_token) {
+    throw new OidcError("Token response did not include an ID token");
+  }
+  return tokens.id_token;
+}
+
+function decodeSegment<T>(segment: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+  } catch {
+    throw new OidcError("Malformed ID token");
+  }
+}
+
+/**
+ * Verify an ID token: signature, issuer, audience, expiry and nonce
+ */
+export async function verifyIdToken(idToken: string, expectedNonce: string): Promise<OidcClaims> {
+  const [headerSegment, payloadSegment, signatureSegment] = idToken.split(".");
+  if (!headerSegment || !payloadSegment || !signatureSegment) {
+    throw new OidcError("Malformed ID token");
+  }
+
+  const header = decodeSegment<{ alg?: string; kid?: string }>(headerSegment);
+  const algorithm = header.alg ? SIGNING_ALGORITHMS[header.alg] : undefined;
+  if (!algorithm) {
+    throw new OidcError(`Unsupported ID token algorithm: ${header.alg}`);
+  }
+
+  const jwk = await getSigningKey(header.kid);
+  const publicKey = createPublicKey({ key: jwk, format: "jwk" });
+  const signatureValid = verify(
+    algorithm.hash,
+    Buffer.from(`${headerSegment}.${payloadSegment}`),
+    algorithm.ecdsa ? { key: publicKey, dsaEncoding: "ieee-p1363" } : publicKey,
+    Buffer.from(signatureSegment, "base64url")
+  );
+  if (!signatureValid) {
+    throw new OidcError("Invalid ID token signature");
+  }
+
+  const claims = decodeSegment<OidcClaims & {
+    iss?: string;
+    aud?: string | string[];
+    azp?: string;
+    exp?: number;
+    iat?: number;
+    nonce?: string;
+  }>(payloadSegment);
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss?.replace(/\/$/, "") !== getIssuer()) {
+    throw new OidcError("ID token issuer mismatch");
+  }
+  if (!audiences.includes(env.OIDC_CLIENT_ID) || (audiences.length > 1 && claims.azp !== env.OIDC_CLIENT_ID)) {
+    throw new OidcError("ID token audience mismatch");
+  }
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new OidcError("ID token has expired");
+  }
+  if (typeof claims.iat === "number" && claims.iat - CLOCK_SKEW_SECONDS > now) {
+    throw new OidcError("ID token was issued in the future");
+  }
+  if (claims.nonce !== expectedNonce) {
+    throw new OidcError("ID token nonce mismatch");
+  }
+  if (typeof claims.sub !== "string" || !claims.sub) {
+    throw new OidcError("ID token has no subject");
+  }
+
+  return claims;
+}
+
+// ============================================
+// Pending login state (encrypted cookie between start and callback)
+// ============================================
+
+export const OIDC_STATE_COOKIE_NAME = "calendar_oidc";
+export const OIDC_STATE_TTL_SECONDS = 60 * 10; // 10 minutes to complete the IdP login
+
+export interface OidcLoginState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirect: string; // Local path to return to after login
+}
+
+/**
+ * Encrypt the pending login state for the cookie (AES-GCM also protects integrity)
+ */
+export function sealLoginState(loginState: OidcLoginState): string {
+  return encryptSecret(
+    JSON.stringify({ ...loginState, exp: Date.now() + OIDC_STATE_TTL_SECONDS * 1000 })
+  );
+}
+
+/**
+ * Decrypt the pending login state
+ * @returns null if the cookie is missing, tampered with or expired
+ */
+export function openLoginState(value: string | undefined): OidcLoginState | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const { exp, ...loginState } = JSON.parse(decryptSecret(value)) as OidcLoginState & { exp: number };
+    return typeof exp === "number" && exp > Date.now() ? loginState : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Only allow local paths as post-login redirect targets (no open redirects)
+ */
+export function safeRedirectPath(value: string | null | undefined): string {
+  if (!value || !value.startsWith("/") || value.startsWith("//") || value.startsWith("/\\")) {
+    return "/meetings";
+  }
+  return value;
+}
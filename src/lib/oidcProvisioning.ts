@@ -0,0 +1,139 @@
+/**
+ * SSO User Provisioning
+ * Just-in-time creation/linking of users from verified OIDC claims
+ * The IdP group claim is mapped onto the role (OIDC_ADMIN_GROUPS) and default permissions (OIDC_GROUP_PERMISSIONS)
+ */
+
+import type { User } from "@prisma/client";
+import { db } from "./db";
+import { env } from "./env";
+import { ForbiddenError } from "./errors";
+import { logger } from "./logger";
+import type { OidcClaims } from "./oidc";
+import { getWorkspaceSettings } from "./settings";
+import { assertSignupAllowed } from "./signupPolicy";
+
+const PERMISSION_LEVEL_ORDER = ["NONE", "VIEW", "EDIT"] as const;
+type PermissionLevel = (typeof PERMISSION_LEVEL_ORDER)[number];
+
+function maxLevel(a: PermissionLevel, b: PermissionLevel): PermissionLevel {
+  return PERMISSION_LEVEL_ORDER.indexOf(a) >= PERMISSION_LEVEL_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Groups from the configured claim (array of strings, or a single string)
+ */
+export function getGroupsFromClaims(claims: OidcClaims): string[] {
+  const value = claims[env.OIDC_GROUPS_CLAIM];
+  if (Array.isArray(value)) {
+    return value.filter((group): group is string => typeof group === "string");
+  }
+  return typeof value === "string" ? [value] : [];
+}
+
+/**
+ * Role implied by the groups, or null when role mapping is not configured
+ */
+function roleForGroups(groups: string[]): "ADMIN" | "USER" | null {
+  if (env.OIDC_ADMIN_GROUPS.length === 0) {
+    return null;
+  }
+  return groups.some((group) => env.OIDC_ADMIN_GROUPS.includes(group)) ? "ADMIN" : "USER";
+}
+
+/**
+ * Default permission rows for the groups (the highest level wins when several groups grant a module)
+ */
+function permissionsForGroups(
+  groups: string[]
+): Array<{ module: string; myLevel: PermissionLevel; allLevel: PermissionLevel }> {
+  const byModule = new Map<string, { myLevel: PermissionLevel; allLevel: PermissionLevel }>();
+
+  for (const group of groups) {
+    const modules = env.OIDC_GROUP_PERMISSIONS[group];
+    if (!modules) continue;
+
+    for (const [module, levels] of Object.entries(modules)) {
+      if (!levels) continue;
+      const current = byModule.get(module);
+      byModule.set(module, {
+        myLevel: maxLevel(current?.myLevel ?? "NONE", levels.myLevel),
+        allLevel: maxLevel(current?.allLevel ?? "NONE", levels.allLevel),
+      });
+    }
+  }
+
+  return Array.from(byModule, ([module, levels]) => ({ module, ...levels }));
+}
+
+/**
+ * Find, link or create the user for verified claims, then apply the group mapping
+ * - Known subject: that user
+ * - Unknown subject, existing email: the account is linked (only if the IdP says the email is verified)
+ * - Otherwise a new SSO-only user (no password) is created, if the workspace signup policy allows it
+ * Permission rows are only added for modules the user has no row for - admin edits are kept
+ */
+export async function provisionOidcUser(claims: OidcClaims): Promise<User> {
+  const groups = getGroupsFromClaims(claims);
+  const mappedRole = roleForGroups(groups);
+
+  let user = await db.user.findUnique({ where: { oidcSubject: claims.sub } });
+
+  if (!user) {
+    if (!claims.email) {
+      throw new ForbiddenError("Your identity provider did not share an email address");
+    }
+
+    const existing = await db.user.findUnique({ where: { email: claims.email } });
+    if (existing) {
+      // A missing claim is not a verification - linking would hand the account to the IdP user
+      if (claims.email_verified !== true) {
+        throw new ForbiddenError("Your email address is not verified by the identity provider");
+      }
+      if (existing.oidcSubject) {
+        throw new ForbiddenError("This account is already linked to another SSO identity");
+      }
+
+      user = await db.user.update({
+        where: { id: existing.id },
+        data: { oidcSubject: claims.sub, emailVerifiedAt: existing.emailVerifiedAt ?? new Date() },
+      });
+      logger.info("Linked existing account to SSO identity", { userId: user.id });
+    } else {
+      assertSignupAllowed(claims.email, await getWorkspaceSettings());
+
+      user = await db.user.create({
+        data: {
+          name: claims.name || claims.email.split("@")[0],
+          email: claims.email,
+          passwordHash: null,
+          role: mappedRole ?? "USER",
+          oidcSubject: claims.sub,
+          // Unverified addresses go through our own email verification
+          emailVerifiedAt: claims.email_verified === true ? new Date() : null,
+        },
+      });
+      logger.info("Provisioned user from SSO", { userId: user.id, role: user.role });
+    }
+  }
+
+  // The IdP is the source of truth for the role when group mapping is configured
+  if (mappedRole && user.role !== mappedRole) {
+    logger.info("Role updated from SSO groups", {
+      userId: user.id,
+      from: user.role,
+      to: mappedRole,
+    });
+    user = await db.user.update({ where: { id: user.id }, data: { role: mappedRole } });
+  }
+
+  const permissions = permissionsForGroups(groups);
+  if (permissions.length > 0) {
+    await db.userPermission.createMany({
+      data: permissions.map((permission) => ({ userId: user.id, ...permission })),
+      skipDuplicates: true,
+    });
+  }
+
+  return user;
+}
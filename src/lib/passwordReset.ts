@@ -0,0 +1,81 @@
+/**
+ * Password Reset
+ * Single-use, expiring reset tokens - only the SHA-256 hash is stored
+ */
+
+import { db } from "./db";
+import { ValidationError } from "./errors";
+import { hashPassword } from "./password";
+import { generateToken, hashToken } from "./tokens";
+
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+
+/**
+ * Issue a reset token for a user
+ * Any previously issued, unused tokens are invalidated so only the latest link works
+ * @returns raw token (to be sent by email, never stored)
+ */
+export async function createPasswordResetToken(userId: string): Promise<string> {
+  const token = generateToken();
+  const now = new Date();
+
+  await db.$transaction([
+    db.passwordResetToken.updateMany({
+      where: { userId, usedAt: null },
+      data: { usedAt: now },
+    }),
+    db.passwordResetToken.create({
+      data: {
+        userId,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(now.getTime() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+      },
+    }),
+  ]);
+
+  return token;
+}
+
+/**
+ * Reset a password with a token
+ * Marks the token used and revokes every session of the user (a reset implies possible compromise)
+ * Throws ValidationError for unknown, used or expired tokens
+ * @returns id of the user whose password was reset
+ */
+export async function resetPasswordWithToken(token: string, newPassword: string): Promise<string> {
+  const resetToken = await db.passwordResetToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: { id: true, userId: true, usedAt: true, expiresAt: true },
+  });
+
+  if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+    throw new ValidationError("This reset link is invalid or has expired");
+  }
+
+  const passwordHash = await hashPassword(newPassword);
+  const now = new Date();
+
+  // Claim the token atomically - a concurrent request with the same token finds usedAt set
+  await db.$transaction(async (tx) => {
+    const claimed = await tx.passwordResetToken.updateMany({
+      where: { id: resetToken.id, usedAt: null },
+      data: { usedAt: now },
+    });
+    if (claimed.count === 0) {
+      throw new ValidationError("This reset link is invalid or has expired");
+    }
+
+    // Proving access to the mailbox also lifts a brute-force lockout
+    await tx.user.update({
+      where: { id: resetToken.userId },
+      data: { passwordHash, failedLoginCount: 0, lockedUntil: null },
+    });
+
+    await tx.session.updateMany({
+      where: { userId: resetToken.userId, revokedAt: null },
+      data: { revokedAt: now },
+    });
+  });
+
+  return resetToken.userId;
+}
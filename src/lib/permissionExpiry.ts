@@ -0,0 +1,84 @@
+/**
+ * Time-boxed Permission Grants
+ * A UserPermission row may carry a validFrom / validUntil window; outside it the row grants nothing
+ * and the user falls back to their group grants. Users are warned by email before a grant ends.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { db } from "./db";
+import { sendMail } from "./mail";
+import { permissionExpiryEmail } from "./emails";
+import { logger } from "./logger";
+
+// How long before validUntil the user is warned
+export const PERMISSION_EXPIRY_NOTICE_HOURS = 48;
+
+const MODULE_LABELS: Record<string, string> = {
+  meetings: "Meetings",
+  deadlines: "Deadlines",
+  schedule: "Schedule",
+};
+
+/**
+ * Filter for permission rows whose window contains the given moment
+ */
+export function activePermissionWhere(now: Date = new Date()): Prisma.UserPermissionWhereInput {
+  return {
+    AND: [
+      { OR: [{ validFrom: null }, { validFrom: { lte: now } }] },
+      { OR: [{ validUntil: null }, { validUntil: { gt: now } }] },
+    ],
+  };
+}
+
+/**
+ * Email every user whose active grants end within the notice period (once per grant)
+ * @returns the number of users notified
+ */
+export async function sendPermissionExpiryReminders(appUrl: string, now: Date = new Date()): Promise<number> {
+  const noticeUntil = new Date(now.getTime() + PERMISSION_EXPIRY_NOTICE_HOURS * 60 * 60 * 1000);
+
+  const expiring = await db.userPermission.findMany({
+    where: {
+      AND: [activePermissionWhere(now), { validUntil: { lte: noticeUntil } }],
+      expiryNotifiedAt: null,
+      OR: [{ myLevel: { not: "NONE" } }, { allLevel: { not: "NONE" } }],
+    },
+    include: { user: { select: { id: true, name: true, email: true } } },
+    orderBy: { validUntil: "asc" },
+    take: 1000, // Max limit per run - the rest is picked up by the next run
+  });
+
+  // One email per user listing all of their expiring modules
+  const byUser = new Map<string, typeof expiring>();
+  for (const row of expiring) {
+    byUser.set(row.userId, [...(byUser.get(row.userId) ?? []), row]);
+  }
+
+  let notified = 0;
+  for (const rows of byUser.values()) {
+    const { user } = rows[0];
+    try {
+      await sendMail(
+        permissionExpiryEmail(
+          user.email,
+          user.name,
+          rows.map((row) => ({ module: MODULE_LABELS[row.module] ?? row.module, validUntil: row.validUntil! })),
+          appUrl
+        )
+      );
+    } catch {
+      // Already logged by sendMail - retried on the next run
+      continue;
+    }
+
+    await db.userPermission.updateMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+      data: { expiryNotifiedAt: now },
+    });
+    notified++;
+  }
+
+  logger.info("Permission expiry reminders sent", { users: notified, grants: expiring.length });
+  return notified;
+}
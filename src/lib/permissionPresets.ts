@@ -0,0 +1,123 @@
+/**
+ * Permission Presets
+ * Named permission matrices ("Viewer", "Team lead", ...) that admins apply to users
+ * Applying copies the levels into UserPermission rows - presets are not linked to users
+ */
+
+import type { PermissionPreset } from "@prisma/client";
+import { db } from "./db";
+import { NotFoundError, ValidationError } from "./errors";
+import type { PermissionGrant } from "./permissions";
+
+/**
+ * Public view of a preset
+ */
+export interface PresetSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: PermissionGrant[];
+  updatedAt: Date;
+}
+
+function toSummary(preset: PermissionPreset): PresetSummary {
+  return {
+    id: preset.id,
+    name: preset.name,
+    description: preset.description,
+    permissions: preset.permissions as unknown as PermissionGrant[],
+    updatedAt: preset.updatedAt,
+  };
+}
+
+/**
+ * Preset names are unique (case-insensitive)
+ */
+async function assertNameAvailable(name: string, exceptId?: string): Promise<void> {
+  const existing = await db.permissionPreset.findFirst({
+    where: { name: { equals: name, mode: "insensitive" }, ...(exceptId && { id: { not: exceptId } }) },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new ValidationError("A preset with this name already exists");
+  }
+}
+
+/**
+ * List all presets
+ */
+export async function listPresets(): Promise<PresetSummary[]> {
+  const presets = await db.permissionPreset.findMany({
+    orderBy: { name: "asc" },
+    take: 200, // Max limit to prevent DoS
+  });
+
+  return presets.map(toSummary);
+}
+
+/**
+ * Single preset, or null
+ */
+export async function getPreset(id: string): Promise<PresetSummary | null> {
+  const preset = await db.permissionPreset.findUnique({ where: { id } });
+  return preset ? toSummary(preset) : null;
+}
+
+/**
+ * Create a preset
+ */
+export async function createPreset(data: {
+  name: string;
+  description?: string | null;
+  permissions: PermissionGrant[];
+}): Promise<PresetSummary> {
+  await assertNameAvailable(data.name);
+
+  const preset = await db.permissionPreset.create({
+    data: {
+      name: data.name,
+      description: data.description || null,
+      permissions: data.permissions as unknown as object,
+    },
+  });
+
+  return toSummary(preset);
+}
+
+/**
+ * Update a preset (users it was applied to keep their current levels)
+ */
+export async function updatePreset(
+  id: string,
+  data: { name?: string; description?: string | null; permissions?: PermissionGrant[] }
+): Promise<PresetSummary> {
+  const existing = await db.permissionPreset.findUnique({ where: { id }, select: { id: true } });
+  if (!existing) {
+    throw new NotFoundError("Preset not found");
+  }
+
+  if (data.name !== undefined) {
+    await assertNameAvailable(data.name, id);
+  }
+
+  const preset = await db.permissionPreset.update({
+    where: { id },
+    data: {
+      ...(data.name !== undefined && { name: data.name }),
+      ...(data.description !== undefined && { description: data.description || null }),
+      ...(data.permissions !== undefined && { permissions: data.permissions as unknown as object }),
+    },
+  });
+
+  return toSummary(preset);
+}
+
+/**
+ * Delete a preset
+ * @returns false if the preset does not exist
+ */
+export async function deletePreset(id: string): Promise<boolean> {
+  const { count } = await db.permissionPreset.deleteMany({ where: { id } });
+  return count > 0;
+}
@@ -0,0 +1,122 @@
+/**
+ * Effective Permissions
+ * Client-safe (no server imports) - shared by the API authorization checks and the UI
+ * Levels are ordered NONE < VIEW < EDIT: myLevel applies to the user's own records, allLevel to everyone's
+ */
+
+import { API_MODULES, calendarItemModule, type ApiModule } from "./apiScopes";
+
+export const PERMISSION_LEVELS = ["NONE", "VIEW", "EDIT"] as const;
+export type PermissionLevel = (typeof PERMISSION_LEVELS)[number];
+
+export interface ModuleAccess {
+  myLevel: PermissionLevel;
+  allLevel: PermissionLevel;
+}
+
+// Access of a user to every module (meetings | deadlines | schedule)
+export type EffectivePermissions = Record<ApiModule, ModuleAccess>;
+
+// Levels granted for one module (permission rows, presets)
+export interface PermissionGrant extends ModuleAccess {
+  module: ApiModule;
+}
+
+const NO_ACCESS: ModuleAccess = { myLevel: "NONE", allLevel: "NONE" };
+const FULL_ACCESS: ModuleAccess = { myLevel: "EDIT", allLevel: "EDIT" };
+
+/**
+ * Whether a granted level satisfies the required one (unknown values count as NONE)
+ */
+export function meetsLevel(granted: string | undefined, required: "VIEW" | "EDIT"): boolean {
+  const rank = PERMISSION_LEVELS.indexOf((granted ?? "NONE") as PermissionLevel);
+  return rank >= PERMISSION_LEVELS.indexOf(required);
+}
+
+/**
+ * Higher of two levels (unknown values count as NONE)
+ */
+function maxLevel(a: PermissionLevel, b: string): PermissionLevel {
+  const level = PERMISSION_LEVELS.includes(b as PermissionLevel) ? (b as PermissionLevel) : "NONE";
+  return PERMISSION_LEVELS.indexOf(level) > PERMISSION_LEVELS.indexOf(a) ? level : a;
+}
+
+/**
+ * Effective access per module from the stored permission rows (the user's own and their groups')
+ * Each level is the maximum over all rows of the module; admins have full access regardless of rows
+ */
+export function resolveEffectivePermissions(
+  role: string,
+  rows: Array<{ module: string; myLevel: string; allLevel: string }>
+): EffectivePermissions {
+  return Object.fromEntries(
+    API_MODULES.map((module) => {
+      if (role === "ADMIN") {
+        return [module, FULL_ACCESS];
+      }
+      const access = rows
+        .filter((r) => r.module === module)
+        .reduce<ModuleAccess>(
+          (acc, r) => ({ myLevel: maxLevel(acc.myLevel, r.myLevel), allLevel: maxLevel(acc.allLevel, r.allLevel) }),
+          NO_ACCESS
+        );
+      return [module, access];
+    })
+  ) as EffectivePermissions;
+}
+
+/**
+ * Whether a record can be edited (and deleted) with this access
+ * Own records need myLevel or allLevel EDIT, other people's records need allLevel EDIT
+ */
+export function canEditRecord(access: ModuleAccess, isOwn: boolean): boolean {
+  return meetsLevel(access.allLevel, "EDIT") || (isOwn && meetsLevel(access.myLevel, "EDIT"));
+}
+
+/**
+ * Whether new records of the module can be created (they are always owned by the creator)
+ */
+export function canCreateRecord(access: ModuleAccess): boolean {
+  return canEditRecord(access, true);
+}
+
+/**
+ * Whether a user may edit a calendar item (the owner is the creator)
+ */
+export function canEditCalendarItem(
+  permissions: EffectivePermissions,
+  userId: string,
+  item: { type: string; createdById: string }
+): boolean {
+  return canEditRecord(permissions[calendarItemModule(item.type)], item.createdById === userId);
+}
+
+/**
+ * Whether a user may edit a schedule entry (the owner is the person the entry is for)
+ */
+export function canEditScheduleEntry(
+  permissions: EffectivePermissions,
+  userId: string,
+  entry: { userId: string }
+): boolean {
+  return canEditRecord(permissions.schedule, entry.userId === userId);
+}
+
+// Where a permission row is relative to its optional validFrom / validUntil window
+export type GrantWindowState = "pending" | "active" | "expired";
+
+/**
+ * Window state of a permission row (rows without bounds are always active)
+ */
+export function grantWindowState(
+  grant: { validFrom?: Date | string | null; validUntil?: Date | string | null },
+  now: Date = new Date()
+): GrantWindowState {
+  if (grant.validFrom && new Date(grant.validFrom) > now) {
+    return "pending";
+  }
+  if (grant.validUntil && new Date(grant.validUntil) <= now) {
+    return "expired";
+  }
+  return "active";
+}
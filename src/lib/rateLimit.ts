@@ -57,13 +57,25 @@ function getClientIdentifier(req: NextRequest): string {
 export function checkRateLimit(
   req: NextRequest,
   config: RateLimitConfig
+): { limit: number; remaining: number; reset: number } | null {
+  const identifier = config.identifier ? config.identifier(req) : getClientIdentifier(req);
+  return checkRateLimitByKey(identifier, config);
+}
+
+/**
+ * Check the rate limit for an arbitrary key (e.g. an API token id instead of the client IP)
+ * @returns { limit: number, remaining: number, reset: number } if allowed
+ * @returns null if rate limited
+ */
+export function checkRateLimitByKey(
+  identifier: string,
+  config: RateLimitConfig
 ): { limit: number; remaining: number; reset: number } | null {
   // Skip rate limiting if disabled
   if (!env.RATE_LIMIT_ENABLED) {
     return { limit: config.max, remaining: config.max, reset: Date.now() + config.window };
   }
 
-  const identifier = config.identifier ? config.identifier(req) : getClientIdentifier(req);
   const key = `${identifier}:${config.max}:${config.window}`;
   const now = Date.now();
 
@@ -151,6 +163,16 @@ export const rateLimitConfigs = {
     max: 100,
     window: 60 * 1000, // 1 minute
   },
+  // API token: 60 requests per minute per token (in addition to the per-IP route limits)
+  apiToken: {
+    max: 60,
+    window: 60 * 1000, // 1 minute
+  },
+  // Verification email resend: 3 emails per 15 minutes per user
+  emailVerification: {
+    max: 3,
+    window: 15 * 60 * 1000, // 15 minutes
+  },
   // Lenient: 1000 requests per hour (for public endpoints)
   lenient: {
     max: 1000,
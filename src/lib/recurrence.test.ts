@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { expandRecurrence, parseRecurrenceRule, type RecurrenceRule } from "./recurrence";
+
+function rule(value: string): RecurrenceRule {
+  const parsed = parseRecurrenceRule(value);
+  if (!parsed) throw new Error(`Invalid rule ${value}`);
+  return parsed;
+}
+
+describe("expandRecurrence", () => {
+  describe("windows far from the series start", () => {
+    const start = new Date("2000-01-03T09:00:00Z");
+    const range = { from: new Date("2030-06-01T00:00:00Z"), to: new Date("2030-07-01T00:00:00Z") };
+
+    it.each([
+      ["FREQ=DAILY", "UTC"],
+      ["FREQ=DAILY;INTERVAL=3", "Europe/Berlin"],
+      ["FREQ=WEEKLY;BYDAY=MO,TH", "America/New_York"],
+      ["FREQ=WEEKLY;INTERVAL=2;BYDAY=SU", "Asia/Tokyo"],
+      ["FREQ=MONTHLY;BYMONTHDAY=-1", "Europe/Berlin"],
+      ["FREQ=MONTHLY;BYDAY=2TU", "UTC"],
+      ["FREQ=DAILY;BYDAY=SA,SU", "Pacific/Auckland"],
+    ])("%s (%s) matches the occurrences found by walking from the start", (value, timeZone) => {
+      const walked = expandRecurrence(start, rule(value), { from: start, to: range.to }, { timeZone }).filter(
+        (date) => date >= range.from
+      );
+
+      const occurrences = expandRecurrence(start, rule(value), range, { timeZone });
+      expect(occurrences.length).toBeGreaterThan(0);
+      expect(occurrences).toEqual(walked);
+    });
+
+    it("finds occurrences of an endless daily series a century out", () => {
+      const from = new Date("2100-01-01T00:00:00Z");
+      const occurrences = expandRecurrence(start, rule("FREQ=DAILY"), {
+        from,
+        to: new Date("2100-01-08T00:00:00Z"),
+      });
+
+      expect(occurrences).toHaveLength(7);
+      expect(occurrences[0]).toEqual(new Date("2100-01-01T09:00:00Z"));
+    });
+
+    it("still counts COUNT from the series start", () => {
+      expect(expandRecurrence(start, rule("FREQ=DAILY;COUNT=10"), range)).toEqual([]);
+    });
+  });
+
+  describe("across DST changes", () => {
+    it("keeps a weekly meeting at 09:00 Berlin time through spring forward and fall back", () => {
+      const start = new Date("2026-03-16T08:00:00Z"); // Monday 09:00 CET
+      const weekly = rule("FREQ=WEEKLY;BYDAY=MO");
+
+      expect(
+        expandRecurrence(
+          start,
+          weekly,
+          { from: start, to: new Date("2026-04-07T00:00:00Z") },
+          { timeZone: "Europe/Berlin" }
+        )
+      ).toEqual([
+        new Date("2026-03-16T08:00:00Z"),
+        new Date("2026-03-23T08:00:00Z"),
+        new Date("2026-03-30T07:00:00Z"), // 09:00 CEST
+        new Date("2026-04-06T07:00:00Z"),
+      ]);
+
+      expect(
+        expandRecurrence(
+          start,
+          weekly,
+          { from: new Date("2026-10-19T00:00:00Z"), to: new Date("2026-11-03T00:00:00Z") },
+          { timeZone: "Europe/Berlin" }
+        )
+      ).toEqual([
+        new Date("2026-10-19T07:00:00Z"),
+        new Date("2026-10-26T08:00:00Z"), // 09:00 CET again
+        new Date("2026-11-02T08:00:00Z"),
+      ]);
+    });
+
+    it("keeps the UTC time of a series in UTC", () => {
+      const start = new Date("2026-03-16T08:00:00Z");
+      expect(
+        expandRecurrence(start, rule("FREQ=WEEKLY"), { from: start, to: new Date("2026-04-01T00:00:00Z") })
+      ).toEqual([
+        new Date("2026-03-16T08:00:00Z"),
+        new Date("2026-03-23T08:00:00Z"),
+        new Date("2026-03-30T08:00:00Z"),
+      ]);
+    });
+
+    it("moves an occurrence in the spring-forward gap to after the gap", () => {
+      const start = new Date("2026-03-28T01:30:00Z"); // Saturday 02:30 CET
+      expect(
+        expandRecurrence(
+          start,
+          rule("FREQ=DAILY;COUNT=3"),
+          { from: start, to: new Date("2026-04-01T00:00:00Z") },
+          { timeZone: "Europe/Berlin" }
+        )
+      ).toEqual([
+        new Date("2026-03-28T01:30:00Z"),
+        new Date("2026-03-29T01:30:00Z"), // 03:30 CEST - 02:30 does not exist that night
+        new Date("2026-03-30T00:30:00Z"), // 02:30 CEST
+      ]);
+    });
+
+    it("keeps all-day series on midnight UTC calendar dates", () => {
+      const start = new Date("2026-03-23T00:00:00Z");
+      expect(
+        expandRecurrence(start, rule("FREQ=WEEKLY;COUNT=3"), { from: start, to: new Date("2026-05-01T00:00:00Z") })
+      ).toEqual([
+        new Date("2026-03-23T00:00:00Z"),
+        new Date("2026-03-30T00:00:00Z"),
+        new Date("2026-04-06T00:00:00Z"),
+      ]);
+    });
+  });
+});
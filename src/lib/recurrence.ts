@@ -0,0 +1,379 @@
+/**
+ * Calendar Item Recurrence
+ * Client-safe (no server imports) - shared by the API and the UI
+ * A subset of RFC 5545 RRULE:
+ * - FREQ: DAILY | WEEKLY | MONTHLY | YEARLY
+ * - INTERVAL, COUNT, UNTIL (COUNT and UNTIL are mutually exclusive)
+ * - BYDAY: weekdays for DAILY and WEEKLY, weekdays with an optional ordinal for MONTHLY (2TU, -1FR)
+ * - BYMONTHDAY: MONTHLY only, negative values count from the end of the month
+ * Weeks start on Monday. The series start is always the first occurrence and counts towards COUNT
+ * Occurrences keep the local time of day of the series start in the series' time zone (UTC by default),
+ * so a 09:00 weekly meeting stays at 09:00 across DST changes
+ */
+
+import { DEFAULT_TIME_ZONE, fromWallTime, toWallTime } from "./timeZones";
+
+export const RECURRENCE_FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"] as const;
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+export const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat",
+  SU: "Sun",
+};
+
+export interface RecurrenceDay {
+  weekday: Weekday;
+  nth?: number; // MONTHLY only: 1..5 or -1..-5 (last)
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: RecurrenceDay[];
+  byMonthDay?: number[];
+}
+
+// Guards against rules that never produce an occurrence (e.g. BYMONTHDAY=31 every 12 months from April)
+const MAX_PERIODS = 100_000;
+
+// Wall times and instants differ by less than a day
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isWeekday = (value: string): value is Weekday => (WEEKDAYS as readonly string[]).includes(value);
+
+// Monday-based weekday index (0 = MO ... 6 = SU)
+const weekdayIndex = (date: Date) => (date.getUTCDay() + 6) % 7;
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+function parseInteger(value: string, min: number, max: number): number | null {
+  if (!/^[+-]?\d+$/.test(value)) return null;
+  const number = Number(value);
+  return number >= min && number <= max ? number : null;
+}
+
+// UNTIL as a date (YYYYMMDD, end of that day) or a UTC date-time (YYYYMMDDTHHMMSSZ)
+function parseUntil(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  const date = hours
+    ? new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds))
+    : new Date(Date.UTC(+year, +month - 1, +day, 23, 59, 59));
+  return Number.isNaN(date.getTime()) || date.getUTCDate() !== +day ? null : date;
+}
+
+/**
+ * Parse an RRULE value (with or without the "RRULE:" prefix)
+ * @returns null if the rule is malformed or uses parts outside the supported subset
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const parts = value.trim().replace(/^RRULE:/i, "").split(";").filter(Boolean);
+  const fields = new Map<string, string>();
+  for (const part of parts) {
+    const [key, fieldValue, ...rest] = part.split("=");
+    if (!key || !fieldValue || rest.length > 0 || fields.has(key.toUpperCase())) return null;
+    fields.set(key.toUpperCase(), fieldValue.toUpperCase());
+  }
+
+  const freq = fields.get("FREQ");
+  if (!freq || !(RECURRENCE_FREQUENCIES as readonly string[]).includes(freq)) return null;
+
+  const rule: RecurrenceRule = { freq: freq as RecurrenceFrequency, interval: 1 };
+
+  for (const [key, fieldValue] of fields) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "WKST":
+        if (fieldValue !== "MO") return null;
+        break;
+      case "INTERVAL": {
+        const interval = parseInteger(fieldValue, 1, 1000);
+        if (interval === null) return null;
+        rule.interval = interval;
+        break;
+      }
+      case "COUNT": {
+        const count = parseInteger(fieldValue, 1, 1000);
+        if (count === null) return null;
+        rule.count = count;
+        break;
+      }
+      case "UNTIL": {
+        const until = parseUntil(fieldValue);
+        if (!until) return null;
+        rule.until = until;
+        break;
+      }
+      case "BYDAY": {
+        const days: RecurrenceDay[] = [];
+        for (const token of fieldValue.split(",")) {
+          const match = /^([+-]?\d)?([A-Z]{2})$/.exec(token);
+          if (!match || !isWeekday(match[2])) return null;
+          const nth = match[1] ? parseInteger(match[1], -5, 5) : undefined;
+          if (nth === null || nth === 0) return null;
+          days.push(nth === undefined ? { weekday: match[2] } : { weekday: match[2], nth });
+        }
+        rule.byDay = days;
+        break;
+      }
+      case "BYMONTHDAY": {
+        const monthDays: number[] = [];
+        for (const token of fieldValue.split(",")) {
+          const day = parseInteger(token, -31, 31);
+          if (day === null || day === 0) return null;
+          monthDays.push(day);
+        }
+        rule.byMonthDay = monthDays;
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) return null;
+  if (rule.byDay && rule.freq === "YEARLY") return null;
+  if (rule.byDay?.some((day) => day.nth !== undefined) && rule.freq !== "MONTHLY") return null;
+  if (rule.byMonthDay && rule.freq !== "MONTHLY") return null;
+
+  return rule;
+}
+
+/**
+ * Whether an RRULE value is valid and supported
+ */
+export function isValidRecurrenceRule(value: string): boolean {
+  return parseRecurrenceRule(value) !== null;
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+const formatUntil = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+/**
+ * RRULE value of a rule (without the "RRULE:" prefix)
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map((day) => `${day.nth ?? ""}${day.weekday}`).join(",")}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  return parts.join(";");
+}
+
+// Day numbers (1-based) of a month matching BYDAY / BYMONTHDAY
+function monthDays(year: number, month: number, rule: RecurrenceRule, startDay: number): number[] {
+  const length = daysInMonth(year, month);
+  const resolve = (day: number) => (day > 0 ? day : length + day + 1);
+
+  let days: number[] | null = null;
+
+  if (rule.byDay?.length) {
+    const firstWeekday = weekdayIndex(new Date(Date.UTC(year, month, 1)));
+    const matches = new Set<number>();
+    for (const { weekday, nth } of rule.byDay) {
+      const first = ((WEEKDAYS.indexOf(weekday) - firstWeekday + 7) % 7) + 1;
+      const all: number[] = [];
+      for (let day = first; day <= length; day += 7) all.push(day);
+      if (nth === undefined) all.forEach((day) => matches.add(day));
+      else {
+        const day = nth > 0 ? all[nth - 1] : all[all.length + nth];
+        if (day !== undefined) matches.add(day);
+      }
+    }
+    days = [...matches];
+  }
+
+  if (rule.byMonthDay?.length) {
+    const byMonthDay = rule.byMonthDay.map(resolve).filter((day) => day >= 1 && day <= length);
+    days = days ? days.filter((day) => byMonthDay.includes(day)) : byMonthDay;
+  }
+
+  // Without BYDAY / BYMONTHDAY: the day of the series start (months without it are skipped)
+  return (days ?? (startDay <= length ? [startDay] : [])).sort((a, b) => a - b);
+}
+
+// First day (midnight UTC) of one period of the rule
+function periodStart(start: Date, rule: RecurrenceRule, period: number): Date {
+  const step = period * rule.interval;
+  switch (rule.freq) {
+    case "DAILY":
+      return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + step));
+    case "WEEKLY":
+      return new Date(
+        Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() - weekdayIndex(start) + step * 7)
+      );
+    case "MONTHLY":
+      return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + step, 1));
+    case "YEARLY":
+      return new Date(Date.UTC(start.getUTCFullYear() + step, 0, 1));
+  }
+}
+
+// First period that can hold an occurrence at or after a time: periods before it end over a day earlier,
+// which covers the offset between wall time and the instant
+function firstPeriodFrom(start: Date, rule: RecurrenceRule, time: number): number {
+  const date = new Date(time - DAY_MS);
+  const startDay = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+
+  let units: number;
+  switch (rule.freq) {
+    case "DAILY":
+      units = Math.floor((date.getTime() - startDay) / DAY_MS);
+      break;
+    case "WEEKLY":
+      units = Math.floor((date.getTime() - (startDay - weekdayIndex(start) * DAY_MS)) / (7 * DAY_MS));
+      break;
+    case "MONTHLY":
+      units = (date.getUTCFullYear() - start.getUTCFullYear()) * 12 + date.getUTCMonth() - start.getUTCMonth();
+      break;
+    case "YEARLY":
+      units = date.getUTCFullYear() - start.getUTCFullYear();
+      break;
+  }
+  return Math.max(0, Math.floor(units / rule.interval));
+}
+
+// Candidate dates (midnight UTC) of one period of the rule, in ascending order
+function periodDays(start: Date, rule: RecurrenceRule, period: number): Date[] {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const day = start.getUTCDate();
+  const step = period * rule.interval;
+  const weekdays = rule.byDay?.map((d) => WEEKDAYS.indexOf(d.weekday));
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const date = new Date(Date.UTC(year, month, day + step));
+      return !weekdays || weekdays.includes(weekdayIndex(date)) ? [date] : [];
+    }
+    case "WEEKLY": {
+      const monday = day - weekdayIndex(start) + step * 7;
+      const days = weekdays ?? [weekdayIndex(start)];
+      return [...new Set(days)].sort((a, b) => a - b).map((offset) => new Date(Date.UTC(year, month, monday + offset)));
+    }
+    case "MONTHLY": {
+      const first = new Date(Date.UTC(year, month + step, 1));
+      return monthDays(first.getUTCFullYear(), first.getUTCMonth(), rule, day).map(
+        (d) => new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), d))
+      );
+    }
+    case "YEARLY": {
+      // Feb 29 only recurs in leap years
+      return day <= daysInMonth(year + step, month) ? [new Date(Date.UTC(year + step, month, day))] : [];
+    }
+  }
+}
+
+export interface RecurrenceOptions {
+  exceptions?: Date[]; // EXDATE - cancelled occurrence starts
+  limit?: number;
+  timeZone?: string; // IANA zone the series is planned in
+}
+
+/**
+ * Start times of the occurrences of a series within [from, to] (inclusive)
+ * COUNT counts every occurrence, including cancelled ones, so only series without COUNT skip
+ * straight to the periods around `from`
+ */
+export function expandRecurrence(
+  start: Date,
+  rule: RecurrenceRule,
+  range: { from: Date; to: Date },
+  { exceptions = [], limit = Infinity, timeZone = DEFAULT_TIME_ZONE }: RecurrenceOptions = {}
+): Date[] {
+  const excluded = new Set(exceptions.map((date) => date.getTime()));
+  // Days are generated in wall time of the zone, then converted back to instants
+  const wallStart = timeZone === DEFAULT_TIME_ZONE ? start : toWallTime(start, timeZone);
+  const toInstant = (wall: number) =>
+    timeZone === DEFAULT_TIME_ZONE ? wall : fromWallTime(new Date(wall), timeZone).getTime();
+  const timeOfDay =
+    wallStart.getTime() - Date.UTC(wallStart.getUTCFullYear(), wallStart.getUTCMonth(), wallStart.getUTCDate());
+  const end = Math.min(range.to.getTime(), rule.until?.getTime() ?? Infinity);
+
+  const occurrences: Date[] = [];
+  let count = 0;
+
+  const visit = (time: number): boolean => {
+    if (time > end || (rule.count !== undefined && count >= rule.count)) return false;
+    count++;
+    if (time >= range.from.getTime() && !excluded.has(time)) occurrences.push(new Date(time));
+    return occurrences.length < limit;
+  };
+
+  if (!visit(start.getTime())) return occurrences;
+
+  const firstPeriod = rule.count === undefined ? firstPeriodFrom(wallStart, rule, range.from.getTime()) : 0;
+  for (let period = firstPeriod; period < firstPeriod + MAX_PERIODS; period++) {
+    const days = periodDays(wallStart, rule, period);
+    for (const day of days) {
+      const wall = day.getTime() + timeOfDay;
+      if (wall <= wallStart.getTime()) continue;
+      if (!visit(toInstant(wall))) return occurrences;
+    }
+
+    // Stop once the next period begins beyond the window
+    if (periodStart(wallStart, rule, period + 1).getTime() - DAY_MS > end) break;
+  }
+
+  return occurrences;
+}
+
+/**
+ * Whether a time is an occurrence of a series (cancelled occurrences included)
+ */
+export function isRecurrenceOccurrence(start: Date, rule: RecurrenceRule, time: Date, timeZone?: string): boolean {
+  return expandRecurrence(start, rule, { from: time, to: time }, { timeZone }).length === 1;
+}
+
+/**
+ * Number of occurrences of a series that start before a time (cancelled occurrences included)
+ */
+export function countOccurrencesBefore(start: Date, rule: RecurrenceRule, before: Date, timeZone?: string): number {
+  return expandRecurrence(start, rule, { from: start, to: new Date(before.getTime() - 1) }, { timeZone }).length;
+}
+
+const ORDINALS: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", 5: "fifth", [-1]: "last" };
+const UNITS: Record<RecurrenceFrequency, string> = { DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year" };
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Mon, Wed, 10 times"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = UNITS[rule.freq];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map((day) =>
+      day.nth === undefined ? WEEKDAY_LABELS[day.weekday] : `${ORDINALS[day.nth] ?? `${day.nth}.`} ${WEEKDAY_LABELS[day.weekday]}`
+    );
+    text += ` on ${days.join(", ")}`;
+  }
+  if (rule.byMonthDay?.length) {
+    text += ` on day ${rule.byMonthDay.map((day) => (day === -1 ? "last" : String(day))).join(", ")}`;
+  }
+
+  if (rule.count !== undefined) text += `, ${rule.count} ${rule.count === 1 ? "time" : "times"}`;
+  if (rule.until) text += `, until ${rule.until.toISOString().slice(0, 10)}`;
+
+  return text;
+}
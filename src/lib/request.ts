@@ -0,0 +1,45 @@
+/**
+ * Request Utilities
+ * Extract client information from incoming requests
+ */
+
+import type { NextRequest } from "next/server";
+import { env } from "./env";
+import { AppError } from "./errors";
+
+/**
+ * Public base URL of the app for links in emails and redirects
+ * In production this is APP_URL only: the request origin comes from the Host header, which a
+ * client controls, so token links are never built from it. Development falls back to the origin.
+ * Throws if APP_URL is missing in production - call it before any lookup whose outcome the
+ * response must not reveal.
+ */
+export function getAppUrl(request: NextRequest): string {
+  if (env.APP_URL) {
+    return env.APP_URL.replace(/\/$/, "");
+  }
+  if (env.NODE_ENV === "production") {
+    throw new AppError("APP_URL must be set to send links", 500, "APP_URL_REQUIRED");
+  }
+
+  return request.nextUrl.origin.replace(/\/$/, "");
+}
+
+/**
+ * Get client IP address from proxy headers (Vercel, Cloudflare, etc.)
+ * In Next.js 15, req.ip is not available, use headers only
+ */
+export function getClientIp(request: NextRequest): string {
+  return (
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    request.headers.get("x-real-ip") ||
+    "unknown"
+  );
+}
+
+/**
+ * Get user agent, truncated to a sane length for storage
+ */
+export function getUserAgent(request: NextRequest): string | null {
+  return request.headers.get("user-agent")?.substring(0, 255) || null;
+}
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { User } from "@prisma/client";
+
+// Schedule permission rows of the viewer and the participants' shifts
+let permissionRows: Array<{ module: string; myLevel: string; allLevel: string }> = [];
+let entries: Array<{ userId: string; date: Date; startTime: number; endTime: number }> = [];
+
+vi.mock("./db", () => ({
+  db: {
+    user: {
+      findMany: vi.fn(async () => [
+        { id: "viewer", name: "Viewer", timeZone: "UTC" },
+        { id: "colleague", name: "Colleague", timeZone: "UTC" },
+      ]),
+    },
+    calendarItem: { findMany: vi.fn(async () => []) },
+    scheduleEntry: { findMany: vi.fn(async () => entries) },
+    workspaceSettings: { upsert: vi.fn(async () => ({ timeZone: "UTC" })) },
+    userPermission: { findMany: vi.fn(async () => permissionRows) },
+    groupPermission: { findMany: vi.fn(async () => []) },
+  },
+}));
+
+const { findSchedulingConflicts } = await import("./schedulingConflicts");
+
+const viewer = { id: "viewer", role: "USER" } as User;
+const meeting = {
+  startAt: new Date("2026-05-04T18:00:00Z"),
+  endAt: new Date("2026-05-04T19:00:00Z"),
+  participantIds: ["viewer", "colleague"],
+  viewer,
+};
+const shift = (userId: string) => ({ userId, date: new Date("2026-05-04T00:00:00Z"), startTime: 9 * 60, endTime: 17 * 60 });
+
+const conflictsOf = (results: Awaited<ReturnType<typeof findSchedulingConflicts>>, userId: string) =>
+  results.find((result) => result.user.id === userId)?.conflicts ?? [];
+
+describe("findSchedulingConflicts", () => {
+  beforeEach(() => {
+    permissionRows = [];
+    entries = [shift("viewer"), shift("colleague")];
+  });
+
+  it("names other people's shifts to viewers with schedule VIEW", async () => {
+    permissionRows = [{ module: "schedule", myLevel: "NONE", allLevel: "VIEW" }];
+
+    const results = await findSchedulingConflicts(meeting);
+
+    expect(conflictsOf(results, "colleague")).toEqual([
+      { type: "OUTSIDE_HOURS", shift: { date: "2026-05-04", startTime: 540, endTime: 1020, timeZone: "UTC" } },
+    ]);
+  });
+
+  it("only flags outside hours for people whose schedule the viewer cannot see", async () => {
+    const results = await findSchedulingConflicts(meeting);
+
+    expect(conflictsOf(results, "colleague")).toEqual([{ type: "OUTSIDE_HOURS", shift: null }]);
+    // Their own shift is always theirs to see
+    expect(conflictsOf(results, "viewer")[0]).toMatchObject({ type: "OUTSIDE_HOURS", shift: { startTime: 540 } });
+  });
+
+  it("does not tell a missing shift apart from hours the viewer cannot see", async () => {
+    entries = [shift("viewer")];
+
+    const results = await findSchedulingConflicts(meeting);
+
+    expect(conflictsOf(results, "colleague")).toEqual([{ type: "OUTSIDE_HOURS", shift: null }]);
+  });
+
+  it("flags a day without a shift even when nobody else is scheduled", async () => {
+    entries = [];
+    permissionRows = [{ module: "schedule", myLevel: "NONE", allLevel: "VIEW" }];
+
+    const results = await findSchedulingConflicts(meeting);
+
+    expect(conflictsOf(results, "viewer")).toEqual([{ type: "NO_SCHEDULE", date: "2026-05-04" }]);
+    expect(conflictsOf(results, "colleague")).toEqual([{ type: "NO_SCHEDULE", date: "2026-05-04" }]);
+  });
+
+  it("reports nothing for meetings within the shift", async () => {
+    permissionRows = [{ module: "schedule", myLevel: "NONE", allLevel: "VIEW" }];
+
+    const results = await findSchedulingConflicts({
+      ...meeting,
+      startAt: new Date("2026-05-04T10:00:00Z"),
+      endAt: new Date("2026-05-04T11:00:00Z"),
+    });
+
+    expect(results).toEqual([]);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Scheduling Conflicts
+ * Checks a timed meeting against what its participants already have:
+ * - OVERLAP: another meeting of theirs (as owner or participant) at the same time
+ * - OUTSIDE_HOURS: the meeting is not within their shift in the schedule (in their time zone)
+ * - NO_SCHEDULE: they have no shift on a day the meeting touches
+ * Shifts are schedule data: the shift and the missing day are only named to viewers with schedule VIEW
+ * for that participant (see getScheduleEntriesFilter), others get a bare OUTSIDE_HOURS for both.
+ * Conflicts are warnings: the items API returns them with the saved item, or rejects the request
+ * when the caller asks for it (`rejectOnConflict`).
+ */
+
+import type { CalendarItem, User } from "@prisma/client";
+import { db } from "./db";
+import { getScheduleEntriesFilter } from "./authorize";
+import { calendarItemsRangeFilter, expandCalendarItems } from "./calendarSeries";
+import { BUSY_TITLE, isCalendarItemInsider } from "./calendarVisibility";
+import { getWorkspaceSettings } from "./settings";
+import {
+  calendarDateInTimeZone,
+  calendarDateToUtc,
+  formatCalendarDate,
+  scheduleEntryInterval,
+} from "./timeZones";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SchedulingConflict =
+  | {
+      type: "OVERLAP";
+      // Other people's items are only named to their owner and participants
+      item: { id: string | null; title: string; startAt: Date; endAt: Date };
+    }
+  | {
+      type: "OUTSIDE_HOURS";
+      // null when the viewer may not see the participant's schedule
+      shift: { date: string; startTime: number; endTime: number; timeZone: string } | null;
+    }
+  | { type: "NO_SCHEDULE"; date: string };
+
+export interface ParticipantConflicts {
+  user: { id: string; name: string };
+  conflicts: SchedulingConflict[];
+}
+
+/**
+ * Whether an item takes up its participants' time: timed meetings with an end that are not cancelled
+ */
+export function blocksParticipantTime(
+  item: Pick<CalendarItem, "type" | "allDay" | "status"> & { endAt: Date | null }
+): boolean {
+  return (
+    item.type === "MEETING" && !item.allDay && item.status !== "CANCELED" && item.endAt !== null
+  );
+}
+
+/**
+ * Conflicts of the participants of a meeting held in [startAt, endAt), grouped by participant
+ * Only participants with conflicts are listed. `excludeItemIds` are the item being changed and its series.
+ * Other people's items and schedules are described as far as `viewer` may see them.
+ */
+export async function findSchedulingConflicts({
+  startAt,
+  endAt,
+  participantIds,
+  excludeItemIds = [],
+  viewer,
+}: {
+  startAt: Date;
+  endAt: Date;
+  participantIds: string[];
+  excludeItemIds?: string[];
+  viewer: User;
+}): Promise<ParticipantConflicts[]> {
+  if (participantIds.length === 0) return [];
+
+  const users = await db.user.findMany({
+    where: { id: { in: participantIds } },
+    select: { id: true, name: true, timeZone: true },
+  });
+  const workspaceTimeZone = (await getWorkspaceSettings()).timeZone;
+
+  // Meetings of the participants around that time (an occurrence of a series may start a day earlier)
+  const from = new Date(startAt.getTime() - DAY_MS);
+  const items = await db.calendarItem.findMany({
+    where: {
+      type: "MEETING",
+      allDay: false,
+      status: { not: "CANCELED" },
+      endAt: { not: null },
+      id: { notIn: excludeItemIds },
+      AND: [
+        calendarItemsRangeFilter(from, endAt),
+        { OR: [{ seriesId: null }, { seriesId: { notIn: excludeItemIds } }] },
+        {
+          OR: [
+            { createdById: { in: participantIds } },
+            { participants: { some: { userId: { in: participantIds } } } },
+          ],
+        },
+      ],
+    },
+    take: 1000, // Max limit to prevent DoS
+    include: { participants: { select: { userId: true } } },
+  });
+  const overlapping = (await expandCalendarItems(items, { from, to: endAt }, 1000)).filter(
+    (item) => item.startAt < endAt && item.endAt && item.endAt > startAt
+  );
+
+  // Shifts on the participants' own calendar dates the meeting touches
+  const userDays = new Map(
+    users.map((user) => {
+      const timeZone = user.timeZone ?? workspaceTimeZone;
+      const days = [
+        calendarDateInTimeZone(startAt, timeZone),
+        calendarDateInTimeZone(new Date(endAt.getTime() - 1), timeZone),
+      ];
+      return [user.id, { timeZone, days: Array.from(new Set(days)) }];
+    })
+  );
+  const allDays = Array.from(new Set(Array.from(userDays.values()).flatMap(({ days }) => days)));
+  const entries = await db.scheduleEntry.findMany({
+    where: { userId: { in: participantIds }, date: { in: allDays.map(calendarDateToUtc) } },
+    select: { userId: true, date: true, startTime: true, endTime: true },
+  });
+
+  // Whose shifts the viewer may see
+  const scheduleFilter = await getScheduleEntriesFilter(viewer);
+  const canViewSchedule = (userId: string) =>
+    !scheduleFilter.OR || scheduleFilter.OR.some((condition) => condition.userId === userId);
+
+  const results: ParticipantConflicts[] = [];
+  for (const user of users) {
+    const conflicts: SchedulingConflict[] = [];
+
+    for (const item of overlapping) {
+      if (!isCalendarItemInsider(user.id, item)) continue;
+      const visible = isCalendarItemInsider(viewer.id, item);
+      conflicts.push({
+        type: "OVERLAP",
+        item: {
+          id: visible ? item.id : null,
+          title: visible ? item.title : BUSY_TITLE,
+          startAt: item.startAt,
+          endAt: item.endAt!,
+        },
+      });
+    }
+
+    const { timeZone, days } = userDays.get(user.id)!;
+    const shifts = entries.filter(
+      (entry) => entry.userId === user.id && days.includes(formatCalendarDate(entry.date))
+    );
+    const unscheduledDays = days.filter(
+      (day) => !shifts.some((shift) => formatCalendarDate(shift.date) === day)
+    );
+    const withinShift = shifts.some((shift) => {
+      const { start, end } = scheduleEntryInterval(shift, timeZone);
+      return start <= startAt && end >= endAt;
+    });
+
+    if (!canViewSchedule(user.id)) {
+      if (!withinShift) conflicts.push({ type: "OUTSIDE_HOURS", shift: null });
+    } else if (unscheduledDays.length > 0) {
+      for (const day of unscheduledDays) conflicts.push({ type: "NO_SCHEDULE", date: day });
+    } else if (!withinShift) {
+      const [shift] = shifts;
+      conflicts.push({
+        type: "OUTSIDE_HOURS",
+        shift: {
+          date: formatCalendarDate(shift.date),
+          startTime: shift.startTime,
+          endTime: shift.endTime,
+          timeZone,
+        },
+      });
+    }
+
+    if (conflicts.length > 0) {
+      results.push({ user: { id: user.id, name: user.name }, conflicts });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,198 @@
+/**
+ * Session Management
+ * Server-side, revocable sessions backed by the Session table
+ * The cookie carries an opaque token signed with AUTH_SECRET; the database stores its hash
+ */
+
+import type { NextResponse } from "next/server";
+import type { Session, User } from "@prisma/client";
+import { db } from "./db";
+import { env } from "./env";
+import { generateToken, hashToken } from "./tokens";
+import { SESSION_COOKIE_NAME, signSessionToken, verifySessionCookie } from "./sessionToken";
+
+export const SESSION_TTL_MS = 1000 * 60 * 60 * 24 * 7; // 7 days
+const LAST_SEEN_UPDATE_INTERVAL_MS = 1000 * 60 * 5; // Avoid a DB write on every request
+
+export type SessionWithUser = Session & { user: User };
+
+export interface SessionClientInfo {
+  userAgent: string | null;
+  ip: string | null;
+}
+
+/**
+ * Public view of a session (never includes the token hash)
+ */
+export interface SessionSummary {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+/**
+ * Create a new session for a user
+ * @returns signed cookie value and expiry
+ */
+export async function createSession(
+  userId: string,
+  client?: SessionClientInfo
+): Promise<{ session: Session; cookieValue: string }> {
+  const token = generateToken();
+  const session = await db.session.create({
+    data: {
+      userId,
+      tokenHash: hashToken(token),
+      userAgent: client?.userAgent,
+      ip: client?.ip,
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+    },
+  });
+
+  return {
+    session,
+    cookieValue: await signSessionToken(token, env.AUTH_SECRET),
+  };
+}
+
+/**
+ * Resolve an active (not expired, not revoked) session from a cookie value
+ * Returns null for missing, forged, expired or revoked sessions
+ */
+export async function findActiveSession(
+  cookieValue: string | undefined
+): Promise<SessionWithUser | null> {
+  const token = await verifySessionCookie(cookieValue, env.AUTH_SECRET);
+  if (!token) {
+    return null;
+  }
+
+  const session = await db.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true },
+  });
+
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    return null;
+  }
+
+  // Refresh "last seen" for the Devices & sessions list
+  if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+    session.lastSeenAt = new Date();
+    await db.session.update({
+      where: { id: session.id },
+      data: { lastSeenAt: session.lastSeenAt },
+    });
+  }
+
+  return session;
+}
+
+/**
+ * List active sessions of a user, most recently used first
+ * @param currentSessionId Session making the request (flagged as current)
+ */
+export async function listActiveSessions(
+  userId: string,
+  currentSessionId?: string
+): Promise<SessionSummary[]> {
+  const sessions = await db.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    select: {
+      id: true,
+      userAgent: true,
+      ip: true,
+      createdAt: true,
+      lastSeenAt: true,
+      expiresAt: true,
+    },
+    orderBy: { lastSeenAt: "desc" },
+    take: 100, // Max limit to prevent DoS
+  });
+
+  return sessions.map((session) => ({
+    ...session,
+    current: session.id === currentSessionId,
+  }));
+}
+
+/**
+ * Revoke a single session of a user
+ * Scoped by userId so one user can never revoke another user's session by id
+ * @returns true if an active session was revoked
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const result = await db.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Revoke all sessions of a user, optionally keeping one (the current session)
+ * @returns number of revoked sessions
+ */
+export async function revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  const result = await db.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  });
+  return result.count;
+}
+
+/**
+ * Revoke the session identified by a cookie value (used on logout and rotation)
+ */
+export async function revokeSessionByCookie(cookieValue: string | undefined): Promise<void> {
+  const token = await verifySessionCookie(cookieValue, env.AUTH_SECRET);
+  if (!token) {
+    return;
+  }
+
+  await db.session.updateMany({
+    where: { tokenHash: hashToken(token), revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * Set the session cookie on a response
+ */
+export function setSessionCookie(response: NextResponse, cookieValue: string, expiresAt: Date): void {
+  response.cookies.set(SESSION_COOKIE_NAME, cookieValue, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax", // "lax" for compatibility with redirects
+    path: "/",
+    expires: expiresAt,
+  });
+}
+
+/**
+ * Clear the session cookie on a response
+ * In Next.js 15 delete() only accepts the name, so set() with maxAge: 0 is used to keep the path
+ */
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE_NAME, "", {
+    path: "/",
+    maxAge: 0,
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+  });
+}
+
+export { SESSION_COOKIE_NAME };
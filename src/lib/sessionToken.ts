@@ -0,0 +1,85 @@
+/**
+ * Session Cookie Signing
+ * Edge Runtime compatible - uses Web Crypto only (no Node.js or Prisma imports)
+ * Shared by middleware (signature check) and route handlers (session lookup)
+ */
+
+export const SESSION_COOKIE_NAME = "calendar_session";
+
+const encoder = new TextEncoder();
+
+/**
+ * Encode bytes as base64url (no padding)
+ */
+function toBase64Url(bytes: ArrayBuffer): string {
+  let binary = "";
+  const view = new Uint8Array(bytes);
+  for (let i = 0; i < view.length; i++) {
+    binary += String.fromCharCode(view[i]);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+async function getSigningKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+}
+
+/**
+ * Compute HMAC-SHA256 signature of a value
+ */
+async function sign(value: string, secret: string): Promise<string> {
+  const key = await getSigningKey(secret);
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(value));
+  return toBase64Url(signature);
+}
+
+/**
+ * Constant-time comparison (Edge Runtime has no timingSafeEqual)
+ */
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Build cookie value: "<token>.<signature>"
+ */
+export async function signSessionToken(token: string, secret: string): Promise<string> {
+  return `${token}.${await sign(token, secret)}`;
+}
+
+/**
+ * Verify cookie value signature
+ * @returns the raw token if the signature is valid, null otherwise
+ */
+export async function verifySessionCookie(
+  cookieValue: string | undefined,
+  secret: string
+): Promise<string | null> {
+  if (!cookieValue) {
+    return null;
+  }
+
+  const separatorIndex = cookieValue.lastIndexOf(".");
+  if (separatorIndex <= 0) {
+    return null;
+  }
+
+  const token = cookieValue.substring(0, separatorIndex);
+  const signature = cookieValue.substring(separatorIndex + 1);
+  const expected = await sign(token, secret);
+
+  return constantTimeEqual(signature, expected) ? token : null;
+}
@@ -0,0 +1,54 @@
+/**
+ * Workspace Settings
+ * Workspace-wide policies stored in a single WorkspaceSettings row
+ */
+
+import type { User, WorkspaceSettings } from "@prisma/client";
+import { db } from "./db";
+
+const SETTINGS_ID = "default";
+
+export type WorkspaceSettingsUpdate = Partial<Omit<WorkspaceSettings, "id" | "updatedAt">>;
+
+/**
+ * Get settings, creating the row with defaults on first access
+ */
+export async function getWorkspaceSettings(): Promise<WorkspaceSettings> {
+  return db.workspaceSettings.upsert({
+    where: { id: SETTINGS_ID },
+    create: { id: SETTINGS_ID },
+    update: {},
+  });
+}
+
+/**
+ * Update settings
+ */
+export async function updateWorkspaceSettings(
+  data: WorkspaceSettingsUpdate
+): Promise<WorkspaceSettings> {
+  return db.workspaceSettings.upsert({
+    where: { id: SETTINGS_ID },
+    create: { id: SETTINGS_ID, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Time zone a user sees times in: their own, or the workspace default
+ */
+export async function getUserTimeZone(user: Pick<User, "timeZone">): Promise<string> {
+  return user.timeZone ?? (await getWorkspaceSettings()).timeZone;
+}
+
+/**
+ * Schedule entries with the time zone their shift times are in (their user's)
+ */
+export async function withScheduleTimeZones<T extends { user: Pick<User, "timeZone"> }>(
+  entries: T[]
+): Promise<Array<T & { timeZone: string }>> {
+  const workspaceTimeZone = entries.some((entry) => !entry.user.timeZone)
+    ? (await getWorkspaceSettings()).timeZone
+    : "";
+  return entries.map((entry) => ({ ...entry, timeZone: entry.user.timeZone ?? workspaceTimeZone }));
+}
@@ -0,0 +1,58 @@
+/**
+ * Signup Policy
+ * Who may create an account without an invitation (WorkspaceSettings.signupMode)
+ */
+
+import type { WorkspaceSettings } from "@prisma/client";
+import { ForbiddenError } from "./errors";
+
+export const SIGNUP_MODES = ["OPEN", "DOMAINS", "INVITE_ONLY"] as const;
+export type SignupMode = (typeof SIGNUP_MODES)[number];
+
+/**
+ * Lowercase domain part of an email address
+ */
+export function getEmailDomain(email: string): string {
+  return email.substring(email.lastIndexOf("@") + 1).toLowerCase();
+}
+
+/**
+ * Normalize a domain entered by an admin ("@Example.com " -> "example.com")
+ */
+export function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^@/, "");
+}
+
+/**
+ * Require that self-service signup is allowed for this email
+ * Invitations bypass the policy and are checked separately
+ * Throws ForbiddenError when the policy rejects the email
+ */
+export function assertSignupAllowed(
+  email: string,
+  settings: Pick<WorkspaceSettings, "signupMode" | "allowedSignupDomains">
+): void {
+  if (settings.signupMode === "INVITE_ONLY") {
+    throw new ForbiddenError("Sign-up is by invitation only. Ask an admin to invite you.");
+  }
+
+  assertEmailDomainAllowed(email, settings);
+}
+
+/**
+ * Require an allowed domain when the workspace is limited to domains (also applies to email changes)
+ * Throws ForbiddenError for other domains
+ */
+export function assertEmailDomainAllowed(
+  email: string,
+  settings: Pick<WorkspaceSettings, "signupMode" | "allowedSignupDomains">
+): void {
+  if (
+    settings.signupMode === "DOMAINS" &&
+    !settings.allowedSignupDomains.includes(getEmailDomain(email))
+  ) {
+    throw new ForbiddenError(
+      `Sign-up is limited to these email domains: ${settings.allowedSignupDomains.join(", ")}`
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  calendarDateInTimeZone,
+  calendarDateToUtc,
+  formatCalendarDate,
+  formatCalendarDateAs,
+  fromWallTime,
+  scheduleEntryInterval,
+  timeZoneOffset,
+  toCalendarDate,
+  toWallTime,
+  zonedDateTime,
+} from "./timeZones";
+
+const wall = (value: string) => new Date(`${value}Z`);
+const HOUR_MS = 60 * 60 * 1000;
+
+// Europe/Berlin 2026: clocks jump 02:00 -> 03:00 on 29 March and go back 03:00 -> 02:00 on 25 October
+describe("DST in Europe/Berlin", () => {
+  const zone = "Europe/Berlin";
+
+  it("reads wall times on both sides of the changes", () => {
+    expect(toWallTime(new Date("2026-03-29T00:59:00Z"), zone)).toEqual(wall("2026-03-29T01:59:00"));
+    expect(toWallTime(new Date("2026-03-29T01:00:00Z"), zone)).toEqual(wall("2026-03-29T03:00:00"));
+    expect(timeZoneOffset(new Date("2026-03-28T12:00:00Z"), zone)).toBe(HOUR_MS);
+    expect(timeZoneOffset(new Date("2026-03-30T12:00:00Z"), zone)).toBe(2 * HOUR_MS);
+  });
+
+  it("moves a wall time in the spring-forward gap forward by the gap", () => {
+    expect(fromWallTime(wall("2026-03-29T02:30:00"), zone)).toEqual(new Date("2026-03-29T01:30:00Z"));
+    expect(zonedDateTime("2026-03-29", "02:00", zone)).toEqual(new Date("2026-03-29T01:00:00Z"));
+  });
+
+  it("resolves a wall time in the fall-back overlap to its first occurrence", () => {
+    // 02:30 happens twice: at 00:30Z (CEST) and at 01:30Z (CET)
+    expect(toWallTime(new Date("2026-10-25T00:30:00Z"), zone)).toEqual(wall("2026-10-25T02:30:00"));
+    expect(toWallTime(new Date("2026-10-25T01:30:00Z"), zone)).toEqual(wall("2026-10-25T02:30:00"));
+    expect(fromWallTime(wall("2026-10-25T02:30:00"), zone)).toEqual(new Date("2026-10-25T00:30:00Z"));
+  });
+
+  it("round-trips wall times away from the changes", () => {
+    for (const value of ["2026-03-29T01:59:00", "2026-03-29T03:00:00", "2026-10-25T01:59:00", "2026-10-25T03:00:00"]) {
+      expect(toWallTime(fromWallTime(wall(value), zone), zone)).toEqual(wall(value));
+    }
+  });
+
+  it("keeps shift hours in local time on the day of a change", () => {
+    const { start, end } = scheduleEntryInterval({ date: "2026-03-29", startTime: 60, endTime: 9 * 60 }, zone);
+    expect(start).toEqual(new Date("2026-03-29T00:00:00Z"));
+    expect(end).toEqual(new Date("2026-03-29T07:00:00Z"));
+    // The night is an hour shorter
+    expect(end.getTime() - start.getTime()).toBe(7 * HOUR_MS);
+  });
+});
+
+// America/New_York 2026: clocks jump on 8 March and go back on 1 November
+describe("DST in America/New_York", () => {
+  const zone = "America/New_York";
+
+  it("moves a wall time in the spring-forward gap forward by the gap", () => {
+    expect(fromWallTime(wall("2026-03-08T02:30:00"), zone)).toEqual(new Date("2026-03-08T07:30:00Z"));
+  });
+
+  it("resolves a wall time in the fall-back overlap to its first occurrence", () => {
+    expect(fromWallTime(wall("2026-11-01T01:30:00"), zone)).toEqual(new Date("2026-11-01T05:30:00Z"));
+  });
+});
+
+describe("calendar dates", () => {
+  it("are stored as midnight UTC and read back the same in every zone", () => {
+    const stored = calendarDateToUtc("2026-03-29");
+    expect(stored).toEqual(new Date("2026-03-29T00:00:00Z"));
+    expect(formatCalendarDate(stored)).toBe("2026-03-29");
+    expect(formatCalendarDateAs(stored, "yyyy-MM-dd")).toBe("2026-03-29");
+    expect(formatCalendarDate(stored.toISOString())).toBe("2026-03-29");
+  });
+
+  it("take the UTC date of an all-day item sent as midnight UTC", () => {
+    expect(toCalendarDate(new Date("2026-10-25T00:00:00Z"))).toEqual(new Date("2026-10-25T00:00:00Z"));
+    expect(toCalendarDate(new Date("2026-10-25T23:30:00Z"))).toEqual(new Date("2026-10-25T00:00:00Z"));
+  });
+
+  it("of an instant depend on the zone", () => {
+    const instant = new Date("2026-03-28T23:30:00Z");
+    expect(calendarDateInTimeZone(instant, "UTC")).toBe("2026-03-28");
+    expect(calendarDateInTimeZone(instant, "Europe/Berlin")).toBe("2026-03-29");
+    expect(calendarDateInTimeZone(instant, "America/New_York")).toBe("2026-03-28");
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Time Zones
+ * Client-safe (no server imports) - shared by the API and the UI
+ * Times are stored in UTC and shown in the viewer's IANA zone (their own or the workspace default).
+ * Items remember the zone they were planned in, so a recurring item keeps its local time across DST changes.
+ * All-day items and schedule dates are calendar dates, stored as midnight UTC.
+ * "Wall time" is a local time in some zone, held in a Date's UTC fields.
+ */
+
+import { format } from "date-fns";
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let result = formatters.get(timeZone);
+  if (!result) {
+    result = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, result);
+  }
+  return result;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * IANA zones known to the runtime, for pickers
+ */
+export function listTimeZones(): string[] {
+  const zones = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+  return zones.includes(DEFAULT_TIME_ZONE) ? zones : [DEFAULT_TIME_ZONE, ...zones];
+}
+
+/**
+ * Zone of the browser (or the server process)
+ */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Wall time of an instant in a zone
+ */
+export function toWallTime(date: Date, timeZone: string): Date {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of formatter(timeZone).formatToParts(date)) {
+    if (type !== "literal") parts[type] = Number(value);
+  }
+  return new Date(
+    Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, date.getUTCMilliseconds())
+  );
+}
+
+/**
+ * Offset of a zone from UTC at an instant, in milliseconds (positive east of Greenwich)
+ */
+export function timeZoneOffset(date: Date, timeZone: string): number {
+  return toWallTime(date, timeZone).getTime() - date.getTime();
+}
+
+/**
+ * Instant of a wall time in a zone
+ * A time skipped by a DST change (02:30 when clocks jump from 02:00 to 03:00) moves forward by the gap;
+ * a repeated one (02:30 when clocks go back from 03:00 to 02:00) is its first occurrence
+ */
+export function fromWallTime(wallTime: Date, timeZone: string): Date {
+  const wall = wallTime.getTime();
+  const before = timeZoneOffset(new Date(wall - DAY_MS), timeZone);
+  const after = timeZoneOffset(new Date(wall + DAY_MS), timeZone);
+
+  const matches = [wall - before, wall - after].filter(
+    (time) => toWallTime(new Date(time), timeZone).getTime() === wall
+  );
+  return new Date(matches.length ? Math.min(...matches) : wall - Math.min(before, after));
+}
+
+/**
+ * Instant of a local date ("yyyy-MM-dd") and time ("HH:mm") in a zone
+ */
+export function zonedDateTime(date: string, time: string, timeZone: string): Date {
+  return fromWallTime(new Date(`${date}T${time}:00.000Z`), timeZone);
+}
+
+/**
+ * Format an instant in a zone with a date-fns pattern
+ */
+export function formatInTimeZone(date: Date | string, timeZone: string, pattern: string): string {
+  const wall = toWallTime(new Date(date), timeZone);
+  return format(
+    new Date(
+      wall.getUTCFullYear(),
+      wall.getUTCMonth(),
+      wall.getUTCDate(),
+      wall.getUTCHours(),
+      wall.getUTCMinutes(),
+      wall.getUTCSeconds()
+    ),
+    pattern
+  );
+}
+
+/**
+ * Calendar date ("yyyy-MM-dd") of an instant in a zone
+ */
+export function calendarDateInTimeZone(date: Date, timeZone: string): string {
+  return toWallTime(date, timeZone).toISOString().slice(0, 10);
+}
+
+/**
+ * Stored form of a calendar date ("yyyy-MM-dd"): midnight UTC
+ */
+export function calendarDateToUtc(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+/**
+ * Stored form of the calendar date an instant falls on in UTC (all-day items are sent as midnight UTC)
+ */
+export function toCalendarDate(date: Date): Date {
+  return calendarDateToUtc(formatCalendarDate(date));
+}
+
+/**
+ * Calendar date ("yyyy-MM-dd") of a stored all-day item or schedule date
+ */
+export function formatCalendarDate(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+/**
+ * Format a stored calendar date with a date-fns pattern
+ */
+export function formatCalendarDateAs(date: Date | string, pattern: string): string {
+  return formatInTimeZone(date, "UTC", pattern);
+}
+
+/**
+ * Instants of a shift: its date and minutes since midnight, in the zone of the person working it
+ */
+export function scheduleEntryInterval(
+  entry: { date: Date | string; startTime: number; endTime: number },
+  timeZone: string
+): { start: Date; end: Date } {
+  const day = formatCalendarDate(entry.date);
+  const clock = (minutes: number) =>
+    `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+  return {
+    start: zonedDateTime(day, clock(entry.startTime), timeZone),
+    end: zonedDateTime(day, clock(entry.endTime), timeZone),
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Token Utilities
+ * Opaque random tokens for sessions and one-time links
+ * Only hashes are ever persisted - the raw token is given to the client once
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * Generate a URL-safe random token
+ * @param bytes Number of random bytes (default 32 = 256 bits)
+ */
+export function generateToken(bytes: number = 32): string {
+  return randomBytes(bytes).toString("base64url");
+}
+
+/**
+ * Hash a token for storage (SHA-256, hex)
+ * Tokens have full entropy, so a fast hash is sufficient (no bcrypt needed)
+ */
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Constant-time string comparison
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  if (bufA.length !== bufB.length) {
+    return false;
+  }
+  return timingSafeEqual(bufA, bufB);
+}
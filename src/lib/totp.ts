@@ -0,0 +1,143 @@
+/**
+ * TOTP (RFC 6238)
+ * Time-based one-time passwords compatible with Google Authenticator, 1Password, Authy, etc.
+ * SHA-1, 6 digits, 30-second steps - the defaults every authenticator app supports
+ */
+
+import { createHmac, randomBytes } from "crypto";
+import { safeEqual } from "./tokens";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+
+// Accept codes from one step before/after the current one (clock drift)
+const ALLOWED_DRIFT_STEPS = 1;
+
+/**
+ * Encode bytes as base32 (RFC 4648, no padding)
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode base32 (case-insensitive, spaces and padding ignored)
+ */
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a new random secret (160 bits, as recommended by RFC 4226)
+ * @returns base32-encoded secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Time step for a moment in time
+ */
+export function getTimeStep(date: Date = new Date()): number {
+  return Math.floor(date.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * Compute the code for a given time step (HOTP, RFC 4226)
+ */
+export function generateTotpCode(secret: string, step: number = getTimeStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Verify a code against the secret
+ * @param lastUsedStep Last accepted step - codes from that step or earlier are rejected (replay protection)
+ * @returns the matched time step, or null if the code is invalid
+ */
+export function verifyTotpCode(
+  secret: string,
+  code: string,
+  lastUsedStep?: number | null,
+  date: Date = new Date()
+): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const currentStep = getTimeStep(date);
+  for (let drift = -ALLOWED_DRIFT_STEPS; drift <= ALLOWED_DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+    if (lastUsedStep != null && step <= lastUsedStep) {
+      continue;
+    }
+    if (safeEqual(generateTotpCode(secret, step), normalized)) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build an otpauth:// URI for authenticator apps (rendered as a QR code or opened directly)
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,253 @@
+/**
+ * Two-Factor Authentication
+ * TOTP enrollment, recovery codes, the 2FA policy and the stateless login challenge
+ */
+
+import { createHmac, randomBytes } from "crypto";
+import type { User } from "@prisma/client";
+import { db } from "./db";
+import { env } from "./env";
+import { decryptSecret, encryptSecret } from "./encryption";
+import { ForbiddenError, ValidationError } from "./errors";
+import { getWorkspaceSettings } from "./settings";
+import { hashToken, safeEqual } from "./tokens";
+import { buildOtpauthUri, generateTotpSecret, verifyTotpCode } from "./totp";
+
+const TOTP_ISSUER = "Calendar";
+const RECOVERY_CODE_COUNT = 10;
+const LOGIN_CHALLENGE_TTL_MS = 1000 * 60 * 5; // 5 minutes to enter the code
+
+type TwoFactorUser = Pick<User, "id" | "role" | "totpEnabledAt">;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Whether the 2FA policy requires this user to use two-factor authentication
+ */
+export async function isTwoFactorRequired(user: Pick<User, "role">): Promise<boolean> {
+  if (user.role !== "ADMIN") {
+    return false;
+  }
+  const settings = await getWorkspaceSettings();
+  return settings.adminTwoFactorRequired;
+}
+
+/**
+ * Whether the user must enroll before using privileged endpoints
+ */
+export async function needsTwoFactorEnrollment(user: TwoFactorUser): Promise<boolean> {
+  return !user.totpEnabledAt && (await isTwoFactorRequired(user));
+}
+
+export async function getTwoFactorStatus(user: TwoFactorUser): Promise<TwoFactorStatus> {
+  const [required, recoveryCodesRemaining] = await Promise.all([
+    isTwoFactorRequired(user),
+    user.totpEnabledAt
+      ? db.recoveryCode.count({ where: { userId: user.id, usedAt: null } })
+      : Promise.resolve(0),
+  ]);
+
+  return {
+    enabled: !!user.totpEnabledAt,
+    enabledAt: user.totpEnabledAt,
+    required,
+    recoveryCodesRemaining,
+  };
+}
+
+/**
+ * Start enrollment: generate a new secret (not active until confirmed with enableTwoFactor)
+ */
+export async function beginTwoFactorSetup(
+  user: Pick<User, "id" | "email" | "totpEnabledAt">
+): Promise<{ secret: string; otpauthUri: string }> {
+  if (user.totpEnabledAt) {
+    throw new ValidationError("Two-factor authentication is already enabled");
+  }
+
+  const secret = generateTotpSecret();
+  await db.user.update({
+    where: { id: user.id },
+    data: { totpSecret: encryptSecret(secret), totpLastUsedStep: null },
+  });
+
+  return { secret, otpauthUri: buildOtpauthUri(secret, user.email, TOTP_ISSUER) };
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app
+ * @returns recovery codes (shown to the user once)
+ */
+export async function enableTwoFactor(userId: string, code: string): Promise<string[]> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpEnabledAt: true },
+  });
+
+  if (!user?.totpSecret || user.totpEnabledAt) {
+    throw new ValidationError("Start two-factor setup first");
+  }
+
+  const step = verifyTotpCode(decryptSecret(user.totpSecret), code);
+  if (step === null) {
+    throw new ValidationError("Invalid authentication code");
+  }
+
+  const codes = generateRecoveryCodes();
+  await db.$transaction([
+    db.user.update({
+      where: { id: userId },
+      data: { totpEnabledAt: new Date(), totpLastUsedStep: step },
+    }),
+    db.recoveryCode.deleteMany({ where: { userId } }),
+    db.recoveryCode.createMany({
+      data: codes.map((c) => ({ userId, codeHash: hashRecoveryCode(c) })),
+    }),
+  ]);
+
+  return codes;
+}
+
+/**
+ * Turn 2FA off (requires a valid code; not allowed when the policy requires 2FA)
+ */
+export async function disableTwoFactor(user: TwoFactorUser, code: string): Promise<void> {
+  if (await isTwoFactorRequired(user)) {
+    throw new ForbiddenError("Two-factor authentication is required for your account");
+  }
+
+  if (!(await verifySecondFactor(user.id, code))) {
+    throw new ValidationError("Invalid authentication code");
+  }
+
+  await db.$transaction([
+    db.user.update({
+      where: { id: user.id },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+    }),
+    db.recoveryCode.deleteMany({ where: { userId: user.id } }),
+  ]);
+}
+
+/**
+ * Replace all recovery codes (requires a valid code)
+ */
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+  if (!(await verifySecondFactor(userId, code))) {
+    throw new ValidationError("Invalid authentication code");
+  }
+
+  const codes = generateRecoveryCodes();
+  await db.$transaction([
+    db.recoveryCode.deleteMany({ where: { userId } }),
+    db.recoveryCode.createMany({
+      data: codes.map((c) => ({ userId, codeHash: hashRecoveryCode(c) })),
+    }),
+  ]);
+
+  return codes;
+}
+
+/**
+ * Verify a TOTP code or an unused recovery code for a user with 2FA enabled
+ * Accepted codes are consumed (TOTP step recorded, recovery code marked used)
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<boolean> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpEnabledAt: true, totpLastUsedStep: true },
+  });
+
+  if (!user?.totpSecret || !user.totpEnabledAt) {
+    return false;
+  }
+
+  const step = verifyTotpCode(decryptSecret(user.totpSecret), code, user.totpLastUsedStep);
+  if (step !== null) {
+    // Conditional update - a concurrent request with the same code loses
+    const updated = await db.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+      },
+      data: { totpLastUsedStep: step },
+    });
+    return updated.count > 0;
+  }
+
+  const used = await db.recoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return used.count > 0;
+}
+
+/**
+ * Recovery codes look like "abcde-12345" (50 bits each)
+ */
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base36(randomBytes(8)).padStart(10, "0").substring(0, 10);
+    return `${raw.substring(0, 5)}-${raw.substring(5)}`;
+  });
+}
+
+function base36(bytes: Buffer): string {
+  return BigInt(`0x${bytes.toString("hex")}`).toString(36);
+}
+
+function hashRecoveryCode(code: string): string {
+  return hashToken(code.toLowerCase().replace(/[\s-]/g, ""));
+}
+
+// ============================================
+// LOGIN CHALLENGE
+// ============================================
+
+// After a correct password the client receives a short-lived challenge signed with
+// AUTH_SECRET instead of a session; it is exchanged for a session together with a code.
+
+function signChallenge(payload: string): string {
+  return createHmac("sha256", `2fa-challenge:${env.AUTH_SECRET}`)
+    .update(payload)
+    .digest("base64url");
+}
+
+/**
+ * Issue a login challenge for a user who passed the password check
+ */
+export function createLoginChallenge(userId: string): string {
+  const payload = Buffer.from(
+    JSON.stringify({ sub: userId, exp: Date.now() + LOGIN_CHALLENGE_TTL_MS })
+  ).toString("base64url");
+  return `${payload}.${signChallenge(payload)}`;
+}
+
+/**
+ * Verify a login challenge
+ * @returns user id, or null if the challenge is forged or expired
+ */
+export function verifyLoginChallenge(challenge: string): string | null {
+  const [payload, signature] = challenge.split(".");
+  if (!payload || !signature || !safeEqual(signature, signChallenge(payload))) {
+    return null;
+  }
+
+  try {
+    const { sub, exp } = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as {
+      sub?: unknown;
+      exp?: unknown;
+    };
+    if (typeof sub !== "string" || typeof exp !== "number" || exp <= Date.now()) {
+      return null;
+    }
+    return sub;
+  } catch {
+    return null;
+  }
+}
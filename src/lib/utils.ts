@@ -71,3 +71,40 @@ export function stringToColor(str: string): string {
   ];
   return colors[Math.abs(hash) % colors.length];
 }
+
+/**
+ * Describe a user agent string as "Browser on OS" (best effort, for session lists)
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) {
+    return "Unknown device";
+  }
+
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /OPR\//.test(userAgent)
+      ? "Opera"
+      : /Chrome\//.test(userAgent)
+        ? "Chrome"
+        : /Firefox\//.test(userAgent)
+          ? "Firefox"
+          : /Safari\//.test(userAgent)
+            ? "Safari"
+            : /curl|node|python|axios/i.test(userAgent)
+              ? "Script"
+              : "Browser";
+
+  const os = /Windows/.test(userAgent)
+    ? "Windows"
+    : /iPhone|iPad/.test(userAgent)
+      ? "iOS"
+      : /Mac OS X/.test(userAgent)
+        ? "macOS"
+        : /Android/.test(userAgent)
+          ? "Android"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : null;
+
+  return os ? `${browser} on ${os}` : browser;
+}
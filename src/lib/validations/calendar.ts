@@ -1,61 +1,129 @@
 import { z } from "zod";
+import { isValidRecurrenceRule } from "../recurrence";
+import { isValidTimeZone } from "../timeZones";
 
 export const CalendarItemTypeSchema = z.enum(["MEETING", "DEADLINE"]);
 export const ItemStatusSchema = z.enum(["DRAFT", "CONFIRMED", "DONE", "CANCELED"]);
 export const ParticipantRoleSchema = z.enum(["OWNER", "PARTICIPANT", "RESPONSIBLE"]);
 export const RsvpStatusSchema = z.enum(["YES", "NO", "MAYBE"]);
+export const VisibilitySchema = z.enum(["PUBLIC", "BUSY_ONLY", "PRIVATE"]);
+export const RecurrenceScopeSchema = z.enum(["this", "following", "all"]);
+
+// RFC 5545 RRULE value (supported subset, see lib/recurrence)
+export const RecurrenceRuleSchema = z
+  .string()
+  .max(500)
+  .refine(isValidRecurrenceRule, "Unsupported or invalid recurrence rule");
+
+// IANA time zone name, e.g. Europe/Berlin
+export const TimeZoneSchema = z.string().max(64).refine(isValidTimeZone, "Unknown time zone");
+
+// Longest from/to window a query may ask for (series are expanded over the whole window)
+export const MAX_QUERY_RANGE_DAYS = 366;
 
 // Query params for GET /api/calendar/items
-export const GetCalendarItemsSchema = z.object({
-  from: z.string().datetime().optional(),
-  to: z.string().datetime().optional(),
-  type: CalendarItemTypeSchema.optional(),
-  status: ItemStatusSchema.optional(),
-  search: z.string().optional(),
-});
+export const GetCalendarItemsSchema = z
+  .object({
+    from: z.string().datetime().optional(),
+    to: z.string().datetime().optional(),
+    type: CalendarItemTypeSchema.optional(),
+    status: ItemStatusSchema.optional(),
+    search: z.string().optional(),
+    onBehalfOf: z.string().min(1).optional(), // Principal id - a delegate viewing their calendar
+  })
+  .refine((data) => !data.from || !data.to || new Date(data.to) >= new Date(data.from), {
+    message: "to must not be before from",
+    path: ["to"],
+  })
+  .refine(
+    (data) =>
+      !data.from ||
+      !data.to ||
+      new Date(data.to).getTime() - new Date(data.from).getTime() <= MAX_QUERY_RANGE_DAYS * 24 * 60 * 60 * 1000,
+    { message: `The window may span at most ${MAX_QUERY_RANGE_DAYS} days`, path: ["to"] }
+  );
 
 // Create calendar item
-export const CreateCalendarItemSchema = z.object({
-  type: CalendarItemTypeSchema,
-  title: z.string().min(1, "Title is required").max(255),
-  description: z.string().max(1000).optional(),
-  startAt: z.string().datetime(),
-  endAt: z.string().datetime().optional(),
-  allDay: z.boolean().optional().default(false),
-  status: ItemStatusSchema.optional().default("DRAFT"),
-  location: z.string().max(255).optional(),
-  participants: z
-    .array(
-      z.object({
-        userId: z.string(),
-        role: ParticipantRoleSchema.optional().default("PARTICIPANT"),
-      })
-    )
-    .optional(),
-});
+// endAt may fall on a later day (multi-day and overnight items); for all-day items it is the day after the last day
+export const CreateCalendarItemSchema = z
+  .object({
+    type: CalendarItemTypeSchema,
+    title: z.string().min(1, "Title is required").max(255),
+    description: z.string().max(1000).optional(),
+    startAt: z.string().datetime(),
+    endAt: z.string().datetime().optional(),
+    allDay: z.boolean().optional().default(false), // startAt is then a date: midnight UTC
+    timeZone: TimeZoneSchema.optional(), // Default: the creator's time zone
+    status: ItemStatusSchema.optional().default("DRAFT"),
+    location: z.string().max(255).optional(),
+    visibility: VisibilitySchema.optional().default("PUBLIC"),
+    recurrence: RecurrenceRuleSchema.optional(),
+    onBehalfOf: z.string().min(1).optional(), // Principal id - a delegate creating an item for them
+    // Meetings: fail with 409 on scheduling conflicts instead of saving and returning them
+    rejectOnConflict: z.boolean().optional(),
+    participants: z
+      .array(
+        z.object({
+          userId: z.string(),
+          role: ParticipantRoleSchema.optional().default("PARTICIPANT"),
+        })
+      )
+      .optional(),
+  })
+  .refine((data) => !data.endAt || new Date(data.endAt) > new Date(data.startAt), {
+    message: "End must be after start",
+    path: ["endAt"],
+  });
 
 // Update calendar item
-export const UpdateCalendarItemSchema = z.object({
-  type: CalendarItemTypeSchema.optional(),
-  title: z.string().min(1).max(255).optional(),
-  description: z.string().max(1000).nullable().optional(),
-  startAt: z.string().datetime().optional(),
-  endAt: z.string().datetime().nullable().optional(),
-  allDay: z.boolean().optional(),
-  status: ItemStatusSchema.optional(),
-  location: z.string().max(255).nullable().optional(),
-  participants: z
-    .array(
-      z.object({
-        userId: z.string(),
-        role: ParticipantRoleSchema.optional().default("PARTICIPANT"),
-        rsvp: RsvpStatusSchema.optional(),
-      })
-    )
-    .optional(),
+export const UpdateCalendarItemSchema = z
+  .object({
+    type: CalendarItemTypeSchema.optional(),
+    title: z.string().min(1).max(255).optional(),
+    description: z.string().max(1000).nullable().optional(),
+    startAt: z.string().datetime().optional(),
+    endAt: z.string().datetime().nullable().optional(),
+    allDay: z.boolean().optional(),
+    timeZone: TimeZoneSchema.optional(),
+    status: ItemStatusSchema.optional(),
+    location: z.string().max(255).nullable().optional(),
+    visibility: VisibilitySchema.optional(),
+    recurrence: RecurrenceRuleSchema.nullable().optional(),
+    // Recurring series: which occurrences the change applies to (default: the whole series)
+    scope: RecurrenceScopeSchema.optional(),
+    occurrenceStart: z.string().datetime().optional(),
+    rejectOnConflict: z.boolean().optional(),
+    participants: z
+      .array(
+        z.object({
+          userId: z.string(),
+          role: ParticipantRoleSchema.optional().default("PARTICIPANT"),
+        })
+      )
+      .optional(),
+  })
+  .refine((data) => !data.startAt || !data.endAt || new Date(data.endAt) > new Date(data.startAt), {
+    message: "End must be after start",
+    path: ["endAt"],
+  });
+
+// Query params for DELETE /api/calendar/items/:id
+export const DeleteCalendarItemSchema = z.object({
+  scope: RecurrenceScopeSchema.optional(),
+  occurrenceStart: z.string().datetime().optional(),
+});
+
+// RSVP of the current user (or of a principal, for delegates with the RSVP scope)
+export const RsvpSchema = z.object({
+  rsvp: RsvpStatusSchema,
+  comment: z.string().trim().max(500).optional(), // Replaces the previous comment; empty clears it
+  onBehalfOf: z.string().min(1).optional(),
 });
 
 // Types
 export type GetCalendarItemsInput = z.infer<typeof GetCalendarItemsSchema>;
 export type CreateCalendarItemInput = z.infer<typeof CreateCalendarItemSchema>;
 export type UpdateCalendarItemInput = z.infer<typeof UpdateCalendarItemSchema>;
+export type DeleteCalendarItemInput = z.infer<typeof DeleteCalendarItemSchema>;
+export type RecurrenceScope = z.infer<typeof RecurrenceScopeSchema>;
+export type RsvpInput = z.infer<typeof RsvpSchema>;
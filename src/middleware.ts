@@ -1,5 +1,28 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import { env } from "@/lib/env";
+import { SESSION_COOKIE_NAME, verifySessionCookie } from "@/lib/sessionToken";
+import { CSRF_COOKIE_NAME, generateCsrfToken } from "@/lib/csrfToken";
+import { corsPreflightResponse, withCorsHeaders } from "@/lib/cors";
+
+// Methods cross-origin callers from the CORS allowlist may use on the API
+const API_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+
+/**
+ * Issue the CSRF cookie if the browser does not have one yet
+ * Readable by client JS (not httpOnly) - the client copies it into the X-CSRF-Token header
+ */
+function ensureCsrfCookie(request: NextRequest, response: NextResponse): NextResponse {
+  if (!request.cookies.get(CSRF_COOKIE_NAME)?.value) {
+    response.cookies.set(CSRF_COOKIE_NAME, generateCsrfToken(), {
+      httpOnly: false,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+    });
+  }
+  return response;
+}
 
 /**
  * Middleware for authentication check
@@ -8,32 +31,40 @@ import type { NextRequest } from "next/server";
 export async function middleware(request: NextRequest) {
   const pathname = request.nextUrl.pathname;
 
-  // Skip all API routes - they handle authentication themselves
+  // API routes handle authentication themselves - only CORS is handled here
   if (pathname.startsWith("/api/")) {
-    return NextResponse.next();
+    if (request.method === "OPTIONS" && request.headers.get("access-control-request-method")) {
+      return corsPreflightResponse(request, API_METHODS);
+    }
+    return withCorsHeaders(request, NextResponse.next());
   }
 
   // Public pages (no auth required)
-  const publicPaths = ["/login"];
+  const publicPaths = ["/login", "/forgot-password", "/reset-password", "/verify-email"];
   if (publicPaths.includes(pathname)) {
-    return NextResponse.next();
+    return ensureCsrfCookie(request, NextResponse.next());
   }
 
-  // Check for user ID cookie
-  const userId = request.cookies.get("calendar_auth_user_id")?.value;
+  // Check session cookie signature (expiry and revocation are checked by the API/pages against the DB)
+  const cookieValue = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const token = await verifySessionCookie(cookieValue, env.AUTH_SECRET);
 
-  // If no cookie - redirect to login
-  if (!userId) {
+  // If no cookie or forged cookie - redirect to login
+  if (!token) {
     const loginUrl = new URL("/login", request.url);
     loginUrl.searchParams.set("redirect", pathname);
-    return NextResponse.redirect(loginUrl);
+    const response = NextResponse.redirect(loginUrl);
+    if (cookieValue) {
+      response.cookies.delete(SESSION_COOKIE_NAME);
+    }
+    return response;
   }
 
   // Note: Admin page access is checked at the page level, not in middleware
   // This avoids potential issues with Prisma client in middleware (Edge Runtime incompatible)
   // API routes check access themselves via requireAdmin()
 
-  return NextResponse.next();
+  return ensureCsrfCookie(request, NextResponse.next());
 }
 
 export const config = {
@@ -43,9 +74,8 @@ export const config = {
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
-     * - api/ routes (completely excluded - they handle auth themselves)
      * - public folder files (images, etc.)
      */
-    "/((?!_next/static|_next/image|favicon.ico|api/|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)",
+    "/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)",
   ],
 };